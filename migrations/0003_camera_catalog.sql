@@ -0,0 +1,41 @@
+CREATE TABLE IF NOT EXISTS cameras (
+  source TEXT NOT NULL,
+  camera_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  image_host TEXT,
+  image_path TEXT NOT NULL,
+  stream TEXT,
+  latitude REAL,
+  longitude REAL,
+  status TEXT NOT NULL DEFAULT 'active',
+  payload TEXT NOT NULL,
+  first_seen_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (source, camera_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cameras_source_status
+  ON cameras(source, status);
+
+CREATE TABLE IF NOT EXISTS camera_catalog_syncs (
+  source TEXT PRIMARY KEY,
+  synced_at INTEGER NOT NULL,
+  cameras INTEGER NOT NULL,
+  changes INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS camera_catalog_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source TEXT NOT NULL,
+  camera_id TEXT NOT NULL,
+  change_type TEXT NOT NULL,
+  previous TEXT,
+  current TEXT,
+  detected_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_catalog_changes_time
+  ON camera_catalog_changes(detected_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_camera_catalog_changes_camera_time
+  ON camera_catalog_changes(camera_id, detected_at DESC);
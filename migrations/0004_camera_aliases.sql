@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS camera_aliases (
+  alias TEXT PRIMARY KEY,
+  camera_id TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_aliases_camera
+  ON camera_aliases(camera_id);
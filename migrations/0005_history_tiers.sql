@@ -0,0 +1,5 @@
+ALTER TABLE camera_snapshots ADD COLUMN tier INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE camera_snapshots ADD COLUMN retention_policy TEXT NOT NULL DEFAULT 'default';
+
+CREATE INDEX IF NOT EXISTS idx_camera_snapshots_retention
+  ON camera_snapshots(retention_policy, tier, captured_at);
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS camera_capture_schedule (
+  camera_id TEXT PRIMARY KEY,
+  last_attempt_at INTEGER NOT NULL,
+  next_capture_at INTEGER NOT NULL,
+  interval_ms INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  duplicate_rate REAL NOT NULL DEFAULT 0,
+  failures INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_capture_schedule_next
+  ON camera_capture_schedule(next_capture_at);
@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS pulse_subscriptions (
+  id TEXT PRIMARY KEY,
+  webhook_url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  filters TEXT NOT NULL,
+  min_severity TEXT NOT NULL,
+  min_confidence TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  disabled_at INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS pulse_deliveries (
+  subscription_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at INTEGER NOT NULL,
+  last_status INTEGER,
+  last_error TEXT,
+  created_at INTEGER NOT NULL,
+  delivered_at INTEGER,
+  PRIMARY KEY (subscription_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_deliveries_due
+  ON pulse_deliveries(status, next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_deliveries_created
+  ON pulse_deliveries(created_at);
@@ -0,0 +1,66 @@
+CREATE TABLE IF NOT EXISTS pulse_observations (
+  id TEXT PRIMARY KEY,
+  camera_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  corridor TEXT,
+  latitude REAL,
+  longitude REAL,
+  state TEXT NOT NULL,
+  change_type TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  confidence TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  peak_score INTEGER NOT NULL,
+  opened_at INTEGER NOT NULL,
+  last_seen_at INTEGER NOT NULL,
+  closed_at INTEGER,
+  latest TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_observations_open
+  ON pulse_observations(closed_at, camera_id);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_observations_opened
+  ON pulse_observations(opened_at);
+
+CREATE TABLE IF NOT EXISTS pulse_observation_states (
+  observation_id TEXT NOT NULL,
+  entered_at INTEGER NOT NULL,
+  state TEXT NOT NULL,
+  change_type TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  PRIMARY KEY (observation_id, entered_at, state)
+);
+
+CREATE TABLE IF NOT EXISTS pulse_events (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  detail TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  confidence TEXT NOT NULL,
+  center_lat REAL,
+  center_lng REAL,
+  camera_ids TEXT NOT NULL,
+  peak_camera_count INTEGER NOT NULL,
+  opened_at INTEGER NOT NULL,
+  last_seen_at INTEGER NOT NULL,
+  closed_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_events_open
+  ON pulse_events(closed_at);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_events_opened
+  ON pulse_events(opened_at);
+
+CREATE TABLE IF NOT EXISTS pulse_event_observations (
+  event_id TEXT NOT NULL,
+  observation_id TEXT NOT NULL,
+  camera_id TEXT NOT NULL,
+  joined_at INTEGER NOT NULL,
+  PRIMARY KEY (event_id, observation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_event_observations_observation
+  ON pulse_event_observations(observation_id);
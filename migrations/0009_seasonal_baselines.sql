@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS camera_baselines (
+  camera_id TEXT NOT NULL,
+  hour_of_week INTEGER NOT NULL,
+  samples INTEGER NOT NULL,
+  fingerprint TEXT NOT NULL,
+  pixel_spread REAL NOT NULL,
+  luma_p10 REAL NOT NULL,
+  luma_median REAL NOT NULL,
+  luma_p90 REAL NOT NULL,
+  contrast_p10 REAL NOT NULL,
+  contrast_median REAL NOT NULL,
+  contrast_p90 REAL NOT NULL,
+  built_at INTEGER NOT NULL,
+  PRIMARY KEY (camera_id, hour_of_week)
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_baselines_hour
+  ON camera_baselines(hour_of_week);
+
+CREATE TABLE IF NOT EXISTS camera_baseline_builds (
+  camera_id TEXT PRIMARY KEY,
+  built_at INTEGER NOT NULL,
+  samples INTEGER NOT NULL,
+  buckets INTEGER NOT NULL
+);
@@ -0,0 +1,4 @@
+ALTER TABLE camera_snapshots ADD COLUMN visual_features TEXT;
+ALTER TABLE camera_snapshots ADD COLUMN fingerprint_version INTEGER;
+
+UPDATE camera_snapshots SET fingerprint_version = 1 WHERE visual_fingerprint IS NOT NULL;
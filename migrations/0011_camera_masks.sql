@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS camera_masks (
+  camera_id TEXT PRIMARY KEY,
+  include_polygons TEXT NOT NULL,
+  exclude_polygons TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
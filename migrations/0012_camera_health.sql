@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS camera_health (
+  camera_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  hour_start INTEGER NOT NULL,
+  ok INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  last_ok_at INTEGER,
+  last_error_at INTEGER,
+  PRIMARY KEY (camera_id, kind, hour_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_health_hour
+  ON camera_health(hour_start);
+
+CREATE INDEX IF NOT EXISTS idx_cameras_image_path
+  ON cameras(image_path);
+
+CREATE INDEX IF NOT EXISTS idx_cameras_stream
+  ON cameras(stream);
@@ -0,0 +1,49 @@
+CREATE TABLE IF NOT EXISTS cron_ticks (
+  scheduled_at INTEGER PRIMARY KEY,
+  finished_at INTEGER NOT NULL,
+  cameras INTEGER,
+  due INTEGER,
+  selected INTEGER,
+  deferred INTEGER,
+  pulse INTEGER,
+  stored INTEGER,
+  duplicate INTEGER,
+  failed INTEGER,
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS upstream_checks (
+  upstream TEXT NOT NULL,
+  hour_start INTEGER NOT NULL,
+  ok INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  timed INTEGER NOT NULL DEFAULT 0,
+  last_ok_at INTEGER,
+  last_error_at INTEGER,
+  last_error TEXT,
+  PRIMARY KEY (upstream, hour_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_upstream_checks_hour
+  ON upstream_checks(hour_start);
+
+CREATE TABLE IF NOT EXISTS upstream_status (
+  upstream TEXT PRIMARY KEY,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  failing_since INTEGER,
+  checked_at INTEGER NOT NULL,
+  last_error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS status_incidents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  upstream TEXT NOT NULL,
+  started_at INTEGER NOT NULL,
+  resolved_at INTEGER,
+  failures INTEGER NOT NULL,
+  last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_incidents_started
+  ON status_incidents(started_at DESC);
@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS metric_series (
+  name TEXT NOT NULL,
+  labels TEXT NOT NULL,
+  value REAL NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (name, labels)
+);
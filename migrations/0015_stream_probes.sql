@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS stream_probes (
+  camera_id TEXT PRIMARY KEY,
+  stream TEXT NOT NULL,
+  status TEXT NOT NULL,
+  checked_at INTEGER NOT NULL,
+  media_sequence INTEGER,
+  segments INTEGER,
+  target_duration REAL,
+  bandwidth INTEGER,
+  advanced_at INTEGER,
+  last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_stream_probes_checked
+  ON stream_probes(checked_at);
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS stream_clips (
+  id TEXT PRIMARY KEY,
+  camera_id TEXT NOT NULL,
+  stream TEXT NOT NULL,
+  trigger TEXT NOT NULL,
+  observation_id TEXT,
+  status TEXT NOT NULL,
+  requested_at INTEGER NOT NULL,
+  finished_at INTEGER,
+  duration REAL,
+  segments INTEGER,
+  bytes INTEGER,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_stream_clips_camera
+  ON stream_clips(camera_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stream_clips_requested
+  ON stream_clips(requested_at);
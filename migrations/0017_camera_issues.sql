@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS camera_issues (
+  camera_id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  issue TEXT NOT NULL,
+  since INTEGER NOT NULL,
+  last_captured_at INTEGER NOT NULL,
+  captures INTEGER NOT NULL,
+  detail TEXT NOT NULL,
+  checked_at INTEGER NOT NULL
+);
@@ -0,0 +1,65 @@
+import type { Camera } from './providers';
+
+type AliasD1Statement = {
+  bind: (...values: unknown[]) => AliasD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type AliasD1Reader = { prepare: (query: string) => AliasD1Statement };
+
+type AliasD1Database = AliasD1Reader & {
+  batch: (statements: AliasD1Statement[]) => Promise<unknown>;
+};
+
+export type AliasBindings = { HISTORY_DB?: AliasD1Database };
+
+export type AliasReason = 'legacy' | 'reidentified';
+export type AliasLink = { alias: string; cameraId: string; reason: AliasReason };
+
+const STATEMENT_BATCH = 50;
+
+/** Matches `camera_snapshots.camera_id` for a canonical ID and every alias that points at it. Binds the ID twice. */
+export const CAMERA_ID_MATCH = 'camera_id IN (SELECT ? UNION ALL SELECT alias FROM camera_aliases WHERE camera_id = ?)';
+
+export function legacyAliases(cameras: Camera[]): AliasLink[] {
+  const canonical = new Set(cameras.map((camera) => camera.id));
+  // An old ID that is now another camera's canonical ID is ambiguous; it must keep meaning that camera.
+  return cameras.flatMap((camera) => (camera.aliases ?? [])
+    .filter((alias) => !canonical.has(alias))
+    .map((alias) => ({ alias, cameraId: camera.id, reason: 'legacy' as const })));
+}
+
+export async function recordAliases(env: AliasBindings, links: AliasLink[], now = Date.now()): Promise<void> {
+  const db = env.HISTORY_DB;
+  if (!db || !links.length) return;
+  const existing = await db.prepare('SELECT alias, camera_id FROM camera_aliases').all<{ alias: string; camera_id: string }>();
+  const current = new Map((existing.results ?? []).map((row) => [row.alias, row.camera_id]));
+  const statements: AliasD1Statement[] = [];
+  for (const link of links) {
+    if (link.alias === link.cameraId || current.get(link.alias) === link.cameraId) continue;
+    // Legacy links are re-derived on every sync and must not override a recorded re-identification.
+    if (link.reason === 'legacy' && current.has(link.alias)) continue;
+    current.set(link.alias, link.cameraId);
+    statements.push(
+      db.prepare(
+        `INSERT INTO camera_aliases (alias, camera_id, reason, created_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (alias) DO UPDATE SET camera_id = excluded.camera_id, reason = excluded.reason, created_at = excluded.created_at`,
+      ).bind(link.alias, link.cameraId, link.reason, now),
+      // Keep chains one hop deep so a lookup never has to recurse.
+      db.prepare('UPDATE camera_aliases SET camera_id = ? WHERE camera_id = ?').bind(link.cameraId, link.alias),
+      db.prepare('DELETE FROM camera_aliases WHERE alias = ?').bind(link.cameraId),
+    );
+  }
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+  if (statements.length) console.log(JSON.stringify({ event: 'camera_aliases_recorded', links: statements.length / 3 }));
+}
+
+export async function resolveCameraId(env: { HISTORY_DB?: AliasD1Reader }, id: string): Promise<string> {
+  if (!env.HISTORY_DB) return id;
+  const row = await env.HISTORY_DB.prepare('SELECT camera_id FROM camera_aliases WHERE alias = ?').bind(id).first<{ camera_id: string }>();
+  return row?.camera_id ?? id;
+}
@@ -0,0 +1,17 @@
+/** Hex digests and the bearer-token check shared by the curator, subscription, clip and metrics endpoints. */
+
+export function hex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(value: string | Uint8Array | ArrayBuffer): Promise<string> {
+  return hex(await crypto.subtle.digest('SHA-256', typeof value === 'string' ? new TextEncoder().encode(value) : value));
+}
+
+/** Whether the request carries `Authorization: Bearer <token>`. */
+export async function authorized(request: Request, token: string): Promise<boolean> {
+  const header = request.headers.get('Authorization') ?? '';
+  const presented = header.startsWith('Bearer ') ? header.slice(7) : '';
+  // Compare digests so the comparison time does not depend on how much of the token matched.
+  return Boolean(presented) && (await sha256Hex(presented)) === (await sha256Hex(token));
+}
@@ -0,0 +1,193 @@
+/**
+ * Seasonal Pulse baselines. Once a night the cron summarizes each camera's last four weeks of visual
+ * fingerprints per local hour-of-week: a median fingerprint plus luma and contrast spreads. Pulse then
+ * compares a camera against the bucket for the current hour, so the daily dusk, streetlights and rush
+ * hour look normal and only scenes that are unusual for that time surface.
+ */
+import { CAMERA_ID_MATCH } from './aliases';
+
+type BaselineD1Statement = {
+  bind: (...values: unknown[]) => BaselineD1Statement;
+  all: <T>() => Promise<{ results?: T[] }>;
+};
+
+type BaselineD1Database = {
+  prepare: (query: string) => BaselineD1Statement;
+  batch: (statements: BaselineD1Statement[]) => Promise<unknown>;
+};
+
+export type BaselineBindings = { HISTORY_DB?: BaselineD1Database };
+
+/** Tolerances are fractions of full scale, like the frame metrics Pulse compares them with. */
+export type SeasonalBaseline = {
+  pixels: number[];
+  mean: number;
+  contrast: number;
+  samples: number;
+  tolerance: { pixel: number; brightness: number; contrast: number };
+};
+
+type SampleRow = { captured_at: number; visual_fingerprint: string; mean_luma: number; visual_contrast: number };
+
+type BaselineRow = {
+  camera_id: string;
+  samples: number;
+  fingerprint: string;
+  pixel_spread: number;
+  luma_p10: number;
+  luma_median: number;
+  luma_p90: number;
+  contrast_p10: number;
+  contrast_median: number;
+  contrast_p90: number;
+};
+
+const TIME_ZONE = 'America/Los_Angeles';
+const BUILD_HOUR = 3;
+const BASELINE_WINDOW_MS = 28 * 24 * 60 * 60 * 1000;
+const REBUILD_AFTER_MS = 20 * 60 * 60 * 1000;
+const CAMERAS_PER_TICK = 6;
+const MIN_BUCKET_SAMPLES = 6;
+const STATEMENT_BATCH = 50;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const LOCAL_PARTS = new Intl.DateTimeFormat('en-US', { timeZone: TIME_ZONE, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+
+function localParts(epochMs: number): { weekday: number; hour: number } {
+  const parts = Object.fromEntries(LOCAL_PARTS.formatToParts(new Date(epochMs)).map((part) => [part.type, part.value]));
+  return { weekday: WEEKDAYS.indexOf(parts.weekday), hour: Number(parts.hour) };
+}
+
+/** 0 is Sunday 00:00–00:59 Seattle time; 167 is Saturday 23:00–23:59. */
+export function hourOfWeek(epochMs: number): number {
+  const { weekday, hour } = localParts(epochMs);
+  return weekday * 24 + hour;
+}
+
+function decodeFingerprint(value: string): number[] | null {
+  try {
+    const raw = atob(value);
+    return raw.length ? Array.from(raw, (char) => char.charCodeAt(0)) : null;
+  } catch {
+    return null;
+  }
+}
+
+function encodeFingerprint(values: number[]): string {
+  return btoa(String.fromCharCode(...values.map((value) => Math.round(value))));
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (!sorted.length) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function summarize(samples: { pixels: number[]; luma: number; contrast: number }[]) {
+  const length = samples[0].pixels.length;
+  const pixels = Array.from({ length }, (_, index) => quantile(samples.map((sample) => sample.pixels[index]).sort((a, b) => a - b), 0.5));
+  const spreads = samples.map((sample) => sample.pixels.reduce((sum, value, index) => sum + Math.abs(value - pixels[index]), 0) / (length * 255)).sort((a, b) => a - b);
+  const luma = samples.map((sample) => sample.luma).sort((a, b) => a - b);
+  const contrast = samples.map((sample) => sample.contrast).sort((a, b) => a - b);
+  return {
+    fingerprint: encodeFingerprint(pixels),
+    pixelSpread: Number(quantile(spreads, 0.5).toFixed(4)),
+    luma: [0.1, 0.5, 0.9].map((q) => Number(quantile(luma, q).toFixed(3))),
+    contrast: [0.1, 0.5, 0.9].map((q) => Number(quantile(contrast, q).toFixed(3))),
+  };
+}
+
+async function buildCamera(db: BaselineD1Database, cameraId: string, now: number): Promise<{ samples: number; buckets: number }> {
+  const result = await db.prepare(
+    `SELECT captured_at, visual_fingerprint, mean_luma, visual_contrast
+       FROM camera_snapshots
+      WHERE ${CAMERA_ID_MATCH} AND captured_at >= ?
+        AND visual_fingerprint IS NOT NULL AND mean_luma IS NOT NULL AND visual_contrast IS NOT NULL`,
+  ).bind(cameraId, cameraId, now - BASELINE_WINDOW_MS).all<SampleRow>();
+  const decoded = (result.results ?? []).map((row) => ({ row, pixels: decodeFingerprint(row.visual_fingerprint) })).filter((item) => item.pixels);
+  // Fingerprint size only changes if capture settings change; keep the size most samples share.
+  const lengths = new Map<number, number>();
+  for (const item of decoded) lengths.set(item.pixels!.length, (lengths.get(item.pixels!.length) ?? 0) + 1);
+  const length = [...lengths].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const buckets = new Map<number, { pixels: number[]; luma: number; contrast: number }[]>();
+  for (const { row, pixels } of decoded) {
+    if (pixels!.length !== length) continue;
+    const bucket = hourOfWeek(row.captured_at);
+    const samples = buckets.get(bucket) ?? [];
+    samples.push({ pixels: pixels!, luma: row.mean_luma, contrast: row.visual_contrast });
+    buckets.set(bucket, samples);
+  }
+
+  const statements: BaselineD1Statement[] = [];
+  let stored = 0;
+  for (const [bucket, samples] of buckets) {
+    if (samples.length < MIN_BUCKET_SAMPLES) continue;
+    const summary = summarize(samples);
+    stored += 1;
+    statements.push(db.prepare(
+      `INSERT INTO camera_baselines
+         (camera_id, hour_of_week, samples, fingerprint, pixel_spread, luma_p10, luma_median, luma_p90, contrast_p10, contrast_median, contrast_p90, built_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(camera_id, hour_of_week) DO UPDATE SET
+         samples = excluded.samples, fingerprint = excluded.fingerprint, pixel_spread = excluded.pixel_spread,
+         luma_p10 = excluded.luma_p10, luma_median = excluded.luma_median, luma_p90 = excluded.luma_p90,
+         contrast_p10 = excluded.contrast_p10, contrast_median = excluded.contrast_median, contrast_p90 = excluded.contrast_p90, built_at = excluded.built_at`,
+    ).bind(cameraId, bucket, samples.length, summary.fingerprint, summary.pixelSpread, ...summary.luma, ...summary.contrast, now));
+  }
+  // Buckets that no longer have enough recent samples would otherwise keep judging the camera by an old view.
+  statements.push(
+    db.prepare('DELETE FROM camera_baselines WHERE camera_id = ? AND built_at < ?').bind(cameraId, now),
+    db.prepare(
+      `INSERT INTO camera_baseline_builds (camera_id, built_at, samples, buckets) VALUES (?, ?, ?, ?)
+       ON CONFLICT(camera_id) DO UPDATE SET built_at = excluded.built_at, samples = excluded.samples, buckets = excluded.buckets`,
+    ).bind(cameraId, now, decoded.length, stored),
+  );
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+  return { samples: decoded.length, buckets: stored };
+}
+
+/**
+ * Runs during the local `BUILD_HOUR`, a few cameras per cron tick, rebuilding every camera whose
+ * baselines are older than `REBUILD_AFTER_MS`.
+ */
+export async function buildBaselines(env: BaselineBindings, cameras: { id: string }[], now = Date.now()): Promise<void> {
+  if (!env.HISTORY_DB || localParts(now).hour !== BUILD_HOUR) return;
+  const db = env.HISTORY_DB;
+  const builds = await db.prepare('SELECT camera_id, built_at FROM camera_baseline_builds').all<{ camera_id: string; built_at: number }>();
+  const builtAt = new Map((builds.results ?? []).map((row) => [row.camera_id, row.built_at]));
+  const stale = cameras
+    .filter((camera) => (builtAt.get(camera.id) ?? 0) < now - REBUILD_AFTER_MS)
+    .sort((a, b) => (builtAt.get(a.id) ?? 0) - (builtAt.get(b.id) ?? 0))
+    .slice(0, CAMERAS_PER_TICK);
+  for (const camera of stale) {
+    const result = await buildCamera(db, camera.id, now);
+    console.log(JSON.stringify({ event: 'pulse_baseline_built', camera: camera.id, ...result }));
+  }
+}
+
+/** Baselines for the hour-of-week `now` falls in, keyed by camera. */
+export async function seasonalBaselines(db: Pick<BaselineD1Database, 'prepare'>, now = Date.now()): Promise<Map<string, SeasonalBaseline>> {
+  const result = await db.prepare('SELECT * FROM camera_baselines WHERE hour_of_week = ?').bind(hourOfWeek(now)).all<BaselineRow>();
+  const baselines = new Map<string, SeasonalBaseline>();
+  for (const row of result.results ?? []) {
+    const pixels = decodeFingerprint(row.fingerprint);
+    if (!pixels) continue;
+    baselines.set(row.camera_id, {
+      pixels,
+      mean: row.luma_median,
+      contrast: row.contrast_median,
+      samples: row.samples,
+      // Never stricter than the recent-window defaults; wider where this hour is normally variable.
+      tolerance: {
+        pixel: Math.max(0.08, row.pixel_spread * 2),
+        brightness: Math.max(0.1, (row.luma_p90 - row.luma_p10) / 2 / 255 + 0.05),
+        contrast: Math.max(0.15, (row.contrast_median - row.contrast_p10) / 128 + 0.05),
+      },
+    });
+  }
+  return baselines;
+}
@@ -0,0 +1,149 @@
+/**
+ * Adaptive capture cadence. Each camera's next capture is its last attempt plus an interval derived from
+ * Pulse state, its priority and how often recent captures were unchanged, and each cron tick fetches at
+ * most `budget` due cameras, most urgent first.
+ *
+ * Priorities and the budget can be set through the `HISTORY_CAPTURE` variable, e.g.
+ * `{"budget":80,"maxIntervalMinutes":30,"collections":{"bridges":"pinned"},"cameras":{"some-camera":"low"}}`.
+ */
+import type { ObservationState } from './pulse';
+
+type CadenceD1Statement = {
+  bind: (...values: unknown[]) => CadenceD1Statement;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type CadenceD1Database = {
+  prepare: (query: string) => CadenceD1Statement;
+  batch: (statements: CadenceD1Statement[]) => Promise<unknown>;
+};
+
+export type CadenceBindings = { HISTORY_DB?: CadenceD1Database; HISTORY_CAPTURE?: string };
+
+export type CapturePriority = 'pinned' | 'high' | 'normal' | 'low';
+export type CaptureResult = 'stored' | 'duplicate' | 'failed';
+type CadenceReason = CapturePriority | 'pulse' | 'static' | 'mostly_static' | 'failing';
+
+export type CadenceConfig = {
+  budget: number;
+  maxIntervalMs: number;
+  collections: Record<string, CapturePriority>;
+  cameras: Record<string, CapturePriority>;
+};
+
+type ScheduleRow = { camera_id: string; last_attempt_at: number; duplicate_rate: number; failures: number };
+type CadenceCamera = { id: string; collections?: string[] };
+export type PlannedCapture<T extends CadenceCamera> = { camera: T; priority: CapturePriority; active: boolean; previous?: ScheduleRow };
+
+const MINUTE_MS = 60 * 1000;
+const PRIORITY_INTERVAL_MS: Record<CapturePriority, number> = { pinned: MINUTE_MS, high: 2 * MINUTE_MS, normal: 5 * MINUTE_MS, low: 15 * MINUTE_MS };
+const PRIORITY_RANK: Record<CapturePriority, number> = { pinned: 0, high: 1, normal: 2, low: 3 };
+const DEFAULT_BUDGET = 60;
+const DEFAULT_MAX_INTERVAL_MS = 30 * MINUTE_MS;
+const DEFAULT_COLLECTIONS: Record<string, CapturePriority> = { i5: 'high', aurora: 'high', bridges: 'high' };
+// Weight of the newest capture in the exponentially weighted duplicate rate.
+const DUPLICATE_RATE_WEIGHT = 0.25;
+const STATEMENT_BATCH = 50;
+
+function priorities(raw: unknown): Record<string, CapturePriority> {
+  if (!raw || typeof raw !== 'object') return {};
+  return Object.fromEntries(Object.entries(raw).filter((entry): entry is [string, CapturePriority] => typeof entry[1] === 'string' && entry[1] in PRIORITY_INTERVAL_MS));
+}
+
+export function cadenceConfig(env: CadenceBindings): CadenceConfig {
+  const fallback = { budget: DEFAULT_BUDGET, maxIntervalMs: DEFAULT_MAX_INTERVAL_MS, collections: DEFAULT_COLLECTIONS, cameras: {} };
+  if (!env.HISTORY_CAPTURE) return fallback;
+  try {
+    const raw = JSON.parse(env.HISTORY_CAPTURE) as { budget?: unknown; maxIntervalMinutes?: unknown; collections?: unknown; cameras?: unknown };
+    const budget = raw.budget === undefined ? DEFAULT_BUDGET : Math.floor(Number(raw.budget));
+    const maxIntervalMs = raw.maxIntervalMinutes === undefined ? DEFAULT_MAX_INTERVAL_MS : Number(raw.maxIntervalMinutes) * MINUTE_MS;
+    if (!(budget > 0)) throw new Error('budget must be a positive number');
+    if (!(maxIntervalMs >= PRIORITY_INTERVAL_MS.low)) throw new Error(`maxIntervalMinutes must be at least ${PRIORITY_INTERVAL_MS.low / MINUTE_MS}`);
+    return { budget, maxIntervalMs, collections: { ...DEFAULT_COLLECTIONS, ...priorities(raw.collections) }, cameras: priorities(raw.cameras) };
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'history_capture_config_error', message: error instanceof Error ? error.message : String(error) }));
+    return fallback;
+  }
+}
+
+/** A camera's own priority wins; otherwise the highest priority among its collections. */
+export function capturePriority(config: CadenceConfig, camera: CadenceCamera): CapturePriority {
+  const own = config.cameras[camera.id];
+  if (own) return own;
+  const inherited = (camera.collections ?? []).map((collection) => config.collections[collection]).filter(Boolean);
+  return inherited.sort((a, b) => PRIORITY_RANK[a] - PRIORITY_RANK[b])[0] ?? 'normal';
+}
+
+function captureInterval(config: CadenceConfig, priority: CapturePriority, active: boolean, row: ScheduleRow | undefined): { intervalMs: number; reason: CadenceReason } {
+  if (row?.failures) return { intervalMs: Math.min(PRIORITY_INTERVAL_MS[priority] * 2 ** row.failures, config.maxIntervalMs), reason: 'failing' };
+  if (active) return { intervalMs: MINUTE_MS, reason: 'pulse' };
+  const base = PRIORITY_INTERVAL_MS[priority];
+  // Pinned cameras are never backed off; a static view there is still worth having every minute.
+  if (priority === 'pinned' || !row) return { intervalMs: base, reason: priority };
+  if (row.duplicate_rate >= 0.9) return { intervalMs: Math.min(base * 4, config.maxIntervalMs), reason: 'static' };
+  if (row.duplicate_rate >= 0.6) return { intervalMs: Math.min(base * 2, config.maxIntervalMs), reason: 'mostly_static' };
+  return { intervalMs: base, reason: priority };
+}
+
+async function scheduleRows(db: CadenceD1Database): Promise<Map<string, ScheduleRow>> {
+  const result = await db.prepare('SELECT camera_id, last_attempt_at, duplicate_rate, failures FROM camera_capture_schedule').all<ScheduleRow>();
+  return new Map((result.results ?? []).map((row) => [row.camera_id, row]));
+}
+
+/**
+ * Picks the cameras to capture this tick from `states`, the Pulse state per camera as the cron last stored it.
+ * Never-captured cameras are due immediately; the budget then spreads a cold start over the following ticks.
+ */
+export async function planCaptures<T extends CadenceCamera>(env: CadenceBindings, cameras: T[], states: Map<string, ObservationState>, now: number): Promise<{ selected: PlannedCapture<T>[]; due: number }> {
+  if (!env.HISTORY_DB) return { selected: [], due: 0 };
+  const config = cadenceConfig(env);
+  const rows = await scheduleRows(env.HISTORY_DB);
+  const active = new Set([...states].filter(([, state]) => state === 'changing' || state === 'persistent').map(([id]) => id));
+  const due = cameras
+    .map((camera) => {
+      const row = rows.get(camera.id);
+      const priority = capturePriority(config, camera);
+      const isActive = active.has(camera.id);
+      const nextAt = row ? row.last_attempt_at + captureInterval(config, priority, isActive, row).intervalMs : 0;
+      return { camera, priority, active: isActive, previous: row, nextAt };
+    })
+    .filter((item) => item.nextAt <= now)
+    .sort((a, b) => Number(b.active) - Number(a.active) || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.nextAt - b.nextAt);
+  return { selected: due.slice(0, config.budget).map(({ nextAt, ...planned }) => planned), due: due.length };
+}
+
+/** Folds this tick's outcomes into each camera's duplicate rate and failure count and stores its next capture time. */
+export async function recordCaptures(env: CadenceBindings, outcomes: (PlannedCapture<CadenceCamera> & { result: CaptureResult })[], now: number): Promise<void> {
+  if (!env.HISTORY_DB || !outcomes.length) return;
+  const db = env.HISTORY_DB;
+  const config = cadenceConfig(env);
+  const statements = outcomes.map(({ camera, priority, active, previous, result }) => {
+    const failed = result === 'failed';
+    const duplicateRate = failed
+      ? previous?.duplicate_rate ?? 0
+      : (previous?.duplicate_rate ?? 0) * (1 - DUPLICATE_RATE_WEIGHT) + (result === 'duplicate' ? DUPLICATE_RATE_WEIGHT : 0);
+    const failures = failed ? (previous?.failures ?? 0) + 1 : 0;
+    const row = { camera_id: camera.id, last_attempt_at: now, duplicate_rate: duplicateRate, failures };
+    const { intervalMs, reason } = captureInterval(config, priority, active, row);
+    return db.prepare(
+      `INSERT INTO camera_capture_schedule (camera_id, last_attempt_at, next_capture_at, interval_ms, reason, duplicate_rate, failures)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(camera_id) DO UPDATE SET
+         last_attempt_at = excluded.last_attempt_at, next_capture_at = excluded.next_capture_at, interval_ms = excluded.interval_ms,
+         reason = excluded.reason, duplicate_rate = excluded.duplicate_rate, failures = excluded.failures`,
+    ).bind(camera.id, now, now + intervalMs, intervalMs, reason, Number(duplicateRate.toFixed(4)), failures);
+  });
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+}
+
+/** How many cameras currently sit at each cadence, for the history status endpoint. */
+export async function cadenceSummary(env: CadenceBindings): Promise<{ reason: string; cameras: number; intervalMs: number }[]> {
+  if (!env.HISTORY_DB) return [];
+  const result = await env.HISTORY_DB.prepare(
+    'SELECT reason, COUNT(*) AS cameras, MIN(interval_ms) AS intervalMs FROM camera_capture_schedule GROUP BY reason ORDER BY intervalMs',
+  ).all<{ reason: string; cameras: number; intervalMs: number }>();
+  return result.results ?? [];
+}
@@ -0,0 +1,241 @@
+import { CAMERA_ID_MATCH, recordAliases, resolveCameraId, type AliasLink } from './aliases';
+import type { Camera, CameraBatch } from './providers';
+
+type CatalogD1Statement = {
+  bind: (...values: unknown[]) => CatalogD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type CatalogD1Database = {
+  prepare: (query: string) => CatalogD1Statement;
+  batch: (statements: CatalogD1Statement[]) => Promise<unknown>;
+};
+
+export type CatalogBindings = { HISTORY_DB?: CatalogD1Database };
+
+type CatalogStatus = 'active' | 'inactive' | 'removed';
+type ChangeType = 'added' | 'restored' | 'removed' | 'renamed' | 'moved' | 'deactivated' | 'reactivated' | 'updated' | 'reidentified';
+
+type CatalogRow = {
+  camera_id: string;
+  label: string;
+  image_host: string | null;
+  image_path: string;
+  stream: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  status: CatalogStatus;
+};
+
+export type CatalogEntry = {
+  label: string;
+  imageHost: string | null;
+  imagePath: string;
+  stream: string | null;
+  lat: number | null;
+  lng: number | null;
+  status: CatalogStatus;
+};
+
+type ChangeRow = {
+  camera_id: string;
+  change_type: ChangeType;
+  previous: string | null;
+  current: string | null;
+  detected_at: number;
+};
+
+const MOVE_THRESHOLD_METERS = 25;
+const STATEMENT_BATCH = 50;
+const MAX_CHANGE_LIMIT = 500;
+const DEFAULT_CHANGE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// A sync that sees fewer than this share of the known cameras is treated as a bad feed, not mass removal.
+const MIN_REMOVAL_COVERAGE = 0.5;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  if (!headers.has('Cache-Control')) headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function fromRow(row: CatalogRow): CatalogEntry {
+  return { label: row.label, imageHost: row.image_host, imagePath: row.image_path, stream: row.stream, lat: row.latitude, lng: row.longitude, status: row.status };
+}
+
+function fromCamera(camera: Camera, status: CatalogStatus): CatalogEntry {
+  return {
+    label: camera.label,
+    imageHost: camera.imageHost ?? null,
+    imagePath: camera.imagePath,
+    stream: camera.stream ?? null,
+    lat: Number.isFinite(camera.lat) ? camera.lat! : null,
+    lng: Number.isFinite(camera.lng) ? camera.lng! : null,
+    status,
+  };
+}
+
+function distanceMeters(a: CatalogEntry, b: CatalogEntry): number {
+  if (a.lat == null || a.lng == null || b.lat == null || b.lng == null) return a.lat === b.lat && a.lng === b.lng ? 0 : Infinity;
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+/** The changes between a camera's stored entry and the provider's current one; moves under 25 m are jitter. */
+export function diffEntry(previous: CatalogEntry | undefined, current: CatalogEntry): ChangeType[] {
+  if (!previous) return ['added'];
+  if (previous.status === 'removed') return ['restored'];
+  const changes: ChangeType[] = [];
+  if (previous.status !== current.status) changes.push(current.status === 'inactive' ? 'deactivated' : 'reactivated');
+  if (previous.label !== current.label) changes.push('renamed');
+  if (distanceMeters(previous, current) > MOVE_THRESHOLD_METERS) changes.push('moved');
+  if (previous.imageHost !== current.imageHost || previous.imagePath !== current.imagePath || previous.stream !== current.stream) changes.push('updated');
+  return changes;
+}
+
+function sameEntry(a: CatalogEntry, b: CatalogEntry): boolean {
+  return a.label === b.label && a.imageHost === b.imageHost && a.imagePath === b.imagePath && a.stream === b.stream && a.lat === b.lat && a.lng === b.lng && a.status === b.status;
+}
+
+/**
+ * Upserts the provider's current cameras into the `cameras` table and appends one
+ * `camera_catalog_changes` row per detected difference since the previous sync.
+ */
+export async function syncCatalog(env: CatalogBindings, source: string, batch: CameraBatch, syncedAt = Date.now()): Promise<void> {
+  const db = env.HISTORY_DB;
+  if (!db) return;
+  const existing = await db.prepare(
+    `SELECT camera_id, label, image_host, image_path, stream, latitude, longitude, status
+       FROM cameras
+      WHERE source = ?`,
+  ).bind(source).all<CatalogRow>();
+  const known = new Map((existing.results ?? []).map((row) => [row.camera_id, fromRow(row)]));
+  const seen = new Map<string, { camera: Camera; entry: CatalogEntry }>();
+  for (const camera of batch.inactive ?? []) seen.set(camera.id, { camera, entry: fromCamera(camera, 'inactive') });
+  for (const camera of batch.cameras) seen.set(camera.id, { camera, entry: fromCamera(camera, 'active') });
+
+  const statements: CatalogD1Statement[] = [];
+  const counts: Partial<Record<ChangeType, number>> = {};
+  const logChange = (cameraId: string, type: ChangeType, previous: (CatalogEntry & { cameraId?: string }) | undefined, current: CatalogEntry | undefined) => {
+    counts[type] = (counts[type] ?? 0) + 1;
+    statements.push(db.prepare(
+      `INSERT INTO camera_catalog_changes (source, camera_id, change_type, previous, current, detected_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ).bind(source, cameraId, type, previous ? JSON.stringify(previous) : null, current ? JSON.stringify(current) : null, syncedAt));
+  };
+  const links: AliasLink[] = [];
+  const rekey = (from: string, to: string) => {
+    known.set(to, known.get(from)!);
+    known.delete(from);
+    statements.push(db.prepare('UPDATE cameras SET camera_id = ? WHERE source = ? AND camera_id = ?').bind(to, source, from));
+  };
+
+  // Rows stored under an ID the identity module now only lists as an alias move to the canonical ID.
+  const owners = new Map<string, string>();
+  for (const { camera } of seen.values()) for (const alias of camera.aliases ?? []) owners.set(alias, camera.id);
+  for (const id of [...known.keys()]) {
+    const owner = owners.get(id);
+    if (owner && !seen.has(id) && !known.has(owner)) rekey(id, owner);
+  }
+  // Same label in the same place under a new ID means the upstream edited the URL the ID derives from.
+  const vanished = [...known].filter(([id, entry]) => entry.status !== 'removed' && !seen.has(id));
+  for (const [id, { entry }] of seen) {
+    if (known.has(id)) continue;
+    const index = vanished.findIndex(([, previous]) => previous.label === entry.label && distanceMeters(previous, entry) <= MOVE_THRESHOLD_METERS);
+    if (index < 0) continue;
+    const [[previousId, previous]] = vanished.splice(index, 1);
+    logChange(id, 'reidentified', { ...previous, cameraId: previousId }, entry);
+    rekey(previousId, id);
+    links.push({ alias: previousId, cameraId: id, reason: 'reidentified' });
+  }
+
+  for (const [id, { camera, entry }] of seen) {
+    const previous = known.get(id);
+    if (previous && sameEntry(previous, entry)) continue;
+    for (const type of diffEntry(previous, entry)) logChange(id, type, previous, entry);
+    statements.push(db.prepare(
+      `INSERT INTO cameras
+        (source, camera_id, label, image_host, image_path, stream, latitude, longitude, status, payload, first_seen_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (source, camera_id) DO UPDATE SET
+         label = excluded.label, image_host = excluded.image_host, image_path = excluded.image_path, stream = excluded.stream,
+         latitude = excluded.latitude, longitude = excluded.longitude, status = excluded.status, payload = excluded.payload,
+         updated_at = excluded.updated_at`,
+    ).bind(source, id, entry.label, entry.imageHost, entry.imagePath, entry.stream, entry.lat, entry.lng, entry.status, JSON.stringify(camera), syncedAt, syncedAt));
+  }
+
+  const present = [...known.values()].filter((entry) => entry.status !== 'removed').length;
+  const removable = !batch.capped && seen.size > 0 && seen.size >= present * MIN_REMOVAL_COVERAGE;
+  if (removable) {
+    for (const [id, previous] of known) {
+      if (previous.status === 'removed' || seen.has(id)) continue;
+      logChange(id, 'removed', previous, undefined);
+      statements.push(db.prepare(
+        "UPDATE cameras SET status = 'removed', updated_at = ? WHERE source = ? AND camera_id = ?",
+      ).bind(syncedAt, source, id));
+    }
+  } else if (present && seen.size < present) {
+    console.log(JSON.stringify({ event: 'catalog_removal_skipped', source, seen: seen.size, known: present, capped: Boolean(batch.capped) }));
+  }
+  const changes = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  statements.push(db.prepare(
+    `INSERT INTO camera_catalog_syncs (source, synced_at, cameras, changes) VALUES (?, ?, ?, ?)
+     ON CONFLICT (source) DO UPDATE SET synced_at = excluded.synced_at, cameras = excluded.cameras, changes = excluded.changes`,
+  ).bind(source, syncedAt, batch.cameras.length, changes));
+
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+  await recordAliases(env, links, syncedAt);
+  console.log(JSON.stringify({ event: 'catalog_sync_complete', source, cameras: seen.size, changes: counts }));
+}
+
+/** Active cameras from the last successful sync, for rendering when the live feed is unavailable. */
+export async function catalogCameras(env: CatalogBindings, source: string): Promise<{ cameras: Camera[]; syncedAt: number } | null> {
+  if (!env.HISTORY_DB) return null;
+  const sync = await env.HISTORY_DB.prepare('SELECT synced_at FROM camera_catalog_syncs WHERE source = ?').bind(source).first<{ synced_at: number }>();
+  if (!sync) return null;
+  const result = await env.HISTORY_DB.prepare(
+    "SELECT payload FROM cameras WHERE source = ? AND status = 'active' ORDER BY label",
+  ).bind(source).all<{ payload: string }>();
+  const rows = result.results ?? [];
+  if (!rows.length) return null;
+  return { cameras: rows.map((row) => JSON.parse(row.payload) as Camera), syncedAt: sync.synced_at };
+}
+
+export async function handleCatalogRequest(request: Request, url: URL, env: CatalogBindings): Promise<Response | null> {
+  if (!url.pathname.startsWith('/api/catalog')) return null;
+  if (!env.HISTORY_DB) return json({ error: 'Catalog is not configured yet' }, { status: 503 });
+  if (url.pathname !== '/api/catalog/changes') return new Response('Not found', { status: 404 });
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405 });
+
+  const source = url.searchParams.get('source') || 'arcgis';
+  if (!/^[a-z0-9_-]{1,32}$/.test(source)) return json({ error: 'Invalid source' }, { status: 400 });
+  const requested = url.searchParams.get('camera');
+  if (requested && (requested.length > 180 || !/^[a-z0-9%._~-]+$/i.test(requested))) return json({ error: 'Invalid camera id' }, { status: 400 });
+  const camera = requested ? await resolveCameraId(env, requested) : null;
+  const sinceParam = Number(url.searchParams.get('since'));
+  const since = Number.isFinite(sinceParam) && sinceParam > 0 ? sinceParam : Date.now() - DEFAULT_CHANGE_WINDOW_MS;
+  const limit = Math.min(Math.max(Math.floor(Number(url.searchParams.get('limit') || 100)), 1), MAX_CHANGE_LIMIT);
+
+  const result = await env.HISTORY_DB.prepare(
+    `SELECT camera_id, change_type, previous, current, detected_at
+       FROM camera_catalog_changes
+      WHERE source = ? AND detected_at >= ? ${camera ? `AND ${CAMERA_ID_MATCH}` : ''}
+      ORDER BY detected_at DESC, id DESC
+      LIMIT ?`,
+  ).bind(...(camera ? [source, since, camera, camera, limit] : [source, since, limit])).all<ChangeRow>();
+  const changes = (result.results ?? []).map((row) => ({
+    cameraId: row.camera_id,
+    type: row.change_type,
+    detectedAt: row.detected_at,
+    previous: row.previous ? JSON.parse(row.previous) : null,
+    current: row.current ? JSON.parse(row.current) : null,
+  }));
+  return json({ source, since, ...(camera ? { cameraId: camera } : {}), changes }, { headers: { 'Cache-Control': 'public, max-age=30, s-maxage=60' } });
+}
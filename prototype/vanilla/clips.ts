@@ -0,0 +1,328 @@
+/**
+ * Short stream recordings. A clip follows a camera's live chunklist for `CLIP_SECONDS`, copies each new
+ * segment into `clips/<id>/` in HISTORY_BUCKET and finishes with a VOD playlist next to them, so a clip
+ * replays in any HLS player from `/api/clips/:id/playlist.m3u8`. Clips are indexed in `stream_clips`.
+ *
+ * The cron records a clip when Pulse reports a `persistent_change` on a camera with a stream. Curators can
+ * also start one with `POST /api/clips` and `Authorization: Bearer $CURATOR_TOKEN`; that recording runs
+ * after the response, which the runtime allows for about 30 seconds, hence the short clip length.
+ */
+import { resolveCameraId } from './aliases';
+import { authorized } from './auth';
+import { fetchVideo, firstVariant, parseMediaPlaylist } from './hls';
+import { safeCameraId } from './history';
+import type { PulseSnapshot } from './pulse';
+import { VIDEO_SERVER } from './providers';
+
+type ClipD1Statement = {
+  bind: (...values: unknown[]) => ClipD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type ClipD1Database = {
+  prepare: (query: string) => ClipD1Statement;
+  batch: (statements: ClipD1Statement[]) => Promise<unknown>;
+};
+
+type ClipR2Object = {
+  body: ReadableStream;
+  httpEtag: string;
+  writeHttpMetadata: (headers: Headers) => void;
+};
+
+type ClipR2Bucket = {
+  put: (key: string, value: ArrayBuffer | string, options?: unknown) => Promise<unknown>;
+  get: (key: string) => Promise<ClipR2Object | null>;
+  delete: (keys: string | string[]) => Promise<void>;
+};
+
+export type ClipBindings = { HISTORY_DB?: ClipD1Database; HISTORY_BUCKET?: ClipR2Bucket; CURATOR_TOKEN?: string };
+type ReadyClipBindings = ClipBindings & { HISTORY_DB: ClipD1Database; HISTORY_BUCKET: ClipR2Bucket };
+
+type WaitUntil = { waitUntil(promise: Promise<void>): void };
+type ClipTrigger = 'pulse' | 'manual';
+type ClipStatus = 'recording' | 'ready' | 'failed';
+type Clip = { id: string; cameraId: string; stream: string; trigger: ClipTrigger; observationId: string | null; requestedAt: number };
+type ClipRow = {
+  id: string;
+  camera_id: string;
+  trigger: ClipTrigger;
+  observation_id: string | null;
+  status: ClipStatus;
+  requested_at: number;
+  finished_at: number | null;
+  duration: number | null;
+  segments: number | null;
+  bytes: number | null;
+  error: string | null;
+};
+type StoredSegment = { duration: number; discontinuity: boolean };
+
+const CLIP_PREFIX = 'clips/';
+const CLIP_SECONDS = 20;
+// Time allowed past CLIP_SECONDS for the chunklist to publish the last segments.
+const CLIP_GRACE_MS = 6000;
+const MAX_RECORDING = 3;
+const PULSE_CLIPS_PER_TICK = 2;
+const CLIP_COOLDOWN_MS = 30 * 60 * 1000;
+// A recording still marked as running after this was cut off with its isolate.
+const STUCK_RECORDING_MS = 5 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PURGE_BATCH = 100;
+const MAX_LIST_LIMIT = 50;
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function hasBindings(env: ClipBindings): env is ReadyClipBindings {
+  return Boolean(env.HISTORY_DB && env.HISTORY_BUCKET);
+}
+
+function segmentKey(id: string, index: number): string {
+  return `${CLIP_PREFIX}${id}/${index}.ts`;
+}
+
+function playlistKey(id: string): string {
+  return `${CLIP_PREFIX}${id}/playlist.m3u8`;
+}
+
+function toClip(row: ClipRow) {
+  return {
+    id: row.id,
+    cameraId: row.camera_id,
+    trigger: row.trigger,
+    observationId: row.observation_id,
+    status: row.status,
+    requestedAt: row.requested_at,
+    finishedAt: row.finished_at,
+    duration: row.duration,
+    segments: row.segments,
+    bytes: row.bytes,
+    error: row.error,
+    playlistUrl: row.status === 'ready' ? `/api/clips/${row.id}/playlist.m3u8` : null,
+  };
+}
+
+/** A VOD playlist over the stored segments; URIs are relative to `/api/clips/:id/playlist.m3u8`. */
+function vodPlaylist(segments: StoredSegment[]): string {
+  const target = Math.max(1, ...segments.map((segment) => Math.ceil(segment.duration)));
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', `#EXT-X-TARGETDURATION:${target}`, '#EXT-X-MEDIA-SEQUENCE:0', '#EXT-X-PLAYLIST-TYPE:VOD'];
+  segments.forEach((segment, index) => {
+    if (segment.discontinuity) lines.push('#EXT-X-DISCONTINUITY');
+    lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, `segments/${index}.ts`);
+  });
+  lines.push('#EXT-X-ENDLIST');
+  return `${lines.join('\n')}\n`;
+}
+
+async function playlistText(url: URL): Promise<string> {
+  const response = await fetchVideo(url, 'GET', 'application/vnd.apple.mpegurl, */*');
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Playlist ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Follows the chunklist from its newest segment until `CLIP_SECONDS` are stored, the stream ends or the
+ * grace period runs out, then writes the playlist and marks the clip ready. Partial clips are kept.
+ */
+async function recordClip(env: ReadyClipBindings, clip: Clip): Promise<void> {
+  const started = Date.now();
+  const deadline = started + CLIP_SECONDS * 1000 + CLIP_GRACE_MS;
+  const stored: StoredSegment[] = [];
+  let bytes = 0;
+  let error: string | null = null;
+  try {
+    const master = new URL(`https://${VIDEO_SERVER}/live/${encodeURIComponent(clip.stream)}.stream/playlist.m3u8`);
+    const masterText = await playlistText(master);
+    const variant = firstVariant(masterText);
+    const chunklistUrl = variant ? new URL(variant.uri, master) : master;
+    let text = variant ? await playlistText(chunklistUrl) : masterText;
+    let last: number | null = null;
+    let duration = 0;
+    while (duration < CLIP_SECONDS) {
+      const playlist = parseMediaPlaylist(text);
+      // The first pass starts from the newest segment, so the clip opens as close to the trigger as possible.
+      const fresh = last === null ? playlist.segments.slice(-1) : playlist.segments.filter((segment) => segment.sequence > last!);
+      for (const segment of fresh) {
+        const response = await fetchVideo(new URL(segment.uri, chunklistUrl));
+        if (!response.ok) {
+          await response.body?.cancel();
+          throw new Error(`Segment ${response.status}`);
+        }
+        const body = await response.arrayBuffer();
+        await env.HISTORY_BUCKET.put(segmentKey(clip.id, stored.length), body, {
+          httpMetadata: { contentType: 'video/mp2t', cacheControl: 'public, max-age=31536000, immutable' },
+        });
+        stored.push({ duration: segment.duration, discontinuity: last !== null && segment.sequence !== last + 1 });
+        bytes += body.byteLength;
+        duration += segment.duration;
+        last = segment.sequence;
+        if (duration >= CLIP_SECONDS) break;
+      }
+      if (duration >= CLIP_SECONDS || playlist.ended || Date.now() >= deadline) break;
+      await new Promise((resolve) => setTimeout(resolve, ((playlist.targetDuration ?? 2) * 1000) / 2));
+      text = await playlistText(chunklistUrl);
+    }
+  } catch (caught) {
+    error = message(caught);
+  }
+  const now = Date.now();
+  const duration = stored.reduce((sum, segment) => sum + segment.duration, 0);
+  try {
+    if (stored.length) {
+      await env.HISTORY_BUCKET.put(playlistKey(clip.id), vodPlaylist(stored), {
+        httpMetadata: { contentType: 'application/vnd.apple.mpegurl', cacheControl: 'public, max-age=31536000, immutable' },
+      });
+    }
+  } catch (caught) {
+    error = message(caught);
+    stored.length = 0;
+  }
+  const status: ClipStatus = stored.length ? 'ready' : 'failed';
+  await env.HISTORY_DB.prepare(
+    'UPDATE stream_clips SET status = ?, finished_at = ?, duration = ?, segments = ?, bytes = ?, error = ? WHERE id = ?',
+  ).bind(status, now, Number(duration.toFixed(3)), stored.length, bytes, error, clip.id).run();
+  console.log(JSON.stringify({ event: 'stream_clip_recorded', id: clip.id, camera: clip.cameraId, trigger: clip.trigger, status, segments: stored.length, duration, ms: now - started, ...(error ? { error } : {}) }));
+}
+
+async function startClip(env: ReadyClipBindings, clip: Clip): Promise<ClipRow> {
+  await env.HISTORY_DB.prepare(
+    "INSERT INTO stream_clips (id, camera_id, stream, trigger, observation_id, status, requested_at) VALUES (?, ?, ?, ?, ?, 'recording', ?)",
+  ).bind(clip.id, clip.cameraId, clip.stream, clip.trigger, clip.observationId, clip.requestedAt).run();
+  return {
+    id: clip.id, camera_id: clip.cameraId, trigger: clip.trigger, observation_id: clip.observationId, status: 'recording',
+    requested_at: clip.requestedAt, finished_at: null, duration: null, segments: null, bytes: null, error: null,
+  };
+}
+
+async function recordingCount(db: ClipD1Database): Promise<number> {
+  const row = await db.prepare("SELECT COUNT(*) AS count FROM stream_clips WHERE status = 'recording'").first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+/**
+ * Records clips for the snapshot's `persistent_change` observations on cameras with a stream, skipping
+ * episodes that already have one, cameras clipped within `CLIP_COOLDOWN_MS` and streams the last probe
+ * found stalled or offline.
+ */
+export async function recordPulseClips(env: ClipBindings, cameras: { id: string; stream?: string }[], snapshot: PulseSnapshot | undefined, now = Date.now()): Promise<number> {
+  if (!hasBindings(env) || !snapshot) return 0;
+  const streams = new Map(cameras.flatMap((camera) => (camera.stream ? [[camera.id, camera.stream] as const] : [])));
+  const candidates = snapshot.items.filter((item) => item.changeType === 'persistent_change' && streams.has(item.cameraId));
+  if (!candidates.length) return 0;
+  const db = env.HISTORY_DB;
+  const [recent, unplayable, running] = await Promise.all([
+    db.prepare('SELECT camera_id, observation_id FROM stream_clips WHERE requested_at > ?').bind(now - CLIP_COOLDOWN_MS).all<{ camera_id: string; observation_id: string | null }>(),
+    db.prepare("SELECT camera_id FROM stream_probes WHERE status IN ('stalled', 'offline')").all<{ camera_id: string }>(),
+    recordingCount(db),
+  ]);
+  const skip = new Set([...(recent.results ?? []).map((row) => row.camera_id), ...(unplayable.results ?? []).map((row) => row.camera_id)]);
+  const clipped = new Set((recent.results ?? []).map((row) => row.observation_id).filter(Boolean));
+  const clips: Clip[] = candidates
+    .filter((item) => !skip.has(item.cameraId) && !(item.id && clipped.has(item.id)))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, Math.min(PULSE_CLIPS_PER_TICK, MAX_RECORDING - running)))
+    .map((item) => ({ id: crypto.randomUUID(), cameraId: item.cameraId, stream: streams.get(item.cameraId)!, trigger: 'pulse', observationId: item.id ?? null, requestedAt: now }));
+  for (const clip of clips) await startClip(env, clip);
+  await Promise.all(clips.map((clip) => recordClip(env, clip)));
+  return clips.length;
+}
+
+/** Fails recordings that never finished and deletes clips past `RETENTION_MS` with their segments. */
+export async function purgeClips(env: ClipBindings, now = Date.now()): Promise<void> {
+  if (!hasBindings(env)) return;
+  await env.HISTORY_DB.prepare("UPDATE stream_clips SET status = 'failed', finished_at = ?, error = 'Recording did not finish' WHERE status = 'recording' AND requested_at < ?")
+    .bind(now, now - STUCK_RECORDING_MS).run();
+  const expired = await env.HISTORY_DB.prepare('SELECT id, segments FROM stream_clips WHERE requested_at < ? ORDER BY requested_at LIMIT ?')
+    .bind(now - RETENTION_MS, PURGE_BATCH).all<{ id: string; segments: number | null }>();
+  const rows = expired.results ?? [];
+  if (!rows.length) return;
+  const keys = rows.flatMap((row) => [playlistKey(row.id), ...Array.from({ length: row.segments ?? 0 }, (_, index) => segmentKey(row.id, index))]);
+  // R2 deletes at most 1000 keys per call.
+  for (let index = 0; index < keys.length; index += 1000) await env.HISTORY_BUCKET.delete(keys.slice(index, index + 1000));
+  await env.HISTORY_DB.batch(rows.map((row) => env.HISTORY_DB.prepare('DELETE FROM stream_clips WHERE id = ?').bind(row.id)));
+}
+
+async function startManualClip(request: Request, url: URL, env: ReadyClipBindings, ctx: WaitUntil): Promise<Response> {
+  if (!env.CURATOR_TOKEN) return json({ error: 'Clip recording is not configured' }, { status: 503 });
+  if (!(await authorized(request, env.CURATOR_TOKEN))) return json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  let requested = url.searchParams.get('camera');
+  if (!requested && request.headers.get('Content-Type')?.includes('application/json')) {
+    const body = await request.json().catch(() => null) as { camera?: unknown } | null;
+    requested = typeof body?.camera === 'string' ? body.camera : null;
+  }
+  const safe = safeCameraId(requested);
+  if (!safe) return json({ error: 'Invalid camera id' }, { status: 400 });
+  const cameraId = await resolveCameraId(env, safe);
+  const db = env.HISTORY_DB;
+  const camera = await db.prepare('SELECT stream FROM cameras WHERE camera_id = ? AND stream IS NOT NULL ORDER BY updated_at DESC LIMIT 1')
+    .bind(cameraId).first<{ stream: string }>();
+  if (!camera) return json({ error: 'Camera has no stream' }, { status: 404 });
+  const current = await db.prepare("SELECT * FROM stream_clips WHERE camera_id = ? AND status = 'recording' LIMIT 1").bind(cameraId).first<ClipRow>();
+  if (current) return json({ error: 'A clip is already recording for this camera', clip: toClip(current) }, { status: 409 });
+  if (await recordingCount(db) >= MAX_RECORDING) return json({ error: 'Too many clips are recording; try again shortly' }, { status: 429, headers: { 'Retry-After': String(CLIP_SECONDS) } });
+  const clip: Clip = { id: crypto.randomUUID(), cameraId, stream: camera.stream, trigger: 'manual', observationId: null, requestedAt: Date.now() };
+  const row = await startClip(env, clip);
+  ctx.waitUntil(recordClip(env, clip).catch((error: unknown) => {
+    console.error(JSON.stringify({ event: 'stream_clip_error', id: clip.id, message: message(error) }));
+  }));
+  return json({ clip: toClip(row), seconds: CLIP_SECONDS }, {
+    status: 202,
+    headers: { Location: `/api/clips/${clip.id}` },
+  });
+}
+
+async function storedObject(env: ReadyClipBindings, key: string, contentType: string): Promise<Response> {
+  const object = await env.HISTORY_BUCKET.get(key);
+  if (!object) return new Response('Clip not found', { status: 404 });
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set('Content-Type', contentType);
+  headers.set('ETag', object.httpEtag);
+  headers.set('Cache-Control', 'public, max-age=86400, immutable');
+  headers.set('Access-Control-Allow-Origin', '*');
+  return new Response(object.body, { headers });
+}
+
+export async function handleClipRequest(request: Request, url: URL, env: ClipBindings, ctx: WaitUntil): Promise<Response | null> {
+  if (url.pathname !== '/api/clips' && !url.pathname.startsWith('/api/clips/')) return null;
+  if (!hasBindings(env)) return json({ error: 'Clips are not configured' }, { status: 503 });
+
+  if (url.pathname === '/api/clips') {
+    if (request.method === 'POST') return startManualClip(request, url, env, ctx);
+    if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, POST' } });
+    const requested = url.searchParams.get('camera');
+    const safe = requested ? safeCameraId(requested) : null;
+    if (requested && !safe) return json({ error: 'Invalid camera id' }, { status: 400 });
+    const limit = Math.min(Math.max(Math.floor(Number(url.searchParams.get('limit') || 10)), 1), MAX_LIST_LIMIT);
+    const result = safe
+      ? await env.HISTORY_DB.prepare('SELECT * FROM stream_clips WHERE camera_id = ? ORDER BY requested_at DESC LIMIT ?').bind(await resolveCameraId(env, safe), limit).all<ClipRow>()
+      : await env.HISTORY_DB.prepare('SELECT * FROM stream_clips ORDER BY requested_at DESC LIMIT ?').bind(limit).all<ClipRow>();
+    return json({ clips: (result.results ?? []).map(toClip) });
+  }
+
+  const match = /^\/api\/clips\/([^/]+)(?:\/(playlist\.m3u8|segments\/(\d{1,4})\.ts))?$/.exec(url.pathname);
+  if (!match || !ID_PATTERN.test(match[1])) return new Response('Not found', { status: 404 });
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  const [, id, file, segment] = match;
+  if (segment !== undefined) return storedObject(env, segmentKey(id, Number(segment)), 'video/mp2t');
+  const row = await env.HISTORY_DB.prepare('SELECT * FROM stream_clips WHERE id = ?').bind(id).first<ClipRow>();
+  if (!row) return json({ error: 'Clip not found' }, { status: 404 });
+  if (!file) return json({ clip: toClip(row) });
+  if (row.status !== 'ready') return json({ error: `Clip is ${row.status}` }, { status: row.status === 'recording' ? 409 : 404 });
+  return storedObject(env, playlistKey(id), 'application/vnd.apple.mpegurl');
+}
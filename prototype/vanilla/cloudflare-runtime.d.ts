@@ -6,11 +6,16 @@ interface RequestInit {
       width?: number;
       fit?: 'scale-down';
       quality?: number;
-      format?: 'avif' | 'webp';
+      format?: 'avif' | 'webp' | 'json';
+      trim?: { left?: number; top?: number; width?: number; height?: number };
     };
   };
 }
 
+interface CacheStorage {
+  readonly default: Cache;
+}
+
 interface Env {
   ASSETS: {
     fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
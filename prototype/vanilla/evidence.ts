@@ -0,0 +1,251 @@
+import { resolveCameraId } from './aliases';
+import { hex, sha256Hex } from './auth';
+import { hasBindings, parseTime, safeCameraId, type HistoryBindings, type ReadyHistoryBindings } from './history';
+import { createZip, type ZipEntry } from './zip';
+
+/**
+ * Incident evidence bundles. `/api/evidence/export?cameras=a,b&from=&to=` returns a ZIP of the original
+ * stored frames with a JSON and CSV manifest, a `SHA256SUMS` file covering every other file, and
+ * `SHA256SUMS.sig`, an HMAC-SHA256 of that file under `EVIDENCE_SIGNING_KEY`. The range is usually a Pulse
+ * observation's evidence window (before capture to last observed capture). `/api/evidence/verify`
+ * checks a bundle's checksums and signature against the current key.
+ */
+
+export type EvidenceBindings = HistoryBindings & { EVIDENCE_SIGNING_KEY?: string };
+
+type SnapshotRow = {
+  camera_id: string;
+  camera_label: string;
+  captured_at: number;
+  r2_key: string;
+  sha256: string;
+  bytes: number;
+  is_duplicate: number;
+  tier: number;
+  visual_fingerprint: string | null;
+  mean_luma: number | null;
+  visual_contrast: number | null;
+  visual_features: string | null;
+  fingerprint_version: number | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+type CatalogRow = { source: string; camera_id: string; label: string; latitude: number; longitude: number; status: string };
+
+type ManifestFrame = {
+  cameraId: string;
+  cameraLabel: string;
+  capturedAt: number;
+  capturedAtIso: string;
+  file: string | null;
+  r2Key: string;
+  sha256: string;
+  sha256Verified: boolean;
+  bytes: number;
+  duplicate: boolean;
+  tier: number;
+  visualFingerprint: string | null;
+  meanLuma: number | null;
+  visualContrast: number | null;
+  fingerprintVersion: number | null;
+  visualFeatures: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+const BUNDLE_VERSION = 1;
+const MAX_EVIDENCE_CAMERAS = 20;
+const MAX_EVIDENCE_SPAN_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EVIDENCE_SPAN_MS = 60 * 60 * 1000;
+const MAX_EVIDENCE_ROWS = 2000;
+const MAX_EVIDENCE_OBJECTS = 240;
+const FETCH_CONCURRENCY = 8;
+const CHECKSUMS_FILE = 'SHA256SUMS';
+const SIGNATURE_FILE = 'SHA256SUMS.sig';
+const CSV_COLUMNS: (keyof ManifestFrame)[] = [
+  'cameraId', 'cameraLabel', 'capturedAt', 'capturedAtIso', 'file', 'r2Key', 'sha256', 'sha256Verified', 'bytes', 'duplicate', 'tier',
+  'visualFingerprint', 'meanLuma', 'visualContrast', 'fingerprintVersion', 'visualFeatures', 'latitude', 'longitude',
+];
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+async function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/** Identifies which key signed a bundle without revealing it, so rotated keys can be told apart. */
+async function keyId(secret: string): Promise<string> {
+  return (await sha256Hex(secret)).slice(0, 16);
+}
+
+function csvCell(value: unknown): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(frames: ManifestFrame[]): string {
+  return [CSV_COLUMNS.join(','), ...frames.map((frame) => CSV_COLUMNS.map((column) => csvCell(frame[column])).join(','))].join('\r\n') + '\r\n';
+}
+
+async function loadObjects(env: ReadyHistoryBindings, keys: string[]): Promise<Map<string, Uint8Array>> {
+  const objects = new Map<string, Uint8Array>();
+  for (let start = 0; start < keys.length; start += FETCH_CONCURRENCY) {
+    await Promise.all(keys.slice(start, start + FETCH_CONCURRENCY).map(async (key) => {
+      const object = await env.HISTORY_BUCKET.get(key);
+      if (object) objects.set(key, new Uint8Array(await new Response(object.body).arrayBuffer()));
+    }));
+  }
+  return objects;
+}
+
+async function exportEvidence(env: ReadyHistoryBindings, secret: string, params: URLSearchParams): Promise<Response> {
+  const requested = [...(params.get('cameras')?.split(',') ?? []), ...params.getAll('camera')].map((id) => id.trim()).filter(Boolean);
+  if (!requested.length) return json({ error: 'At least one camera is required' }, { status: 400 });
+  if (requested.length > MAX_EVIDENCE_CAMERAS) return json({ error: `At most ${MAX_EVIDENCE_CAMERAS} cameras per bundle` }, { status: 400 });
+  if (requested.some((id) => !safeCameraId(id))) return json({ error: 'Invalid camera id' }, { status: 400 });
+  const now = Date.now();
+  const toParam = parseTime(params.get('to'));
+  const fromParam = parseTime(params.get('from'));
+  if (Number.isNaN(toParam) || Number.isNaN(fromParam)) return json({ error: 'from and to must be ISO 8601 or epoch timestamps' }, { status: 400 });
+  const to = Math.min(toParam ?? now, now);
+  const from = fromParam ?? to - DEFAULT_EVIDENCE_SPAN_MS;
+  if (!(from < to)) return json({ error: 'from must be before to' }, { status: 400 });
+  if (to - from > MAX_EVIDENCE_SPAN_MS) return json({ error: `Bundles are limited to ${MAX_EVIDENCE_SPAN_MS / 3600000} hours` }, { status: 400 });
+
+  const cameras = [...new Set(await Promise.all(requested.map((id) => resolveCameraId(env, id))))];
+  const camerasJson = JSON.stringify(cameras);
+  const result = await env.HISTORY_DB.prepare(
+    `SELECT COALESCE(a.camera_id, s.camera_id) AS camera_id, s.camera_label, s.captured_at, s.r2_key, s.sha256, s.bytes, s.is_duplicate, s.tier,
+            s.visual_fingerprint, s.mean_luma, s.visual_contrast, s.visual_features, s.fingerprint_version, s.latitude, s.longitude
+       FROM camera_snapshots s
+       LEFT JOIN camera_aliases a ON a.alias = s.camera_id
+      WHERE s.captured_at >= ? AND s.captured_at < ?
+        AND s.camera_id IN (SELECT value FROM json_each(?) UNION ALL SELECT alias FROM camera_aliases WHERE camera_id IN (SELECT value FROM json_each(?)))
+      ORDER BY 1 ASC, s.captured_at ASC
+      LIMIT ?`,
+  ).bind(from, to, camerasJson, camerasJson, MAX_EVIDENCE_ROWS + 1).all<SnapshotRow>();
+  const rows = result.results ?? [];
+  if (!rows.length) return json({ error: 'No frames in range' }, { status: 404 });
+  const keys = [...new Set(rows.map((row) => row.r2_key))];
+  if (rows.length > MAX_EVIDENCE_ROWS || keys.length > MAX_EVIDENCE_OBJECTS) {
+    return json({ error: `Bundles are limited to ${MAX_EVIDENCE_OBJECTS} distinct frames; narrow the cameras or time range` }, { status: 413 });
+  }
+  const catalog = await env.HISTORY_DB.prepare(
+    'SELECT source, camera_id, label, latitude, longitude, status FROM cameras WHERE camera_id IN (SELECT value FROM json_each(?)) ORDER BY camera_id, source',
+  ).bind(camerasJson).all<CatalogRow>();
+
+  const objects = await loadObjects(env, keys);
+  // Hash what is actually in the bucket, not just what D1 says was stored, so tampering or bit rot shows up.
+  const verified = new Map(await Promise.all([...objects].map(async ([key, data]) => [key, await sha256Hex(data)] as const)));
+  const recorded = new Map(rows.map((row) => [row.r2_key, row.sha256]));
+  const frames: ManifestFrame[] = rows.map((row) => ({
+    cameraId: row.camera_id,
+    cameraLabel: row.camera_label,
+    capturedAt: row.captured_at,
+    capturedAtIso: new Date(row.captured_at).toISOString(),
+    file: objects.has(row.r2_key) ? row.r2_key : null,
+    r2Key: row.r2_key,
+    sha256: row.sha256,
+    sha256Verified: verified.get(row.r2_key) === row.sha256,
+    bytes: row.bytes,
+    duplicate: Boolean(row.is_duplicate),
+    tier: row.tier,
+    visualFingerprint: row.visual_fingerprint,
+    meanLuma: row.mean_luma,
+    visualContrast: row.visual_contrast,
+    fingerprintVersion: row.fingerprint_version,
+    visualFeatures: row.visual_features,
+    latitude: row.latitude,
+    longitude: row.longitude,
+  }));
+  const signer = await keyId(secret);
+  const manifest = {
+    version: BUNDLE_VERSION,
+    generatedAt: now,
+    generatedAtIso: new Date(now).toISOString(),
+    range: { from, to, fromIso: new Date(from).toISOString(), toIso: new Date(to).toISOString() },
+    requestedCameras: requested,
+    cameraIds: cameras,
+    cameras: (catalog.results ?? []).map((row) => ({ source: row.source, cameraId: row.camera_id, label: row.label, latitude: row.latitude, longitude: row.longitude, status: row.status })),
+    frameCount: frames.length,
+    fileCount: objects.size,
+    missing: keys.filter((key) => !objects.has(key)),
+    unverified: keys.filter((key) => objects.has(key) && verified.get(key) !== recorded.get(key)),
+    signature: { algorithm: 'HMAC-SHA256', keyId: signer, file: SIGNATURE_FILE, covers: CHECKSUMS_FILE },
+    methodology: 'Frames are the original captures stored by the history job. Duplicate rows share one file because the camera image did not change. sha256Verified compares the stored object against the digest recorded at capture time.',
+    frames,
+  };
+
+  const encoder = new TextEncoder();
+  const captures = new Map(rows.map((row) => [row.r2_key, row.captured_at]));
+  const entries: ZipEntry[] = [
+    { name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)), modifiedAt: now },
+    { name: 'manifest.csv', data: encoder.encode(toCsv(frames)), modifiedAt: now },
+    ...[...objects].map(([key, data]) => ({ name: key, data, modifiedAt: captures.get(key) ?? now })),
+  ];
+  const checksums = encoder.encode((await Promise.all(entries.map(async (entry) => `${await sha256Hex(entry.data)}  ${entry.name}`))).join('\n') + '\n');
+  const signature = hex(await crypto.subtle.sign('HMAC', await signingKey(secret), checksums));
+  entries.push(
+    { name: CHECKSUMS_FILE, data: checksums, modifiedAt: now },
+    { name: SIGNATURE_FILE, data: encoder.encode(JSON.stringify({ algorithm: 'HMAC-SHA256', keyId: signer, signedAt: now, signature }, null, 2) + '\n'), modifiedAt: now },
+  );
+  const zip = createZip(entries);
+  console.log(JSON.stringify({ event: 'evidence_export', cameras: cameras.length, frames: frames.length, files: objects.size, missing: manifest.missing.length, unverified: manifest.unverified.length, bytes: zip.byteLength }));
+  const stamp = new Date(from).toISOString().replace(/[-:]|\.\d+/g, '');
+  return new Response(zip, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="evidence-${stamp}-${cameras.length}cam.zip"`,
+      'Cache-Control': 'no-store',
+      'X-Evidence-Frames': String(frames.length),
+      'X-Evidence-Key-Id': signer,
+    },
+  });
+}
+
+/** Body: `{ checksums, signature }` with the contents of SHA256SUMS and SHA256SUMS.sig (or just its hex signature). */
+async function verifyEvidence(request: Request, secret: string): Promise<Response> {
+  let body: { checksums?: unknown; signature?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+  if (typeof body.checksums !== 'string' || typeof body.signature !== 'string') return json({ error: 'checksums and signature are required' }, { status: 400 });
+  let signature = body.signature.trim();
+  let claimedKeyId: string | null = null;
+  if (signature.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(signature) as { signature?: unknown; keyId?: unknown };
+      signature = typeof parsed.signature === 'string' ? parsed.signature : '';
+      claimedKeyId = typeof parsed.keyId === 'string' ? parsed.keyId : null;
+    } catch {
+      return json({ error: 'Invalid signature file' }, { status: 400 });
+    }
+  }
+  if (!/^[0-9a-f]{64}$/i.test(signature)) return json({ error: 'Invalid signature' }, { status: 400 });
+  const signatureBytes = new Uint8Array(signature.match(/../g)!.map((byte) => parseInt(byte, 16)));
+  const current = await keyId(secret);
+  const valid = await crypto.subtle.verify('HMAC', await signingKey(secret), signatureBytes, new TextEncoder().encode(body.checksums));
+  return json({ valid, keyId: current, ...(claimedKeyId && claimedKeyId !== current ? { note: 'Bundle was signed with a different key' } : {}) });
+}
+
+export async function handleEvidenceRequest(request: Request, url: URL, env: EvidenceBindings): Promise<Response | null> {
+  if (!url.pathname.startsWith('/api/evidence/')) return null;
+  const secret = env.EVIDENCE_SIGNING_KEY;
+  if (!secret) return json({ error: 'Evidence signing is not configured' }, { status: 503 });
+  if (url.pathname === '/api/evidence/verify') {
+    if (request.method !== 'POST') return new Response('Method not allowed', { status: 405, headers: { Allow: 'POST' } });
+    return verifyEvidence(request, secret);
+  }
+  if (url.pathname !== '/api/evidence/export') return new Response('Not found', { status: 404 });
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  if (!hasBindings(env)) return json({ error: 'History is not configured yet' }, { status: 503 });
+  return exportEvidence(env, secret, url.searchParams);
+}
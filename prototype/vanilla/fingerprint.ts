@@ -0,0 +1,220 @@
+/**
+ * Versioned visual fingerprints.
+ *
+ * Version 1 is the 16×9 luminance thumbnail in `visual_fingerprint` plus mean luma and contrast. Version 2
+ * measures a 32×18 thumbnail and adds `visual_features`: luma statistics and edge energy for each cell of a
+ * 4×3 region grid, overall edge energy and a 64-bit DCT perceptual hash. It still derives the version 1
+ * thumbnail, so Pulse baselines stay comparable across rows of either version.
+ */
+
+export const FINGERPRINT_VERSION = 2;
+export const FEATURE_WIDTH = 32;
+export const FEATURE_HEIGHT = 18;
+export const REGION_COLUMNS = 4;
+export const REGION_ROWS = 3;
+export const THUMBNAIL_WIDTH = 16;
+export const THUMBNAIL_HEIGHT = 9;
+
+const HASH_SIZE = 8;
+
+/** Luma and contrast are 0–255 like the version 1 metrics; edge energy is a 0–1 mean gradient. */
+export type RegionFeatures = { luma: number; contrast: number; edges: number };
+
+export type VisualFeatures = {
+  version: typeof FINGERPRINT_VERSION;
+  grid: [number, number];
+  edges: number;
+  phash: string;
+  regions: RegionFeatures[];
+};
+
+export type VisualMeasurement = {
+  fingerprint: string;
+  meanLuma: number;
+  contrast: number;
+  features: VisualFeatures;
+};
+
+/** Where a region sits in the frame, as fractions of its width and height. */
+export type RegionBounds = { id: string; x: number; y: number; width: number; height: number };
+
+function encodeFingerprint(values: Uint8Array): string {
+  let raw = '';
+  for (const value of values) raw += String.fromCharCode(value);
+  return btoa(raw);
+}
+
+function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+function downsample(pixels: Uint8Array, width: number, height: number, targetWidth: number, targetHeight: number): Uint8Array {
+  const output = new Uint8Array(targetWidth * targetHeight);
+  for (let ty = 0; ty < targetHeight; ty += 1) {
+    const y0 = Math.floor(ty * height / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor((ty + 1) * height / targetHeight));
+    for (let tx = 0; tx < targetWidth; tx += 1) {
+      const x0 = Math.floor(tx * width / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor((tx + 1) * width / targetWidth));
+      let sum = 0;
+      for (let y = y0; y < y1; y += 1) for (let x = x0; x < x1; x += 1) sum += pixels[y * width + x];
+      output[ty * targetWidth + tx] = Math.round(sum / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+  return output;
+}
+
+function cellRange(index: number, cells: number, size: number): [number, number] {
+  return [Math.floor(index * size / cells), Math.floor((index + 1) * size / cells)];
+}
+
+/** Forward-difference gradient magnitude per pixel, scaled to 0–1. */
+function gradients(pixels: Uint8Array, width: number, height: number): Float32Array {
+  const output = new Float32Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = y * width + x;
+      const dx = x + 1 < width ? pixels[index + 1] - pixels[index] : 0;
+      const dy = y + 1 < height ? pixels[index + width] - pixels[index] : 0;
+      output[index] = (Math.abs(dx) + Math.abs(dy)) / 510;
+    }
+  }
+  return output;
+}
+
+/** Low-frequency 8×8 DCT coefficients thresholded at their median, as 16 hex digits. */
+function perceptualHash(pixels: Uint8Array, width: number, height: number): string {
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v += 1) {
+    for (let u = 0; u < HASH_SIZE; u += 1) {
+      let sum = 0;
+      for (let y = 0; y < height; y += 1) {
+        const cy = Math.cos(Math.PI * (2 * y + 1) * v / (2 * height));
+        for (let x = 0; x < width; x += 1) sum += pixels[y * width + x] * Math.cos(Math.PI * (2 * x + 1) * u / (2 * width)) * cy;
+      }
+      coefficients.push(sum);
+    }
+  }
+  // The DC term only tracks overall brightness, so it is left out of the threshold.
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  let hex = '';
+  for (let index = 0; index < coefficients.length; index += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit += 1) nibble = (nibble << 1) | (coefficients[index + bit] > median ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/** Measures a `FEATURE_WIDTH`×`FEATURE_HEIGHT` luminance thumbnail. */
+export function measureLuminance(pixels: Uint8Array, width = FEATURE_WIDTH, height = FEATURE_HEIGHT): VisualMeasurement | null {
+  if (!width || !height || pixels.length !== width * height) return null;
+  const thumbnail = downsample(pixels, width, height, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  const meanLuma = thumbnail.reduce((sum, value) => sum + value, 0) / thumbnail.length;
+  const contrast = Math.sqrt(thumbnail.reduce((sum, value) => sum + (value - meanLuma) ** 2, 0) / thumbnail.length);
+  const gradient = gradients(pixels, width, height);
+
+  const regions: RegionFeatures[] = [];
+  for (let row = 0; row < REGION_ROWS; row += 1) {
+    const [y0, y1] = cellRange(row, REGION_ROWS, height);
+    for (let column = 0; column < REGION_COLUMNS; column += 1) {
+      const [x0, x1] = cellRange(column, REGION_COLUMNS, width);
+      let sum = 0;
+      let squares = 0;
+      let edges = 0;
+      for (let y = y0; y < y1; y += 1) {
+        for (let x = x0; x < x1; x += 1) {
+          const value = pixels[y * width + x];
+          sum += value;
+          squares += value * value;
+          edges += gradient[y * width + x];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0) || 1;
+      const mean = sum / count;
+      regions.push({ luma: round(mean, 2), contrast: round(Math.sqrt(Math.max(0, squares / count - mean * mean)), 2), edges: round(edges / count, 4) });
+    }
+  }
+
+  return {
+    fingerprint: encodeFingerprint(thumbnail),
+    meanLuma: round(meanLuma, 3),
+    contrast: round(contrast, 3),
+    features: {
+      version: FINGERPRINT_VERSION,
+      grid: [REGION_COLUMNS, REGION_ROWS],
+      edges: round(gradient.reduce((sum, value) => sum + value, 0) / gradient.length, 4),
+      phash: perceptualHash(pixels, width, height),
+      regions,
+    },
+  };
+}
+
+/** Parses stored `visual_features`; anything from another version or grid is treated as absent. */
+export function decodeFeatures(value: string | null): VisualFeatures | null {
+  if (!value) return null;
+  try {
+    const features = JSON.parse(value) as VisualFeatures;
+    if (features?.version !== FINGERPRINT_VERSION || !Array.isArray(features.regions)) return null;
+    if (features.regions.length !== REGION_COLUMNS * REGION_ROWS || typeof features.phash !== 'string') return null;
+    return features;
+  } catch {
+    return null;
+  }
+}
+
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    let bits = parseInt(a[index], 16) ^ parseInt(b[index], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function regionBounds(index: number): RegionBounds {
+  const row = Math.floor(index / REGION_COLUMNS);
+  const column = index % REGION_COLUMNS;
+  return {
+    id: `r${row}c${column}`,
+    x: round(column / REGION_COLUMNS, 4),
+    y: round(row / REGION_ROWS, 4),
+    width: round(1 / REGION_COLUMNS, 4),
+    height: round(1 / REGION_ROWS, 4),
+  };
+}
+
+/**
+ * Per-region mean absolute and signed luma differences between two thumbnails of the same size, as
+ * fractions of full scale, and the share of the region `weights` keep (1 without a mask). Works on
+ * version 1 thumbnails, so it also applies to seasonal baselines.
+ */
+export function regionDifferences(pixels: number[], reference: number[], width: number, height: number, weights?: number[]): { pixelDifference: number; lumaDelta: number; weight: number }[] {
+  const output: { pixelDifference: number; lumaDelta: number; weight: number }[] = [];
+  for (let row = 0; row < REGION_ROWS; row += 1) {
+    const [y0, y1] = cellRange(row, REGION_ROWS, height);
+    for (let column = 0; column < REGION_COLUMNS; column += 1) {
+      const [x0, x1] = cellRange(column, REGION_COLUMNS, width);
+      let absolute = 0;
+      let signed = 0;
+      let total = 0;
+      for (let y = y0; y < y1; y += 1) {
+        for (let x = x0; x < x1; x += 1) {
+          const index = y * width + x;
+          const weight = weights?.[index] ?? 1;
+          const delta = pixels[index] - reference[index];
+          absolute += Math.abs(delta) * weight;
+          signed += delta * weight;
+          total += weight;
+        }
+      }
+      const cells = (y1 - y0) * (x1 - x0) || 1;
+      output.push({ pixelDifference: total ? absolute / (total * 255) : 0, lumaDelta: total ? signed / (total * 255) : 0, weight: total / cells });
+    }
+  }
+  return output;
+}
@@ -0,0 +1,131 @@
+// Minimal animated GIF89a encoder over a fixed 6×7×6 colour cube, which is plenty for camera stills
+// and avoids a per-frame quantisation pass.
+
+const LEVELS = [6, 7, 6] as const;
+const MIN_CODE_SIZE = 8;
+
+function palette(): Uint8Array {
+  const table = new Uint8Array(256 * 3);
+  let index = 0;
+  for (let r = 0; r < LEVELS[0]; r += 1) {
+    for (let g = 0; g < LEVELS[1]; g += 1) {
+      for (let b = 0; b < LEVELS[2]; b += 1) {
+        table.set([Math.round((r * 255) / (LEVELS[0] - 1)), Math.round((g * 255) / (LEVELS[1] - 1)), Math.round((b * 255) / (LEVELS[2] - 1))], index * 3);
+        index += 1;
+      }
+    }
+  }
+  return table;
+}
+
+function indexed(rgb: Uint8Array): Uint8Array {
+  const out = new Uint8Array(rgb.length / 3);
+  for (let i = 0, p = 0; p < out.length; i += 3, p += 1) {
+    const r = Math.round((rgb[i] * (LEVELS[0] - 1)) / 255);
+    const g = Math.round((rgb[i + 1] * (LEVELS[1] - 1)) / 255);
+    const b = Math.round((rgb[i + 2] * (LEVELS[2] - 1)) / 255);
+    out[p] = (r * LEVELS[1] + g) * LEVELS[2] + b;
+  }
+  return out;
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i += 1) this.byte(values[i]);
+  }
+
+  short(value: number): void {
+    this.byte(value & 255);
+    this.byte((value >> 8) & 255);
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+function writeLzw(out: ByteWriter, pixels: Uint8Array): void {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 255);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) { out.byte(255); out.bytes(block); block.length = 0; }
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i += 1) {
+    const pixel = pixels[i];
+    const key = (prefix << 8) | pixel;
+    const code = table.get(key);
+    if (code !== undefined) { prefix = code; continue; }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize += 1;
+      table.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 255);
+  if (block.length) { out.byte(block.length); out.bytes(block); }
+  out.byte(0);
+}
+
+/** Encodes same-sized packed RGB frames as a looping GIF; `delayMs` is rounded to GIF's 10 ms ticks. */
+export function encodeGif(width: number, height: number, frames: Uint8Array[], delayMs: number): Uint8Array {
+  const out = new ByteWriter();
+  out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]);
+  out.short(width);
+  out.short(height);
+  out.bytes([0xf7, 0, 0]);
+  out.bytes(palette());
+  // NETSCAPE2.0 application extension: loop forever.
+  out.bytes([0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', (char) => char.charCodeAt(0)), 0x03, 0x01, 0, 0, 0]);
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  for (const frame of frames) {
+    out.bytes([0x21, 0xf9, 0x04, 0x00]);
+    out.short(delay);
+    out.bytes([0, 0]);
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0);
+    writeLzw(out, indexed(frame));
+  }
+  out.byte(0x3b);
+  return out.result();
+}
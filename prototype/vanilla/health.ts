@@ -0,0 +1,193 @@
+/**
+ * Camera health ledger. Image and stream fetch outcomes are counted per camera in hourly buckets: cron
+ * captures record every attempt, and the `/api/image` and `/api/video` proxies record what visitors were
+ * actually served. `/api/health` turns the buckets into rolling uptime percentages and the last good and
+ * failed fetch, so clients start with the `recent` and `issues` collections already filled in.
+ */
+import { resolveCameraId } from './aliases';
+import { CAMERA_HOST } from './providers';
+
+type HealthD1Statement = {
+  bind: (...values: unknown[]) => HealthD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type HealthD1Database = {
+  prepare: (query: string) => HealthD1Statement;
+  batch: (statements: HealthD1Statement[]) => Promise<unknown>;
+};
+
+export type HealthBindings = { HISTORY_DB?: HealthD1Database };
+
+export type HealthKind = 'image' | 'stream';
+export type HealthOutcome = { cameraId: string; kind: HealthKind; ok: boolean };
+/** What a proxied request fetched: an image by host and path, or a stream by its name on the video server. */
+export type HealthResource = { kind: 'image'; host: string; path: string } | { kind: 'stream'; stream: string };
+
+/** Percentages are 0–100 and null for a window without any recorded fetch. */
+export type HealthSummary = {
+  lastOkAt: number | null;
+  lastErrorAt: number | null;
+  checks: Record<HealthWindow, number>;
+  uptime: Record<HealthWindow, number | null>;
+};
+
+export type CameraHealthLedger = { cameraId: string; image: HealthSummary | null; stream: HealthSummary | null };
+
+const HOUR_MS = 60 * 60 * 1000;
+export const HEALTH_WINDOWS = { '24h': 24 * HOUR_MS, '7d': 7 * 24 * HOUR_MS, '30d': 30 * 24 * HOUR_MS } as const;
+export type HealthWindow = keyof typeof HEALTH_WINDOWS;
+const RETENTION_MS = 31 * 24 * HOUR_MS;
+const MAX_FILTER_CAMERAS = 100;
+const STATEMENT_BATCH = 50;
+// Busy cameras are requested by many visitors at once; each isolate records at most one success and one
+// failure per resource in this interval, so proxy counts are samples rather than a request log.
+const RECORD_INTERVAL_MS = 60 * 1000;
+const RESOURCE_CACHE_MS = 10 * 60 * 1000;
+const MAX_TRACKED_RESOURCES = 2000;
+
+const lastRecorded = new Map<string, number>();
+const resourceCameras = new Map<string, { cameraId: string | null; at: number }>();
+
+type LedgerRow = { camera_id: string; kind: HealthKind; last_ok_at: number | null; last_error_at: number | null } & Record<string, number | string | null>;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'public, max-age=30, s-maxage=30');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function hourStart(epochMs: number): number {
+  return epochMs - (epochMs % HOUR_MS);
+}
+
+function resourceKey(resource: HealthResource): string {
+  return resource.kind === 'image' ? `image:${resource.host}${resource.path}` : `stream:${resource.stream}`;
+}
+
+/** The stream name in a `/live/<stream>.stream/...` video server path. */
+export function streamName(path: string): string | null {
+  const match = /^\/live\/([^/]+)\.stream\//.exec(path);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/** Adds outcomes to the current hour's buckets, one upsert per camera and kind. */
+export async function recordHealth(env: HealthBindings, outcomes: HealthOutcome[], now = Date.now()): Promise<void> {
+  if (!env.HISTORY_DB || !outcomes.length) return;
+  const db = env.HISTORY_DB;
+  const buckets = new Map<string, HealthOutcome & { okCount: number; failedCount: number }>();
+  for (const outcome of outcomes) {
+    const key = `${outcome.cameraId}\n${outcome.kind}`;
+    const bucket = buckets.get(key) ?? { ...outcome, okCount: 0, failedCount: 0 };
+    if (outcome.ok) bucket.okCount += 1;
+    else bucket.failedCount += 1;
+    buckets.set(key, bucket);
+  }
+  const statements = [...buckets.values()].map((bucket) => db.prepare(
+    `INSERT INTO camera_health (camera_id, kind, hour_start, ok, failed, last_ok_at, last_error_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(camera_id, kind, hour_start) DO UPDATE SET
+       ok = camera_health.ok + excluded.ok, failed = camera_health.failed + excluded.failed,
+       last_ok_at = COALESCE(MAX(camera_health.last_ok_at, excluded.last_ok_at), camera_health.last_ok_at, excluded.last_ok_at),
+       last_error_at = COALESCE(MAX(camera_health.last_error_at, excluded.last_error_at), camera_health.last_error_at, excluded.last_error_at)`,
+  ).bind(bucket.cameraId, bucket.kind, hourStart(now), bucket.okCount, bucket.failedCount, bucket.okCount ? now : null, bucket.failedCount ? now : null));
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+}
+
+async function cameraForResource(db: HealthD1Database, resource: HealthResource, now: number): Promise<string | null> {
+  const key = resourceKey(resource);
+  const cached = resourceCameras.get(key);
+  if (cached && now - cached.at < RESOURCE_CACHE_MS) return cached.cameraId;
+  const row = resource.kind === 'image'
+    ? await db.prepare('SELECT camera_id FROM cameras WHERE image_path = ? AND COALESCE(image_host, ?) = ? ORDER BY updated_at DESC LIMIT 1')
+      .bind(resource.path, CAMERA_HOST, resource.host).first<{ camera_id: string }>()
+    : await db.prepare('SELECT camera_id FROM cameras WHERE stream = ? ORDER BY updated_at DESC LIMIT 1')
+      .bind(resource.stream).first<{ camera_id: string }>();
+  if (resourceCameras.size >= MAX_TRACKED_RESOURCES) resourceCameras.clear();
+  resourceCameras.set(key, { cameraId: row?.camera_id ?? null, at: now });
+  return row?.camera_id ?? null;
+}
+
+/**
+ * Records the outcome of a proxied fetch against the catalog camera it belongs to. Resources that are not
+ * in the catalog, such as cameras from a source the cron does not sync, are ignored.
+ */
+export async function recordProxyHealth(env: HealthBindings, resource: HealthResource, ok: boolean, now = Date.now()): Promise<void> {
+  if (!env.HISTORY_DB) return;
+  const key = `${resourceKey(resource)}\n${ok}`;
+  if (now - (lastRecorded.get(key) ?? 0) < RECORD_INTERVAL_MS) return;
+  if (lastRecorded.size >= MAX_TRACKED_RESOURCES) lastRecorded.clear();
+  lastRecorded.set(key, now);
+  try {
+    const cameraId = await cameraForResource(env.HISTORY_DB, resource, now);
+    if (cameraId) await recordHealth(env, [{ cameraId, kind: resource.kind, ok }], now);
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'health_record_error', kind: resource.kind, message: error instanceof Error ? error.message : String(error) }));
+  }
+}
+
+export async function purgeHealth(env: HealthBindings, now = Date.now()): Promise<void> {
+  if (!env.HISTORY_DB) return;
+  await env.HISTORY_DB.prepare('DELETE FROM camera_health WHERE hour_start < ?').bind(hourStart(now - RETENTION_MS)).run();
+}
+
+function summarize(row: LedgerRow): HealthSummary {
+  const checks = {} as Record<HealthWindow, number>;
+  const uptime = {} as Record<HealthWindow, number | null>;
+  for (const window of Object.keys(HEALTH_WINDOWS) as HealthWindow[]) {
+    const ok = Number(row[`ok_${window}`] ?? 0);
+    const failed = Number(row[`failed_${window}`] ?? 0);
+    checks[window] = ok + failed;
+    uptime[window] = ok + failed ? Number((ok / (ok + failed) * 100).toFixed(2)) : null;
+  }
+  return { lastOkAt: row.last_ok_at, lastErrorAt: row.last_error_at, checks, uptime };
+}
+
+/** Uptime and last fetch times per camera over every window in `HEALTH_WINDOWS`. */
+export async function healthLedger(env: HealthBindings, now = Date.now()): Promise<CameraHealthLedger[]> {
+  if (!env.HISTORY_DB) return [];
+  const windows = Object.entries(HEALTH_WINDOWS) as [HealthWindow, number][];
+  // A bucket counts towards a window when it started inside it, so the current partial hour is always included.
+  const columns = windows.map(([window]) => `
+    SUM(CASE WHEN h.hour_start > ? THEN h.ok ELSE 0 END) AS "ok_${window}",
+    SUM(CASE WHEN h.hour_start > ? THEN h.failed ELSE 0 END) AS "failed_${window}"`).join(',');
+  const starts = windows.flatMap(([, duration]) => [now - duration, now - duration]);
+  const oldest = Math.min(...windows.map(([, duration]) => now - duration));
+  const result = await env.HISTORY_DB.prepare(`
+    SELECT COALESCE(a.camera_id, h.camera_id) AS camera_id, h.kind, MAX(h.last_ok_at) AS last_ok_at, MAX(h.last_error_at) AS last_error_at,${columns}
+      FROM camera_health h
+      LEFT JOIN camera_aliases a ON a.alias = h.camera_id
+     WHERE h.hour_start > ?
+     GROUP BY 1, 2
+     ORDER BY 1
+  `).bind(...starts, oldest).all<LedgerRow>();
+  const cameras = new Map<string, CameraHealthLedger>();
+  for (const row of result.results ?? []) {
+    const entry = cameras.get(row.camera_id) ?? { cameraId: row.camera_id, image: null, stream: null };
+    entry[row.kind] = summarize(row);
+    cameras.set(row.camera_id, entry);
+  }
+  return [...cameras.values()];
+}
+
+export async function handleHealthLedgerRequest(request: Request, url: URL, env: HealthBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/health') return null;
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  if (!env.HISTORY_DB) return json({ error: 'Camera health is not configured' }, { status: 503 });
+  const requested = (url.searchParams.get('cameras') ?? url.searchParams.get('camera') ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  if (requested.length > MAX_FILTER_CAMERAS) return json({ error: `At most ${MAX_FILTER_CAMERAS} cameras per request` }, { status: 400 });
+  const wanted = requested.length ? new Set(await Promise.all(requested.map((id) => resolveCameraId(env, id)))) : null;
+  const now = Date.now();
+  const cameras = (await healthLedger(env, now)).filter((entry) => !wanted || wanted.has(entry.cameraId));
+  return json({ generatedAt: now, windows: Object.keys(HEALTH_WINDOWS), cameras });
+}
@@ -1,11 +1,27 @@
+import { CAMERA_ID_MATCH, resolveCameraId } from './aliases';
+import { cadenceSummary, planCaptures, recordCaptures, type CaptureResult } from './cadence';
+import { decodeFeatures, FEATURE_HEIGHT, FEATURE_WIDTH, FINGERPRINT_VERSION, measureLuminance } from './fingerprint';
+import { recordHealth } from './health';
+import { countMetric } from './metrics';
+import { decodePngLuminance } from './png';
+import { CAMERA_HOST, isAllowedImage } from './providers';
+import type { ObservationState } from './pulse';
+import { maxRetentionMs, retentionConfig, retentionPolicy, retentionPolicyFor, type RetentionBindings, type RetentionTier } from './retention';
+import { upstreamFetch } from './upstream';
+
 export type HistoryCamera = {
   id: string;
   label: string;
   imagePath: string;
+  imageHost?: string;
+  collections?: string[];
   lat?: number;
   lng?: number;
 };
 
+/** The counters of one cron tick's capture run, as logged in `history_capture_complete`. */
+export type CaptureSummary = Record<CaptureResult, number> & { due: number; selected: number; deferred: number; pulse: number };
+
 type HistoryD1Statement = {
   bind: (...values: unknown[]) => HistoryD1Statement;
   first: <T>() => Promise<T | null>;
@@ -15,6 +31,7 @@ type HistoryD1Statement = {
 
 type HistoryD1Database = {
   prepare: (query: string) => HistoryD1Statement;
+  batch: (statements: HistoryD1Statement[]) => Promise<unknown>;
 };
 
 type HistoryR2Object = {
@@ -32,131 +49,67 @@ type HistoryR2Bucket = {
 type ImagesOutput = { response: () => Response };
 type ImagesTransformer = {
   transform: (options: Record<string, unknown>) => ImagesTransformer;
+  draw: (overlay: ReadableStream | ImagesTransformer, options?: Record<string, unknown>) => ImagesTransformer;
   output: (options: Record<string, unknown>) => Promise<ImagesOutput>;
 };
-type ImagesBinding = { input: (stream: ReadableStream) => ImagesTransformer };
+export type ImagesBinding = { input: (stream: ReadableStream) => ImagesTransformer };
 
-export type HistoryBindings = {
+export type HistoryBindings = RetentionBindings & {
+  HISTORY_CAPTURE?: string;
   HISTORY_DB?: HistoryD1Database;
   HISTORY_BUCKET?: HistoryR2Bucket;
   IMAGES?: ImagesBinding;
 };
 
-type ReadyHistoryBindings = HistoryBindings & {
+export type ReadyHistoryBindings = HistoryBindings & {
   HISTORY_DB: HistoryD1Database;
   HISTORY_BUCKET: HistoryR2Bucket;
 };
 
-const CAMERA_HOST = 'www.seattle.gov';
-const CAMERA_PREFIX = '/trafficcams/images/';
 const HISTORY_PREFIX = 'frames/';
-const RETENTION_MS = 48 * 60 * 60 * 1000;
-const CAPTURE_BUCKETS = 5;
 const CAPTURE_CONCURRENCY = 6;
 const MAX_HISTORY_LIMIT = 288;
+const PURGE_BATCH = 200;
+// Looking for frames under policies no longer in HISTORY_RETENTION scans the table, so only every this many ticks.
+const ORPHAN_POLICY_TICKS = 60;
+const MAX_RANGE_CAMERAS = 40;
+const MAX_STEP_MINUTES = 24 * 60;
+const MAX_CROSS_CAMERA_SPAN_MS = 24 * 60 * 60 * 1000;
+// The cron captures a camera at most once a minute, which sizes how many buckets a range page reads at a time.
+const CAPTURE_INTERVAL_MS = 60 * 1000;
+// Range pages over sparse history read wider spans until full, up to this many reads per request.
+const MAX_RANGE_READS = 4;
+// D1 caps bound parameters per statement.
+const MAX_BOUND_PARAMS = 100;
 
 type VisualMetrics = {
   fingerprint: string;
   meanLuma: number;
   contrast: number;
+  features: string | null;
+  version: number;
 };
 
-function paeth(a: number, b: number, c: number): number {
-  const p = a + b - c;
-  const pa = Math.abs(p - a);
-  const pb = Math.abs(p - b);
-  const pc = Math.abs(p - c);
-  if (pa <= pb && pa <= pc) return a;
-  return pb <= pc ? b : c;
-}
-
-async function decodePngLuminance(bytes: ArrayBuffer): Promise<Uint8Array | null> {
-  const data = new Uint8Array(bytes);
-  if (data.length < 33 || data[0] !== 137 || data[1] !== 80 || data[2] !== 78 || data[3] !== 71) return null;
-  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
-  let offset = 8;
-  let width = 0;
-  let height = 0;
-  let bitDepth = 0;
-  let colorType = -1;
-  const idat: Uint8Array[] = [];
-  while (offset + 12 <= data.length) {
-    const length = view.getUint32(offset);
-    const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
-    const start = offset + 8;
-    const end = start + length;
-    if (end + 4 > data.length) return null;
-    if (type === 'IHDR') {
-      width = view.getUint32(start);
-      height = view.getUint32(start + 4);
-      bitDepth = data[start + 8];
-      colorType = data[start + 9];
-    } else if (type === 'IDAT') {
-      idat.push(data.slice(start, end));
-    } else if (type === 'IEND') break;
-    offset = end + 4;
-  }
-  if (!width || !height || bitDepth !== 8 || !idat.length) return null;
-  const channels = colorType === 0 ? 1 : colorType === 2 ? 3 : colorType === 4 ? 2 : colorType === 6 ? 4 : 0;
-  if (!channels) return null;
-  const compressedLength = idat.reduce((sum, chunk) => sum + chunk.length, 0);
-  const compressed = new Uint8Array(compressedLength);
-  let cursor = 0;
-  for (const chunk of idat) { compressed.set(chunk, cursor); cursor += chunk.length; }
-  const decompressed = new Uint8Array(await new Response(new Response(compressed).body!.pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
-  const rowBytes = width * channels;
-  if (decompressed.length < height * (rowBytes + 1)) return null;
-  const raw = new Uint8Array(height * rowBytes);
-  let input = 0;
-  for (let y = 0; y < height; y += 1) {
-    const filter = decompressed[input++];
-    for (let x = 0; x < rowBytes; x += 1) {
-      const value = decompressed[input++];
-      const outIndex = y * rowBytes + x;
-      const left = x >= channels ? raw[outIndex - channels] : 0;
-      const up = y > 0 ? raw[outIndex - rowBytes] : 0;
-      const upperLeft = y > 0 && x >= channels ? raw[outIndex - rowBytes - channels] : 0;
-      let decoded = value;
-      if (filter === 1) decoded = (value + left) & 255;
-      else if (filter === 2) decoded = (value + up) & 255;
-      else if (filter === 3) decoded = (value + Math.floor((left + up) / 2)) & 255;
-      else if (filter === 4) decoded = (value + paeth(left, up, upperLeft)) & 255;
-      else if (filter !== 0) return null;
-      raw[outIndex] = decoded;
-    }
-  }
-  const luminance = new Uint8Array(width * height);
-  for (let i = 0, p = 0; i < raw.length; i += channels, p += 1) {
-    if (colorType === 0 || colorType === 4) luminance[p] = raw[i];
-    else luminance[p] = Math.round(0.2126 * raw[i] + 0.7152 * raw[i + 1] + 0.0722 * raw[i + 2]);
-  }
-  return luminance;
-}
-
-function encodeFingerprint(values: Uint8Array): string {
-  let raw = '';
-  for (const value of values) raw += String.fromCharCode(value);
-  return btoa(raw);
-}
-
 async function measureVisual(images: ImagesBinding | undefined, bytes: ArrayBuffer): Promise<VisualMetrics | null> {
   if (!images) return null;
   try {
     const stream = new Response(bytes).body;
     if (!stream) return null;
     const output = await images.input(stream)
-      .transform({ width: 16, height: 9, fit: 'cover' })
+      .transform({ width: FEATURE_WIDTH, height: FEATURE_HEIGHT, fit: 'cover' })
       .output({ format: 'image/png' });
     const response = output.response();
     if (!response.ok) return null;
     const pixels = await decodePngLuminance(await response.arrayBuffer());
     if (!pixels?.length) return null;
-    const meanLuma = [...pixels].reduce((sum, value) => sum + value, 0) / pixels.length;
-    const contrast = Math.sqrt([...pixels].reduce((sum, value) => sum + (value - meanLuma) ** 2, 0) / pixels.length);
+    const measured = measureLuminance(pixels);
+    if (!measured) return null;
     return {
-      fingerprint: encodeFingerprint(pixels),
-      meanLuma: Number(meanLuma.toFixed(3)),
-      contrast: Number(contrast.toFixed(3)),
+      fingerprint: measured.fingerprint,
+      meanLuma: measured.meanLuma,
+      contrast: measured.contrast,
+      features: JSON.stringify(measured.features),
+      version: FINGERPRINT_VERSION,
     };
   } catch (error) {
     console.error(JSON.stringify({ event: 'visual_measurement_error', message: error instanceof Error ? error.message : String(error) }));
@@ -168,24 +121,15 @@ async function measureVisual(images: ImagesBinding | undefined, bytes: ArrayBuff
 function json(data: unknown, init: ResponseInit = {}): Response {
   const headers = new Headers(init.headers);
   headers.set('Content-Type', 'application/json; charset=utf-8');
-  headers.set('Cache-Control', 'no-store');
+  if (!headers.has('Cache-Control')) headers.set('Cache-Control', 'no-store');
   return new Response(JSON.stringify(data), { ...init, headers });
 }
 
-function hasBindings(env: HistoryBindings): env is ReadyHistoryBindings {
+export function hasBindings(env: HistoryBindings): env is ReadyHistoryBindings {
   return Boolean(env.HISTORY_DB && env.HISTORY_BUCKET);
 }
 
-function cameraBucket(id: string): number {
-  let hash = 2166136261;
-  for (let i = 0; i < id.length; i += 1) {
-    hash ^= id.charCodeAt(i);
-    hash = Math.imul(hash, 16777619);
-  }
-  return (hash >>> 0) % CAPTURE_BUCKETS;
-}
-
-function safeCameraId(value: string | null): string | null {
+export function safeCameraId(value: string | null): string | null {
   if (!value || value.length > 180 || !/^[a-z0-9%._~-]+$/i.test(value)) return null;
   return value;
 }
@@ -210,28 +154,38 @@ async function digestHex(bytes: ArrayBuffer): Promise<string> {
 }
 
 async function fetchFrame(camera: HistoryCamera): Promise<{ bytes: ArrayBuffer; contentType: string }> {
-  if (!camera.imagePath.startsWith(CAMERA_PREFIX) || camera.imagePath.includes('..')) throw new Error('invalid camera path');
-  const upstream = new URL(camera.imagePath, `https://${CAMERA_HOST}`);
-  const response = await fetch(upstream, {
+  const host = camera.imageHost ?? CAMERA_HOST;
+  if (!isAllowedImage(host, camera.imagePath)) throw new Error('invalid camera path');
+  const upstream = new URL(camera.imagePath, `https://${host}`);
+  // One retry only: a tick fetches every due camera, and a camera that misses this one is due again on the next.
+  const response = await upstreamFetch(upstream, {
     headers: { Accept: 'image/webp,image/*,*/*;q=0.8' },
     cf: {
       image: { width: 480, fit: 'scale-down', quality: 60, format: 'webp' },
       cacheEverything: false,
     },
-  } as RequestInit);
+  } as RequestInit, { retries: 1 });
   if (!response.ok) throw new Error(`snapshot ${response.status}`);
   return { bytes: await response.arrayBuffer(), contentType: response.headers.get('Content-Type') || 'image/webp' };
 }
 
-async function captureOne(env: ReadyHistoryBindings, camera: HistoryCamera, capturedAt: number): Promise<'stored' | 'duplicate'> {
+async function captureOne(env: ReadyHistoryBindings, camera: HistoryCamera, capturedAt: number, policy: string): Promise<'stored' | 'duplicate'> {
   const { bytes, contentType } = await fetchFrame(camera);
   const sha256 = await digestHex(bytes);
   const latest = await env.HISTORY_DB.prepare(
-    `SELECT r2_key, sha256, visual_fingerprint, mean_luma, visual_contrast
+    `SELECT r2_key, sha256, visual_fingerprint, mean_luma, visual_contrast, visual_features, fingerprint_version
        FROM camera_snapshots
-      WHERE camera_id = ?
+      WHERE ${CAMERA_ID_MATCH}
       ORDER BY captured_at DESC LIMIT 1`,
-  ).bind(camera.id).first<{ r2_key: string; sha256: string; visual_fingerprint: string | null; mean_luma: number | null; visual_contrast: number | null }>();
+  ).bind(camera.id, camera.id).first<{
+    r2_key: string;
+    sha256: string;
+    visual_fingerprint: string | null;
+    mean_luma: number | null;
+    visual_contrast: number | null;
+    visual_features: string | null;
+    fingerprint_version: number | null;
+  }>();
 
   let key = latest?.r2_key;
   let duplicate = 0;
@@ -246,15 +200,21 @@ async function captureOne(env: ReadyHistoryBindings, camera: HistoryCamera, capt
   } else {
     duplicate = 1;
     if (latest.visual_fingerprint && latest.mean_luma != null && latest.visual_contrast != null) {
-      visual = { fingerprint: latest.visual_fingerprint, meanLuma: latest.mean_luma, contrast: latest.visual_contrast };
+      visual = {
+        fingerprint: latest.visual_fingerprint,
+        meanLuma: latest.mean_luma,
+        contrast: latest.visual_contrast,
+        features: latest.visual_features,
+        version: latest.fingerprint_version ?? 1,
+      };
     }
   }
 
   await env.HISTORY_DB.prepare(
     `INSERT INTO camera_snapshots
       (camera_id, camera_label, captured_at, r2_key, sha256, bytes, is_duplicate,
-       visual_fingerprint, mean_luma, visual_contrast, latitude, longitude)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       visual_fingerprint, mean_luma, visual_contrast, visual_features, fingerprint_version, latitude, longitude, retention_policy)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
   ).bind(
     camera.id,
     camera.label,
@@ -266,8 +226,11 @@ async function captureOne(env: ReadyHistoryBindings, camera: HistoryCamera, capt
     visual?.fingerprint ?? null,
     visual?.meanLuma ?? null,
     visual?.contrast ?? null,
+    visual?.features ?? null,
+    visual?.version ?? null,
     Number.isFinite(camera.lat) ? camera.lat : null,
     Number.isFinite(camera.lng) ? camera.lng : null,
+    policy,
   ).run();
   return duplicate ? 'duplicate' : 'stored';
 }
@@ -284,51 +247,295 @@ async function mapLimit<T>(items: T[], limit: number, work: (item: T) => Promise
   await Promise.all(runners);
 }
 
-export async function captureHistory(env: HistoryBindings, cameras: HistoryCamera[], scheduledAt = Date.now()): Promise<void> {
-  if (!hasBindings(env)) return;
-  const bucket = new Date(scheduledAt).getUTCMinutes() % CAPTURE_BUCKETS;
-  const selected = cameras.filter((camera) => cameraBucket(camera.id) === bucket);
-  let stored = 0;
-  let duplicate = 0;
-  let failed = 0;
+/** Captures the cameras the cadence scheduler says are due this tick, given their Pulse `states`; see cadence.ts. */
+export async function captureHistory(env: HistoryBindings, cameras: HistoryCamera[], states: Map<string, ObservationState>, scheduledAt = Date.now()): Promise<CaptureSummary | null> {
+  if (!hasBindings(env)) return null;
+  const { selected, due } = await planCaptures(env, cameras, states, scheduledAt);
+  const retention = retentionConfig(env);
+  const counts: Record<CaptureResult, number> = { stored: 0, duplicate: 0, failed: 0 };
+  const outcomes: ((typeof selected)[number] & { result: CaptureResult })[] = [];
 
-  await mapLimit(selected, CAPTURE_CONCURRENCY, async (camera) => {
+  await mapLimit(selected, CAPTURE_CONCURRENCY, async (planned) => {
+    let result: CaptureResult = 'failed';
     try {
-      const result = await captureOne(env, camera, scheduledAt);
-      if (result === 'stored') stored += 1;
-      else duplicate += 1;
+      result = await captureOne(env, planned.camera, scheduledAt, retentionPolicyFor(retention, planned.camera));
     } catch (error) {
-      failed += 1;
-      console.error(JSON.stringify({ event: 'history_capture_error', camera: camera.id, message: error instanceof Error ? error.message : String(error) }));
+      console.error(JSON.stringify({ event: 'history_capture_error', camera: planned.camera.id, message: error instanceof Error ? error.message : String(error) }));
     }
+    counts[result] += 1;
+    outcomes.push({ ...planned, result });
   });
+  await recordCaptures(env, outcomes, scheduledAt);
+  try {
+    await recordHealth(env, outcomes.map(({ camera, result }) => ({ cameraId: camera.id, kind: 'image' as const, ok: result !== 'failed' })), scheduledAt);
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'health_record_error', kind: 'image', message: error instanceof Error ? error.message : String(error) }));
+  }
+
+  const summary: CaptureSummary = { due, selected: selected.length, deferred: due - selected.length, pulse: selected.filter((planned) => planned.active).length, ...counts };
+  console.log(JSON.stringify({ event: 'history_capture_complete', ...summary }));
+  for (const [result, count] of Object.entries(counts)) if (count) countMetric('cams_captures', { result }, count);
+  return summary;
+}
+
+function chunked<T>(items: T[], size = MAX_BOUND_PARAMS): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) chunks.push(items.slice(index, index + size));
+  return chunks;
+}
+
+/** Deletes snapshot rows, then any R2 frames no remaining row (e.g. a later duplicate) still points at. */
+async function deleteSnapshots(env: ReadyHistoryBindings, rows: { id: number; r2_key: string }[]): Promise<number> {
+  if (!rows.length) return 0;
+  for (const ids of chunked(rows.map((row) => row.id))) {
+    await env.HISTORY_DB.prepare(`DELETE FROM camera_snapshots WHERE id IN (${ids.map(() => '?').join(',')})`).bind(...ids).run();
+  }
+  const deletable: string[] = [];
+  for (const key of new Set(rows.map((row) => row.r2_key))) {
+    const stillUsed = await env.HISTORY_DB.prepare('SELECT 1 AS found FROM camera_snapshots WHERE r2_key = ? LIMIT 1').bind(key).first<{ found: number }>();
+    if (!stillUsed) deletable.push(key);
+  }
+  if (deletable.length) await env.HISTORY_BUCKET.delete(deletable);
+  return deletable.length;
+}
 
-  console.log(JSON.stringify({ event: 'history_capture_complete', bucket, selected: selected.length, stored, duplicate, failed }));
+/**
+ * Promotes the oldest rows below `tierIndex` past the tier's cutoff: the first frame in each
+ * camera's `everyMs` bucket is kept at the new tier, the rest are deleted.
+ */
+async function downsampleTier(env: ReadyHistoryBindings, policy: string, tierIndex: number, tier: RetentionTier, now: number): Promise<{ kept: number; dropped: number; objects: number }> {
+  const rows = (await env.HISTORY_DB.prepare(
+    `SELECT id, camera_id, captured_at, r2_key
+       FROM camera_snapshots
+      WHERE retention_policy = ? AND tier < ? AND captured_at < ?
+      ORDER BY captured_at ASC LIMIT ?`,
+  ).bind(policy, tierIndex, now - tier.afterMs, PURGE_BATCH).all<{ id: number; camera_id: string; captured_at: number; r2_key: string }>()).results ?? [];
+  if (!rows.length) return { kept: 0, dropped: 0, objects: 0 };
+
+  const bucketOf = (cameraId: string, capturedAt: number) => `${cameraId}:${Math.floor(capturedAt / tier.everyMs)}`;
+  const windowStart = Math.floor(rows[0].captured_at / tier.everyMs) * tier.everyMs;
+  const promoted = await env.HISTORY_DB.prepare(
+    `SELECT camera_id, captured_at
+       FROM camera_snapshots
+      WHERE retention_policy = ? AND tier >= ? AND captured_at >= ? AND captured_at <= ?`,
+  ).bind(policy, tierIndex, windowStart, rows[rows.length - 1].captured_at).all<{ camera_id: string; captured_at: number }>();
+  const filled = new Set((promoted.results ?? []).map((row) => bucketOf(row.camera_id, row.captured_at)));
+  const keep: number[] = [];
+  const drop: typeof rows = [];
+  for (const row of rows) {
+    const bucket = bucketOf(row.camera_id, row.captured_at);
+    if (filled.has(bucket)) drop.push(row);
+    else { filled.add(bucket); keep.push(row.id); }
+  }
+  for (const ids of chunked(keep, MAX_BOUND_PARAMS - 1)) {
+    await env.HISTORY_DB.prepare(`UPDATE camera_snapshots SET tier = ? WHERE id IN (${ids.map(() => '?').join(',')})`).bind(tierIndex, ...ids).run();
+  }
+  return { kept: keep.length, dropped: drop.length, objects: await deleteSnapshots(env, drop) };
 }
 
 export async function purgeHistory(env: HistoryBindings, now = Date.now()): Promise<void> {
   if (!hasBindings(env)) return;
-  const cutoff = now - RETENTION_MS;
-  const stale = await env.HISTORY_DB.prepare(
-    'SELECT id, r2_key FROM camera_snapshots WHERE captured_at < ? ORDER BY captured_at ASC LIMIT 200',
-  ).bind(cutoff).all<{ id: number; r2_key: string }>();
-  const rows = stale.results ?? [];
-  if (!rows.length) return;
-
-  const keys = [...new Set(rows.map((row) => row.r2_key))];
-  const referenced = new Set<string>();
-  for (const key of keys) {
-    const stillUsed = await env.HISTORY_DB.prepare(
-      'SELECT 1 AS found FROM camera_snapshots WHERE r2_key = ? AND captured_at >= ? LIMIT 1',
-    ).bind(key, cutoff).first<{ found: number }>();
-    if (stillUsed) referenced.add(key);
+  const config = retentionConfig(env);
+  const names = new Set(Object.keys(config.policies));
+  // Frames kept under a policy that has since been removed expire under the default one.
+  if (Math.floor(now / 60000) % ORPHAN_POLICY_TICKS === 0) {
+    const stored = await env.HISTORY_DB.prepare('SELECT DISTINCT retention_policy AS name FROM camera_snapshots').all<{ name: string }>();
+    for (const { name } of stored.results ?? []) names.add(name);
   }
-  const deletable = keys.filter((key) => !referenced.has(key));
-  if (deletable.length) await env.HISTORY_BUCKET.delete(deletable);
-  const ids = rows.map((row) => row.id);
-  const placeholders = ids.map(() => '?').join(',');
-  await env.HISTORY_DB.prepare(`DELETE FROM camera_snapshots WHERE id IN (${placeholders})`).bind(...ids).run();
-  console.log(JSON.stringify({ event: 'history_purge', rows: rows.length, objects: deletable.length }));
+  for (const name of names) {
+    const policy = retentionPolicy(config, name);
+    const expired = await env.HISTORY_DB.prepare(
+      'SELECT id, r2_key FROM camera_snapshots WHERE retention_policy = ? AND captured_at < ? ORDER BY captured_at ASC LIMIT ?',
+    ).bind(name, now - policy.maxAgeMs, PURGE_BATCH).all<{ id: number; r2_key: string }>();
+    const rows = expired.results ?? [];
+    const objects = await deleteSnapshots(env, rows);
+    if (rows.length) console.log(JSON.stringify({ event: 'history_purge', policy: name, rows: rows.length, objects }));
+    for (const [index, tier] of policy.tiers.entries()) {
+      const result = await downsampleTier(env, name, index + 1, tier, now);
+      if (result.kept || result.dropped) console.log(JSON.stringify({ event: 'history_downsample', policy: name, tier: index + 1, ...result }));
+    }
+  }
+}
+
+type FrameRow = {
+  frame_at: number;
+  r2_key: string;
+  sha256: string;
+  bytes: number;
+  is_duplicate: number;
+  tier: number;
+  visual_fingerprint: string | null;
+  mean_luma: number | null;
+  visual_contrast: number | null;
+  visual_features: string | null;
+  fingerprint_version: number | null;
+};
+
+function toFrame(row: FrameRow) {
+  return {
+    capturedAt: row.frame_at,
+    imageUrl: `/api/history/image?key=${encodeURIComponent(row.r2_key)}`,
+    sha256: row.sha256,
+    bytes: row.bytes,
+    duplicate: Boolean(row.is_duplicate),
+    tier: row.tier,
+    visual: row.visual_fingerprint ? {
+      version: row.fingerprint_version ?? 1,
+      meanLuma: row.mean_luma,
+      contrast: row.visual_contrast,
+      features: decodeFeatures(row.visual_features),
+    } : null,
+  };
+}
+
+type RangeQuery = { from: number; to: number; step: number; cameras: string[] | null };
+/** The last (bucket, camera) served; a null camera means the whole bucket was read. */
+type RangePosition = { bucket: number; camera: string | null };
+type HistoryCursor = RangeQuery & RangePosition;
+
+/** Why `query` is not a range `historyRange` serves, or null. Cursors come back from clients, so they are checked too. */
+function rangeError(query: RangeQuery): string | null {
+  if (!(query.from < query.to)) return 'from must be before to';
+  if (!(Number.isInteger(query.step) && query.step >= 1 && query.step <= MAX_STEP_MINUTES * 60000)) return `step must be between 1 ms and ${MAX_STEP_MINUTES} minutes`;
+  if (!query.cameras && query.to - query.from > MAX_CROSS_CAMERA_SPAN_MS) return `Queries across all cameras are limited to ${MAX_CROSS_CAMERA_SPAN_MS / 3600000} hours`;
+  return null;
+}
+
+export function encodeCursor(cursor: HistoryCursor): string {
+  return btoa(JSON.stringify(cursor)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCursor(value: string): HistoryCursor | null {
+  try {
+    const cursor = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/'))) as HistoryCursor;
+    const numbers = [cursor.from, cursor.to, cursor.step, cursor.bucket];
+    if (!numbers.every(Number.isFinite) || !Number.isInteger(cursor.bucket) || !(cursor.camera === null || typeof cursor.camera === 'string')) return null;
+    if (cursor.cameras !== null && !(Array.isArray(cursor.cameras) && cursor.cameras.length <= MAX_RANGE_CAMERAS && cursor.cameras.every((id) => safeCameraId(id) === id))) return null;
+    if (rangeError(cursor)) return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+/** Accepts ISO 8601 or epoch seconds/milliseconds. Returns undefined when absent and NaN when unparseable. */
+export function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const epoch = Number(value);
+    return epoch < 1e11 ? epoch * 1000 : epoch;
+  }
+  return Date.parse(value);
+}
+
+function isRangeQuery(params: URLSearchParams): boolean {
+  return ['from', 'to', 'cursor', 'step', 'cameras'].some((name) => params.has(name)) || !params.has('camera');
+}
+
+/**
+ * The ids snapshots of `cameras` were stored under, or of every catalogued camera, including legacy aliases.
+ * Range queries look each of them up on `idx_camera_snapshots_camera_time` rather than scanning by time.
+ */
+async function snapshotCameraIds(db: HistoryD1Database, cameras: string[] | null): Promise<{ ids: string[]; cameras: number }> {
+  const result = cameras
+    ? await db.prepare(
+      'SELECT value AS id, 1 AS canonical FROM json_each(?) UNION ALL SELECT alias, 0 FROM camera_aliases WHERE camera_id IN (SELECT value FROM json_each(?))',
+    ).bind(JSON.stringify(cameras), JSON.stringify(cameras)).all<{ id: string; canonical: number }>()
+    : await db.prepare('SELECT camera_id AS id, 1 AS canonical FROM cameras UNION ALL SELECT alias, 0 FROM camera_aliases').all<{ id: string; canonical: number }>();
+  const rows = result.results ?? [];
+  const canonical = new Set(rows.filter((row) => row.canonical).map((row) => row.id));
+  return { ids: [...new Set(rows.map((row) => row.id))], cameras: Math.max(1, canonical.size) };
+}
+
+/**
+ * `from`/`to`/`step`/`cursor` queries over one, several (`cameras=a,b`) or all cameras. Frames come
+ * oldest first, at most one per camera per `step` minutes, and `nextCursor` continues the same query.
+ * A page reads only the buckets it can fill, so it may hold fewer than `limit` frames while `nextCursor` is set.
+ */
+async function historyRange(env: ReadyHistoryBindings, params: URLSearchParams): Promise<Response> {
+  const limit = Math.min(Math.max(Math.floor(Number(params.get('limit') || 96)), 1), MAX_HISTORY_LIMIT);
+  let query: RangeQuery;
+  let position: RangePosition | null = null;
+  const cursorParam = params.get('cursor');
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam);
+    if (!cursor) return json({ error: 'Invalid cursor' }, { status: 400 });
+    const { bucket, camera, ...rest } = cursor;
+    // The retention window has moved on since the cursor was issued.
+    const now = Date.now();
+    query = { ...rest, from: Math.max(rest.from, now - maxRetentionMs(retentionConfig(env))), to: Math.min(rest.to, now) };
+    position = { bucket, camera };
+  } else {
+    const now = Date.now();
+    const toParam = parseTime(params.get('to'));
+    const fromParam = parseTime(params.get('from'));
+    if (Number.isNaN(toParam) || Number.isNaN(fromParam)) return json({ error: 'from and to must be ISO 8601 or epoch timestamps' }, { status: 400 });
+    const to = Math.min(toParam ?? now, now);
+    const hours = Math.max(Number(params.get('hours') || 6), 0.1);
+    const from = Math.max(fromParam ?? to - hours * 60 * 60 * 1000, now - maxRetentionMs(retentionConfig(env)));
+    const stepMinutes = params.has('step') ? Number(params.get('step')) : 0;
+    if (!(stepMinutes >= 0 && stepMinutes <= MAX_STEP_MINUTES)) return json({ error: `step must be between 0 and ${MAX_STEP_MINUTES} minutes` }, { status: 400 });
+    const requested = [...(params.get('cameras')?.split(',') ?? []), ...params.getAll('camera')].map((id) => id.trim()).filter(Boolean);
+    if (requested.length > MAX_RANGE_CAMERAS) return json({ error: `At most ${MAX_RANGE_CAMERAS} cameras per query` }, { status: 400 });
+    if (requested.some((id) => !safeCameraId(id))) return json({ error: 'Invalid camera id' }, { status: 400 });
+    const cameras = requested.length ? [...new Set(await Promise.all(requested.map((id) => resolveCameraId(env, id))))] : null;
+    query = { from, to, step: Math.max(Math.round(stepMinutes * 60000), 1), cameras };
+  }
+  const error = rangeError(query);
+  if (error) return json({ error }, { status: 400 });
+
+  const { from, to, step, cameras } = query;
+  const camerasSearched = await snapshotCameraIds(env.HISTORY_DB, cameras);
+  const idsJson = JSON.stringify(camerasSearched.ids);
+  // Enough buckets for `limit` frames when every camera is captured every minute; wider on later reads.
+  let span = Math.ceil(Math.max(step, CAPTURE_INTERVAL_MS) * Math.ceil(limit / camerasSearched.cameras) / step);
+  const rows: (FrameRow & { camera: string; bucket: number })[] = [];
+  let next: RangePosition | null = null;
+  for (let read = 1; ; read += 1) {
+    const start = position ? Math.max(from, (position.camera === null ? position.bucket + 1 : position.bucket) * step) : from;
+    const end = Math.min(to, (Math.floor(start / step) + span) * step);
+    const tied = position?.camera != null;
+    const result = await env.HISTORY_DB.prepare(
+      `SELECT COALESCE(a.camera_id, s.camera_id) AS camera, CAST(s.captured_at / ? AS INTEGER) AS bucket, MIN(s.captured_at) AS frame_at,
+              s.r2_key, s.sha256, s.bytes, s.is_duplicate, s.tier, s.visual_fingerprint, s.mean_luma, s.visual_contrast,
+              s.visual_features, s.fingerprint_version
+         FROM camera_snapshots s INDEXED BY idx_camera_snapshots_camera_time
+         LEFT JOIN camera_aliases a ON a.alias = s.camera_id
+        WHERE s.camera_id IN (SELECT value FROM json_each(?)) AND s.captured_at >= ? AND s.captured_at < ?
+          ${tied ? 'AND (s.captured_at >= ? OR COALESCE(a.camera_id, s.camera_id) > ?)' : ''}
+        GROUP BY camera, bucket
+        ORDER BY bucket, camera
+        LIMIT ?`,
+    ).bind(
+      step,
+      idsJson,
+      start,
+      end,
+      ...(tied ? [(position!.bucket + 1) * step, position!.camera] : []),
+      limit + 1 - rows.length,
+    ).all<FrameRow & { camera: string; bucket: number }>();
+    rows.push(...(result.results ?? []));
+    if (rows.length > limit) {
+      next = { bucket: rows[limit - 1].bucket, camera: rows[limit - 1].camera };
+      break;
+    }
+    if (end >= to) break;
+    position = { bucket: end / step - 1, camera: null };
+    if (read >= MAX_RANGE_READS) {
+      next = position;
+      break;
+    }
+    span *= 4;
+  }
+  const page = rows.slice(0, limit);
+  return json({
+    from,
+    to,
+    stepMs: step > 1 ? step : null,
+    cameraIds: cameras,
+    frames: page.map((row) => ({ cameraId: row.camera, ...toFrame(row) })),
+    nextCursor: next ? encodeCursor({ ...query, ...next }) : null,
+  }, { headers: { 'Cache-Control': 'public, max-age=30, s-maxage=60' } });
 }
 
 export async function handleHistoryRequest(request: Request, url: URL, env: HistoryBindings): Promise<Response | null> {
@@ -353,33 +560,34 @@ export async function handleHistoryRequest(request: Request, url: URL, env: Hist
     const stats = await env.HISTORY_DB.prepare(
       'SELECT COUNT(*) AS frames, COUNT(DISTINCT camera_id) AS cameras, MAX(captured_at) AS latest, MIN(captured_at) AS earliest FROM camera_snapshots',
     ).first<{ frames: number; cameras: number; latest: number | null; earliest: number | null }>();
-    return json(stats ?? { frames: 0, cameras: 0, latest: null, earliest: null });
+    const tiers = await env.HISTORY_DB.prepare(
+      'SELECT tier, COUNT(*) AS frames, MIN(captured_at) AS earliest FROM camera_snapshots GROUP BY tier ORDER BY tier',
+    ).all<{ tier: number; frames: number; earliest: number }>();
+    return json({ ...(stats ?? { frames: 0, cameras: 0, latest: null, earliest: null }), tiers: tiers.results ?? [], cadence: await cadenceSummary(env) });
   }
 
   if (url.pathname !== '/api/history') return new Response('Not found', { status: 404 });
   if (request.method !== 'GET') return new Response('Method not allowed', { status: 405 });
-  const cameraId = safeCameraId(url.searchParams.get('camera'));
-  if (!cameraId) return json({ error: 'Invalid camera id' }, { status: 400 });
-  const hours = Math.min(Math.max(Number(url.searchParams.get('hours') || 6), 0.1), 48);
+  if (isRangeQuery(url.searchParams)) return historyRange(env, url.searchParams);
+  const requestedId = safeCameraId(url.searchParams.get('camera'));
+  if (!requestedId) return json({ error: 'Invalid camera id' }, { status: 400 });
+  const cameraId = await resolveCameraId(env, requestedId);
+  const maxHours = maxRetentionMs(retentionConfig(env)) / (60 * 60 * 1000);
+  const hours = Math.min(Math.max(Number(url.searchParams.get('hours') || 6), 0.1), maxHours);
   const limit = Math.min(Math.max(Math.floor(Number(url.searchParams.get('limit') || 96)), 1), MAX_HISTORY_LIMIT);
   const cutoff = Date.now() - hours * 60 * 60 * 1000;
+  // Spread `limit` frames across the range; older spans only hold downsampled frames, so each step
+  // picks whatever survived in it.
+  const stepMs = Math.max(Math.floor((hours * 60 * 60 * 1000) / limit), 1);
   const result = await env.HISTORY_DB.prepare(
-    `SELECT captured_at, r2_key, sha256, bytes, is_duplicate, visual_fingerprint, mean_luma, visual_contrast
+    `SELECT MIN(captured_at) AS frame_at, r2_key, sha256, bytes, is_duplicate, tier, visual_fingerprint, mean_luma, visual_contrast,
+            visual_features, fingerprint_version
        FROM camera_snapshots
-      WHERE camera_id = ? AND captured_at >= ?
-      ORDER BY captured_at DESC
+      WHERE ${CAMERA_ID_MATCH} AND captured_at >= ?
+      GROUP BY CAST(captured_at / ? AS INTEGER)
+      ORDER BY frame_at DESC
       LIMIT ?`,
-  ).bind(cameraId, cutoff, limit).all<{ captured_at: number; r2_key: string; sha256: string; bytes: number; is_duplicate: number; visual_fingerprint: string | null; mean_luma: number | null; visual_contrast: number | null }>();
-  const frames = (result.results ?? []).reverse().map((row) => ({
-    capturedAt: row.captured_at,
-    imageUrl: `/api/history/image?key=${encodeURIComponent(row.r2_key)}`,
-    sha256: row.sha256,
-    bytes: row.bytes,
-    duplicate: Boolean(row.is_duplicate),
-    visual: row.visual_fingerprint ? {
-      meanLuma: row.mean_luma,
-      contrast: row.visual_contrast,
-    } : null,
-  }));
-  return json({ cameraId, hours, frames }, { headers: { 'Cache-Control': 'public, max-age=30, s-maxage=60' } });
+  ).bind(cameraId, cameraId, cutoff, stepMs, limit).all<FrameRow>();
+  const frames = (result.results ?? []).reverse().map(toFrame);
+  return json({ cameraId, ...(cameraId !== requestedId ? { requestedId } : {}), hours, stepMs, frames }, { headers: { 'Cache-Control': 'public, max-age=30, s-maxage=60' } });
 }
@@ -0,0 +1,123 @@
+/**
+ * Edge caching for the HLS proxy. Media segments never change once published (their names carry the media
+ * sequence number), so they are kept in the Cache API for `SEGMENT_TTL_S` and shared by every viewer in the
+ * colo. Playlists change every few seconds instead: concurrent requests for one playlist share a single
+ * upstream fetch, and its answer is reused for `PLAYLIST_WINDOW_MS` after it arrives. Proxied responses
+ * report which path they took in `X-Video-Cache`.
+ */
+import { upstreamFetch } from './upstream';
+
+export type VideoCacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+export type VideoCacheResult = { response: Response; cacheStatus: VideoCacheStatus };
+
+export type MediaSegment = { uri: string; duration: number; sequence: number };
+export type MediaPlaylist = { targetDuration: number | null; mediaSequence: number; segments: MediaSegment[]; ended: boolean };
+
+type WaitUntil = { waitUntil(promise: Promise<void>): void };
+type SharedPlaylist = { status: number; headers: [string, string][]; text: string };
+
+// Per attempt; with one retry a playlist still answers inside hls.js's 10s manifest timeout.
+const VIDEO_FETCH_TIMEOUT_MS = 4000;
+const SEGMENT_PATTERN = /\.(ts|aac|m4s)$/;
+const SEGMENT_TTL_S = 120;
+const SEGMENT_PREFIX = '/__hls-segment/';
+const PLAYLIST_WINDOW_MS = 1500;
+const MAX_SHARED_PLAYLISTS = 500;
+
+// Entries stay while their fetch is in flight and for `PLAYLIST_WINDOW_MS` after it settles.
+const playlists = new Map<string, { pending: Promise<SharedPlaylist>; expiresAt: number }>();
+
+/** The proxy's upstream request for a playlist or segment. */
+export function fetchVideo(url: URL, method = 'GET', accept = '*/*'): Promise<Response> {
+  return upstreamFetch(url, { method, headers: { Accept: accept }, redirect: 'follow' }, { timeoutMs: VIDEO_FETCH_TIMEOUT_MS, retries: 1 });
+}
+
+function tag(text: string, name: string): string | null {
+  const match = new RegExp(`^#${name}:(.*)$`, 'm').exec(text);
+  return match ? match[1].trim() : null;
+}
+
+/** The first variant of a master playlist, or null when `text` is already a media playlist. */
+export function firstVariant(text: string): { uri: string; bandwidth: number | null } | null {
+  const variant = /^#EXT-X-STREAM-INF:(.*)\r?\n([^#\r\n][^\r\n]*)/m.exec(text);
+  if (!variant) return null;
+  return { uri: variant[2].trim(), bandwidth: Number(/(?:^|,)BANDWIDTH=(\d+)/.exec(variant[1])?.[1]) || null };
+}
+
+export function parseMediaPlaylist(text: string): MediaPlaylist {
+  const targetDuration = Number(tag(text, 'EXT-X-TARGETDURATION'));
+  const mediaSequence = Number(tag(text, 'EXT-X-MEDIA-SEQUENCE')) || 0;
+  const segments: MediaSegment[] = [];
+  let duration = 0;
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (line.startsWith('#EXTINF:')) duration = Number.parseFloat(line.slice(8)) || 0;
+    else if (line && !line.startsWith('#')) {
+      segments.push({ uri: line, duration, sequence: mediaSequence + segments.length });
+      duration = 0;
+    }
+  }
+  return {
+    targetDuration: Number.isFinite(targetDuration) && targetDuration > 0 ? targetDuration : null,
+    mediaSequence,
+    segments,
+    ended: /^#EXT-X-ENDLIST/m.test(text),
+  };
+}
+
+export function isSegment(path: string): boolean {
+  return SEGMENT_PATTERN.test(path);
+}
+
+function segmentRequest(origin: string, upstreamUrl: URL): Request {
+  return new Request(`${origin}${SEGMENT_PREFIX}${upstreamUrl.hostname}${upstreamUrl.pathname}${upstreamUrl.search}`);
+}
+
+/** A segment from the colo cache, or from `fetchUpstream` with successful answers stored for later viewers. */
+export async function cachedSegment(ctx: WaitUntil, origin: string, upstreamUrl: URL, fetchUpstream: () => Promise<Response>): Promise<VideoCacheResult> {
+  const cache = typeof caches === 'undefined' ? null : caches.default;
+  if (!cache) return { response: await fetchUpstream(), cacheStatus: 'BYPASS' };
+  const key = segmentRequest(origin, upstreamUrl);
+  const hit = await cache.match(key).catch(() => undefined);
+  if (hit) return { response: hit, cacheStatus: 'HIT' };
+  const response = await fetchUpstream();
+  if (response.status !== 200) return { response, cacheStatus: 'MISS' };
+  const headers = new Headers(response.headers);
+  headers.set('Cache-Control', `public, max-age=${SEGMENT_TTL_S}, immutable`);
+  headers.delete('Set-Cookie');
+  const [served, stored] = response.body ? response.body.tee() : [null, null];
+  ctx.waitUntil(cache.put(key, new Response(stored, { status: 200, headers })).catch((error: unknown) => {
+    console.error(JSON.stringify({ event: 'hls_segment_cache_error', path: upstreamUrl.pathname, message: error instanceof Error ? error.message : String(error) }));
+  }));
+  return { response: new Response(served, { status: 200, headers }), cacheStatus: 'MISS' };
+}
+
+function playlistResponse(playlist: SharedPlaylist): Response {
+  return new Response(playlist.text, { status: playlist.status, headers: playlist.headers });
+}
+
+/**
+ * A playlist fetched at most once per `PLAYLIST_WINDOW_MS` in this isolate. Failed fetches are not
+ * shared beyond the requests already waiting on them, so the next viewer tries again.
+ */
+export async function coalescedPlaylist(key: string, fetchUpstream: () => Promise<Response>, now = Date.now()): Promise<VideoCacheResult> {
+  const current = playlists.get(key);
+  if (current && now < current.expiresAt) return { response: playlistResponse(await current.pending), cacheStatus: 'HIT' };
+  if (playlists.size >= MAX_SHARED_PLAYLISTS) {
+    for (const [entryKey, entry] of playlists) if (now >= entry.expiresAt) playlists.delete(entryKey);
+  }
+  const pending = (async () => {
+    const response = await fetchUpstream();
+    return { status: response.status, headers: [...response.headers], text: await response.text() };
+  })();
+  const entry = { pending, expiresAt: Infinity };
+  playlists.set(key, entry);
+  try {
+    const playlist = await pending;
+    entry.expiresAt = Date.now() + PLAYLIST_WINDOW_MS;
+    return { response: playlistResponse(playlist), cacheStatus: 'MISS' };
+  } catch (error) {
+    if (playlists.get(key) === entry) playlists.delete(key);
+    throw error;
+  }
+}
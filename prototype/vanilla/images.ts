@@ -0,0 +1,108 @@
+/**
+ * Renditions served by `/api/image`. A rendition is a camera frame at one of the widths and device pixel ratios
+ * in src/lib/renditions.ts, optionally cut to a normalized crop rectangle for digital zoom into a lane or
+ * intersection. Whole frames on the ladder are served to anyone; a crop is served only with a signature from
+ * `IMAGE_SIGNING_KEY`, and without the key crops are refused. Camera payloads carry the full-frame renditions as
+ * a srcset, and focus-mode zoom asks `GET /api/image/renditions` for the signed set of one crop of a camera image.
+ */
+import {
+  IMAGE_INFO_INIT,
+  cropTrim,
+  imageSizeFromInfo,
+  parseCrop,
+  parseRendition,
+  renditionUrl,
+  signedCropSet,
+  type ImageCrop,
+  type ImageSize,
+  type ImageTrim,
+} from '../../src/lib/renditions';
+import { CAMERA_HOST, isAllowedImage } from './providers';
+import { upstreamFetch } from './upstream';
+
+export type ImageBindings = { IMAGE_SIGNING_KEY?: string };
+
+export type ImageTransform = {
+  host: string;
+  path: string;
+  /** CSS pixels, one of `IMAGE_WIDTHS`. */
+  width: number;
+  dpr: number;
+  crop: ImageCrop | null;
+};
+
+export type ImageSet = { src: string; srcset: string };
+
+type ImageSource = { imageHost?: string | null; imagePath: string };
+
+// Card-sized frames at 1x and 2x, and the focus view at 2x.
+const SET_RENDITIONS: Array<[width: number, dpr: number]> = [[480, 1], [480, 2], [960, 2]];
+const MAX_TRACKED_SOURCES = 2000;
+
+const dimensions = new Map<string, ImageSize>();
+
+/** The transform `url` asks for, or an error message for a request the proxy should refuse. */
+export function parseImageTransform(url: URL): ImageTransform | string {
+  const path = url.searchParams.get('path');
+  if (!path) return 'Bad image path';
+  const rendition = parseRendition(url.searchParams);
+  if (typeof rendition === 'string') return rendition;
+  return { host: (url.searchParams.get('host') || CAMERA_HOST).toLowerCase(), path, ...rendition };
+}
+
+/** A `/api/image` URL for `transform`. */
+export function imageUrl(transform: ImageTransform): string {
+  return renditionUrl(transform.path, transform, { host: transform.host === CAMERA_HOST ? undefined : transform.host });
+}
+
+/** `src` and `srcset` for a camera frame. */
+export function imageSet(camera: ImageSource): ImageSet {
+  const host = (camera.imageHost || CAMERA_HOST).toLowerCase();
+  const urls = SET_RENDITIONS.map(([width, dpr]) => imageUrl({ host, path: camera.imagePath, width, dpr, crop: null }));
+  return { src: urls[0], srcset: urls.map((url, index) => `${url} ${SET_RENDITIONS[index][0] * SET_RENDITIONS[index][1]}w`).join(', ') };
+}
+
+/** `cameras` with an `image` set each. */
+export function withImages<T extends ImageSource>(cameras: T[]): Array<T & { image: ImageSet }> {
+  return cameras.map((camera) => ({ ...camera, image: imageSet(camera) }));
+}
+
+export async function handleImageSetRequest(request: Request, url: URL, env: ImageBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/image/renditions') return null;
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  if (!env.IMAGE_SIGNING_KEY) return Response.json({ error: 'Image signing is not configured' }, { status: 503 });
+  const path = url.searchParams.get('path');
+  const host = (url.searchParams.get('host') || CAMERA_HOST).toLowerCase();
+  if (!path || !isAllowedImage(host, path)) return Response.json({ error: 'Bad image path' }, { status: 400 });
+  const crop = parseCrop(url.searchParams.get('crop') ?? '');
+  if (!crop) return Response.json({ error: 'Bad image crop' }, { status: 400 });
+  const set = await signedCropSet(env.IMAGE_SIGNING_KEY, { host, path }, crop, host === CAMERA_HOST ? undefined : host);
+  // Signatures never change for the same rendition, so the answer can be cached like a static file.
+  return Response.json(set, { headers: { 'Cache-Control': 'public, max-age=86400' } });
+}
+
+/**
+ * Pixel size of the source frame, asked of the image service once per isolate. Feeds keep a fixed resolution,
+ * and a crop needs it to turn the normalized rectangle into the pixel trim the service expects.
+ */
+async function sourceDimensions(upstream: URL): Promise<ImageSize | null> {
+  const key = `${upstream.hostname}${upstream.pathname}`;
+  const known = dimensions.get(key);
+  if (known) return known;
+  const response = await upstreamFetch(upstream, IMAGE_INFO_INIT, { retries: 1 });
+  if (!response.ok) {
+    await response.body?.cancel();
+    return null;
+  }
+  const size = imageSizeFromInfo(await response.json().catch(() => null));
+  if (!size) return null;
+  if (dimensions.size >= MAX_TRACKED_SOURCES) dimensions.clear();
+  dimensions.set(key, size);
+  return size;
+}
+
+/** The `cf.image` trim for `crop`, or null when the source size is unknown. */
+export async function sourceTrim(upstream: URL, crop: ImageCrop): Promise<ImageTrim | null> {
+  const size = await sourceDimensions(upstream);
+  return size ? cropTrim(crop, size) : null;
+}
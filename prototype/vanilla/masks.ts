@@ -0,0 +1,171 @@
+import { resolveCameraId } from './aliases';
+import { authorized } from './auth';
+import { THUMBNAIL_HEIGHT, THUMBNAIL_WIDTH } from './fingerprint';
+import { safeCameraId } from './history';
+
+/**
+ * Per-camera change-detection masks. Curators draw polygons over the normalized frame (0–1 on both axes):
+ * `include` polygons mark the region of interest and `exclude` polygons mark areas to ignore, such as a
+ * burned-in timestamp, trees or sky. Pulse weights each fingerprint cell by how much of it is left.
+ *
+ * `GET /api/masks/:camera` is public so the focus view can draw the mask; `PUT` and `DELETE` need
+ * `Authorization: Bearer $CURATOR_TOKEN`.
+ */
+
+type MaskD1Statement = {
+  bind: (...values: unknown[]) => MaskD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type MaskD1Database = {
+  prepare: (query: string) => MaskD1Statement;
+};
+
+// Pulse reads masks through its own narrower D1 type.
+type MaskD1Query = { bind: (...values: unknown[]) => MaskD1Query; all: <T>() => Promise<{ results?: T[] }> };
+
+export type MaskBindings = { HISTORY_DB?: MaskD1Database; CURATOR_TOKEN?: string };
+
+type Point = [x: number, y: number];
+type Polygon = Point[];
+export type CameraMask = { include: Polygon[]; exclude: Polygon[] };
+
+type MaskRow = { camera_id: string; include_polygons: string; exclude_polygons: string; updated_at: number };
+
+const MAX_POLYGONS = 16;
+const MAX_POINTS = 64;
+const MAX_BODY_BYTES = 32 * 1024;
+// Each cell's weight is the share of a SUBSAMPLES×SUBSAMPLES point grid inside it that survives the mask.
+const SUBSAMPLES = 4;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function parsePolygons(raw: unknown, field: string): Polygon[] | string {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.length > MAX_POLYGONS) return `${field} must be an array of at most ${MAX_POLYGONS} polygons`;
+  const polygons: Polygon[] = [];
+  for (const polygon of raw) {
+    if (!Array.isArray(polygon) || polygon.length < 3 || polygon.length > MAX_POINTS) return `each ${field} polygon needs 3–${MAX_POINTS} points`;
+    const points: Polygon = [];
+    for (const point of polygon) {
+      if (!Array.isArray(point) || point.length !== 2) return `${field} points must be [x, y] pairs`;
+      const [x, y] = point.map(Number);
+      if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) return `${field} points must lie within the normalized frame (0–1)`;
+      points.push([Number(x.toFixed(4)), Number(y.toFixed(4))]);
+    }
+    polygons.push(points);
+  }
+  return polygons;
+}
+
+function parseMask(raw: unknown): CameraMask | string {
+  if (!raw || typeof raw !== 'object') return 'Body must be a JSON object';
+  const body = raw as { include?: unknown; exclude?: unknown };
+  const include = parsePolygons(body.include, 'include');
+  if (typeof include === 'string') return include;
+  const exclude = parsePolygons(body.exclude, 'exclude');
+  if (typeof exclude === 'string') return exclude;
+  return { include, exclude };
+}
+
+function fromRow(row: MaskRow): CameraMask {
+  return { include: JSON.parse(row.include_polygons) as Polygon[], exclude: JSON.parse(row.exclude_polygons) as Polygon[] };
+}
+
+function insidePolygon(x: number, y: number, polygon: Polygon): boolean {
+  let inside = false;
+  for (let index = 0, previous = polygon.length - 1; index < polygon.length; previous = index, index += 1) {
+    const [xi, yi] = polygon[index];
+    const [xj, yj] = polygon[previous];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Weight of each cell of a `width`×`height` grid, row-major: 1 where the whole cell counts, 0 where it is
+ * masked out. Without `include` polygons the whole frame is of interest.
+ */
+export function cellWeights(mask: CameraMask, width: number, height: number): number[] {
+  const weights: number[] = [];
+  for (let row = 0; row < height; row += 1) {
+    for (let column = 0; column < width; column += 1) {
+      let kept = 0;
+      for (let sy = 0; sy < SUBSAMPLES; sy += 1) {
+        for (let sx = 0; sx < SUBSAMPLES; sx += 1) {
+          const x = (column + (sx + 0.5) / SUBSAMPLES) / width;
+          const y = (row + (sy + 0.5) / SUBSAMPLES) / height;
+          const included = !mask.include.length || mask.include.some((polygon) => insidePolygon(x, y, polygon));
+          if (included && !mask.exclude.some((polygon) => insidePolygon(x, y, polygon))) kept += 1;
+        }
+      }
+      weights.push(kept / (SUBSAMPLES * SUBSAMPLES));
+    }
+  }
+  return weights;
+}
+
+/** Cell weights for every camera with a mask. A mask that leaves nothing to compare is ignored. */
+export async function maskWeights(db: { prepare: (query: string) => MaskD1Query }, width = THUMBNAIL_WIDTH, height = THUMBNAIL_HEIGHT): Promise<Map<string, number[]>> {
+  const result = await db.prepare('SELECT camera_id, include_polygons, exclude_polygons, updated_at FROM camera_masks').all<MaskRow>();
+  const weights = new Map<string, number[]>();
+  for (const row of result.results ?? []) {
+    const cells = cellWeights(fromRow(row), width, height);
+    if (cells.some((weight) => weight > 0)) weights.set(row.camera_id, cells);
+  }
+  return weights;
+}
+
+export async function handleMaskRequest(request: Request, url: URL, env: MaskBindings): Promise<Response | null> {
+  if (!url.pathname.startsWith('/api/masks/')) return null;
+  if (!env.HISTORY_DB) return json({ error: 'Masks are not configured' }, { status: 503 });
+  let requested: string | null;
+  try {
+    requested = safeCameraId(decodeURIComponent(url.pathname.slice('/api/masks/'.length)));
+  } catch {
+    requested = null;
+  }
+  if (!requested) return json({ error: 'Invalid camera id' }, { status: 400 });
+  const cameraId = await resolveCameraId(env, requested);
+  const db = env.HISTORY_DB;
+
+  if (request.method === 'GET') {
+    const row = await db.prepare('SELECT * FROM camera_masks WHERE camera_id = ?').bind(cameraId).first<MaskRow>();
+    return json({ cameraId, ...(row ? fromRow(row) : { include: [], exclude: [] }), updatedAt: row?.updated_at ?? null });
+  }
+  if (request.method !== 'PUT' && request.method !== 'DELETE') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, PUT, DELETE' } });
+  if (!env.CURATOR_TOKEN) return json({ error: 'Mask editing is not configured' }, { status: 503 });
+  if (!(await authorized(request, env.CURATOR_TOKEN))) return json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+
+  if (request.method === 'DELETE') {
+    await db.prepare('DELETE FROM camera_masks WHERE camera_id = ?').bind(cameraId).run();
+    console.log(JSON.stringify({ event: 'camera_mask_deleted', camera: cameraId }));
+    return new Response(null, { status: 204 });
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) return json({ error: 'Mask is too large' }, { status: 413 });
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+  const mask = parseMask(raw);
+  if (typeof mask === 'string') return json({ error: mask }, { status: 400 });
+  if (!cellWeights(mask, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT).some((weight) => weight > 0)) return json({ error: 'Mask leaves no part of the frame to compare' }, { status: 400 });
+  const updatedAt = Date.now();
+  await db.prepare(
+    `INSERT INTO camera_masks (camera_id, include_polygons, exclude_polygons, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(camera_id) DO UPDATE SET include_polygons = excluded.include_polygons, exclude_polygons = excluded.exclude_polygons, updated_at = excluded.updated_at`,
+  ).bind(cameraId, JSON.stringify(mask.include), JSON.stringify(mask.exclude), updatedAt).run();
+  console.log(JSON.stringify({ event: 'camera_mask_updated', camera: cameraId, include: mask.include.length, exclude: mask.exclude.length }));
+  return json({ cameraId, ...mask, updatedAt });
+}
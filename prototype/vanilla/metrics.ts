@@ -0,0 +1,223 @@
+/**
+ * OpenMetrics telemetry. Handlers and the cron add to counters and histograms in isolate memory, and the
+ * pending increments are folded into D1 at most every `FLUSH_INTERVAL_MS` and at the end of every cron tick.
+ * Totals live in D1 rather than memory because a scrape lands on whichever isolate serves it.
+ *
+ * `GET /api/metrics` needs `Authorization: Bearer $METRICS_TOKEN`.
+ */
+import { authorized } from './auth';
+
+type MetricsD1Statement = {
+  bind: (...values: unknown[]) => MetricsD1Statement;
+  all: <T>() => Promise<{ results?: T[] }>;
+};
+
+type MetricsD1Database = {
+  prepare: (query: string) => MetricsD1Statement;
+  batch: (statements: MetricsD1Statement[]) => Promise<unknown>;
+};
+
+export type MetricsBindings = { HISTORY_DB?: MetricsD1Database; METRICS_TOKEN?: string };
+
+type Labels = Record<string, string>;
+type SeriesRow = { name: string; labels: string; value: number };
+
+const FAMILIES = {
+  cams_captures: { type: 'counter', help: 'History captures by result.' },
+  cams_upstream_request_duration_seconds: {
+    type: 'histogram',
+    help: 'Time to response headers for requests to upstream hosts.',
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  },
+  cams_proxy_responses: { type: 'counter', help: 'Responses from the image and video proxies by status code.' },
+  cams_image_transform_bytes: {
+    type: 'histogram',
+    help: 'Size of transformed images served by the image proxy.',
+    buckets: [8192, 16384, 32768, 65536, 131072, 262144, 524288],
+  },
+  cams_d1_query_duration_seconds: {
+    type: 'histogram',
+    help: 'D1 query and batch durations by operation.',
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  },
+  cams_pulse_compute_duration_seconds: {
+    type: 'histogram',
+    help: 'Wall time to compute Pulse observations, including their D1 reads.',
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  },
+} as const;
+
+type CounterFamily = { [K in keyof typeof FAMILIES]: (typeof FAMILIES)[K]['type'] extends 'counter' ? K : never }[keyof typeof FAMILIES];
+type HistogramFamily = Exclude<keyof typeof FAMILIES, CounterFamily>;
+
+const FLUSH_INTERVAL_MS = 30 * 1000;
+const STATEMENT_BATCH = 50;
+
+const pending = new Map<string, { name: string; labels: string; value: number }>();
+let lastFlushAt = 0;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function add(name: string, labels: Labels, value: number): void {
+  const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+  const id = `${name}\n${key}`;
+  const series = pending.get(id) ?? { name, labels: key, value: 0 };
+  series.value += value;
+  pending.set(id, series);
+}
+
+export function countMetric(family: CounterFamily, labels: Labels = {}, value = 1): void {
+  add(`${family}_total`, labels, value);
+}
+
+export function observeMetric(family: HistogramFamily, labels: Labels, value: number): void {
+  // Buckets the value misses still get a zero increment, so every bucket of a label set exists.
+  for (const bound of FAMILIES[family].buckets) add(`${family}_bucket`, { ...labels, le: String(bound) }, value <= bound ? 1 : 0);
+  add(`${family}_bucket`, { ...labels, le: '+Inf' }, 1);
+  add(`${family}_sum`, labels, value);
+  add(`${family}_count`, labels, 1);
+}
+
+/** `fetch`, recording how long the upstream host took to answer. */
+export async function timedFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+  const started = Date.now();
+  try {
+    return await fetch(input, init);
+  } finally {
+    observeMetric('cams_upstream_request_duration_seconds', { host: new URL(input).hostname }, (Date.now() - started) / 1000);
+  }
+}
+
+async function timed<T>(operation: string, work: () => Promise<T>): Promise<T> {
+  const started = Date.now();
+  try {
+    return await work();
+  } finally {
+    observeMetric('cams_d1_query_duration_seconds', { operation }, (Date.now() - started) / 1000);
+  }
+}
+
+/**
+ * Wraps a D1 binding so every `all`, `first`, `run` and `batch` is timed. Statements handed to `batch` are
+ * unwrapped again, since D1 only accepts the statements it prepared itself.
+ */
+export function instrumentD1<T extends object>(db: T): T {
+  const targets = new WeakMap<object, object>();
+  const wrapStatement = (statement: object): object => {
+    const proxy = new Proxy(statement, {
+      get(target, property) {
+        const value = Reflect.get(target, property);
+        if (typeof value !== 'function') return value;
+        if (property === 'bind') return (...values: unknown[]) => wrapStatement(value.apply(target, values));
+        if (property === 'all' || property === 'first' || property === 'run') {
+          return (...args: unknown[]) => timed(property, () => value.apply(target, args));
+        }
+        return value.bind(target);
+      },
+    });
+    targets.set(proxy, statement);
+    return proxy;
+  };
+  return new Proxy(db, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') return value;
+      if (property === 'prepare') return (query: string) => wrapStatement(value.call(target, query));
+      if (property === 'batch') {
+        return (statements: object[]) => timed('batch', () => value.call(target, statements.map((statement) => targets.get(statement) ?? statement)));
+      }
+      return value.bind(target);
+    },
+  });
+}
+
+/** Writes pending increments to D1 when the last flush is older than `FLUSH_INTERVAL_MS`, or always with `force`. */
+export async function flushMetrics(env: MetricsBindings, force = false, now = Date.now()): Promise<void> {
+  if (!env.HISTORY_DB || !pending.size || (!force && now - lastFlushAt < FLUSH_INTERVAL_MS)) return;
+  const db = env.HISTORY_DB;
+  lastFlushAt = now;
+  const series = [...pending.values()];
+  pending.clear();
+  const statements = series.map(({ name, labels, value }) => db.prepare(
+    `INSERT INTO metric_series (name, labels, value, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(name, labels) DO UPDATE SET value = metric_series.value + excluded.value, updated_at = excluded.updated_at`,
+  ).bind(name, labels, value, now));
+  let index = 0;
+  try {
+    for (; index < statements.length; index += STATEMENT_BATCH) {
+      await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+    }
+  } catch (error) {
+    // Each batch commits as a whole, so the failed one and those after it go back for the next flush.
+    for (const { name, labels, value } of series.slice(index)) add(name, Object.fromEntries(JSON.parse(labels) as [string, string][]), value);
+    console.error(JSON.stringify({ event: 'metrics_flush_error', series: series.length - index, message: error instanceof Error ? error.message : String(error) }));
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function sample(name: string, labels: [string, string][], value: number): string {
+  const rendered = labels.map(([key, label]) => `${key}="${escapeLabel(label)}"`).join(',');
+  return `${name}${rendered ? `{${rendered}}` : ''} ${Number.isInteger(value) ? value : Number(value.toFixed(6))}`;
+}
+
+function bucketOrder(labels: [string, string][]): number {
+  const le = labels.find(([key]) => key === 'le')?.[1];
+  return le === '+Inf' ? Infinity : Number(le);
+}
+
+/** Stored series as an OpenMetrics text exposition. */
+export function renderMetrics(rows: SeriesRow[]): string {
+  const lines: string[] = [];
+  for (const [family, meta] of Object.entries(FAMILIES)) {
+    lines.push(`# TYPE ${family} ${meta.type}`, `# HELP ${family} ${meta.help}`);
+    const parsed = rows
+      .filter((row) => row.name.startsWith(`${family}_`))
+      .map((row) => ({ suffix: row.name.slice(family.length + 1), labels: JSON.parse(row.labels) as [string, string][], value: row.value }));
+    if (meta.type === 'counter') {
+      for (const row of parsed.filter((item) => item.suffix === 'total').sort((a, b) => JSON.stringify(a.labels).localeCompare(JSON.stringify(b.labels)))) {
+        lines.push(sample(`${family}_total`, row.labels, row.value));
+      }
+      continue;
+    }
+    // Histogram samples must stay together per label set: buckets in order, then count and sum.
+    const groups = new Map<string, typeof parsed>();
+    for (const row of parsed) {
+      const key = JSON.stringify(row.labels.filter(([label]) => label !== 'le'));
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+    for (const key of [...groups.keys()].sort()) {
+      const group = groups.get(key)!;
+      for (const row of group.filter((item) => item.suffix === 'bucket').sort((a, b) => bucketOrder(a.labels) - bucketOrder(b.labels))) {
+        lines.push(sample(`${family}_bucket`, row.labels, row.value));
+      }
+      for (const suffix of ['count', 'sum']) {
+        const row = group.find((item) => item.suffix === suffix);
+        if (row) lines.push(sample(`${family}_${suffix}`, row.labels, row.value));
+      }
+    }
+  }
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
+
+export async function handleMetricsRequest(request: Request, url: URL, env: MetricsBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/metrics') return null;
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  if (!env.HISTORY_DB || !env.METRICS_TOKEN) return json({ error: 'Metrics are not configured' }, { status: 503 });
+  if (!(await authorized(request, env.METRICS_TOKEN))) return json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  // Fold in this isolate's own increments so a scrape never lags behind what it has already counted.
+  await flushMetrics(env, true);
+  const result = await env.HISTORY_DB.prepare('SELECT name, labels, value FROM metric_series').all<SeriesRow>();
+  return new Response(renderMetrics(result.results ?? []), { headers: {
+    'Content-Type': 'application/openmetrics-text; version=1.0.0; charset=utf-8',
+    'Cache-Control': 'no-store',
+  } });
+}
@@ -0,0 +1,126 @@
+export type RgbImage = { width: number; height: number; pixels: Uint8Array };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/** Decodes 8-bit grey, grey+alpha, RGB and RGBA PNGs (as produced by the Images binding) to packed RGB. */
+export async function decodePng(bytes: ArrayBuffer): Promise<RgbImage | null> {
+  const data = new Uint8Array(bytes);
+  if (data.length < 33 || data[0] !== 137 || data[1] !== 80 || data[2] !== 78 || data[3] !== 71) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  const idat: Uint8Array[] = [];
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+    const start = offset + 8;
+    const end = start + length;
+    if (end + 4 > data.length) return null;
+    if (type === 'IHDR') {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      bitDepth = data[start + 8];
+      colorType = data[start + 9];
+    } else if (type === 'IDAT') {
+      idat.push(data.slice(start, end));
+    } else if (type === 'IEND') break;
+    offset = end + 4;
+  }
+  if (!width || !height || bitDepth !== 8 || !idat.length) return null;
+  const channels = colorType === 0 ? 1 : colorType === 2 ? 3 : colorType === 4 ? 2 : colorType === 6 ? 4 : 0;
+  if (!channels) return null;
+  const compressedLength = idat.reduce((sum, chunk) => sum + chunk.length, 0);
+  const compressed = new Uint8Array(compressedLength);
+  let cursor = 0;
+  for (const chunk of idat) { compressed.set(chunk, cursor); cursor += chunk.length; }
+  const decompressed = new Uint8Array(await new Response(new Response(compressed).body!.pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+  const rowBytes = width * channels;
+  if (decompressed.length < height * (rowBytes + 1)) return null;
+  const raw = new Uint8Array(height * rowBytes);
+  let input = 0;
+  for (let y = 0; y < height; y += 1) {
+    const filter = decompressed[input++];
+    for (let x = 0; x < rowBytes; x += 1) {
+      const value = decompressed[input++];
+      const outIndex = y * rowBytes + x;
+      const left = x >= channels ? raw[outIndex - channels] : 0;
+      const up = y > 0 ? raw[outIndex - rowBytes] : 0;
+      const upperLeft = y > 0 && x >= channels ? raw[outIndex - rowBytes - channels] : 0;
+      let decoded = value;
+      if (filter === 1) decoded = (value + left) & 255;
+      else if (filter === 2) decoded = (value + up) & 255;
+      else if (filter === 3) decoded = (value + Math.floor((left + up) / 2)) & 255;
+      else if (filter === 4) decoded = (value + paeth(left, up, upperLeft)) & 255;
+      else if (filter !== 0) return null;
+      raw[outIndex] = decoded;
+    }
+  }
+  const pixels = new Uint8Array(width * height * 3);
+  for (let i = 0, p = 0; i < raw.length; i += channels, p += 3) {
+    const grey = colorType === 0 || colorType === 4;
+    pixels[p] = raw[i];
+    pixels[p + 1] = grey ? raw[i] : raw[i + 1];
+    pixels[p + 2] = grey ? raw[i] : raw[i + 2];
+  }
+  return { width, height, pixels };
+}
+
+export async function decodePngLuminance(bytes: ArrayBuffer): Promise<Uint8Array | null> {
+  const image = await decodePng(bytes);
+  if (!image) return null;
+  const { pixels } = image;
+  const luminance = new Uint8Array(image.width * image.height);
+  for (let i = 0, p = 0; i < pixels.length; i += 3, p += 1) {
+    luminance[p] = Math.round(0.2126 * pixels[i] + 0.7152 * pixels[i + 1] + 0.0722 * pixels[i + 2]);
+  }
+  return luminance;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 255] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(body.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i += 1) out[4 + i] = type.charCodeAt(i);
+  out.set(body, 8);
+  view.setUint32(body.length + 8, crc32(out.subarray(4, body.length + 8)));
+  return out;
+}
+
+/** Encodes packed RGBA as an unfiltered 8-bit PNG; meant for small generated overlays. */
+export async function encodePng(width: number, height: number, rgba: Uint8Array): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8);
+  const rows = new Uint8Array(height * (width * 4 + 1));
+  for (let y = 0; y < height; y += 1) rows.set(rgba.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+  const compressed = new Uint8Array(await new Response(new Response(rows).body!.pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+  const parts = [new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]), chunk('IHDR', header), chunk('IDAT', compressed), chunk('IEND', new Uint8Array())];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) { out.set(part, offset); offset += part.length; }
+  return out;
+}
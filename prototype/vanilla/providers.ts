@@ -0,0 +1,563 @@
+import { cameraIdentity, type CameraIdentityInput } from '../../src/lib/identity';
+import type { ImageSet } from './images';
+import type { StreamStatus } from './streams';
+import { upstreamFetch } from './upstream';
+
+export const DEFAULT_FEATURE_SERVICE = 'https://services.arcgis.com/ZOyb2t4B0UYuYNYH/ArcGIS/rest/services/Traffic_Cameras_CDL/FeatureServer/0';
+export const VIDEO_SERVER = '61e0c5d388c2e.streamlock.net';
+export const CAMERA_HOST = 'www.seattle.gov';
+export const CAMERA_PREFIX = '/trafficcams/images/';
+
+const VIDEO_ORIGIN = `https://${VIDEO_SERVER}:443`;
+export const SDOT_ENDPOINT = 'https://data.seattle.gov/resource/65fc-btcc.json';
+const WSDOT_ENDPOINT = 'https://wsdot.wa.gov/Traffic/api/HighwayCameras/HighwayCamerasREST.svc/GetCamerasAsJson';
+const SEATTLE_IMAGES: ImageOrigin[] = [{ host: CAMERA_HOST, prefix: CAMERA_PREFIX }];
+
+const DOWNTOWN_BOUNDS = {
+  south: 47.593,
+  north: 47.6235,
+  west: -122.356,
+  east: -122.323,
+};
+
+export type Camera = {
+  id: string;
+  label: string;
+  imagePath: string;
+  imageHost?: string;
+  /** `/api/image` renditions of the frame. Set by the worker, not by providers. */
+  image?: ImageSet;
+  /** Legacy IDs for this camera; see src/lib/identity.ts. */
+  aliases?: string[];
+  collections: string[];
+  stream?: string;
+  videoUrl?: string;
+  directVideoUrl?: string;
+  /** The cron's latest verdict on `stream`; absent when it has none. Set by the worker, not by providers. */
+  streamStatus?: StreamStatus;
+  webUrl?: string;
+  lat?: number;
+  lng?: number;
+};
+
+export type ImageOrigin = { host: string; prefix: string };
+
+export type ProviderBindings = { WSDOT_ACCESS_CODE?: string };
+
+export type ProviderContext = {
+  params: URLSearchParams;
+  env: ProviderBindings;
+};
+
+export type RejectionReason = 'inactive' | 'missing_image' | 'invalid_image_url' | 'image_host_not_allowed';
+
+export type CameraBatch = {
+  cameras: Camera[];
+  rejected: Partial<Record<RejectionReason, number>>;
+  fieldMap?: ArcGISFieldMap;
+  /** Cameras the upstream reports as out of service; counted as rejected but still tracked by the catalog. */
+  inactive?: Camera[];
+  /** Set when the upstream had more records than were fetched. */
+  capped?: boolean;
+  upstreamTotal?: number;
+};
+
+export type CameraProvider = {
+  id: string;
+  label: string;
+  imageOrigins: ImageOrigin[];
+  videoHosts: string[];
+  fetch: (context: ProviderContext) => Promise<unknown>;
+  normalize: (data: unknown, context: ProviderContext) => CameraBatch;
+};
+
+/** Raised for caller-supplied configuration the worker can reject with a 400 instead of a 503. */
+export class ProviderConfigError extends Error {}
+
+export type ArcGISFieldMap = {
+  name: string;
+  label: string;
+  image: string;
+  stream?: string;
+  status?: string;
+};
+
+type ArcGISFieldRole = keyof ArcGISFieldMap;
+
+const FIELD_PARAMS: Record<ArcGISFieldRole, string> = {
+  name: 'nameField',
+  label: 'labelField',
+  image: 'imageField',
+  stream: 'streamField',
+  status: 'statusField',
+};
+
+const FIELD_CANDIDATES: Record<ArcGISFieldRole, string[]> = {
+  name: ['NAME', 'CAMERA_NAME', 'CAMERANAME', 'CAMERA_ID', 'CAMERAID', 'CAM_ID', 'ID', 'TITLE'],
+  label: ['LOCATION', 'CAMERALABEL', 'LABEL', 'DESCRIPTION', 'DESCRIPT', 'TITLE', 'NAME'],
+  image: ['URL', 'IMAGEURL', 'IMAGE_URL', 'IMAGE', 'SNAPSHOT', 'SNAPSHOT_URL', 'CAMERA_URL', 'IMG_URL'],
+  stream: ['STREAM_NAME', 'STREAMNAME', 'STREAM', 'VIDEO_STREAM'],
+  status: ['SERVSTAT', 'STATUS', 'CAM_STATUS', 'ACTIVE'],
+};
+
+type ArcField = { name?: string; alias?: string; type?: string };
+type ArcLayer = {
+  fields?: ArcField[];
+  objectIdField?: string;
+  maxRecordCount?: number;
+  advancedQueryCapabilities?: { supportsPagination?: boolean };
+  error?: { message?: string };
+};
+type ArcFeature = {
+  geometry?: { x?: number; y?: number } | null;
+  attributes?: Record<string, unknown>;
+};
+type ArcResponse = { features?: ArcFeature[]; exceededTransferLimit?: boolean; error?: { message?: string } };
+type ArcFetchResult = { data: ArcResponse; fields: ArcGISFieldMap; capped: boolean; upstreamTotal?: number };
+type ArcPages = { features: ArcFeature[]; capped: boolean; total?: number };
+
+const ARCGIS_PAGE_CONCURRENCY = 4;
+const ARCGIS_MAX_FEATURES = 10000;
+const ARCGIS_ID_CHUNK = 250;
+
+/** Dotted paths into a Socrata row; the first present value wins when several are listed. */
+export type SocrataFieldMap = {
+  label: string[];
+  image: string[];
+  video?: string[];
+  web?: string[];
+  lat: string[];
+  lng: string[];
+};
+
+type WsdotCamera = {
+  CameraID?: number;
+  Title?: string;
+  ImageURL?: string;
+  IsActive?: boolean;
+  CameraLocation?: { Description?: string; Latitude?: number; Longitude?: number };
+};
+
+function identity(input: CameraIdentityInput): Pick<Camera, 'id' | 'aliases'> {
+  const { id, aliases } = cameraIdentity(input);
+  return aliases.length ? { id, aliases } : { id };
+}
+
+function imageSource(rawUrl: string, origins: ImageOrigin[]): { host: string; path: string } | RejectionReason {
+  if (!rawUrl) return 'missing_image';
+  let url: URL;
+  try {
+    url = new URL(rawUrl.replace(/^http:/, 'https:'));
+  } catch {
+    return 'invalid_image_url';
+  }
+  const host = url.hostname.toLowerCase();
+  if (url.pathname.includes('..')) return 'invalid_image_url';
+  return origins.some((origin) => origin.host === host && url.pathname.startsWith(origin.prefix))
+    ? { host, path: url.pathname }
+    : 'image_host_not_allowed';
+}
+
+function rejectionCounter(): { rejected: CameraBatch['rejected']; reject: (reason: RejectionReason) => void } {
+  const rejected: CameraBatch['rejected'] = {};
+  return { rejected, reject: (reason) => { rejected[reason] = (rejected[reason] ?? 0) + 1; } };
+}
+
+function imageFields(source: { host: string; path: string }): Pick<Camera, 'imagePath' | 'imageHost'> {
+  return source.host === CAMERA_HOST ? { imagePath: source.path } : { imagePath: source.path, imageHost: source.host };
+}
+
+function isDowntownCoordinate(lat: number, lng: number): boolean {
+  return Number.isFinite(lat)
+    && Number.isFinite(lng)
+    && lat >= DOWNTOWN_BOUNDS.south
+    && lat <= DOWNTOWN_BOUNDS.north
+    && lng >= DOWNTOWN_BOUNDS.west
+    && lng <= DOWNTOWN_BOUNDS.east;
+}
+
+function classifyCamera(label: string, lat: number, lng: number): string[] {
+  const value = label
+    .toLowerCase()
+    .replace(/[–—]/g, '-')
+    .replace(/[.,/]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const collections: string[] = [];
+
+  const downtownStreet = /\b(?:1st|2nd|3rd|4th|5th|6th|7th|8th|9th)\s+(?:ave|avenue)\b|\b(?:pike|pine|union|university|seneca|spring|madison|marion|columbia|cherry|james|yesler)\s+(?:st|street)\b/;
+  if (value.includes('downtown') || (isDowntownCoordinate(lat, lng) && downtownStreet.test(value))) collections.push('downtown');
+
+  if (/\bbridge\b|\bfremont\b|\bballard\b|\bmontlake\b|\buniversity bridge\b|\bspokane st(?:reet)?\b|\bwest seattle bridge\b/.test(value)) collections.push('bridges');
+  if (/\b(?:i-?5|interstate\s*5)\b/.test(value)) collections.push('i5');
+  if (/\b(?:aurora(?: ave(?:nue)?)?|sr-?\s*99|state route\s*99|highway\s*99|hwy\s*99|99)\b/.test(value)) collections.push('aurora');
+
+  return collections;
+}
+
+function coordinates(lat: number, lng: number): Pick<Camera, 'lat' | 'lng'> {
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : {};
+}
+
+async function fetchJson(input: string | URL, label: string): Promise<unknown> {
+  const response = await upstreamFetch(input, {
+    cf: { cacheEverything: true, cacheTtl: 300 },
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) throw new Error(`${label} ${response.status}`);
+  return response.json();
+}
+
+async function mapLimit<T, R>(items: T[], limit: number, work: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let cursor = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (cursor < items.length) {
+      const index = cursor;
+      cursor += 1;
+      results[index] = await work(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+export function validatedFeatureService(raw: string | null): string {
+  if (!raw) return DEFAULT_FEATURE_SERVICE;
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new ProviderConfigError('Invalid ArcGIS FeatureServer URL');
+  }
+  if (url.protocol !== 'https:' || !url.pathname.toLowerCase().includes('featureserver')) {
+    throw new ProviderConfigError('Invalid ArcGIS FeatureServer URL');
+  }
+  const host = url.hostname.toLowerCase();
+  if (!(host === 'services.arcgis.com' || host.endsWith('.arcgis.com'))) {
+    throw new ProviderConfigError('ArcGIS FeatureServer host is not allowed');
+  }
+  return url.toString().replace(/\/$/, '');
+}
+
+function fieldOverrides(params: URLSearchParams): Partial<ArcGISFieldMap> {
+  const overrides: Partial<ArcGISFieldMap> = {};
+  for (const [role, param] of Object.entries(FIELD_PARAMS) as Array<[ArcGISFieldRole, string]>) {
+    const value = params.get(param)?.trim();
+    if (!value) continue;
+    if (!/^[A-Za-z_][A-Za-z0-9_.]{0,63}$/.test(value)) throw new ProviderConfigError(`Invalid ArcGIS field name for ${param}`);
+    overrides[role] = value;
+  }
+  return overrides;
+}
+
+/**
+ * Builds a field-mapping profile from the layer's `?f=json` metadata. Known Seattle-style names win,
+ * then a loose match on names and aliases; explicit overrides must name a field the layer actually has.
+ */
+export function detectArcGISFields(layer: ArcLayer, overrides: Partial<ArcGISFieldMap> = {}): ArcGISFieldMap {
+  const fields = (layer.fields ?? []).filter((field): field is ArcField & { name: string } => Boolean(field.name));
+  const byName = new Map(fields.map((field) => [field.name.toUpperCase(), field.name]));
+  const strings = fields.filter((field) => !field.type || field.type === 'esriFieldTypeString');
+  const loose = (pattern: RegExp) => strings.find((field) => pattern.test(field.name) || pattern.test(field.alias ?? ''))?.name;
+  const known = (role: ArcGISFieldRole) => FIELD_CANDIDATES[role].map((name) => byName.get(name)).find(Boolean);
+  const resolve = (role: ArcGISFieldRole, pattern: RegExp | null): string | undefined => {
+    const override = overrides[role];
+    if (override) {
+      const actual = byName.get(override.toUpperCase());
+      if (!actual) throw new ProviderConfigError(`ArcGIS layer has no field named ${override}`);
+      return actual;
+    }
+    return known(role) ?? (pattern ? loose(pattern) : undefined);
+  };
+
+  const image = resolve('image', /url|image|snapshot|jpe?g/i);
+  if (!image) throw new ProviderConfigError(`Could not detect an image URL field; set ${FIELD_PARAMS.image}`);
+  const label = resolve('label', /loc|desc|label|title|name/i) ?? image;
+  return {
+    name: resolve('name', /name|id$/i) ?? label,
+    label,
+    image,
+    stream: resolve('stream', /stream/i),
+    status: resolve('status', /stat/i),
+  };
+}
+
+type ArcGISProviderOptions = {
+  id: string;
+  label: string;
+  featureService: string;
+  fields: ArcGISFieldMap;
+  imageOrigins: ImageOrigin[];
+  videoHosts?: string[];
+  webUrl?: string;
+  /** Accept a caller-supplied FeatureServer through the `arcgis` query parameter. */
+  overridable?: boolean;
+  streamUrls?: (stream: string) => Pick<Camera, 'videoUrl' | 'directVideoUrl'>;
+};
+
+function arcgisQuery(featureService: string, outFields: string, extra: Record<string, string> = {}): URL {
+  const query = new URL(`${featureService}/query`);
+  query.searchParams.set('where', '1=1');
+  query.searchParams.set('outFields', outFields);
+  query.searchParams.set('outSR', '4326');
+  query.searchParams.set('returnGeometry', 'true');
+  query.searchParams.set('f', 'json');
+  for (const [key, value] of Object.entries(extra)) query.searchParams.set(key, value);
+  return query;
+}
+
+async function arcgisPage(query: URL): Promise<ArcResponse> {
+  const data = await fetchJson(query, 'ArcGIS') as ArcResponse;
+  if (data.error?.message) throw new Error(data.error.message);
+  return data;
+}
+
+function objectIdField(layer: ArcLayer): string | undefined {
+  return layer.objectIdField ?? layer.fields?.find((field) => field.type === 'esriFieldTypeOID')?.name;
+}
+
+/**
+ * Follows `exceededTransferLimit` past the server's `maxRecordCount`: result offsets ordered by object id
+ * when the layer supports pagination, otherwise `returnIdsOnly` followed by `objectIds` chunks.
+ */
+async function queryAllFeatures(featureService: string, outFields: string, metadata: () => Promise<ArcLayer>): Promise<ArcPages> {
+  const first = await arcgisPage(arcgisQuery(featureService, outFields));
+  const features = first.features ?? [];
+  if (!first.exceededTransferLimit) return { features, capped: false };
+
+  const layer = await metadata();
+  const pageSize = features.length || layer.maxRecordCount || 1000;
+  const idField = objectIdField(layer);
+  if (layer.advancedQueryCapabilities?.supportsPagination && idField) {
+    const counted = await fetchJson(arcgisQuery(featureService, outFields, { returnCountOnly: 'true', returnGeometry: 'false' }), 'ArcGIS') as { count?: number };
+    const total = Number(counted.count) || 0;
+    // Without a count there is no telling how many pages to read, so the first page is reported as incomplete.
+    if (!total) return { features, capped: true };
+    const expected = Math.min(total, ARCGIS_MAX_FEATURES);
+    const offsets: number[] = [];
+    for (let offset = 0; offset < expected; offset += pageSize) offsets.push(offset);
+    // The unordered first page is read again so that every page, the first included, has the same order.
+    const pages = await mapLimit(offsets, ARCGIS_PAGE_CONCURRENCY, (offset) => arcgisPage(arcgisQuery(featureService, outFields, { orderByFields: idField, resultOffset: String(offset), resultRecordCount: String(pageSize) })));
+    const merged = pages.flatMap((page) => page.features ?? []).slice(0, ARCGIS_MAX_FEATURES);
+    return { features: merged, capped: total > ARCGIS_MAX_FEATURES || merged.length < expected, total };
+  }
+
+  const idsResponse = await fetchJson(arcgisQuery(featureService, outFields, { returnIdsOnly: 'true', returnGeometry: 'false' }), 'ArcGIS') as { objectIds?: number[] | null };
+  const ids = [...(idsResponse.objectIds ?? [])].sort((a, b) => a - b);
+  if (!ids.length) return { features, capped: true };
+  const chunkSize = Math.min(pageSize, ARCGIS_ID_CHUNK);
+  const chunks: number[][] = [];
+  for (let index = 0; index < Math.min(ids.length, ARCGIS_MAX_FEATURES); index += chunkSize) chunks.push(ids.slice(index, Math.min(index + chunkSize, ARCGIS_MAX_FEATURES)));
+  const pages = await mapLimit(chunks, ARCGIS_PAGE_CONCURRENCY, (chunk) => arcgisPage(arcgisQuery(featureService, outFields, { objectIds: chunk.join(',') })));
+  return { features: pages.flatMap((page) => page.features ?? []), capped: ids.length > ARCGIS_MAX_FEATURES, total: ids.length };
+}
+
+export function arcgisProvider(options: ArcGISProviderOptions): CameraProvider {
+  return {
+    id: options.id,
+    label: options.label,
+    imageOrigins: options.imageOrigins,
+    videoHosts: options.videoHosts ?? [],
+    async fetch({ params }): Promise<ArcFetchResult> {
+      const override = options.overridable ? params.get('arcgis') : null;
+      const featureService = override ? validatedFeatureService(override) : options.featureService;
+      const overrides = options.overridable ? fieldOverrides(params) : {};
+      let layer: Promise<ArcLayer> | null = null;
+      const metadata = () => layer ??= (async () => {
+        const result = await fetchJson(`${featureService}?f=json`, 'ArcGIS metadata') as ArcLayer;
+        if (result.error?.message) throw new Error(result.error.message);
+        return result;
+      })();
+      let fields = options.fields;
+      if (override || Object.keys(overrides).length) {
+        fields = detectArcGISFields(await metadata(), override ? overrides : { ...options.fields, ...overrides });
+      }
+      const outFields = [...new Set([fields.name, fields.label, fields.image, fields.stream, fields.status].filter(Boolean))].join(',');
+      const pages = await queryAllFeatures(featureService, outFields, metadata);
+      return { data: { features: pages.features }, fields, capped: pages.capped, upstreamTotal: pages.total };
+    },
+    normalize(raw) {
+      const { data, fields, capped, upstreamTotal } = raw as ArcFetchResult;
+      if (data.error?.message) throw new Error(data.error.message);
+      const cameras: Camera[] = [];
+      const inactive: Camera[] = [];
+      const { rejected, reject } = rejectionCounter();
+      for (const feature of data.features ?? []) {
+        const attrs = feature.attributes ?? {};
+        const status = fields.status ? String(attrs[fields.status] ?? '').toUpperCase() : '';
+        const active = !(status === 'INACT' || status === 'INACTIVE' || status === 'FALSE' || status === '0');
+        const rawImage = String(attrs[fields.image] ?? '');
+        const image = imageSource(rawImage, options.imageOrigins);
+        if (!active) reject('inactive');
+        else if (typeof image === 'string') reject(image);
+        if (typeof image === 'string') continue;
+        const label = String(attrs[fields.label] || attrs[fields.name] || `${options.label} camera`);
+        const stream = fields.stream && attrs[fields.stream] ? String(attrs[fields.stream]).trim() : undefined;
+        const lat = Number(feature.geometry?.y);
+        const lng = Number(feature.geometry?.x);
+        (active ? cameras : inactive).push({
+          ...identity({ name: attrs[fields.name] ? String(attrs[fields.name]) : undefined, label, imageUrl: rawImage }),
+          label,
+          ...imageFields(image),
+          collections: classifyCamera(label, lat, lng),
+          ...(stream ? { stream, ...options.streamUrls?.(stream) } : {}),
+          webUrl: options.webUrl,
+          ...coordinates(lat, lng),
+        });
+      }
+      return { cameras, inactive, rejected, fieldMap: fields, capped, upstreamTotal };
+    },
+  };
+}
+
+type SocrataProviderOptions = {
+  id: string;
+  label: string;
+  endpoint: string;
+  fields: SocrataFieldMap;
+  imageOrigins: ImageOrigin[];
+  videoHosts?: string[];
+};
+
+function pick(row: unknown, paths: string[] | undefined): string | undefined {
+  for (const path of paths ?? []) {
+    let value: unknown = row;
+    for (const key of path.split('.')) value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    if (value != null && value !== '') return String(value);
+  }
+  return undefined;
+}
+
+export function socrataProvider(options: SocrataProviderOptions): CameraProvider {
+  const { fields } = options;
+  return {
+    id: options.id,
+    label: options.label,
+    imageOrigins: options.imageOrigins,
+    videoHosts: options.videoHosts ?? [],
+    fetch: () => fetchJson(options.endpoint, options.label),
+    normalize(raw) {
+      if (!Array.isArray(raw)) throw new Error(`${options.label} returned an unexpected payload`);
+      const cameras: Camera[] = [];
+      const { rejected, reject } = rejectionCounter();
+      for (const row of raw) {
+        const rawImage = pick(row, fields.image) ?? '';
+        const image = imageSource(rawImage, options.imageOrigins);
+        if (typeof image === 'string') { reject(image); continue; }
+        const label = pick(row, fields.label) || image.path;
+        const lat = Number(pick(row, fields.lat));
+        const lng = Number(pick(row, fields.lng));
+        const videoUrl = pick(row, fields.video);
+        const webUrl = pick(row, fields.web);
+        cameras.push({
+          ...identity({ label, imageUrl: rawImage, videoUrl, webUrl }),
+          label,
+          ...imageFields(image),
+          collections: classifyCamera(label, lat, lng),
+          videoUrl,
+          directVideoUrl: videoUrl,
+          webUrl,
+          ...coordinates(lat, lng),
+        });
+      }
+      return { cameras, rejected };
+    },
+  };
+}
+
+function wsdotProvider(): CameraProvider {
+  const imageOrigins: ImageOrigin[] = [{ host: 'images.wsdot.wa.gov', prefix: '/' }];
+  return {
+    id: 'wsdot',
+    label: 'WSDOT',
+    imageOrigins,
+    videoHosts: [],
+    async fetch({ env }) {
+      if (!env.WSDOT_ACCESS_CODE) throw new Error('WSDOT access code is not configured');
+      const url = new URL(WSDOT_ENDPOINT);
+      url.searchParams.set('AccessCode', env.WSDOT_ACCESS_CODE);
+      return fetchJson(url, 'WSDOT');
+    },
+    normalize(raw) {
+      if (!Array.isArray(raw)) throw new Error('WSDOT returned an unexpected payload');
+      const cameras: Camera[] = [];
+      const inactive: Camera[] = [];
+      const { rejected, reject } = rejectionCounter();
+      for (const row of raw as WsdotCamera[]) {
+        const image = imageSource(String(row.ImageURL ?? ''), imageOrigins);
+        if (row.IsActive === false) reject('inactive');
+        else if (typeof image === 'string') reject(image);
+        if (typeof image === 'string') continue;
+        const label = String(row.Title || row.CameraLocation?.Description || image.path);
+        const lat = Number(row.CameraLocation?.Latitude);
+        const lng = Number(row.CameraLocation?.Longitude);
+        (row.IsActive === false ? inactive : cameras).push({
+          ...identity({ key: row.CameraID != null ? `wsdot-${row.CameraID}` : undefined, label, imageUrl: String(row.ImageURL) }),
+          label,
+          ...imageFields(image),
+          collections: classifyCamera(label, lat, lng),
+          ...coordinates(lat, lng),
+        });
+      }
+      return { cameras, inactive, rejected };
+    },
+  };
+}
+
+export const CAMERA_PROVIDERS: CameraProvider[] = [
+  arcgisProvider({
+    id: 'arcgis',
+    label: 'ArcGIS',
+    featureService: DEFAULT_FEATURE_SERVICE,
+    fields: { name: 'NAME', label: 'LOCATION', image: 'URL', stream: 'STREAM_NAME', status: 'SERVSTAT' },
+    imageOrigins: SEATTLE_IMAGES,
+    videoHosts: [VIDEO_SERVER],
+    webUrl: 'https://web.seattle.gov/Travelers/',
+    overridable: true,
+    streamUrls: (stream) => ({
+      videoUrl: `/api/video?url=${encodeURIComponent(`/live/${stream}.stream/playlist.m3u8`)}`,
+      directVideoUrl: `${VIDEO_ORIGIN}/live/${encodeURIComponent(stream)}.stream/playlist.m3u8`,
+    }),
+  }),
+  socrataProvider({
+    id: 'sdot',
+    label: 'SDOT Socrata',
+    endpoint: SDOT_ENDPOINT,
+    fields: {
+      label: ['cameralabel'],
+      image: ['imageurl.url'],
+      video: ['video_url.url'],
+      web: ['web_url.url'],
+      lat: ['location.latitude', 'y_coord'],
+      lng: ['location.longitude', 'x_coord'],
+    },
+    imageOrigins: SEATTLE_IMAGES,
+    videoHosts: [VIDEO_SERVER],
+  }),
+  wsdotProvider(),
+];
+
+export const DEFAULT_PROVIDER = CAMERA_PROVIDERS[0];
+
+export function getProvider(id: string | null): CameraProvider | null {
+  if (!id) return DEFAULT_PROVIDER;
+  return CAMERA_PROVIDERS.find((provider) => provider.id === id) ?? null;
+}
+
+export async function loadCameras(provider: CameraProvider, context: ProviderContext): Promise<CameraBatch> {
+  return provider.normalize(await provider.fetch(context), context);
+}
+
+export function isAllowedImage(host: string, path: string): boolean {
+  if (!path.startsWith('/') || path.includes('..')) return false;
+  return CAMERA_PROVIDERS.some((provider) => provider.imageOrigins.some((origin) => origin.host === host && path.startsWith(origin.prefix)));
+}
+
+export function isAllowedVideoHost(host: string): boolean {
+  return CAMERA_PROVIDERS.some((provider) => provider.videoHosts.includes(host));
+}
+
+export function allowedVideoHosts(): string[] {
+  return [...new Set(CAMERA_PROVIDERS.flatMap((provider) => provider.videoHosts))];
+}
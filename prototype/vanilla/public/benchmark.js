@@ -1,14 +1,17 @@
 const DEFAULT_ARCGIS = window.__DEFAULT_ARCGIS__;
+const PROVIDERS = window.__PROVIDERS__ || [];
 let cameras = window.__CAMERAS__ || [];
 let filtered = cameras;
 let visible = matchMedia('(min-width:768px)').matches ? 16 : 6;
 let source = 'arcgis';
 let featureService = DEFAULT_ARCGIS;
+let fieldOverrides = {};
 let view = 'grid';
 let collectionMode = 'all';
 let activeCollections = [];
 let focusedId = null;
-let lastSync = Date.now();
+let catalogAt = window.__CATALOG_AT__ || null;
+let lastSync = catalogAt || Date.now();
 const health = new Map();
 let healthRenderTimer = null;
 let map = null;
@@ -24,7 +27,19 @@ let focusHistory = null;
 let timelapseTimer = null;
 let pulse = null;
 let pulseByCamera = new Map();
+let cameraIssues = new Map();
 const PULSE_REFRESH_MS = 60000;
+let maskEditor = null;
+let clipTimer = null;
+const CLIP_POLL_MS = 4000;
+const MAX_ZOOM = 8;
+let focusZoom = {x:0,y:0,scale:1};
+let pendingZoom = null;
+let zoomDetailTimer = null;
+const zoomSets = new Map();
+const zoomPointers = new Map();
+// Mask editing is for curators only; `?curate` opens it up and the token is asked for on first save.
+const CURATOR = new URLSearchParams(location.search).has('curate') || Boolean(sessionStorage.getItem('curatorToken'));
 
 const $ = (selector) => document.querySelector(selector);
 const grid = $('#grid');
@@ -58,11 +73,29 @@ const TAXONOMY_COLLECTIONS = new Set(['downtown','bridges','i5','aurora']);
 function escapeHtml(value) {
   return String(value).replace(/[&<>"']/g, (char) => ({'&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;',"'":'&#39;'}[char]));
 }
+// Grid columns by breakpoint, matching benchmark.css.
+const CARD_SIZES = '(min-width: 1280px) 20rem, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
+const FOCUS_SIZES = 'min(64rem, 100vw)';
+function imageBucket(fresh) { return fresh ? `&v=${Math.floor(Date.now()/30000)}` : ''; }
+// The worker lists each camera's renditions, and the signed ones of a zoom crop, in a srcset by pixel width.
+function renditions(camera) {
+  return (camera.image?.srcset || '').split(', ').filter(Boolean).map((entry) => { const [url,size] = entry.split(' '); return {url,width:parseInt(size,10)}; });
+}
 function imageUrl(camera, width = 480, fresh = false) {
-  const bucket = fresh ? `&v=${Math.floor(Date.now()/30000)}` : '';
-  return `/api/image?path=${encodeURIComponent(camera.imagePath)}&w=${width}${bucket}`;
+  const rendition = renditions(camera).find((item) => item.width >= width);
+  if (rendition) return rendition.url + imageBucket(fresh);
+  const host = camera.imageHost ? `&host=${encodeURIComponent(camera.imageHost)}` : '';
+  return `/api/image?path=${encodeURIComponent(camera.imagePath)}${host}&w=${width}${imageBucket(fresh)}`;
+}
+function imageSrcset(camera, fresh = false) {
+  return renditions(camera).map(({url,width}) => `${url}${imageBucket(fresh)} ${width}w`).join(', ');
+}
+function srcsetAttrs(camera, sizes, fresh = false) {
+  const srcset = imageSrcset(camera,fresh);
+  return srcset ? ` srcset="${escapeHtml(srcset)}" sizes="${sizes}"` : '';
 }
-function cameraById(id) { return cameras.find((camera) => camera.id === id); }
+function sourceLabel(id = source) { return PROVIDERS.find((provider) => provider.id === id)?.label || id; }
+function cameraById(id) { return cameras.find((camera) => camera.id === id) || cameras.find((camera) => camera.aliases?.includes(id)); }
 function getHealth(camera) { return health.get(camera.id) || {}; }
 function pulseObservation(camera) { return pulseByCamera.get(camera.id) || null; }
 function isUnusual(camera) { return Boolean(pulseObservation(camera)); }
@@ -84,12 +117,14 @@ function noteHealth(camera, kind) {
   scheduleHealthRender();
 }
 
+// Cameras the cron has probed need a verified-live stream before Play is offered; unprobed ones only need a URL.
+function canPlay(camera) { return Boolean(camera?.videoUrl) && (!camera.streamStatus || camera.streamStatus === 'live'); }
 function matchesCollection(camera, id) {
   const h = getHealth(camera);
   if (id === 'unusual') return isUnusual(camera);
-  if (id === 'live') return Boolean(camera.videoUrl);
+  if (id === 'live') return canPlay(camera);
   if (id === 'recent') return Boolean(h.lastImageRefresh && Date.now() - h.lastImageRefresh < 60000);
-  if (id === 'issues') return Boolean(h.lastImageError || h.lastStreamError);
+  if (id === 'issues') return Boolean(h.lastImageError || h.lastStreamError || cameraIssues.has(camera.id));
   return Array.isArray(camera.collections) && camera.collections.includes(id);
 }
 function matchesQuery(camera, query) {
@@ -118,16 +153,16 @@ function refilter() {
 }
 function observationMeta(camera) {
   const observation = pulseObservation(camera);
-  if (!observation) return {text: camera.videoUrl ? 'Live' : 'Snapshot', title: ''};
+  if (!observation) return {text: canPlay(camera) ? 'Live' : 'Snapshot', title: ''};
   const headline = observation.display?.headline || observation.reason || 'Visual change';
   return {text:`Changed ${observation.score}`,title:headline};
 }
 function card(camera, index) {
-  const liveControl = camera.videoUrl
+  const liveControl = canPlay(camera)
     ? `<button class="grid-play" type="button" data-grid-play="${escapeHtml(camera.id)}" aria-label="Play live video for ${escapeHtml(camera.label)}"><span class="play-icon">▶</span><span class="play-label">Play live</span></button>`
     : '';
   const meta = observationMeta(camera);
-  return `<article class="camera-card" data-camera-id="${escapeHtml(camera.id)}"><div class="image-shell"><button class="camera-image-open" type="button" data-camera="${escapeHtml(camera.id)}" aria-label="View ${escapeHtml(camera.label)}"><img src="${imageUrl(camera)}" alt="${escapeHtml(camera.label)}" width="480" height="270" ${index ? 'loading="lazy"' : 'fetchpriority="high"'} decoding="async"></button>${liveControl}<span class="live-badge" hidden>LIVE</span></div><button class="camera-open" type="button" data-camera="${escapeHtml(camera.id)}" aria-label="View ${escapeHtml(camera.label)}"><div class="card-copy"><h2>${escapeHtml(camera.label)}</h2><span${meta.title?` title="${escapeHtml(meta.title)}"`:''}>${escapeHtml(meta.text)}</span></div></button></article>`;
+  return `<article class="camera-card" data-camera-id="${escapeHtml(camera.id)}"><div class="image-shell"><button class="camera-image-open" type="button" data-camera="${escapeHtml(camera.id)}" aria-label="View ${escapeHtml(camera.label)}"><img src="${escapeHtml(imageUrl(camera))}"${srcsetAttrs(camera,CARD_SIZES)} alt="${escapeHtml(camera.label)}" width="480" height="270" ${index ? 'loading="lazy"' : 'fetchpriority="high"'} decoding="async"></button>${liveControl}<span class="live-badge" hidden>LIVE</span></div><button class="camera-open" type="button" data-camera="${escapeHtml(camera.id)}" aria-label="View ${escapeHtml(camera.label)}"><div class="card-copy"><h2>${escapeHtml(camera.label)}</h2><span${meta.title?` title="${escapeHtml(meta.title)}"`:''}>${escapeHtml(meta.text)}</span></div></button></article>`;
 }
 function updateObservationBadges() {
   grid.querySelectorAll('.camera-card').forEach((cardEl) => {
@@ -197,16 +232,16 @@ function renderCollections() {
   }).join('');
   collectionsEl.innerHTML = chips + (activeCollections.length ? '<button class="chip" data-clear-collections>Clear all</button>' : '') + `<button class="chip live-grid-toggle ${liveGridEnabled?'active':''}" data-live-grid aria-pressed="${liveGridEnabled}" title="Autoplay up to ${MAX_AUTO_LIVE} visible live cameras, muted">${liveGridEnabled?'● Live Grid on':'▶ Live Grid'}</button>`;
 }
-function issueCount() { return [...health.values()].filter((h) => h.lastImageError || h.lastStreamError).length; }
+function issueCount() { return new Set([...[...health].filter(([,h]) => h.lastImageError || h.lastStreamError).map(([id]) => id), ...cameraIssues.keys()]).size; }
 function unusualCount() { return pulseByCamera.size; }
 function updateCounts() {
   visibleCount.textContent = `${filtered.length} visible / ${cameras.length} total`;
   const unusual = unusualCount();
-  statusLine.textContent = `${cameras.length} cameras · ${source === 'arcgis' ? 'ArcGIS' : 'SDOT Socrata'} source · ${cameras.filter(c=>c.videoUrl).length} live${unusual?` · ${unusual} visual changes`:''}`;
+  statusLine.textContent = `${cameras.length} cameras · ${sourceLabel()} source · ${cameras.filter(canPlay).length} live${unusual?` · ${unusual} visual changes`:''}${catalogAt?` · snapshot from ${new Date(catalogAt).toLocaleTimeString()}`:''}`;
   $('#diagnostics-toggle').textContent = `Diagnostics · ${issueCount()} issues`;
 }
 function renderDiagnostics() {
-  diagnostics.innerHTML = `<div><span>Total cameras</span><strong>${cameras.length}</strong></div><div><span>Live streams</span><strong>${cameras.filter(c=>c.videoUrl).length}</strong></div><div><span>Visual changes</span><strong>${unusualCount()}</strong></div><div><span>Pulse analyzed</span><strong>${baselineLearnedCount()}</strong></div><div><span>Signal issues</span><strong>${issueCount()}</strong></div><div><span>Last feed sync</span><strong>${new Date(lastSync).toLocaleTimeString()}</strong></div><button id="refresh-feed" class="chip accent">Refresh feed</button><button id="refresh-pulse" class="chip">Refresh Pulse</button>`;
+  diagnostics.innerHTML = `<div><span>Total cameras</span><strong>${cameras.length}</strong></div><div><span>Live streams</span><strong>${cameras.filter(canPlay).length}</strong></div><div><span>Visual changes</span><strong>${unusualCount()}</strong></div><div><span>Pulse analyzed</span><strong>${baselineLearnedCount()}</strong></div><div><span>Signal issues</span><strong>${issueCount()}</strong></div><div><span>Last feed sync</span><strong>${new Date(lastSync).toLocaleTimeString()}</strong></div><button id="refresh-feed" class="chip accent">Refresh feed</button><button id="refresh-pulse" class="chip">Refresh Pulse</button><a class="chip" href="/status">Service status</a>`;
   $('#refresh-feed')?.addEventListener('click', () => loadCameras(true));
   $('#refresh-pulse')?.addEventListener('click', () => loadPulse(true));
 }
@@ -216,6 +251,7 @@ function updateUrl() {
   if (activeCollections.length) params.set('collections',activeCollections.join(','));
   if (collectionMode === 'any') params.set('filterMode','any');
   if (focusedId) params.set('camera',focusedId);
+  if (focusedId && focusZoom.scale > 1) params.set('zoom',zoomParam());
   if (view === 'map') params.set('view','map');
   history.replaceState(null,'',`${location.pathname}${params.size ? `?${params}` : ''}`);
 }
@@ -225,22 +261,41 @@ function hydrateUrl() {
   activeCollections = (params.get('collections') || '').split(',').filter((id) => COLLECTIONS.some(([known])=>known===id));
   collectionMode = params.get('filterMode') === 'any' ? 'any' : 'all';
   focusedId = params.get('camera');
+  pendingZoom = parseZoom(params.get('zoom'));
   view = params.get('view') === 'map' ? 'map' : 'grid';
 }
 
+const REJECTION_LABELS = {inactive:'inactive',missing_image:'no image URL',invalid_image_url:'invalid image URL',image_host_not_allowed:'image host not allowed'};
+function renderSourceReport(headers) {
+  const report = $('#source-report'); if (!report) return;
+  let rejected = {}, fieldMap = null;
+  try { rejected = JSON.parse(headers.get('X-Camera-Rejections') || '{}'); fieldMap = JSON.parse(headers.get('X-Camera-Field-Map') || 'null'); } catch {}
+  const total = Object.values(rejected).reduce((sum,count)=>sum+Number(count||0),0);
+  const reasons = Object.entries(rejected).map(([reason,count])=>`${count} ${REJECTION_LABELS[reason]||reason}`).join(', ');
+  const mapping = fieldMap ? `Fields: ${Object.entries(fieldMap).filter(([,value])=>value).map(([role,value])=>`${role}=${value}`).join(' · ')}` : '';
+  const upstreamTotal = headers.get('X-Camera-Upstream-Total');
+  const capped = headers.get('X-Camera-Capped') === 'true' ? `Result capped${upstreamTotal ? ` — source has ${upstreamTotal} features` : ''}` : '';
+  report.textContent = [capped, total ? `${total} features skipped (${reasons})` : '', mapping].filter(Boolean).join(' — ');
+}
+
 async function loadCameras(force = false) {
   sourceError.textContent = '';
   const url = new URL('/api/cameras',location.origin);
   url.searchParams.set('source',source);
   if (source === 'arcgis' && featureService !== DEFAULT_ARCGIS) url.searchParams.set('arcgis',featureService);
+  if (source === 'arcgis') for (const [param,value] of Object.entries(fieldOverrides)) url.searchParams.set(param,value);
   if (force) url.searchParams.set('_',Date.now());
   try {
     const response = await fetch(url,{headers:{Accept:'application/json'}});
+    if (response.status === 400) throw new Error((await response.json().catch(()=>null))?.error || 'Source configuration rejected');
     if (!response.ok) throw new Error(`Feed returned ${response.status}`);
     const next = await response.json();
     if (!Array.isArray(next)) throw new Error('Unexpected camera payload');
+    renderSourceReport(response.headers);
     cameras = next;
-    lastSync = Date.now();
+    // Set when the feed was down and the worker answered from its last good copy or the catalog.
+    catalogAt = Date.parse(response.headers.get('X-Upstream-Stale') || '') || null;
+    lastSync = catalogAt || Date.now();
     refilter();
     if (!diagnostics.hidden) renderDiagnostics();
   } catch (error) {
@@ -297,7 +352,7 @@ function renderMapMarkers() {
   $('#map-count').textContent = `${mappable.length} active cameras`;
   for (const camera of mappable) {
     const el=document.createElement('button');
-    el.className=`camera-marker ${camera.videoUrl?'live':''} ${getHealth(camera).lastImageError?'issue':''} ${isUnusual(camera)?'changed':''}`;
+    el.className=`camera-marker ${canPlay(camera)?'live':''} ${getHealth(camera).lastImageError||cameraIssues.has(camera.id)?'issue':''} ${isUnusual(camera)?'changed':''}`;
     el.title=camera.label;
     el.setAttribute('aria-label',`View ${camera.label}`);
     el.addEventListener('click',(event)=>{event.stopPropagation();openFocus(camera.id);map.flyTo({center:[camera.lng,camera.lat],zoom:Math.max(map.getZoom(),13)});});
@@ -336,7 +391,7 @@ async function attachHls(video, camera, onFatal) {
   return instance;
 }
 async function setupVideo(camera) {
-  if (!camera.videoUrl) return;
+  if (!canPlay(camera)) return;
   const video = $('#focus-video'); if (!video) return;
   try { hls = await attachHls(video,camera,()=>noteHealth(camera,'stream-error')); }
   catch { noteHealth(camera,'stream-error'); }
@@ -377,7 +432,7 @@ async function startGridVideo(id, mode = 'manual') {
   if (gridPlayers.has(id)) return;
   const camera = cameraById(id);
   const cardEl = grid.querySelector(`.camera-card[data-camera-id="${CSS.escape(id)}"]`);
-  if (!camera?.videoUrl || !cardEl) return;
+  if (!canPlay(camera) || !cardEl) return;
   const shell = cardEl.querySelector('.image-shell');
   const img = shell?.querySelector('img');
   if (!shell || !img) return;
@@ -419,8 +474,8 @@ function syncLiveGrid() {
       const rect = cardEl.getBoundingClientRect();
       return rect.bottom >= -120 && rect.top <= innerHeight + 720 ? cameraById(cardEl.dataset.cameraId) : null;
     })
-    .filter((camera) => camera?.videoUrl);
-  const candidates = [...visibleCards].map(cameraById).filter((camera)=>camera?.videoUrl).concat(nearViewport);
+    .filter(canPlay);
+  const candidates = [...visibleCards].map(cameraById).filter(canPlay).concat(nearViewport);
   const autoCandidates = [...new Map(candidates.map((camera)=>[camera.id,camera])).values()].slice(0,MAX_AUTO_LIVE);
   const target = new Set(autoCandidates.map((camera)=>camera.id));
   for (const [id,player] of gridPlayers) if (player.mode === 'auto' && !target.has(id)) stopGridVideo(id);
@@ -451,6 +506,110 @@ function timeLabel(timestamp){
   return date.toLocaleTimeString([],{hour:'numeric',minute:'2-digit'});
 }
 function historyOverlay(){return $('#history-frame');}
+function clampZoom(zoom){
+  const scale=Math.min(MAX_ZOOM,Math.max(1,zoom.scale)),span=1/scale;
+  return {scale,x:Math.min(1-span,Math.max(0,zoom.x)),y:Math.min(1-span,Math.max(0,zoom.y))};
+}
+// The share URL carries the visible rectangle as x,y,width,height fractions of the frame.
+function zoomParam(){
+  const span=1/focusZoom.scale;
+  return [focusZoom.x,focusZoom.y,span,span].map((value)=>Number(value.toFixed(3))).join(',');
+}
+function parseZoom(value){
+  const parts=(value||'').split(',').map(Number);
+  if(parts.length!==4||parts.some((part)=>!Number.isFinite(part))||parts[2]<=0||parts[3]<=0)return null;
+  return clampZoom({x:parts[0],y:parts[1],scale:1/Math.max(parts[2],parts[3])});
+}
+// Stills zoom: the live snapshot, or a historical frame over the live video.
+function zoomable(){return !$('#compare-stage')&&(Boolean($('#focus-image'))||historyOverlay()?.hidden===false);}
+function applyZoom(){
+  const layer=$('#zoom-layer'),media=$('.focus-media');if(!layer||!media)return;
+  const {x,y,scale}=focusZoom;
+  layer.style.transform=scale>1?`scale(${scale}) translate(${(-x*100).toFixed(3)}%,${(-y*100).toFixed(3)}%)`:'';
+  media.classList.toggle('zoomable',zoomable());
+  media.classList.toggle('zoomed',zoomable()&&scale>1);
+  const controls=$('#zoom-controls');if(controls)controls.hidden=!zoomable();
+  const level=$('#zoom-level');if(level)level.textContent=`${scale.toFixed(1)}×`;
+}
+function setZoom(next){
+  focusZoom=clampZoom(next);applyZoom();
+  clearTimeout(zoomDetailTimer);
+  zoomDetailTimer=setTimeout(()=>{updateUrl();const camera=cameraById(focusedId);if(camera)loadZoomDetail(camera);},250);
+}
+function zoomAt(factor,px=.5,py=.5){
+  const {x,y,scale}=focusZoom,next=Math.min(MAX_ZOOM,Math.max(1,scale*factor));
+  setZoom({scale:next,x:x+px/scale-px/next,y:y+py/scale-py/next});
+}
+function resetZoom(){setZoom({x:0,y:0,scale:1});}
+function syncZoom(){if(focusZoom.scale>1&&!zoomable())resetZoom();else setZoom(focusZoom);}
+// Once a zoom settles, a sharper crop of the live snapshot is laid over the scaled frame.
+async function loadZoomDetail(camera){
+  const detail=$('#zoom-detail'),image=$('#focus-image'),media=$('.focus-media');
+  if(!detail||!media)return;
+  if(focusZoom.scale<=1||!image||historyOverlay()?.hidden===false){detail.hidden=true;return;}
+  // Crops snap outward to the 1% grid the worker signs.
+  const span=1/focusZoom.scale;
+  const left=Math.floor(focusZoom.x*100)/100,top=Math.floor(focusZoom.y*100)/100;
+  const crop=[left,top,Math.min(1,Math.ceil((focusZoom.x+span)*100)/100)-left,Math.min(1,Math.ceil((focusZoom.y+span)*100)/100)-top].map((value)=>Number(value.toFixed(2)));
+  if(crop[2]>=1&&crop[3]>=1){detail.hidden=true;return;}
+  const key=`${camera.id}|${crop}`;
+  if(detail.dataset.crop===key&&!detail.hidden)return;
+  try{
+    if(!zoomSets.has(key)){
+      const params=new URLSearchParams({path:camera.imagePath,crop:crop.join(',')});
+      if(camera.imageHost)params.set('host',camera.imageHost);
+      zoomSets.set(key,fetch(`/api/image/renditions?${params}`,{headers:{Accept:'application/json'}}).then((response)=>{if(!response.ok)throw new Error('renditions unavailable');return response.json();}));
+    }
+    const options=renditions({image:await zoomSets.get(key)});
+    const needed=media.clientWidth*crop[2]*focusZoom.scale*(window.devicePixelRatio||1);
+    const rendition=options.find((item)=>item.width>=needed)||options.at(-1);if(!rendition)return;
+    // Same refresh bucket as the frame underneath, so the crop shows the same moment.
+    const bucket=new URL(image.currentSrc||image.src,location.href).searchParams.get('v');
+    const preload=new Image();preload.src=`${rendition.url}${bucket?`&v=${bucket}`:''}`;await preload.decode();
+    if(focusedId!==camera.id||focusZoom.scale<=1||historyOverlay()?.hidden===false)return;
+    detail.src=preload.src;detail.dataset.crop=key;
+    Object.assign(detail.style,{left:`${crop[0]*100}%`,top:`${crop[1]*100}%`,width:`${crop[2]*100}%`,height:`${crop[3]*100}%`});
+    detail.hidden=false;
+  }catch{zoomSets.delete(key);}
+}
+function bindZoom(){
+  const media=$('.focus-media');if(!media)return;
+  const point=(event)=>{const rect=media.getBoundingClientRect();return [(event.clientX-rect.left)/rect.width,(event.clientY-rect.top)/rect.height];};
+  media.addEventListener('wheel',(event)=>{
+    if(!zoomable()||maskEditor)return;
+    event.preventDefault();
+    zoomAt(Math.exp(-event.deltaY*0.0015),...point(event));
+  },{passive:false});
+  media.addEventListener('pointerdown',(event)=>{
+    if(!zoomable()||maskEditor||event.target.closest('button,input,.compare-stage,.mask-editor'))return;
+    media.setPointerCapture(event.pointerId);
+    zoomPointers.set(event.pointerId,{x:event.clientX,y:event.clientY});
+    media.classList.add('panning');
+  });
+  media.addEventListener('pointermove',(event)=>{
+    const last=zoomPointers.get(event.pointerId);if(!last)return;
+    const rect=media.getBoundingClientRect();
+    if(zoomPointers.size===1){
+      const {x,y,scale}=focusZoom;
+      setZoom({scale,x:x-(event.clientX-last.x)/rect.width/scale,y:y-(event.clientY-last.y)/rect.height/scale});
+    }else{
+      const other=[...zoomPointers.entries()].find(([id])=>id!==event.pointerId)?.[1];
+      const before=other?Math.hypot(last.x-other.x,last.y-other.y):0;
+      if(before>0)zoomAt(Math.hypot(event.clientX-other.x,event.clientY-other.y)/before,((event.clientX+other.x)/2-rect.left)/rect.width,((event.clientY+other.y)/2-rect.top)/rect.height);
+    }
+    zoomPointers.set(event.pointerId,{x:event.clientX,y:event.clientY});
+  });
+  const release=(event)=>{zoomPointers.delete(event.pointerId);if(!zoomPointers.size)media.classList.remove('panning');};
+  media.addEventListener('pointerup',release);media.addEventListener('pointercancel',release);
+  media.addEventListener('dblclick',(event)=>{
+    if(!zoomable()||maskEditor||event.target.closest('button,input,.compare-stage,.mask-editor'))return;
+    if(focusZoom.scale>1)resetZoom();else zoomAt(2,...point(event));
+  });
+  $('#zoom-controls')?.addEventListener('click',(event)=>{
+    const button=event.target.closest('[data-zoom]');if(!button)return;
+    if(button.dataset.zoom==='in')zoomAt(1.5);else if(button.dataset.zoom==='out')zoomAt(1/1.5);else resetZoom();
+  });
+}
 function hideComparison(){
   $('#compare-stage')?.remove();
   $('#compare-scrubber')?.closest('.compare-control')?.remove();
@@ -459,7 +618,8 @@ function showCurrentFocus(camera){
   stopTimelapse();hideComparison();
   const overlay=historyOverlay();if(overlay)overlay.hidden=true;
   const label=$('#history-current-label');if(label)label.textContent='Now';
-  if(camera.videoUrl)setupVideo(camera);
+  if(canPlay(camera))setupVideo(camera);
+  syncZoom();
 }
 function showHistoryFrame(camera,index){
   if(!focusHistory||focusHistory.cameraId!==camera.id||!focusHistory.frames.length)return;
@@ -470,6 +630,7 @@ function showHistoryFrame(camera,index){
   overlay.src=frame.imageUrl;overlay.hidden=false;
   const scrub=$('#history-scrubber');if(scrub)scrub.value=String(focusHistory.index);
   const label=$('#history-current-label');if(label)label.textContent=timeLabel(frame.capturedAt);
+  syncZoom();
 }
 function showComparison(camera){
   if(!focusHistory?.frames?.length)return;
@@ -485,6 +646,7 @@ function showComparison(camera){
   const stage=$('#compare-stage');
   const apply=()=>stage?.style.setProperty('--split',`${Number(slider.value)}%`);
   slider?.addEventListener('input',apply);apply();
+  syncZoom();
 }
 function startTimelapse(camera){
   if(!focusHistory?.frames?.length)return;
@@ -493,7 +655,12 @@ function startTimelapse(camera){
   let index=0;
   const button=$('#history-timelapse');if(button)button.textContent='Stop timelapse';
   const advance=()=>{const overlay=historyOverlay();const frame=focusHistory.frames[index];if(!overlay||!frame){stopTimelapse();return;}overlay.src=frame.imageUrl;overlay.hidden=false;focusHistory.index=index;const scrub=$('#history-scrubber');if(scrub)scrub.value=String(index);const label=$('#history-current-label');if(label)label.textContent=timeLabel(frame.capturedAt);index+=1;if(index>=focusHistory.frames.length)stopTimelapse();};
-  advance();timelapseTimer=setInterval(advance,260);
+  advance();syncZoom();timelapseTimer=setInterval(advance,260);
+}
+function timelapseUrl(camera,frames){
+  const url=new URL('/api/history/timelapse',location.origin);
+  url.searchParams.set('camera',camera.id);url.searchParams.set('from',frames[0].capturedAt);url.searchParams.set('to',frames.at(-1).capturedAt+1);url.searchParams.set('stamp','1');
+  return url.pathname+url.search;
 }
 async function loadTimeMachine(camera){
   focusHistory={cameraId:camera.id,frames:[],index:0};
@@ -504,9 +671,9 @@ async function loadTimeMachine(camera){
     const data=await response.json();const frames=Array.isArray(data.frames)?data.frames:[];
     if(focusedId!==camera.id)return;
     focusHistory={cameraId:camera.id,frames,index:Math.max(0,frames.length-1)};
-    if(!frames.length){section.innerHTML='<div class="time-machine-empty"><strong>Traffic Time Machine</strong><span>History is warming up. New frames arrive about every five minutes.</span></div>';return;}
+    if(!frames.length){section.innerHTML='<div class="time-machine-empty"><strong>Traffic Time Machine</strong><span>History is warming up. New frames arrive every few minutes, and more often while the view is changing.</span></div>';return;}
     const first=timeLabel(frames[0].capturedAt),last=timeLabel(frames.at(-1).capturedAt);
-    section.innerHTML=`<div class="time-machine-head"><div><p class="eyebrow">Traffic Time Machine</p><strong id="history-current-label">Now</strong></div><span>${frames.length} captures · ${first}–${last}</span></div><input id="history-scrubber" class="history-scrubber" type="range" min="0" max="${frames.length-1}" value="${frames.length-1}" aria-label="Historical camera time"><div class="time-machine-actions"><button id="history-now" class="chip accent">Now</button><button id="history-compare" class="chip">Before / After</button><button id="history-timelapse" class="chip">Timelapse</button></div>`;
+    section.innerHTML=`<div class="time-machine-head"><div><p class="eyebrow">Traffic Time Machine</p><strong id="history-current-label">Now</strong></div><span>${frames.length} captures · ${first}–${last}</span></div><input id="history-scrubber" class="history-scrubber" type="range" min="0" max="${frames.length-1}" value="${frames.length-1}" aria-label="Historical camera time"><div class="time-machine-actions"><button id="history-now" class="chip accent">Now</button><button id="history-compare" class="chip">Before / After</button><button id="history-timelapse" class="chip">Timelapse</button><a id="history-export" class="chip" href="${timelapseUrl(camera,frames)}" target="_blank" rel="noopener">Share timelapse</a></div>`;
     $('#history-scrubber')?.addEventListener('input',(event)=>showHistoryFrame(camera,Number(event.target.value)));
     $('#history-now')?.addEventListener('click',()=>showCurrentFocus(camera));
     $('#history-compare')?.addEventListener('click',()=>showComparison(camera));
@@ -517,6 +684,119 @@ async function loadTimeMachine(camera){
 }
 
 function pulseCamera(item) { return cameraById(item.cameraId); }
+function regionOverlay(observation){
+  const regions=(observation?.metrics?.regions||[]).filter((region)=>Number.isFinite(region.x)&&Number.isFinite(region.y));
+  if(!regions.length)return '';
+  const pct=(value)=>`${(value*100).toFixed(2)}%`;
+  return `<div class="region-overlay" aria-hidden="true">${regions.map((region)=>`<span class="changed-region" style="left:${pct(region.x)};top:${pct(region.y)};width:${pct(region.width)};height:${pct(region.height)}" title="${Math.round(region.pixelDifference*100)}% different"></span>`).join('')}</div>`;
+}
+async function openMaskEditor(camera){
+  let mask={include:[],exclude:[]};
+  try{const response=await fetch(`/api/masks/${encodeURIComponent(camera.id)}`);if(response.ok){const data=await response.json();mask={include:data.include||[],exclude:data.exclude||[]};}}catch{}
+  if(focusedId!==camera.id)return;
+  maskEditor={camera,mask,mode:'exclude',draft:[],status:'Click to add points, then close the shape.'};
+  // Mask points are fractions of the whole frame.
+  resetZoom();
+  renderMaskEditor();
+}
+function closeMaskEditor(){maskEditor=null;modalBody.querySelector('.mask-editor')?.remove();}
+function renderMaskEditor(){
+  const media=modalBody.querySelector('.focus-media');if(!media||!maskEditor)return;
+  media.querySelector('.mask-editor')?.remove();
+  const {mask,mode,draft,status}=maskEditor;
+  const points=(list)=>list.map(([x,y])=>`${(x*100).toFixed(2)},${(y*100).toFixed(2)}`).join(' ');
+  const shapes=[...mask.include.map((polygon)=>`<polygon class="mask-include" points="${points(polygon)}"/>`),...mask.exclude.map((polygon)=>`<polygon class="mask-exclude" points="${points(polygon)}"/>`)].join('');
+  const draftShape=draft.length?`<polyline class="mask-draft mask-${mode}" points="${points(draft)}"/>${draft.map(([x,y])=>`<circle class="mask-point" cx="${(x*100).toFixed(2)}" cy="${(y*100).toFixed(2)}" r=".7"/>`).join('')}`:'';
+  media.insertAdjacentHTML('beforeend',`<div class="mask-editor"><svg class="mask-canvas" viewBox="0 0 100 100" preserveAspectRatio="none" role="img" aria-label="Mask for ${escapeHtml(maskEditor.camera.label)}">${shapes}${draftShape}</svg><div class="mask-toolbar"><button class="chip${mode==='exclude'?' active':''}" data-mask-mode="exclude">Ignore area</button><button class="chip${mode==='include'?' active':''}" data-mask-mode="include">Region of interest</button><button class="chip" data-mask-action="close"${draft.length<3?' disabled':''}>Close shape</button><button class="chip" data-mask-action="undo">Undo</button><button class="chip" data-mask-action="clear">Clear</button><button class="chip accent" data-mask-action="save">Save mask</button><button class="chip" data-mask-action="cancel">Done</button><span class="mask-status" aria-live="polite">${escapeHtml(status)}</span></div></div>`);
+  const editor=media.querySelector('.mask-editor');
+  editor.querySelector('.mask-canvas').addEventListener('click',(event)=>{
+    const rect=event.currentTarget.getBoundingClientRect();
+    const clamp=(value)=>Math.min(1,Math.max(0,Number(value.toFixed(4))));
+    maskEditor.draft.push([clamp((event.clientX-rect.left)/rect.width),clamp((event.clientY-rect.top)/rect.height)]);
+    renderMaskEditor();
+  });
+  editor.querySelector('.mask-toolbar').addEventListener('click',(event)=>{const button=event.target.closest('button');if(button)maskAction(button.dataset.maskMode,button.dataset.maskAction);});
+}
+async function maskAction(mode,action){
+  if(!maskEditor)return;
+  if(mode){maskEditor.mode=mode;maskEditor.draft=[];}
+  else if(action==='close'&&maskEditor.draft.length>=3){maskEditor.mask[maskEditor.mode].push(maskEditor.draft);maskEditor.draft=[];}
+  else if(action==='undo'){if(maskEditor.draft.length)maskEditor.draft.pop();else maskEditor.mask[maskEditor.mode].pop();}
+  else if(action==='clear'){maskEditor.mask={include:[],exclude:[]};maskEditor.draft=[];}
+  else if(action==='cancel'){closeMaskEditor();return;}
+  else if(action==='save'){await saveMask();}
+  renderMaskEditor();
+}
+async function saveMask(){
+  const token=sessionStorage.getItem('curatorToken')||prompt('Curator token');
+  if(!token||!maskEditor)return;
+  const {camera,mask}=maskEditor;
+  try{
+    const cleared=!mask.include.length&&!mask.exclude.length;
+    const response=await fetch(`/api/masks/${encodeURIComponent(camera.id)}`,{method:cleared?'DELETE':'PUT',headers:{Authorization:`Bearer ${token}`,'Content-Type':'application/json'},body:cleared?undefined:JSON.stringify(mask)});
+    if(response.status===401){sessionStorage.removeItem('curatorToken');maskEditor.status='Token was not accepted.';return;}
+    if(!response.ok){const data=await response.json().catch(()=>({}));maskEditor.status=data.error||`Save failed (${response.status})`;return;}
+    sessionStorage.setItem('curatorToken',token);
+    maskEditor.status=cleared?'Mask removed.':'Mask saved. Pulse uses it from the next refresh.';
+  }catch(error){maskEditor.status=error.message||'Save failed';}
+}
+async function loadClips(camera){
+  const section=$('#focus-clips');if(!section)return;
+  try{
+    const response=await fetch(`/api/clips?camera=${encodeURIComponent(camera.id)}&limit=6`,{headers:{Accept:'application/json'}});
+    if(!response.ok)return;
+    const data=await response.json();const clips=(Array.isArray(data.clips)?data.clips:[]).filter((clip)=>clip.playlistUrl);
+    if(focusedId!==camera.id||!clips.length)return;
+    section.hidden=false;
+    section.innerHTML=`<p class="eyebrow">Recorded clips</p><div class="time-machine-actions">${canPlay(camera)?'<button class="chip accent" data-clip-live>Live</button>':''}${clips.map((clip)=>`<button class="chip" data-clip="${escapeHtml(clip.playlistUrl)}">${clip.trigger==='pulse'?'Pulse':'Clip'} · ${timeLabel(clip.requestedAt)} · ${Math.round(clip.duration||0)}s</button>`).join('')}</div>`;
+  }catch{}
+}
+async function playClip(camera,url){
+  const current=$('#focus-video')||$('#focus-image');if(!current)return;
+  destroyVideo();
+  const video=document.createElement('video');
+  video.id='focus-video';video.controls=true;video.playsInline=true;video.poster=imageUrl(camera,960,true);
+  // The video sits under the zoom layer rather than in it, so its controls stay usable.
+  if(current.id==='focus-image'){current.remove();$('.focus-media').prepend(video);}else current.replaceWith(video);
+  syncZoom();
+  modalBody.querySelectorAll('[data-clip],[data-clip-live]').forEach((button)=>button.classList.toggle('accent',url?button.dataset.clip===url:button.hasAttribute('data-clip-live')));
+  if(!url){setupVideo(camera);return;}
+  try{hls=await attachHls(video,{videoUrl:url});video.play().catch(()=>{});}catch{}
+}
+async function recordClip(camera){
+  const token=sessionStorage.getItem('curatorToken')||prompt('Curator token');
+  const button=$('#record-clip');
+  if(!token||!button)return;
+  button.disabled=true;button.textContent='Starting…';
+  try{
+    const response=await fetch(`/api/clips?camera=${encodeURIComponent(camera.id)}`,{method:'POST',headers:{Authorization:`Bearer ${token}`}});
+    if(response.status===401){sessionStorage.removeItem('curatorToken');throw new Error('Token was not accepted');}
+    const data=await response.json().catch(()=>({}));
+    if(!response.ok)throw new Error(data.error||`Recording failed (${response.status})`);
+    sessionStorage.setItem('curatorToken',token);
+    button.textContent=`Recording ${data.seconds}s…`;
+    watchClip(camera,data.clip.id);
+  }catch(error){button.disabled=false;button.textContent=error.message||'Recording failed';}
+}
+function watchClip(camera,id){
+  clearTimeout(clipTimer);
+  clipTimer=setTimeout(async()=>{
+    if(focusedId!==camera.id)return;
+    try{
+      const response=await fetch(`/api/clips/${encodeURIComponent(id)}`,{headers:{Accept:'application/json'}});
+      const clip=(await response.json()).clip;
+      if(clip?.status==='recording'){watchClip(camera,id);return;}
+      const button=$('#record-clip');
+      if(button){button.disabled=false;button.textContent=clip?.status==='ready'?'Record clip':'Clip failed · Retry';}
+      if(clip?.status==='ready')loadClips(camera);
+    }catch{watchClip(camera,id);}
+  },CLIP_POLL_MS);
+}
+function evidenceUrl(cameraIds,from,to){
+  const url=new URL('/api/evidence/export',location.origin);
+  url.searchParams.set('cameras',cameraIds.join(','));url.searchParams.set('from',Math.floor(from));url.searchParams.set('to',Math.ceil(to)+1);
+  return url.pathname+url.search;
+}
 function pulseTime(value) {
   const minutes=Math.max(0,Math.round((Date.now()-value)/60000));
   return minutes<1?'just now':minutes===1?'1 min ago':`${minutes} min ago`;
@@ -531,7 +811,7 @@ function renderPulse() {
     return;
   }
   const items=(pulse.items||[]).filter((item)=>pulseCamera(item)).slice(0,6);
-  const events=(pulse.events||[]).slice(0,4).map((event)=>`<div class="phase2-event" data-severity="${escapeHtml(event.severity)}"><strong>${escapeHtml(event.title)}</strong><span>${escapeHtml(event.detail)} · ${escapeHtml(event.confidence)} confidence</span></div>`).join('');
+  const events=(pulse.events||[]).slice(0,4).map((event)=>`<div class="phase2-event" data-severity="${escapeHtml(event.severity)}"><strong>${escapeHtml(event.title)}</strong><span>${escapeHtml(event.detail)} · ${escapeHtml(event.confidence)} confidence</span><a class="evidence-export" href="${evidenceUrl(event.cameraIds,event.firstObservedAt-pulse.windowMinutes*60000,event.lastObservedAt)}" download>Export evidence</a></div>`).join('');
   const cards=items.map((item,index)=>{
     const camera=pulseCamera(item);
     const headline=item.display?.headline||item.reason||'Visual change';
@@ -570,21 +850,80 @@ async function loadPulse(force=false) {
     $('#pulse-retry')?.addEventListener('click',()=>loadPulse(true));
   }
 }
+async function loadCameraIssues() {
+  if (document.hidden) return;
+  try {
+    const response=await fetch('/api/health/cameras',{headers:{Accept:'application/json'}});
+    if(!response.ok)return;
+    const next=await response.json();
+    if(!Array.isArray(next.cameras))return;
+    cameraIssues=new Map(next.cameras.map((report)=>[report.cameraId,report]));
+    if (activeCollections.includes('issues')) refilter();
+    else { renderCollections(); updateCounts(); if (view === 'map') renderMapMarkers(); }
+    if (!diagnostics.hidden) renderDiagnostics();
+  } catch {}
+}
+async function loadHealthLedger() {
+  if (document.hidden) return;
+  try {
+    const response=await fetch('/api/health',{headers:{Accept:'application/json'}});
+    if(!response.ok)return;
+    const next=await response.json();
+    if(!Array.isArray(next.cameras))return;
+    for (const entry of next.cameras) {
+      const camera=cameraById(entry.cameraId); if (!camera) continue;
+      const current=getHealth(camera);const image=entry.image||{};const stream=entry.stream||{};
+      // The ledger spans every visitor and the cron; keep whichever of it and this tab saw something last.
+      const lastImageRefresh=Math.max(current.lastImageRefresh||0,image.lastOkAt||0)||undefined;
+      const lastImageError=Math.max(current.lastImageError||0,image.lastErrorAt||0);
+      const streamError=(stream.lastErrorAt||0)>(stream.lastOkAt||0)?stream.lastErrorAt:0;
+      const lastStreamError=Math.max(current.lastStreamError||0,streamError)||undefined;
+      health.set(camera.id,{...current,lastImageRefresh,lastImageError:lastImageError>(lastImageRefresh||0)?lastImageError:undefined,lastStreamError,imageUptime:image.uptime,streamUptime:stream.uptime});
+    }
+    scheduleHealthRender();
+  } catch {}
+}
+const STREAM_STATUS_COPY = {stalled:'stalled',offline:'offline',unverified:'not verified yet'};
+function streamCopy(camera) {
+  return camera.videoUrl && !canPlay(camera) ? `<p class="sub camera-issue" data-issue="stream">Live stream ${escapeHtml(STREAM_STATUS_COPY[camera.streamStatus]||camera.streamStatus)} · showing snapshots</p>` : '';
+}
+function uptimeCopy(h) {
+  const parts=[['Image',h.imageUptime],['Stream',h.streamUptime]].filter(([,uptime])=>uptime&&uptime['24h']!=null).map(([label,uptime])=>`${label} uptime ${uptime['24h']}% (24h)${uptime['7d']!=null?` · ${uptime['7d']}% (7d)`:''}`);
+  return parts.length?`<p class="sub camera-uptime">${escapeHtml(parts.join(' · '))}</p>`:'';
+}
 
 function openFocus(id) {
   const camera=cameraById(id); if (!camera) return;
-  destroyVideo(); focusedId=id; updateUrl();
+  id=camera.id;
+  destroyVideo(); maskEditor=null; focusedId=id;
+  focusZoom=pendingZoom||{x:0,y:0,scale:1}; pendingZoom=null; zoomSets.clear(); zoomPointers.clear();
+  updateUrl();
   const set=filtered.length?filtered:cameras;const index=set.findIndex((candidate)=>candidate.id===id);const prev=set[(index-1+set.length)%set.length];const next=set[(index+1)%set.length];
   const nearby=nearest(camera).map((candidate)=>`<button class="nearby-camera" data-focus="${escapeHtml(candidate.id)}">${escapeHtml(candidate.label)}</button>`).join('');
   const observation=pulseObservation(camera);
-  const observationCopy=observation?`<p class="sub">Visual change ${observation.score}/100 · ${escapeHtml(observation.display?.headline||observation.reason||'Observed change')} · ${escapeHtml(confidenceLabel(observation.confidence)||'qualified observation')}</p>`:'';
-  modalBody.innerHTML=`<div class="focus-head"><p class="eyebrow">Camera focus</p><h2>${escapeHtml(camera.label)}</h2>${observationCopy}</div><div class="focus-media">${camera.videoUrl?`<video id="focus-video" controls playsinline poster="${imageUrl(camera,960,true)}"></video>`:`<img src="${imageUrl(camera,960,true)}" alt="${escapeHtml(camera.label)}" width="960" height="540">`}<img id="history-frame" class="history-frame" hidden alt="Historical frame for ${escapeHtml(camera.label)}"></div><section id="time-machine" class="time-machine" aria-live="polite"><div class="time-machine-empty"><strong>Traffic Time Machine</strong><span>Loading recent history…</span></div></section><div class="focus-actions"><button class="chip" data-focus="${escapeHtml(prev?.id||id)}">← Previous</button><button id="refresh-focus" class="chip">Refresh snapshot</button><button class="chip" data-focus="${escapeHtml(next?.id||id)}">Next →</button>${camera.webUrl?`<a class="chip" href="${escapeHtml(camera.webUrl)}" target="_blank" rel="noopener noreferrer">SDOT page</a>`:''}</div>${nearby?`<div class="nearby"><p>Nearby cameras</p>${nearby}</div>`:''}`;
+  const evidence=(pulse?.items||[]).find((item)=>item.cameraId===camera.id)?.evidence;
+  const issue=cameraIssues.get(camera.id);
+  const issueCopy=issue?`<p class="sub camera-issue" data-issue="${escapeHtml(issue.issue)}">Feed ${escapeHtml(issue.issue)} · ${escapeHtml(issue.detail)} · started ${pulseTime(issue.since)}</p>`:'';
+  const observationCopy=observation?`<p class="sub">Visual change ${observation.score}/100 · ${escapeHtml(observation.display?.headline||observation.reason||'Observed change')} · ${escapeHtml(confidenceLabel(observation.confidence)||'qualified observation')} · <a class="evidence-export" href="${evidenceUrl([camera.id],evidence?.beforeCapturedAt??observation.capturedAt-pulse.windowMinutes*60000,evidence?.lastObservedAt??observation.capturedAt)}" download>Export evidence</a></p>`:'';
+  modalBody.innerHTML=`<div class="focus-head"><p class="eyebrow">Camera focus</p><h2>${escapeHtml(camera.label)}</h2>${issueCopy}${streamCopy(camera)}${uptimeCopy(getHealth(camera))}${observationCopy}</div><div class="focus-media">${canPlay(camera)?`<video id="focus-video" controls playsinline poster="${imageUrl(camera,960,true)}"></video>`:''}<div id="zoom-layer" class="zoom-layer">${canPlay(camera)?'':`<img id="focus-image" src="${escapeHtml(imageUrl(camera,960,true))}"${srcsetAttrs(camera,FOCUS_SIZES,true)} alt="${escapeHtml(camera.label)}" width="960" height="540">`}<img id="zoom-detail" class="zoom-detail" hidden alt="">${regionOverlay(observation)}<img id="history-frame" class="history-frame" hidden alt="Historical frame for ${escapeHtml(camera.label)}"></div><div id="zoom-controls" class="zoom-controls" hidden><button class="chip" data-zoom="out" aria-label="Zoom out">−</button><span id="zoom-level" aria-live="polite">1.0×</span><button class="chip" data-zoom="in" aria-label="Zoom in">+</button><button class="chip" data-zoom="reset">Reset</button></div></div><section id="time-machine" class="time-machine" aria-live="polite"><div class="time-machine-empty"><strong>Traffic Time Machine</strong><span>Loading recent history…</span></div></section><section id="focus-clips" class="time-machine" hidden></section><div class="focus-actions"><button class="chip" data-focus="${escapeHtml(prev?.id||id)}">← Previous</button><button id="refresh-focus" class="chip">Refresh snapshot</button><button class="chip" data-focus="${escapeHtml(next?.id||id)}">Next →</button>${CURATOR?'<button id="edit-mask" class="chip">Edit mask</button>':''}${CURATOR&&canPlay(camera)?'<button id="record-clip" class="chip">Record clip</button>':''}${camera.webUrl?`<a class="chip" href="${escapeHtml(camera.webUrl)}" target="_blank" rel="noopener noreferrer">SDOT page</a>`:''}</div>${nearby?`<div class="nearby"><p>Nearby cameras</p>${nearby}</div>`:''}`;
   if (!modal.open) modal.showModal();
-  $('#refresh-focus')?.addEventListener('click',()=>{const media=$('#focus-video')||modalBody.querySelector('img');if(media){if(media.tagName==='IMG')media.src=imageUrl(camera,960,true);else media.poster=imageUrl(camera,960,true);}});
-  if (camera.videoUrl) setupVideo(camera);
+  $('#refresh-focus')?.addEventListener('click',()=>{
+    const media=$('#focus-video')||$('#focus-image');if(!media)return;
+    if(media.tagName!=='IMG'){media.poster=imageUrl(camera,960,true);return;}
+    const detail=$('#zoom-detail');if(detail){detail.hidden=true;detail.dataset.crop='';}
+    media.addEventListener('load',()=>loadZoomDetail(camera),{once:true});
+    media.src=imageUrl(camera,960,true);if(media.srcset)media.srcset=imageSrcset(camera,true);
+  });
+  $('#edit-mask')?.addEventListener('click',()=>openMaskEditor(camera));
+  $('#record-clip')?.addEventListener('click',()=>recordClip(camera));
+  $('#focus-clips')?.addEventListener('click',(event)=>{const button=event.target.closest('[data-clip],[data-clip-live]');if(button)playClip(camera,button.dataset.clip||null);});
+  bindZoom();
+  if (canPlay(camera)) setupVideo(camera);
+  syncZoom();
   loadTimeMachine(camera);
+  loadClips(camera);
 }
-function closeFocus() { stopTimelapse();focusHistory=null;destroyVideo();focusedId=null;updateUrl();modal.close(); }
+function closeFocus() { stopTimelapse();clearTimeout(clipTimer);focusHistory=null;destroyVideo();focusedId=null;updateUrl();modal.close(); }
 
 grid.addEventListener('click',(event)=>{
   const play=event.target.closest('[data-grid-play]');
@@ -616,10 +955,13 @@ $('#map-view').addEventListener('click',()=>setView('map'));
 document.querySelectorAll('[data-mobile-view]').forEach((button)=>button.addEventListener('click',()=>setView(button.dataset.mobileView)));
 $('#settings-toggle').addEventListener('click',()=>{settings.hidden=!settings.hidden;$('#settings-toggle').setAttribute('aria-expanded',String(!settings.hidden));});
 $('#mobile-settings').addEventListener('click',()=>{settings.hidden=false;$('#settings-toggle').setAttribute('aria-expanded','true');scrollTo({top:0,behavior:matchMedia('(prefers-reduced-motion:reduce)').matches?'auto':'smooth'});});
-$('#source-arcgis').addEventListener('click',()=>{source='arcgis';$('#source-arcgis').classList.add('active');$('#source-sdot').classList.remove('active');});
-$('#source-sdot').addEventListener('click',()=>{source='sdot';$('#source-sdot').classList.add('active');$('#source-arcgis').classList.remove('active');});
-$('#restore-source').addEventListener('click',()=>{$('#arcgis-url').value=DEFAULT_ARCGIS;featureService=DEFAULT_ARCGIS;sourceError.textContent='';});
-$('#apply-source').addEventListener('click',async()=>{featureService=$('#arcgis-url').value.trim()||DEFAULT_ARCGIS;await loadCameras(true);if(!sourceError.textContent){settings.hidden=true;$('#settings-toggle').setAttribute('aria-expanded','false');}});
+settings.addEventListener('click',(event)=>{
+  const button=event.target.closest('[data-source]');if(!button)return;
+  source=button.dataset.source;
+  settings.querySelectorAll('[data-source]').forEach((item)=>item.classList.toggle('active',item===button));
+});
+$('#restore-source').addEventListener('click',()=>{$('#arcgis-url').value=DEFAULT_ARCGIS;featureService=DEFAULT_ARCGIS;settings.querySelectorAll('[data-field-param]').forEach((input)=>{input.value='';});fieldOverrides={};sourceError.textContent='';});
+$('#apply-source').addEventListener('click',async()=>{featureService=$('#arcgis-url').value.trim()||DEFAULT_ARCGIS;fieldOverrides=Object.fromEntries([...settings.querySelectorAll('[data-field-param]')].map((input)=>[input.dataset.fieldParam,input.value.trim()]).filter(([,value])=>value));await loadCameras(true);if(!sourceError.textContent){settings.hidden=true;$('#settings-toggle').setAttribute('aria-expanded','false');}});
 $('#diagnostics-toggle').addEventListener('click',()=>{diagnostics.hidden=!diagnostics.hidden;if(!diagnostics.hidden)renderDiagnostics();});
 new IntersectionObserver(([entry])=>{if(entry.isIntersecting&&view==='grid'&&visible<filtered.length){visible+=6;renderGrid();if(liveGridEnabled)queueMicrotask(syncLiveGrid);}}, {rootMargin:'300px 0px'}).observe(sentinel);
 
@@ -628,14 +970,18 @@ document.addEventListener('visibilitychange',()=>{
   else {
     if (liveGridEnabled && view === 'grid') syncLiveGrid();
     loadPulse(true);
+    loadCameraIssues();
+    loadHealthLedger();
   }
 });
 setInterval(()=>{
   if (document.hidden) return;
-  document.querySelectorAll('.camera-card img:not([hidden])').forEach((img)=>{const cardEl=img.closest('.camera-card');const camera=cameraById(cardEl?.dataset.cameraId);if(camera)img.src=imageUrl(camera,480,true);});
+  document.querySelectorAll('.camera-card img:not([hidden])').forEach((img)=>{const cardEl=img.closest('.camera-card');const camera=cameraById(cardEl?.dataset.cameraId);if(camera){img.src=imageUrl(camera,480,true);if(img.srcset)img.srcset=imageSrcset(camera,true);}});
 },30000);
 setInterval(()=>loadCameras(false),5*60*1000);
+if (catalogAt) loadCameras(true);
 setInterval(()=>loadPulse(false),PULSE_REFRESH_MS);
+setInterval(loadCameraIssues,PULSE_REFRESH_MS);
 setInterval(()=>{
   if (activeCollections.includes('recent') || activeCollections.includes('issues')) refilter();
   else { renderCollections(); updateCounts(); }
@@ -647,4 +993,6 @@ $('#match-all').classList.toggle('active',collectionMode==='all');
 $('#match-any').classList.toggle('active',collectionMode==='any');
 refilter();setView(view);renderDiagnostics();renderPulse();
 queueMicrotask(()=>loadPulse(false));
+queueMicrotask(loadCameraIssues);
+queueMicrotask(loadHealthLedger);
 if (focusedId) queueMicrotask(()=>openFocus(focusedId));
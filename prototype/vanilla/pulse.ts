@@ -1,3 +1,11 @@
+import { seasonalBaselines, type SeasonalBaseline } from './baselines';
+import {
+  decodeFeatures, hashDistance, regionBounds, regionDifferences, REGION_COLUMNS, REGION_ROWS, THUMBNAIL_HEIGHT, THUMBNAIL_WIDTH, type RegionBounds,
+} from './fingerprint';
+import { maskWeights } from './masks';
+import { observeMetric } from './metrics';
+import { issueCameraIds } from './tamper';
+
 export type PulseD1Statement = {
   bind: (...values: unknown[]) => PulseD1Statement;
   all: <T>() => Promise<{ results?: T[] }>;
@@ -19,22 +27,33 @@ type SnapshotRow = {
   visual_fingerprint: string | null;
   mean_luma: number | null;
   visual_contrast: number | null;
+  visual_features: string | null;
   latitude: number | null;
   longitude: number | null;
 };
 
-type ConfidenceBand = 'low' | 'moderate' | 'high';
-type Severity = 'low' | 'moderate' | 'high';
-type ObservationState = 'insufficient_data' | 'baseline' | 'changing' | 'persistent' | 'recovering';
+export type ConfidenceBand = 'low' | 'moderate' | 'high';
+export type Severity = 'low' | 'moderate' | 'high';
+export type ObservationState = 'insufficient_data' | 'baseline' | 'changing' | 'persistent' | 'recovering';
 type ChangeType = 'scene_shift' | 'brightness_shift' | 'visibility_shift' | 'high_visual_activity' | 'persistent_change' | 'stable';
 
+/** A region of the frame that differs from the baseline; `edgeDelta` needs version 2 fingerprints on both sides. */
+type RegionChange = RegionBounds & { pixelDifference: number; lumaDelta: number; edgeDelta: number | null };
+
 type FrameMetrics = {
   pixelDifference: number;
   brightnessDelta: number;
   contrastDelta: number;
+  hashDistance: number | null;
+  regions: RegionChange[];
 };
 
-type Observation = {
+type Reference = { pixels: number[]; mean: number; contrast: number; edges?: number[] | null; phash?: string | null };
+// Per-cell weights from the camera's mask (see masks.ts); absent when the whole frame counts.
+type Weights = number[] | undefined;
+type Tolerance = SeasonalBaseline['tolerance'];
+
+export type Observation = {
   cameraId: string;
   label: string;
   observedAt: number;
@@ -46,6 +65,7 @@ type Observation = {
   confidenceScore: number;
   state: ObservationState;
   baselineWindowMinutes: number;
+  baselineSource: 'window' | 'seasonal';
   sampleCount: number;
   persistenceSamples: number;
   transitions: number;
@@ -68,7 +88,10 @@ type Observation = {
   display: { headline: string; detail: string };
 };
 
-type CorrelatedEvent = {
+/** `id` is set once an observation has been matched to its persisted episode; see timeline.ts. */
+export type PulseSnapshot = { items: (Observation & { id?: string })[]; events: CorrelatedEvent[] };
+
+export type CorrelatedEvent = {
   id: string;
   title: string;
   cameraIds: string[];
@@ -132,7 +155,7 @@ function median(values: number[]): number {
   return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
 }
 
-function baselineFingerprint(rows: SnapshotRow[]): { pixels: number[]; mean: number; contrast: number; row: SnapshotRow } | null {
+function baselineFingerprint(rows: SnapshotRow[]): Reference & { row: SnapshotRow } | null {
   const usable = rows.map((row) => ({ row, pixels: decodeFingerprint(row.visual_fingerprint) })).filter((item): item is { row: SnapshotRow; pixels: number[] } => Boolean(item.pixels));
   if (usable.length < 3) return null;
   const length = usable[0].pixels.length;
@@ -144,29 +167,87 @@ function baselineFingerprint(rows: SnapshotRow[]): { pixels: number[]; mean: num
     const distance = item.pixels.reduce((sum, value, index) => sum + Math.abs(value - pixels[index]), 0);
     return !best || distance < best.distance ? { row: item.row, distance } : best;
   }, null as { row: SnapshotRow; distance: number } | null);
+  const row = representative?.row ?? usable[0].row;
+  const features = usable.map((item) => decodeFeatures(item.row.visual_features)).filter((item) => item !== null);
+  const edges = features.length >= 3 ? features[0].regions.map((_, index) => median(features.map((item) => item.regions[index].edges))) : null;
   return {
     pixels,
     mean,
     contrast,
-    row: representative?.row ?? usable[0].row,
+    edges,
+    phash: decodeFeatures(row.visual_features)?.phash ?? null,
+    row,
   };
 }
 
-function compareFrame(row: SnapshotRow, baseline: { pixels: number[]; mean: number; contrast: number }): FrameMetrics | null {
+const WINDOW_TOLERANCE: Tolerance = { pixel: 0.08, brightness: 0.1, contrast: 0.15 };
+// Mean gradient shift within one region, e.g. lane markings disappearing under stopped vehicles.
+const REGION_EDGE_TOLERANCE = 0.04;
+// A region this many times past the pixel tolerance counts even when the whole-frame difference is small.
+const LOCALIZED_FACTOR = 3;
+
+function changedRegions(row: SnapshotRow, pixels: number[], baseline: Reference, tolerance: Tolerance, weights: Weights): RegionChange[] {
+  if (pixels.length !== THUMBNAIL_WIDTH * THUMBNAIL_HEIGHT) return [];
+  const features = decodeFeatures(row.visual_features);
+  return regionDifferences(pixels, baseline.pixels, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, weights)
+    .map((difference, index) => ({ ...difference, index }))
+    .filter((difference) => difference.weight > 0)
+    .map(({ index, ...difference }) => ({
+      ...regionBounds(index),
+      pixelDifference: Number(difference.pixelDifference.toFixed(4)),
+      lumaDelta: Number(difference.lumaDelta.toFixed(4)),
+      // Edge energy is measured over the whole region, so only trust it where the mask keeps most of it.
+      edgeDelta: features && baseline.edges && difference.weight >= 0.5 ? Number((features.regions[index].edges - baseline.edges[index]).toFixed(4)) : null,
+    }))
+    .filter((region) => region.pixelDifference >= tolerance.pixel * 1.5 || Math.abs(region.lumaDelta) >= tolerance.brightness || Math.abs(region.edgeDelta ?? 0) >= REGION_EDGE_TOLERANCE)
+    .sort((a, b) => b.pixelDifference - a.pixelDifference);
+}
+
+function weightedStats(pixels: number[], weights: number[]): { mean: number; contrast: number } {
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const mean = pixels.reduce((sum, value, index) => sum + value * weights[index], 0) / total;
+  const variance = pixels.reduce((sum, value, index) => sum + (value - mean) ** 2 * weights[index], 0) / total;
+  return { mean, contrast: Math.sqrt(variance) };
+}
+
+function compareFrame(row: SnapshotRow, baseline: Reference, tolerance: Tolerance, weights?: Weights): FrameMetrics | null {
   const pixels = decodeFingerprint(row.visual_fingerprint);
   if (!pixels || pixels.length !== baseline.pixels.length) return null;
-  const pixelDifference = pixels.reduce((sum, value, index) => sum + Math.abs(value - baseline.pixels[index]), 0) / (pixels.length * 255);
-  const brightnessDelta = ((Number(row.mean_luma) || 0) - baseline.mean) / 255;
-  const contrastDelta = ((Number(row.visual_contrast) || 0) - baseline.contrast) / 128;
+  const masked = weights?.length === pixels.length ? weights : undefined;
+  let pixelDifference: number;
+  let brightnessDelta: number;
+  let contrastDelta: number;
+  if (masked) {
+    // The stored mean and contrast cover the whole frame, so both sides are re-measured over the kept cells.
+    // The baseline's per-cell median is slightly smoother than any one frame, which only makes drops in
+    // contrast a little harder to trigger.
+    const total = masked.reduce((sum, weight) => sum + weight, 0) || 1;
+    pixelDifference = pixels.reduce((sum, value, index) => sum + Math.abs(value - baseline.pixels[index]) * masked[index], 0) / (total * 255);
+    const current = weightedStats(pixels, masked);
+    const reference = weightedStats(baseline.pixels, masked);
+    brightnessDelta = (current.mean - reference.mean) / 255;
+    contrastDelta = (current.contrast - reference.contrast) / 128;
+  } else {
+    pixelDifference = pixels.reduce((sum, value, index) => sum + Math.abs(value - baseline.pixels[index]), 0) / (pixels.length * 255);
+    brightnessDelta = ((Number(row.mean_luma) || 0) - baseline.mean) / 255;
+    contrastDelta = ((Number(row.visual_contrast) || 0) - baseline.contrast) / 128;
+  }
+  const phash = decodeFeatures(row.visual_features)?.phash;
   return {
     pixelDifference: Number(pixelDifference.toFixed(4)),
     brightnessDelta: Number(brightnessDelta.toFixed(4)),
     contrastDelta: Number(contrastDelta.toFixed(4)),
+    hashDistance: phash && baseline.phash ? hashDistance(phash, baseline.phash) : null,
+    regions: changedRegions(row, pixels, baseline, tolerance, masked),
   };
 }
 
-function isMeaningfulChange(metrics: FrameMetrics | null): boolean {
-  return Boolean(metrics && (metrics.pixelDifference >= 0.08 || Math.abs(metrics.brightnessDelta) >= 0.1 || metrics.contrastDelta <= -0.15));
+function isLocalized(metrics: FrameMetrics | null, tolerance: Tolerance): boolean {
+  return Boolean(metrics?.regions.some((region) => region.pixelDifference >= tolerance.pixel * LOCALIZED_FACTOR));
+}
+
+function isMeaningfulChange(metrics: FrameMetrics | null, tolerance = WINDOW_TOLERANCE): boolean {
+  return Boolean(metrics && (metrics.pixelDifference >= tolerance.pixel || Math.abs(metrics.brightnessDelta) >= tolerance.brightness || metrics.contrastDelta <= -tolerance.contrast || isLocalized(metrics, tolerance)));
 }
 
 function confidenceBand(value: number): ConfidenceBand {
@@ -181,7 +262,13 @@ function severityBand(value: number): Severity {
   return 'low';
 }
 
-function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: number): Observation | null {
+/**
+ * A seasonal baseline for the current hour-of-week, when one exists for this camera, replaces the median
+ * of the window's older frames as the reference. Every recent frame is then judged against it, and its
+ * tolerances widen where the camera's view normally varies at this hour. Mask `weights` restrict every
+ * comparison to the cells the camera's mask keeps.
+ */
+function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: number, seasonal?: SeasonalBaseline, weights?: Weights): Observation | null {
   if (rows.length < 2) return null;
   const latest = rows[rows.length - 1];
   const transitions = rows.slice(1).reduce((sum, row, index) => sum + (row.sha256 !== rows[index].sha256 ? 1 : 0), 0);
@@ -195,7 +282,13 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
   const recentCount = Math.min(4, Math.max(0, visualRows.length - 3));
   const baselineRows = recentCount > 0 ? visualRows.slice(0, -recentCount) : visualRows;
   const recent = recentCount > 0 ? visualRows.slice(-recentCount) : [];
-  const baseline = baselineFingerprint(baselineRows);
+  const windowBaseline = baselineFingerprint(baselineRows);
+  const latestPixels = decodeFingerprint(visualRows[visualRows.length - 1]?.visual_fingerprint ?? null);
+  const useSeasonal = Boolean(seasonal && latestPixels && seasonal.pixels.length === latestPixels.length);
+  const baseline = useSeasonal ? seasonal! : windowBaseline;
+  const compared = useSeasonal ? visualRows.slice(-4) : recent;
+  const tolerance = useSeasonal ? seasonal!.tolerance : WINDOW_TOLERANCE;
+  const reference = useSeasonal ? 'the usual view for this hour' : 'the recent baseline';
 
   if (!baseline) {
     const confidenceScore = Math.min(0.72, rows.length / 10);
@@ -215,6 +308,7 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
       confidenceScore: Number(confidenceScore.toFixed(2)),
       state: 'changing',
       baselineWindowMinutes: windowMinutes,
+      baselineSource: 'window',
       sampleCount: rows.length,
       persistenceSamples: 1,
       transitions,
@@ -225,7 +319,7 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
       corridor: corridor.corridor,
       latitude: latest.latitude,
       longitude: latest.longitude,
-      metrics: { pixelDifference: 0, brightnessDelta: 0, contrastDelta: 0, sceneDiversity: uniqueScenes, transitionRate: Number(transitionRate.toFixed(3)) },
+      metrics: { pixelDifference: 0, brightnessDelta: 0, contrastDelta: 0, hashDistance: null, regions: [], sceneDiversity: uniqueScenes, transitionRate: Number(transitionRate.toFixed(3)) },
       evidence: {
         beforeCapturedAt: rows[0]?.captured_at ?? null,
         afterCapturedAt: latest.captured_at,
@@ -238,12 +332,12 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
     };
   }
 
-  const comparisons = recent.map((row) => ({ row, metrics: compareFrame(row, baseline) }));
-  const changed = comparisons.map((item) => isMeaningfulChange(item.metrics));
+  const comparisons = compared.map((row) => ({ row, metrics: compareFrame(row, baseline, tolerance, weights) }));
+  const changed = comparisons.map((item) => isMeaningfulChange(item.metrics, tolerance));
   let persistenceSamples = 0;
   for (let index = changed.length - 1; index >= 0 && changed[index]; index -= 1) persistenceSamples += 1;
   const latestMetrics = comparisons[comparisons.length - 1]?.metrics ?? null;
-  const latestChanged = isMeaningfulChange(latestMetrics);
+  const latestChanged = isMeaningfulChange(latestMetrics, tolerance);
   const previousChanged = changed.slice(0, -1).some(Boolean);
   let state: ObservationState = 'baseline';
   if (latestChanged && persistenceSamples >= 3) state = 'persistent';
@@ -259,7 +353,8 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
   const pixel = latestMetrics?.pixelDifference ?? 0;
   const brightness = latestMetrics?.brightnessDelta ?? 0;
   const contrast = latestMetrics?.contrastDelta ?? 0;
-  const magnitude = Math.max(pixel / 0.2, Math.abs(brightness) / 0.2, Math.max(0, -contrast) / 0.3);
+  const regions = latestMetrics?.regions ?? [];
+  const magnitude = Math.max(pixel / 0.2, Math.abs(brightness) / 0.2, Math.max(0, -contrast) / 0.3, (regions[0]?.pixelDifference ?? 0) / 0.4);
   const severity = severityBand(Math.min(1, magnitude));
 
   let changeType: ChangeType = 'stable';
@@ -270,26 +365,30 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
   if (state === 'recovering') {
     changeType = 'scene_shift';
     direction = 'recovering';
-    headline = 'Returning toward recent baseline';
+    headline = useSeasonal ? 'Returning toward usual view' : 'Returning toward recent baseline';
     detail = 'Recent visual change is no longer present in the newest capture';
   } else if (state === 'persistent') {
     changeType = 'persistent_change';
     headline = 'Persistent visual change';
-    detail = `Different from baseline across ${persistenceSamples} consecutive captures`;
-  } else if (Math.abs(brightness) >= 0.12) {
+    detail = `Different from ${useSeasonal ? 'the usual view for this hour' : 'baseline'} across ${persistenceSamples} consecutive captures`;
+  } else if (Math.abs(brightness) >= tolerance.brightness + 0.02) {
     changeType = 'brightness_shift';
     direction = brightness > 0 ? 'up' : 'down';
     headline = brightness > 0 ? 'Scene became materially brighter' : 'Scene became materially darker';
-    detail = `Brightness shifted ${Math.round(Math.abs(brightness) * 100)}% from the recent baseline`;
-  } else if (contrast <= -0.16) {
+    detail = `Brightness shifted ${Math.round(Math.abs(brightness) * 100)}% from ${reference}`;
+  } else if (contrast <= -(tolerance.contrast + 0.01)) {
     changeType = 'visibility_shift';
     direction = 'down';
     headline = 'Visibility or contrast dropped';
-    detail = `Contrast is ${Math.round(Math.abs(contrast) * 100)}% below the recent baseline`;
-  } else if (pixel >= 0.1) {
+    detail = `Contrast is ${Math.round(Math.abs(contrast) * 100)}% below ${reference}`;
+  } else if (pixel >= tolerance.pixel + 0.02) {
+    changeType = 'scene_shift';
+    headline = pixel >= tolerance.pixel * 2 ? 'Large visual change' : useSeasonal ? 'Scene differs from usual for this hour' : 'Scene shifted from recent baseline';
+    detail = `Visual difference is ${Math.round(pixel * 100)}% from ${reference}`;
+  } else if (isLocalized(latestMetrics, tolerance)) {
     changeType = 'scene_shift';
-    headline = pixel >= 0.16 ? 'Large visual change' : 'Scene shifted from recent baseline';
-    detail = `Visual difference is ${Math.round(pixel * 100)}% from the recent baseline`;
+    headline = 'Part of the scene changed';
+    detail = `${regions.length} of ${REGION_COLUMNS * REGION_ROWS} regions differ from ${reference}, up to ${Math.round(regions[0].pixelDifference * 100)}%`;
   } else if (transitions >= 5 && transitionRate >= 0.35) {
     changeType = 'high_visual_activity';
     headline = 'Repeated scene changes';
@@ -323,6 +422,7 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
     confidenceScore: Number(confidenceScore.toFixed(2)),
     state,
     baselineWindowMinutes: windowMinutes,
+    baselineSource: useSeasonal ? 'seasonal' : 'window',
     sampleCount: rows.length,
     persistenceSamples,
     transitions,
@@ -337,13 +437,16 @@ function deriveObservation(rows: SnapshotRow[], now: number, windowMinutes: numb
       pixelDifference: Number(pixel.toFixed(4)),
       brightnessDelta: Number(brightness.toFixed(4)),
       contrastDelta: Number(contrast.toFixed(4)),
+      hashDistance: latestMetrics?.hashDistance ?? null,
+      regions,
       sceneDiversity: uniqueScenes,
       transitionRate: Number(transitionRate.toFixed(3)),
     },
     evidence: {
-      beforeCapturedAt: baseline.row.captured_at,
+      // A seasonal baseline has no single frame; show the window's most typical frame as "before" instead.
+      beforeCapturedAt: (windowBaseline?.row ?? rows[0]).captured_at,
       afterCapturedAt: latest.captured_at,
-      beforeImageUrl: historyImageUrl(baseline.row.r2_key),
+      beforeImageUrl: historyImageUrl((windowBaseline?.row ?? rows[0]).r2_key),
       afterImageUrl: historyImageUrl(latest.r2_key)!,
       firstObservedAt,
       lastObservedAt: latest.captured_at,
@@ -380,7 +483,8 @@ function correlate(items: Observation[]): CorrelatedEvent[] {
     const corridor = corridors.length ? corridors.sort((a, b) => corridors.filter((value) => value === b).length - corridors.filter((value) => value === a).length)[0] : null;
     const title = corridor ? `${corridor} area changing` : 'Nearby cameras changing';
     events.push({
-      id: `event-${anchor.cameraId}-${anchor.capturedAt}`,
+      // Keyed on when the anchor's change began, so the same ongoing event keeps its id across ticks.
+      id: `event-${anchor.cameraId}-${anchor.evidence.firstObservedAt || anchor.capturedAt}`,
       title,
       cameraIds: group.map((item) => item.cameraId),
       cameraCount: group.length,
@@ -395,20 +499,16 @@ function correlate(items: Observation[]): CorrelatedEvent[] {
   return events.sort((a, b) => b.cameraCount - a.cameraCount || b.lastObservedAt - a.lastObservedAt).slice(0, 8);
 }
 
-export async function handlePulseRequest(request: Request, url: URL, env: PulseBindings): Promise<Response | null> {
-  if (url.pathname !== '/api/pulse') return null;
-  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
-  if (!env.HISTORY_DB) return json({ error: 'Pulse history is not configured' }, { status: 503 });
-  const windowMinutes = Math.min(Math.max(Math.floor(Number(url.searchParams.get('window') || DEFAULT_WINDOW_MINUTES)), 15), MAX_WINDOW_MINUTES);
-  const limit = Math.min(Math.max(Math.floor(Number(url.searchParams.get('limit') || 12)), 1), MAX_LIMIT);
-  const now = Date.now();
+async function observe(db: PulseD1Database, windowMinutes: number, now: number): Promise<{ all: Observation[]; analyzed: number }> {
+  const started = Date.now();
   const cutoff = now - windowMinutes * 60000;
-  const result = await env.HISTORY_DB.prepare(`
-    SELECT camera_id, camera_label, captured_at, r2_key, sha256, is_duplicate,
-           visual_fingerprint, mean_luma, visual_contrast, latitude, longitude
-      FROM camera_snapshots
-     WHERE captured_at >= ?
-     ORDER BY camera_id ASC, captured_at ASC
+  const result = await db.prepare(`
+    SELECT COALESCE(a.camera_id, s.camera_id) AS camera_id, s.camera_label, s.captured_at, s.r2_key, s.sha256, s.is_duplicate,
+           s.visual_fingerprint, s.mean_luma, s.visual_contrast, s.visual_features, s.latitude, s.longitude
+      FROM camera_snapshots s
+      LEFT JOIN camera_aliases a ON a.alias = s.camera_id
+     WHERE s.captured_at >= ?
+     ORDER BY 1 ASC, s.captured_at ASC
   `).bind(cutoff).all<SnapshotRow>();
 
   const grouped = new Map<string, SnapshotRow[]>();
@@ -418,10 +518,61 @@ export async function handlePulseRequest(request: Request, url: URL, env: PulseB
     grouped.set(row.camera_id, rows);
   }
 
+  const seasonal = await seasonalBaselines(db, now).catch((error) => {
+    console.error(JSON.stringify({ event: 'pulse_baseline_error', message: error instanceof Error ? error.message : String(error) }));
+    return new Map<string, SeasonalBaseline>();
+  });
+  const masks = await maskWeights(db).catch((error) => {
+    console.error(JSON.stringify({ event: 'pulse_mask_error', message: error instanceof Error ? error.message : String(error) }));
+    return new Map<string, number[]>();
+  });
+  // Frozen, blank, placeholder and repositioned feeds are outages or camera moves, not scene changes.
+  const issues = await issueCameraIds(db).catch((error) => {
+    console.error(JSON.stringify({ event: 'pulse_issues_error', message: error instanceof Error ? error.message : String(error) }));
+    return new Set<string>();
+  });
   const all = [...grouped.values()]
-    .map((rows) => deriveObservation(rows, now, windowMinutes))
+    .filter((rows) => !issues.has(rows[0].camera_id))
+    .map((rows) => deriveObservation(rows, now, windowMinutes, seasonal.get(rows[0].camera_id), masks.get(rows[0].camera_id)))
     .filter((item): item is Observation => Boolean(item))
     .sort((a, b) => b.score - a.score || b.persistenceSamples - a.persistenceSamples || b.capturedAt - a.capturedAt);
+  observeMetric('cams_pulse_compute_duration_seconds', {}, (Date.now() - started) / 1000);
+  return { all, analyzed: grouped.size };
+}
+
+/** Stable for one episode of change at a camera: keyed on when that change was first observed. */
+export function observationId(item: Observation): string {
+  return `observation-${item.cameraId}-${item.evidence.firstObservedAt || item.capturedAt}`;
+}
+
+/** Observations and correlated events over the default window, as `/api/pulse` would rank them now. */
+export async function pulseSnapshot(env: PulseBindings, now = Date.now()): Promise<PulseSnapshot> {
+  if (!env.HISTORY_DB) return { items: [], events: [] };
+  const { all } = await observe(env.HISTORY_DB, DEFAULT_WINDOW_MINUTES, now);
+  return { items: all, events: correlate(all) };
+}
+
+export async function handlePulseRequest(request: Request, url: URL, env: PulseBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/pulse') return null;
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  if (!env.HISTORY_DB) return json({ error: 'Pulse history is not configured' }, { status: 503 });
+  const windowMinutes = Math.min(Math.max(Math.floor(Number(url.searchParams.get('window') || DEFAULT_WINDOW_MINUTES)), 15), MAX_WINDOW_MINUTES);
+  const limit = Math.min(Math.max(Math.floor(Number(url.searchParams.get('limit') || 12)), 1), MAX_LIMIT);
+  // Every open tab polls Pulse, so one ranking per colo, window and limit is shared until `s-maxage` runs out.
+  const cache = typeof caches === 'undefined' ? null : caches.default;
+  const key = new Request(`${url.origin}/api/pulse?window=${windowMinutes}&limit=${limit}`);
+  const hit = await cache?.match(key).catch(() => undefined);
+  if (hit) return hit;
+  const response = await rankPulse(env.HISTORY_DB, windowMinutes, limit);
+  await cache?.put(key, response.clone()).catch((error: unknown) => {
+    console.error(JSON.stringify({ event: 'pulse_cache_error', message: error instanceof Error ? error.message : String(error) }));
+  });
+  return response;
+}
+
+async function rankPulse(db: PulseD1Database, windowMinutes: number, limit: number): Promise<Response> {
+  const now = Date.now();
+  const { all, analyzed } = await observe(db, windowMinutes, now);
   const items = all.slice(0, limit);
   const events = correlate(all);
   const active = all.filter((item) => item.score >= 35).length;
@@ -445,7 +596,7 @@ export async function handlePulseRequest(request: Request, url: URL, env: PulseB
     pulseScore,
     state,
     activeCameras: active,
-    camerasAnalyzed: grouped.size,
+    camerasAnalyzed: analyzed,
     observationCount: all.length,
     eventCount: events.length,
     methodology: 'Ranks deterministic visual observations using recent camera baselines, persistence, severity, confidence and freshness. Nearby qualifying observations may be correlated. It does not infer crashes, congestion, weather, incidents or causes.',
@@ -0,0 +1,82 @@
+/**
+ * Tiered history retention. Frames stay at full resolution until the first tier starts, then each tier
+ * keeps one frame per `everyMs` per camera, and nothing survives past `maxAgeMs`.
+ *
+ * The default policy can be replaced and extra policies assigned to cameras or collections through the
+ * `HISTORY_RETENTION` variable, e.g.
+ * `{"policies":{"bridges":{"tiers":[{"afterHours":48,"everyMinutes":5}],"maxDays":90}},"collections":{"bridges":"bridges"}}`.
+ */
+
+export type RetentionTier = { afterMs: number; everyMs: number };
+export type RetentionPolicy = { tiers: RetentionTier[]; maxAgeMs: number };
+export type RetentionConfig = {
+  policies: Record<string, RetentionPolicy>;
+  collections: Record<string, string>;
+  cameras: Record<string, string>;
+};
+
+export type RetentionBindings = { HISTORY_RETENTION?: string };
+
+type RawPolicy = { tiers?: { afterHours?: unknown; everyMinutes?: unknown }[]; maxDays?: unknown };
+type RawConfig = { policies?: Record<string, RawPolicy>; collections?: Record<string, unknown>; cameras?: Record<string, unknown> };
+
+export const DEFAULT_POLICY = 'default';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const POLICY_NAME = /^[a-z0-9_-]{1,32}$/;
+
+const DEFAULT_RETENTION: RetentionPolicy = {
+  tiers: [
+    { afterMs: 48 * HOUR_MS, everyMs: 15 * 60 * 1000 },
+    { afterMs: 30 * DAY_MS, everyMs: HOUR_MS },
+  ],
+  maxAgeMs: 365 * DAY_MS,
+};
+
+function parsePolicy(raw: RawPolicy): RetentionPolicy | null {
+  const tiers = (raw.tiers ?? []).map((tier) => ({ afterMs: Number(tier.afterHours) * HOUR_MS, everyMs: Number(tier.everyMinutes) * 60 * 1000 }));
+  const maxAgeMs = Number(raw.maxDays) * DAY_MS;
+  if (!(maxAgeMs > 0)) return null;
+  for (let index = 0; index < tiers.length; index += 1) {
+    const tier = tiers[index];
+    if (!(tier.afterMs > 0) || !(tier.everyMs > 0) || tier.afterMs >= maxAgeMs) return null;
+    if (index && (tier.afterMs <= tiers[index - 1].afterMs || tier.everyMs < tiers[index - 1].everyMs)) return null;
+  }
+  return { tiers, maxAgeMs };
+}
+
+function assignments(raw: Record<string, unknown> | undefined, policies: Record<string, RetentionPolicy>): Record<string, string> {
+  return Object.fromEntries(Object.entries(raw ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] in policies));
+}
+
+export function retentionConfig(env: RetentionBindings): RetentionConfig {
+  const fallback = { policies: { [DEFAULT_POLICY]: DEFAULT_RETENTION }, collections: {}, cameras: {} };
+  if (!env.HISTORY_RETENTION) return fallback;
+  try {
+    const raw = JSON.parse(env.HISTORY_RETENTION) as RawConfig;
+    const policies: Record<string, RetentionPolicy> = { [DEFAULT_POLICY]: DEFAULT_RETENTION };
+    for (const [name, value] of Object.entries(raw.policies ?? {})) {
+      const policy = POLICY_NAME.test(name) && value ? parsePolicy(value) : null;
+      if (!policy) throw new Error(`invalid retention policy ${name}`);
+      policies[name] = policy;
+    }
+    return { policies, collections: assignments(raw.collections, policies), cameras: assignments(raw.cameras, policies) };
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'history_retention_config_error', message: error instanceof Error ? error.message : String(error) }));
+    return fallback;
+  }
+}
+
+/** A camera's own assignment wins over its collections; among collections the first assigned one wins. */
+export function retentionPolicyFor(config: RetentionConfig, camera: { id: string; collections?: string[] }): string {
+  return config.cameras[camera.id] ?? camera.collections?.map((collection) => config.collections[collection]).find(Boolean) ?? DEFAULT_POLICY;
+}
+
+export function retentionPolicy(config: RetentionConfig, name: string | null): RetentionPolicy {
+  return (name && config.policies[name]) || config.policies[DEFAULT_POLICY];
+}
+
+/** The longest any configured policy keeps frames, which bounds how far back history can be queried. */
+export function maxRetentionMs(config: RetentionConfig): number {
+  return Math.max(...Object.values(config.policies).map((policy) => policy.maxAgeMs));
+}
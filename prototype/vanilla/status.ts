@@ -0,0 +1,432 @@
+/**
+ * Service status. Every cron tick probes the ArcGIS and Socrata feeds and the Wowza video server directly,
+ * counts the tick's seattle.gov image captures, and stores those checks with the `history_capture_complete`
+ * counters. `INCIDENT_AFTER_FAILURES` failing ticks in a row open an incident for an upstream and the next
+ * passing tick resolves it.
+ *
+ * `/status` renders upstream uptime against each objective, per-camera availability from the health ledger
+ * (see health.ts), the latest tick and recent incidents; `/api/status` returns the same report as JSON.
+ */
+import { HEALTH_WINDOWS, healthLedger, type HealthWindow } from './health';
+import type { CaptureSummary } from './history';
+import { timedFetch } from './metrics';
+import { CAMERA_HOST, DEFAULT_FEATURE_SERVICE, DEFAULT_PROVIDER, SDOT_ENDPOINT, VIDEO_SERVER } from './providers';
+
+type StatusD1Statement = {
+  bind: (...values: unknown[]) => StatusD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type StatusD1Database = {
+  prepare: (query: string) => StatusD1Statement;
+  batch: (statements: StatusD1Statement[]) => Promise<unknown>;
+};
+
+export type StatusBindings = { HISTORY_DB?: StatusD1Database };
+
+export type Upstream = 'arcgis' | 'socrata' | 'images' | 'video';
+/** A tick's checks against one upstream. Probes are a single check; image captures add one per camera. */
+export type UpstreamCheck = { upstream: Upstream; ok: number; failed: number; latencyMs?: number; error?: string };
+export type CronTick = { scheduledAt: number; cameras: number | null; capture: CaptureSummary | null; checks: UpstreamCheck[]; error?: string };
+
+type UpstreamState = 'up' | 'degraded' | 'down' | 'unknown';
+type Uptime = Record<HealthWindow, number | null>;
+
+export type UpstreamReport = {
+  id: Upstream;
+  label: string;
+  host: string;
+  status: UpstreamState;
+  objective: number;
+  withinObjective: boolean | null;
+  uptime: Uptime;
+  checks: Record<HealthWindow, number>;
+  latencyMs: number | null;
+  lastCheckedAt: number | null;
+  lastOkAt: number | null;
+  lastErrorAt: number | null;
+  lastError: string | null;
+  failingSince: number | null;
+};
+
+export type StatusReport = {
+  generatedAt: number;
+  status: 'operational' | 'degraded' | 'outage';
+  windows: HealthWindow[];
+  upstreams: UpstreamReport[];
+  lastTick: (CaptureSummary & { scheduledAt: number; finishedAt: number; cameras: number | null; error: string | null }) | null;
+  cameras: {
+    objective: number;
+    availability: Uptime;
+    belowObjective: number;
+    cameras: { cameraId: string; label: string; uptime: Uptime; lastOkAt: number | null; lastErrorAt: number | null }[];
+  };
+  incidents: { upstream: Upstream; label: string; startedAt: number; resolvedAt: number | null; failures: number; lastError: string | null }[];
+};
+
+type StatusRow = { upstream: Upstream; consecutive_failures: number; failing_since: number | null; checked_at: number; last_error: string | null };
+type CheckRow = { upstream: Upstream; latency_ms: number; timed: number; last_ok_at: number | null; last_error_at: number | null } & Record<string, number | string | null>;
+type TickRow = Record<keyof CaptureSummary, number | null> & { scheduled_at: number; finished_at: number; cameras: number | null; error: string | null };
+type IncidentRow = { upstream: Upstream; started_at: number; resolved_at: number | null; failures: number; last_error: string | null };
+
+const UPSTREAMS: Record<Upstream, { label: string; host: string; objective: number }> = {
+  arcgis: { label: 'ArcGIS camera feed', host: new URL(DEFAULT_FEATURE_SERVICE).hostname, objective: 99.5 },
+  socrata: { label: 'Socrata open data', host: new URL(SDOT_ENDPOINT).hostname, objective: 99.5 },
+  images: { label: 'seattle.gov camera images', host: CAMERA_HOST, objective: 99 },
+  video: { label: 'Wowza live video', host: VIDEO_SERVER, objective: 99 },
+};
+// Individual cameras go dark for maintenance far more often than the services behind them.
+const CAMERA_OBJECTIVE = 95;
+const HOUR_MS = 60 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 5000;
+const VIDEO_PROBE_STREAMS = 2;
+const INCIDENT_AFTER_FAILURES = 3;
+const TICK_RETENTION_MS = 7 * 24 * HOUR_MS;
+const CHECK_RETENTION_MS = 31 * 24 * HOUR_MS;
+const INCIDENT_RETENTION_MS = 90 * 24 * HOUR_MS;
+const RECENT_INCIDENTS = 20;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'public, max-age=30, s-maxage=30');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function esc(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+}
+
+function hourStart(epochMs: number): number {
+  return epochMs - (epochMs % HOUR_MS);
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * One request to `url`. `inspect` reads the body of a successful response and returns why it is still a failure,
+ * or null; without it the body is discarded unread.
+ */
+async function probe(upstream: Upstream, url: string, inspect?: (response: Response) => Promise<string | null>): Promise<UpstreamCheck> {
+  const started = Date.now();
+  try {
+    const response = await timedFetch(url, { headers: { Accept: '*/*' }, signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    const error = !response.ok ? `HTTP ${response.status}` : inspect ? await inspect(response) : null;
+    if (!inspect || !response.ok) await response.body?.cancel();
+    const latencyMs = Date.now() - started;
+    return error ? { upstream, ok: 0, failed: 1, latencyMs, error } : { upstream, ok: 1, failed: 0, latencyMs };
+  } catch (error) {
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    return { upstream, ok: 0, failed: 1, error: timedOut ? `No response within ${PROBE_TIMEOUT_MS / 1000}s` : message(error) };
+  }
+}
+
+/** ArcGIS answers most failures with HTTP 200 and an `error` object in the JSON body. */
+async function arcgisError(response: Response): Promise<string | null> {
+  try {
+    const body = await response.json() as { error?: { code?: number; message?: string } };
+    if (!body.error) return null;
+    return body.error.message || `ArcGIS error ${body.error.code ?? ''}`.trim();
+  } catch {
+    return 'ArcGIS returned a body that is not JSON';
+  }
+}
+
+/** Tries up to `VIDEO_PROBE_STREAMS` playlists, so a single dead camera does not read as a server outage. */
+async function probeVideo(streams: string[], now: number): Promise<UpstreamCheck | null> {
+  if (!streams.length) return null;
+  // Rotate through the streams tick by tick rather than always asking for the same one.
+  const offset = Math.floor(now / 60000) % streams.length;
+  let check: UpstreamCheck | null = null;
+  for (let attempt = 0; attempt < Math.min(VIDEO_PROBE_STREAMS, streams.length); attempt += 1) {
+    const stream = streams[(offset + attempt) % streams.length];
+    check = await probe('video', `https://${VIDEO_SERVER}/live/${encodeURIComponent(stream)}.stream/playlist.m3u8`);
+    if (check.ok) break;
+  }
+  return check;
+}
+
+/**
+ * Probes the upstreams the tick does not otherwise reach uncached. The camera feed itself is fetched through
+ * the provider cache, so its success says little about ArcGIS at that minute.
+ */
+export async function probeUpstreams(cameras: { stream?: string }[], now = Date.now()): Promise<UpstreamCheck[]> {
+  const streams = cameras.flatMap((camera) => (camera.stream ? [camera.stream] : []));
+  const [arcgis, socrata, video] = await Promise.all([
+    probe('arcgis', `${DEFAULT_FEATURE_SERVICE}?f=json`, arcgisError),
+    probe('socrata', `${SDOT_ENDPOINT}?$limit=1`),
+    probeVideo(streams, now),
+  ]);
+  return video ? [arcgis, socrata, video] : [arcgis, socrata];
+}
+
+/** The tick's image captures as checks against the image host. */
+export function captureCheck(capture: CaptureSummary | null): UpstreamCheck | null {
+  if (!capture?.selected) return null;
+  return { upstream: 'images', ok: capture.stored + capture.duplicate, failed: capture.failed, ...(capture.failed ? { error: `${capture.failed} of ${capture.selected} captures failed` } : {}) };
+}
+
+/** Stores the tick, folds its checks into the hourly buckets and opens or resolves incidents. */
+export async function recordTick(env: StatusBindings, tick: CronTick, finishedAt = Date.now()): Promise<void> {
+  if (!env.HISTORY_DB) return;
+  const db = env.HISTORY_DB;
+  const previous = await db.prepare('SELECT * FROM upstream_status').all<StatusRow>();
+  const states = new Map((previous.results ?? []).map((row) => [row.upstream, row]));
+  const capture = tick.capture;
+  const statements: StatusD1Statement[] = [
+    db.prepare(
+      `INSERT OR REPLACE INTO cron_ticks (scheduled_at, finished_at, cameras, due, selected, deferred, pulse, stored, duplicate, failed, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      tick.scheduledAt, finishedAt, tick.cameras,
+      capture?.due ?? null, capture?.selected ?? null, capture?.deferred ?? null, capture?.pulse ?? null,
+      capture?.stored ?? null, capture?.duplicate ?? null, capture?.failed ?? null, tick.error ?? null,
+    ),
+  ];
+
+  for (const check of tick.checks) {
+    if (!check.ok && !check.failed) continue;
+    statements.push(db.prepare(
+      `INSERT INTO upstream_checks (upstream, hour_start, ok, failed, latency_ms, timed, last_ok_at, last_error_at, last_error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(upstream, hour_start) DO UPDATE SET
+         ok = upstream_checks.ok + excluded.ok, failed = upstream_checks.failed + excluded.failed,
+         latency_ms = upstream_checks.latency_ms + excluded.latency_ms, timed = upstream_checks.timed + excluded.timed,
+         last_ok_at = COALESCE(excluded.last_ok_at, upstream_checks.last_ok_at),
+         last_error_at = COALESCE(excluded.last_error_at, upstream_checks.last_error_at),
+         last_error = COALESCE(excluded.last_error, upstream_checks.last_error)`,
+    ).bind(
+      check.upstream, hourStart(tick.scheduledAt), check.ok, check.failed, Math.round(check.latencyMs ?? 0), check.latencyMs == null ? 0 : 1,
+      check.ok ? finishedAt : null, check.failed ? finishedAt : null, check.failed ? check.error ?? null : null,
+    ));
+
+    // A tick fails an upstream when most of its checks failed; a few broken cameras are not an outage.
+    const failing = check.failed > check.ok;
+    const state = states.get(check.upstream);
+    const failures = failing ? (state?.consecutive_failures ?? 0) + 1 : 0;
+    const failingSince = failing ? state?.failing_since ?? tick.scheduledAt : null;
+    statements.push(db.prepare(
+      `INSERT INTO upstream_status (upstream, consecutive_failures, failing_since, checked_at, last_error) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(upstream) DO UPDATE SET
+         consecutive_failures = excluded.consecutive_failures, failing_since = excluded.failing_since,
+         checked_at = excluded.checked_at, last_error = excluded.last_error`,
+    ).bind(check.upstream, failures, failingSince, finishedAt, failing ? check.error ?? null : state?.last_error ?? null));
+
+    if (failures === INCIDENT_AFTER_FAILURES) {
+      statements.push(db.prepare('INSERT INTO status_incidents (upstream, started_at, resolved_at, failures, last_error) VALUES (?, ?, NULL, ?, ?)')
+        .bind(check.upstream, failingSince, failures, check.error ?? null));
+      console.log(JSON.stringify({ event: 'status_incident_opened', upstream: check.upstream, since: failingSince, error: check.error }));
+    } else if (failures > INCIDENT_AFTER_FAILURES) {
+      statements.push(db.prepare('UPDATE status_incidents SET failures = ?, last_error = COALESCE(?, last_error) WHERE upstream = ? AND resolved_at IS NULL')
+        .bind(failures, check.error ?? null, check.upstream));
+    } else if (!failing && (state?.consecutive_failures ?? 0) >= INCIDENT_AFTER_FAILURES) {
+      statements.push(db.prepare('UPDATE status_incidents SET resolved_at = ? WHERE upstream = ? AND resolved_at IS NULL').bind(tick.scheduledAt, check.upstream));
+      console.log(JSON.stringify({ event: 'status_incident_resolved', upstream: check.upstream, since: state?.failing_since, resolvedAt: tick.scheduledAt }));
+    }
+  }
+
+  statements.push(
+    db.prepare('DELETE FROM cron_ticks WHERE scheduled_at < ?').bind(tick.scheduledAt - TICK_RETENTION_MS),
+    db.prepare('DELETE FROM upstream_checks WHERE hour_start < ?').bind(hourStart(tick.scheduledAt - CHECK_RETENTION_MS)),
+    db.prepare('DELETE FROM status_incidents WHERE resolved_at < ?').bind(tick.scheduledAt - INCIDENT_RETENTION_MS),
+  );
+  await db.batch(statements);
+}
+
+function ratio(ok: number, failed: number): number | null {
+  return ok + failed ? Number((ok / (ok + failed) * 100).toFixed(2)) : null;
+}
+
+function upstreamState(id: Upstream, uptime: Uptime, state: StatusRow | undefined): UpstreamState {
+  if (!state) return 'unknown';
+  if (state.consecutive_failures >= INCIDENT_AFTER_FAILURES) return 'down';
+  if (state.consecutive_failures || (uptime['24h'] ?? 100) < UPSTREAMS[id].objective) return 'degraded';
+  return 'up';
+}
+
+export async function statusReport(env: StatusBindings, now = Date.now()): Promise<StatusReport> {
+  const db = env.HISTORY_DB!;
+  const windows = Object.entries(HEALTH_WINDOWS) as [HealthWindow, number][];
+  const columns = windows.map(([window]) => `
+    SUM(CASE WHEN hour_start > ? THEN ok ELSE 0 END) AS "ok_${window}",
+    SUM(CASE WHEN hour_start > ? THEN failed ELSE 0 END) AS "failed_${window}"`).join(',');
+  const starts = windows.flatMap(([, duration]) => [now - duration, now - duration]);
+  const oldest = Math.min(...windows.map(([, duration]) => now - duration));
+  const [checks, states, tick, incidents, catalog, ledger] = await Promise.all([
+    db.prepare(`
+      SELECT upstream, MAX(last_ok_at) AS last_ok_at, MAX(last_error_at) AS last_error_at,
+             SUM(CASE WHEN hour_start > ? THEN latency_ms ELSE 0 END) AS latency_ms,
+             SUM(CASE WHEN hour_start > ? THEN timed ELSE 0 END) AS timed,${columns}
+        FROM upstream_checks
+       WHERE hour_start > ?
+       GROUP BY upstream
+    `).bind(now - HEALTH_WINDOWS['24h'], now - HEALTH_WINDOWS['24h'], ...starts, oldest).all<CheckRow>(),
+    db.prepare('SELECT * FROM upstream_status').all<StatusRow>(),
+    db.prepare('SELECT * FROM cron_ticks ORDER BY scheduled_at DESC LIMIT 1').first<TickRow>(),
+    db.prepare('SELECT * FROM status_incidents ORDER BY started_at DESC LIMIT ?').bind(RECENT_INCIDENTS).all<IncidentRow>(),
+    db.prepare("SELECT camera_id, label FROM cameras WHERE source = ? AND status = 'active' ORDER BY label").bind(DEFAULT_PROVIDER.id).all<{ camera_id: string; label: string }>(),
+    healthLedger(env, now),
+  ]);
+
+  const checkRows = new Map((checks.results ?? []).map((row) => [row.upstream, row]));
+  const stateRows = new Map((states.results ?? []).map((row) => [row.upstream, row]));
+  const upstreams = (Object.keys(UPSTREAMS) as Upstream[]).map((id): UpstreamReport => {
+    const row = checkRows.get(id);
+    const state = stateRows.get(id);
+    const uptime = {} as Uptime;
+    const counts = {} as Record<HealthWindow, number>;
+    for (const [window] of windows) {
+      const ok = Number(row?.[`ok_${window}`] ?? 0);
+      const failed = Number(row?.[`failed_${window}`] ?? 0);
+      uptime[window] = ratio(ok, failed);
+      counts[window] = ok + failed;
+    }
+    return {
+      id,
+      ...UPSTREAMS[id],
+      status: upstreamState(id, uptime, state),
+      withinObjective: uptime['30d'] == null ? null : uptime['30d'] >= UPSTREAMS[id].objective,
+      uptime,
+      checks: counts,
+      latencyMs: row?.timed ? Math.round(row.latency_ms / row.timed) : null,
+      lastCheckedAt: state?.checked_at ?? null,
+      lastOkAt: row?.last_ok_at ?? null,
+      lastErrorAt: row?.last_error_at ?? null,
+      lastError: state?.last_error ?? null,
+      failingSince: state?.failing_since ?? null,
+    };
+  });
+
+  const images = new Map(ledger.map((entry) => [entry.cameraId, entry.image]));
+  const cameras = (catalog.results ?? []).map((row) => {
+    const image = images.get(row.camera_id);
+    return {
+      cameraId: row.camera_id,
+      label: row.label,
+      uptime: image?.uptime ?? { '24h': null, '7d': null, '30d': null },
+      lastOkAt: image?.lastOkAt ?? null,
+      lastErrorAt: image?.lastErrorAt ?? null,
+    };
+  }).sort((a, b) => (a.uptime['24h'] ?? 101) - (b.uptime['24h'] ?? 101) || a.label.localeCompare(b.label));
+  const availability = {} as Uptime;
+  for (const [window] of windows) {
+    const values = cameras.flatMap((camera) => (camera.uptime[window] == null ? [] : [camera.uptime[window]!]));
+    availability[window] = values.length ? Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(2)) : null;
+  }
+
+  const status = upstreams.some((upstream) => upstream.status === 'down') ? 'outage'
+    : upstreams.some((upstream) => upstream.status === 'degraded') ? 'degraded' : 'operational';
+  return {
+    generatedAt: now,
+    status,
+    windows: windows.map(([window]) => window),
+    upstreams,
+    lastTick: tick ? {
+      scheduledAt: tick.scheduled_at,
+      finishedAt: tick.finished_at,
+      cameras: tick.cameras,
+      due: tick.due ?? 0,
+      selected: tick.selected ?? 0,
+      deferred: tick.deferred ?? 0,
+      pulse: tick.pulse ?? 0,
+      stored: tick.stored ?? 0,
+      duplicate: tick.duplicate ?? 0,
+      failed: tick.failed ?? 0,
+      error: tick.error,
+    } : null,
+    cameras: {
+      objective: CAMERA_OBJECTIVE,
+      availability,
+      belowObjective: cameras.filter((camera) => camera.uptime['30d'] != null && camera.uptime['30d'] < CAMERA_OBJECTIVE).length,
+      cameras,
+    },
+    incidents: (incidents.results ?? []).map((row) => ({
+      upstream: row.upstream,
+      label: UPSTREAMS[row.upstream]?.label ?? row.upstream,
+      startedAt: row.started_at,
+      resolvedAt: row.resolved_at,
+      failures: row.failures,
+      lastError: row.last_error,
+    })),
+  };
+}
+
+function time(epochMs: number | null): string {
+  return epochMs == null ? '—' : `${new Date(epochMs).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function percent(value: number | null): string {
+  return value == null ? '—' : `${value}%`;
+}
+
+function duration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  return minutes < 120 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+}
+
+const STATUS_HEADLINES: Record<StatusReport['status'], string> = {
+  operational: 'All systems operational',
+  degraded: 'Some upstreams are degraded',
+  outage: 'Upstream outage in progress',
+};
+
+function renderStatusPage(report: StatusReport): string {
+  const windows = report.windows;
+  const upstreams = report.upstreams.map((upstream) => `<article class="status-card" data-status="${upstream.status}">
+      <p class="eyebrow">${esc(upstream.host)}</p><h2>${esc(upstream.label)}</h2>
+      <p class="status-state">${esc(upstream.status)}${upstream.failingSince ? ` · failing since ${esc(time(upstream.failingSince))}` : ''}</p>
+      <dl>${windows.map((window) => `<div><dt>${window}</dt><dd>${percent(upstream.uptime[window])}</dd></div>`).join('')}<div><dt>latency</dt><dd>${upstream.latencyMs == null ? '—' : `${upstream.latencyMs} ms`}</dd></div></dl>
+      <p class="sub">Objective ${upstream.objective}% over 30d${upstream.withinObjective === false ? ' · <strong class="status-missed">missed</strong>' : upstream.withinObjective ? ' · met' : ''}</p>
+      ${upstream.lastError && upstream.status !== 'up' ? `<p class="sub status-error">${esc(upstream.lastError)}</p>` : ''}
+    </article>`).join('');
+  const tick = report.lastTick;
+  const tickCopy = tick
+    ? `<dl class="status-tick">${([['cameras', tick.cameras ?? '—'], ['due', tick.due], ['captured', tick.selected], ['deferred', tick.deferred], ['pulse', tick.pulse], ['stored', tick.stored], ['duplicate', tick.duplicate], ['failed', tick.failed]] as [string, number | string][]).map(([label, value]) => `<div><dt>${label}</dt><dd>${value}</dd></div>`).join('')}</dl>
+      <p class="sub">Scheduled ${esc(time(tick.scheduledAt))} · took ${((tick.finishedAt - tick.scheduledAt) / 1000).toFixed(1)}s${tick.error ? ` · <span class="status-error">${esc(tick.error)}</span>` : ''}</p>`
+    : '<p class="sub">No cron tick recorded yet.</p>';
+  const incidents = report.incidents.length
+    ? `<ul class="status-incidents">${report.incidents.map((incident) => `<li data-resolved="${incident.resolvedAt != null}"><strong>${esc(incident.label)}</strong> <span class="sub">${esc(time(incident.startedAt))} · ${incident.resolvedAt == null ? `ongoing for ${duration(report.generatedAt - incident.startedAt)}` : `resolved after ${duration(incident.resolvedAt - incident.startedAt)}`} · ${incident.failures} failed checks${incident.lastError ? ` · ${esc(incident.lastError)}` : ''}</span></li>`).join('')}</ul>`
+    : '<p class="sub">No incidents in the last 90 days.</p>';
+  const cameras = report.cameras;
+  const rows = cameras.cameras.map((camera) => `<tr${camera.uptime['30d'] != null && camera.uptime['30d'] < cameras.objective ? ' class="status-below"' : ''}><th scope="row">${esc(camera.label)}</th>${windows.map((window) => `<td>${percent(camera.uptime[window])}</td>`).join('')}<td>${esc(time(camera.lastOkAt))}</td></tr>`).join('');
+
+  return `<!doctype html><html lang="en"><head>
+    <meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1,viewport-fit=cover">
+    <meta name="theme-color" content="#020617"><meta http-equiv="refresh" content="60">
+    <title>Status · Seattle Traffic Watch</title>
+    <link rel="stylesheet" href="/benchmark.css">
+    <link rel="stylesheet" href="/status.css">
+  </head><body class="status-page" data-status="${report.status}">
+    <header class="topbar">
+      <div class="brand"><p class="eyebrow">Seattle Traffic Watch</p><h1>${esc(STATUS_HEADLINES[report.status])}</h1><p class="sub">Updated ${esc(time(report.generatedAt))} · <a href="/api/status">JSON</a> · <a href="/">Cameras</a></p></div>
+    </header>
+    <main class="status-main">
+      <section aria-label="Upstreams"><div class="status-grid">${upstreams}</div></section>
+      <section class="status-section"><h2>Latest cron tick</h2>${tickCopy}</section>
+      <section class="status-section"><h2>Recent incidents</h2>${incidents}</section>
+      <section class="status-section"><h2>Camera availability</h2>
+        <p class="sub">Average ${windows.map((window) => `${window} ${percent(cameras.availability[window])}`).join(' · ')} · ${cameras.belowObjective} of ${cameras.cameras.length} cameras below the ${cameras.objective}% objective over 30d</p>
+        <div class="status-table-wrap"><table class="status-table"><thead><tr><th scope="col">Camera</th>${windows.map((window) => `<th scope="col">${window}</th>`).join('')}<th scope="col">Last image</th></tr></thead><tbody>${rows}</tbody></table></div>
+      </section>
+    </main>
+  </body></html>`;
+}
+
+export async function handleStatusRequest(request: Request, url: URL, env: StatusBindings): Promise<Response | null> {
+  if (url.pathname !== '/status' && url.pathname !== '/api/status') return null;
+  if (request.method !== 'GET' && request.method !== 'HEAD') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+  if (!env.HISTORY_DB) return json({ error: 'Status is not configured' }, { status: 503 });
+  const report = await statusReport(env);
+  if (url.pathname === '/api/status') return json(report);
+  return new Response(renderStatusPage(report), { headers: {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'public, max-age=30, s-maxage=30',
+    'Content-Security-Policy': "default-src 'self'; style-src 'self'; img-src 'self'",
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+    'X-Content-Type-Options': 'nosniff',
+  } });
+}
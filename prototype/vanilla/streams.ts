@@ -0,0 +1,165 @@
+/**
+ * Live stream verification. Each cron tick probes the master and chunklist playlists of the streams checked
+ * longest ago, and a stream counts as live once its media sequence has moved between two probes. The last
+ * probe per camera is kept in `stream_probes` with its target duration and advertised bitrate, and
+ * `/api/cameras` and the home page carry the verdict as `streamStatus` so clients only offer Play for
+ * streams that are actually running.
+ */
+import { recordHealth, type HealthOutcome } from './health';
+import { firstVariant, parseMediaPlaylist, type MediaPlaylist } from './hls';
+import { VIDEO_SERVER } from './providers';
+import { upstreamFetch } from './upstream';
+
+type StreamD1Statement = {
+  bind: (...values: unknown[]) => StreamD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type StreamD1Database = {
+  prepare: (query: string) => StreamD1Statement;
+  batch: (statements: StreamD1Statement[]) => Promise<unknown>;
+};
+
+export type StreamBindings = { HISTORY_DB?: StreamD1Database };
+
+/**
+ * `unverified` streams answered their last probe but have not yet been seen advancing; `stalled` streams
+ * answer with the same media sequence as before, and `offline` streams did not answer with a playable playlist.
+ */
+export type StreamStatus = 'live' | 'stalled' | 'offline' | 'unverified';
+
+type StreamCamera = { id: string; stream?: string };
+type ProbeRow = {
+  camera_id: string;
+  stream: string;
+  status: StreamStatus;
+  checked_at: number;
+  media_sequence: number | null;
+  advanced_at: number | null;
+};
+
+type Probe = { chunklist: MediaPlaylist | null; bandwidth: number | null; error?: string };
+
+const STREAM_PROBES_PER_TICK = 12;
+const PROBE_TIMEOUT_MS = 5000;
+// Rotation reaches every stream well inside this; older verdicts mean the cron stopped probing them.
+const STATUS_MAX_AGE_MS = 60 * 60 * 1000;
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const STATEMENT_BATCH = 50;
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function playlist(url: URL): Promise<string> {
+  const response = await upstreamFetch(url, { headers: { Accept: 'application/vnd.apple.mpegurl, */*' } }, { timeoutMs: PROBE_TIMEOUT_MS, retries: 0 });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+function parseChunklist(text: string): MediaPlaylist | null {
+  const playlist = parseMediaPlaylist(text);
+  return playlist.segments.length ? playlist : null;
+}
+
+/** Fetches the master playlist and, when it lists variants, the first variant's chunklist. */
+async function probe(stream: string): Promise<Probe> {
+  const master = new URL(`https://${VIDEO_SERVER}/live/${encodeURIComponent(stream)}.stream/playlist.m3u8`);
+  try {
+    const text = await playlist(master);
+    if (!text.startsWith('#EXTM3U')) return { chunklist: null, bandwidth: null, error: 'Not an HLS playlist' };
+    const variant = firstVariant(text);
+    // Some streams publish a media playlist directly instead of a master with variants.
+    const chunklist = parseChunklist(variant ? await playlist(new URL(variant.uri, master)) : text);
+    return { chunklist, bandwidth: variant?.bandwidth ?? null, ...(chunklist ? {} : { error: 'Playlist has no segments' }) };
+  } catch (error) {
+    return { chunklist: null, bandwidth: null, error: message(error) };
+  }
+}
+
+function verdict(result: Probe, previous: ProbeRow | undefined): StreamStatus {
+  const chunklist = result.chunklist;
+  if (!chunklist || chunklist.ended) return 'offline';
+  if (previous?.media_sequence == null) return 'unverified';
+  // Any change counts: a restarted encoder begins again from a lower sequence.
+  return chunklist.mediaSequence !== previous.media_sequence ? 'live' : 'stalled';
+}
+
+/**
+ * Probes up to `STREAM_PROBES_PER_TICK` streams, never-probed ones first and then those checked longest
+ * ago, and records each verdict in `stream_probes` and the camera health ledger.
+ */
+export async function probeStreams(env: StreamBindings, cameras: StreamCamera[], now = Date.now()): Promise<number> {
+  if (!env.HISTORY_DB) return 0;
+  const db = env.HISTORY_DB;
+  const rows = await db.prepare('SELECT camera_id, stream, status, checked_at, media_sequence, advanced_at FROM stream_probes').all<ProbeRow>();
+  const previous = new Map((rows.results ?? []).map((row) => [row.camera_id, row]));
+  const due = cameras
+    .filter((camera): camera is StreamCamera & { stream: string } => Boolean(camera.stream))
+    .map((camera) => {
+      const row = previous.get(camera.id);
+      // A camera that moved to another stream starts over.
+      return { camera, row: row?.stream === camera.stream ? row : undefined };
+    })
+    .sort((a, b) => (a.row?.checked_at ?? 0) - (b.row?.checked_at ?? 0))
+    .slice(0, STREAM_PROBES_PER_TICK);
+  const results = await Promise.all(due.map(async ({ camera, row }) => {
+    const result = await probe(camera.stream);
+    return { camera, row, result, status: verdict(result, row) };
+  }));
+
+  const outcomes: HealthOutcome[] = [];
+  const counts: Partial<Record<StreamStatus, number>> = {};
+  const statements = results.map(({ camera, row, result, status }) => {
+    counts[status] = (counts[status] ?? 0) + 1;
+    if (status !== 'unverified') outcomes.push({ cameraId: camera.id, kind: 'stream', ok: status === 'live' });
+    const chunklist = result.chunklist;
+    return db.prepare(
+      `INSERT OR REPLACE INTO stream_probes (camera_id, stream, status, checked_at, media_sequence, segments, target_duration, bandwidth, advanced_at, last_error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      camera.id, camera.stream, status, now,
+      chunklist?.mediaSequence ?? null, chunklist?.segments.length ?? null, chunklist?.targetDuration ?? null, result.bandwidth,
+      status === 'live' ? now : row?.advanced_at ?? null, result.error ?? (chunklist?.ended ? 'Stream ended' : null),
+    );
+  });
+  statements.push(db.prepare('DELETE FROM stream_probes WHERE checked_at < ?').bind(now - RETENTION_MS));
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+  try {
+    await recordHealth(env, outcomes, now);
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'health_record_error', kind: 'stream', message: message(error) }));
+  }
+  console.log(JSON.stringify({ event: 'stream_probe_tick', probed: results.length, ...counts }));
+  return results.length;
+}
+
+/** Recent verdicts by camera id; cameras without one keep the old behaviour of trusting `videoUrl`. */
+export async function streamStatuses(env: StreamBindings, now = Date.now()): Promise<Map<string, StreamStatus>> {
+  if (!env.HISTORY_DB) return new Map();
+  const result = await env.HISTORY_DB.prepare('SELECT camera_id, status FROM stream_probes WHERE checked_at > ?')
+    .bind(now - STATUS_MAX_AGE_MS).all<{ camera_id: string; status: StreamStatus }>();
+  return new Map((result.results ?? []).map((row) => [row.camera_id, row.status]));
+}
+
+/** `cameras` with `streamStatus` set from the latest probes. Lookup failures leave the cameras as they were. */
+export async function withStreamStatus<T extends StreamCamera>(env: StreamBindings, cameras: T[]): Promise<Array<T & { streamStatus?: StreamStatus }>> {
+  if (!env.HISTORY_DB || !cameras.some((camera) => camera.stream)) return cameras;
+  try {
+    const statuses = await streamStatuses(env);
+    return cameras.map((camera) => {
+      const streamStatus = camera.stream ? statuses.get(camera.id) : undefined;
+      return streamStatus ? { ...camera, streamStatus } : camera;
+    });
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'stream_status_error', message: message(error) }));
+    return cameras;
+  }
+}
@@ -0,0 +1,373 @@
+import { resolveCameraId } from './aliases';
+import { authorized, hex } from './auth';
+import { observationId, pulseSnapshot, type ConfidenceBand, type CorrelatedEvent, type Observation, type PulseSnapshot, type Severity } from './pulse';
+
+/**
+ * Pulse webhooks. Subscriptions are managed through `/api/subscriptions` with
+ * `Authorization: Bearer $SUBSCRIPTIONS_TOKEN`. After each capture tick the cron evaluates Pulse and
+ * queues one delivery per subscription and observation/event id, so an ongoing change is only sent once.
+ * Deliveries are POSTed with `X-Pulse-Signature: sha256=<HMAC of "<X-Pulse-Timestamp>.<body>">` under the
+ * subscription's secret and retried with exponential backoff.
+ */
+
+type SubscriptionD1Statement = {
+  bind: (...values: unknown[]) => SubscriptionD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type SubscriptionD1Database = {
+  prepare: (query: string) => SubscriptionD1Statement;
+  batch: (statements: SubscriptionD1Statement[]) => Promise<unknown>;
+};
+
+export type SubscriptionBindings = { HISTORY_DB?: SubscriptionD1Database; SUBSCRIPTIONS_TOKEN?: string };
+
+type BoundingBox = [west: number, south: number, east: number, north: number];
+type SubscriptionFilters = { cameras: string[]; collections: string[]; corridors: string[]; bbox: BoundingBox | null };
+
+type SubscriptionRow = {
+  id: string;
+  webhook_url: string;
+  secret: string;
+  filters: string;
+  min_severity: Severity;
+  min_confidence: ConfidenceBand;
+  created_at: number;
+  disabled_at: number | null;
+};
+
+type Subscription = Omit<SubscriptionRow, 'filters'> & { filters: SubscriptionFilters };
+
+type DeliveryRow = {
+  subscription_id: string;
+  event_id: string;
+  payload: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: number;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+};
+
+type SubscriptionCamera = { id: string; collections?: string[]; lat?: number; lng?: number };
+
+type Notification = {
+  id: string;
+  type: 'observation' | 'event';
+  severity: Severity;
+  confidence: ConfidenceBand;
+  cameraIds: string[];
+  corridors: string[];
+  points: { lat: number; lng: number }[];
+  data: Observation | CorrelatedEvent;
+};
+
+const RANK: Record<Severity, number> = { low: 0, moderate: 1, high: 2 };
+const MAX_SUBSCRIPTIONS = 50;
+const MAX_FILTER_VALUES = 100;
+const MAX_DELIVERIES_PER_TICK = 25;
+const DELIVERY_CONCURRENCY = 5;
+const DELIVERY_TIMEOUT_MS = 5000;
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000;
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const STATEMENT_BATCH = 50;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+async function sign(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return hex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+}
+
+function randomHex(bytes: number): string {
+  return hex(crypto.getRandomValues(new Uint8Array(bytes)).buffer as ArrayBuffer);
+}
+
+function fromRow(row: SubscriptionRow): Subscription {
+  return { ...row, filters: JSON.parse(row.filters) as SubscriptionFilters };
+}
+
+function describe(subscription: Subscription) {
+  return {
+    id: subscription.id,
+    webhookUrl: subscription.webhook_url,
+    filters: subscription.filters,
+    minSeverity: subscription.min_severity,
+    minConfidence: subscription.min_confidence,
+    createdAt: subscription.created_at,
+    disabledAt: subscription.disabled_at,
+  };
+}
+
+function stringList(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_FILTER_VALUES || !value.every((item) => typeof item === 'string' && item.length > 0 && item.length <= 180)) {
+    throw new Error(`${name} must be an array of at most ${MAX_FILTER_VALUES} strings`);
+  }
+  return [...new Set(value as string[])];
+}
+
+function webhookUrl(value: unknown): string {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    throw new Error('webhookUrl must be an absolute URL');
+  }
+  if (url.protocol !== 'https:') throw new Error('webhookUrl must use https');
+  if (url.hostname === 'localhost' || /^[\d.]+$|^\[.*\]$/.test(url.hostname) || url.username || url.password) throw new Error('webhookUrl must be a public hostname without credentials');
+  return url.toString();
+}
+
+function band(value: unknown, name: string): Severity {
+  if (value === undefined) return 'moderate';
+  if (typeof value !== 'string' || !(value in RANK)) throw new Error(`${name} must be low, moderate or high`);
+  return value as Severity;
+}
+
+async function parseSubscription(env: SubscriptionBindings, body: Record<string, unknown>) {
+  const bbox = body.bbox === undefined || body.bbox === null ? null : body.bbox;
+  if (bbox !== null && !(Array.isArray(bbox) && bbox.length === 4 && bbox.every(Number.isFinite) && bbox[0] < bbox[2] && bbox[1] < bbox[3])) {
+    throw new Error('bbox must be [west, south, east, north]');
+  }
+  const cameras = stringList(body.cameras, 'cameras');
+  return {
+    webhookUrl: webhookUrl(body.webhookUrl),
+    filters: {
+      // Store canonical IDs so a subscription keeps working after a camera is reidentified.
+      cameras: [...new Set(await Promise.all(cameras.map((id) => resolveCameraId(env, id))))],
+      collections: stringList(body.collections, 'collections'),
+      corridors: stringList(body.corridors, 'corridors').map((corridor) => corridor.toLowerCase()),
+      bbox: bbox as BoundingBox | null,
+    },
+    minSeverity: band(body.minSeverity, 'minSeverity'),
+    minConfidence: band(body.minConfidence, 'minConfidence') as ConfidenceBand,
+  };
+}
+
+async function createSubscription(request: Request, env: SubscriptionBindings, db: SubscriptionD1Database): Promise<Response> {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+  let parsed: Awaited<ReturnType<typeof parseSubscription>>;
+  try {
+    parsed = await parseSubscription(env, body ?? {});
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+  }
+  const count = await db.prepare('SELECT COUNT(*) AS count FROM pulse_subscriptions WHERE disabled_at IS NULL').first<{ count: number }>();
+  if ((count?.count ?? 0) >= MAX_SUBSCRIPTIONS) return json({ error: `At most ${MAX_SUBSCRIPTIONS} active subscriptions` }, { status: 409 });
+  const row: SubscriptionRow = {
+    id: `sub_${randomHex(12)}`,
+    webhook_url: parsed.webhookUrl,
+    secret: randomHex(32),
+    filters: JSON.stringify(parsed.filters),
+    min_severity: parsed.minSeverity,
+    min_confidence: parsed.minConfidence,
+    created_at: Date.now(),
+    disabled_at: null,
+  };
+  await db.prepare(
+    'INSERT INTO pulse_subscriptions (id, webhook_url, secret, filters, min_severity, min_confidence, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+  ).bind(row.id, row.webhook_url, row.secret, row.filters, row.min_severity, row.min_confidence, row.created_at).run();
+  console.log(JSON.stringify({ event: 'subscription_created', id: row.id, host: new URL(row.webhook_url).host }));
+  // The signing secret is only ever returned here.
+  return json({ ...describe(fromRow(row)), secret: row.secret }, { status: 201 });
+}
+
+export async function handleSubscriptionRequest(request: Request, url: URL, env: SubscriptionBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/subscriptions' && !url.pathname.startsWith('/api/subscriptions/')) return null;
+  if (!env.HISTORY_DB || !env.SUBSCRIPTIONS_TOKEN) return json({ error: 'Subscriptions are not configured' }, { status: 503 });
+  if (!(await authorized(request, env.SUBSCRIPTIONS_TOKEN))) return json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  const db = env.HISTORY_DB;
+
+  if (url.pathname === '/api/subscriptions') {
+    if (request.method === 'POST') return createSubscription(request, env, db);
+    if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, POST' } });
+    const result = await db.prepare('SELECT * FROM pulse_subscriptions ORDER BY created_at DESC').all<SubscriptionRow>();
+    return json({ subscriptions: (result.results ?? []).map((row) => describe(fromRow(row))) });
+  }
+
+  let id: string;
+  try {
+    id = decodeURIComponent(url.pathname.slice('/api/subscriptions/'.length));
+  } catch {
+    return json({ error: 'Invalid subscription id' }, { status: 400 });
+  }
+  const row = await db.prepare('SELECT * FROM pulse_subscriptions WHERE id = ?').bind(id).first<SubscriptionRow>();
+  if (!row) return json({ error: 'Subscription not found' }, { status: 404 });
+  if (request.method === 'DELETE') {
+    await db.batch([
+      db.prepare('UPDATE pulse_subscriptions SET disabled_at = COALESCE(disabled_at, ?) WHERE id = ?').bind(Date.now(), id),
+      db.prepare("UPDATE pulse_deliveries SET status = 'failed', last_error = 'subscription disabled' WHERE subscription_id = ? AND status = 'pending'").bind(id),
+    ]);
+    console.log(JSON.stringify({ event: 'subscription_disabled', id }));
+    return new Response(null, { status: 204 });
+  }
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, DELETE' } });
+  const deliveries = await db.prepare(
+    'SELECT event_id, status, attempts, next_attempt_at, last_status, last_error, created_at, delivered_at FROM pulse_deliveries WHERE subscription_id = ? ORDER BY created_at DESC LIMIT 50',
+  ).bind(id).all<Omit<DeliveryRow, 'subscription_id' | 'payload'>>();
+  return json({
+    ...describe(fromRow(row)),
+    deliveries: (deliveries.results ?? []).map((delivery) => ({
+      eventId: delivery.event_id,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.status === 'pending' ? delivery.next_attempt_at : null,
+      lastStatus: delivery.last_status,
+      lastError: delivery.last_error,
+      createdAt: delivery.created_at,
+      deliveredAt: delivery.delivered_at,
+    })),
+  });
+}
+
+function notifications({ items, events }: PulseSnapshot): Notification[] {
+  const point = (lat: number | null, lng: number | null) => (lat != null && lng != null ? [{ lat, lng }] : []);
+  const byCamera = new Map(items.map((item) => [item.cameraId, item]));
+  return [
+    ...items.map((item): Notification => ({
+      id: item.id ?? observationId(item),
+      type: 'observation',
+      severity: item.severity,
+      confidence: item.confidence,
+      cameraIds: [item.cameraId],
+      corridors: item.corridor ? [item.corridor.toLowerCase()] : [],
+      points: point(item.latitude, item.longitude),
+      data: item,
+    })),
+    ...events.map((event): Notification => {
+      const members = event.cameraIds.map((id) => byCamera.get(id)).filter((item): item is Observation => Boolean(item));
+      return {
+        id: event.id,
+        type: 'event',
+        severity: event.severity,
+        confidence: event.confidence,
+        cameraIds: event.cameraIds,
+        corridors: members.flatMap((item) => (item.corridor ? [item.corridor.toLowerCase()] : [])),
+        points: members.flatMap((item) => point(item.latitude, item.longitude)),
+        data: event,
+      };
+    }),
+  ];
+}
+
+/**
+ * Camera, collection and corridor filters select cameras (any of them may match); the bounding box then
+ * narrows that selection. A subscription without filters receives everything above its thresholds.
+ */
+function matches(subscription: Subscription, notification: Notification, cameras: Map<string, SubscriptionCamera>): boolean {
+  if (RANK[notification.severity] < RANK[subscription.min_severity] || RANK[notification.confidence] < RANK[subscription.min_confidence]) return false;
+  const { cameras: ids, collections, corridors, bbox } = subscription.filters;
+  if (ids.length || collections.length || corridors.length) {
+    const selected = notification.cameraIds.some((id) => ids.includes(id) || (cameras.get(id)?.collections ?? []).some((collection) => collections.includes(collection)))
+      || notification.corridors.some((corridor) => corridors.includes(corridor));
+    if (!selected) return false;
+  }
+  if (bbox) {
+    const [west, south, east, north] = bbox;
+    if (!notification.points.some(({ lat, lng }) => lng >= west && lng <= east && lat >= south && lat <= north)) return false;
+  }
+  return true;
+}
+
+async function queueDeliveries(db: SubscriptionD1Database, subscriptions: Subscription[], cameras: SubscriptionCamera[], now: number, snapshot?: PulseSnapshot): Promise<number> {
+  const candidates = notifications(snapshot ?? await pulseSnapshot({ HISTORY_DB: db }, now));
+  if (!candidates.length) return 0;
+  const existing = await db.prepare('SELECT subscription_id, event_id FROM pulse_deliveries WHERE event_id IN (SELECT value FROM json_each(?))')
+    .bind(JSON.stringify(candidates.map((candidate) => candidate.id)))
+    .all<{ subscription_id: string; event_id: string }>();
+  const seen = new Set((existing.results ?? []).map((row) => `${row.subscription_id}\n${row.event_id}`));
+  const cameraMap = new Map(cameras.map((camera) => [camera.id, camera]));
+  const statements: SubscriptionD1Statement[] = [];
+  for (const subscription of subscriptions) {
+    for (const candidate of candidates) {
+      if (seen.has(`${subscription.id}\n${candidate.id}`) || !matches(subscription, candidate, cameraMap)) continue;
+      const payload = JSON.stringify({ id: candidate.id, type: candidate.type, subscriptionId: subscription.id, sentAt: now, [candidate.type]: candidate.data });
+      statements.push(db.prepare(
+        "INSERT OR IGNORE INTO pulse_deliveries (subscription_id, event_id, payload, status, attempts, next_attempt_at, created_at) VALUES (?, ?, ?, 'pending', 0, ?, ?)",
+      ).bind(subscription.id, candidate.id, payload, now, now));
+    }
+  }
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+  return statements.length;
+}
+
+async function deliver(db: SubscriptionD1Database, delivery: DeliveryRow, subscription: Subscription, now: number): Promise<boolean> {
+  const attempt = delivery.attempts + 1;
+  const timestamp = String(Math.floor(now / 1000));
+  let status: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(subscription.webhook_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'seattle-traffic-pulse-webhooks/1',
+        'X-Pulse-Event-Id': delivery.event_id,
+        'X-Pulse-Delivery-Attempt': String(attempt),
+        'X-Pulse-Timestamp': timestamp,
+        'X-Pulse-Signature': `sha256=${await sign(subscription.secret, `${timestamp}.${delivery.payload}`)}`,
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    status = response.status;
+    if (!response.ok) error = `HTTP ${response.status}`;
+  } catch (reason) {
+    error = reason instanceof Error ? reason.message : String(reason);
+  }
+  if (!error) {
+    await db.prepare("UPDATE pulse_deliveries SET status = 'delivered', attempts = ?, last_status = ?, last_error = NULL, delivered_at = ? WHERE subscription_id = ? AND event_id = ?")
+      .bind(attempt, status, now, delivery.subscription_id, delivery.event_id).run();
+    return true;
+  }
+  // 4xx other than 408/429 means the receiver rejected this payload; retrying will not change that.
+  const permanent = status !== null && status >= 400 && status < 500 && status !== 408 && status !== 429;
+  const exhausted = permanent || attempt >= MAX_ATTEMPTS;
+  await db.prepare('UPDATE pulse_deliveries SET status = ?, attempts = ?, next_attempt_at = ?, last_status = ?, last_error = ? WHERE subscription_id = ? AND event_id = ?')
+    .bind(exhausted ? 'failed' : 'pending', attempt, now + RETRY_BASE_MS * 2 ** (attempt - 1), status, error.slice(0, 500), delivery.subscription_id, delivery.event_id).run();
+  console.error(JSON.stringify({ event: 'subscription_delivery_error', subscription: subscription.id, eventId: delivery.event_id, attempt, status, message: error, final: exhausted }));
+  return false;
+}
+
+/**
+ * Queues new Pulse notifications for every active subscription and sends whatever is due. Runs from the
+ * cron after capture; pass the materialized snapshot so notifications carry persisted episode and event ids.
+ */
+export async function notifySubscribers(env: SubscriptionBindings, cameras: SubscriptionCamera[], now = Date.now(), snapshot?: PulseSnapshot): Promise<void> {
+  if (!env.HISTORY_DB) return;
+  const db = env.HISTORY_DB;
+  const result = await db.prepare('SELECT * FROM pulse_subscriptions WHERE disabled_at IS NULL').all<SubscriptionRow>();
+  const subscriptions = (result.results ?? []).map(fromRow);
+  const queued = subscriptions.length ? await queueDeliveries(db, subscriptions, cameras, now, snapshot) : 0;
+
+  const due = await db.prepare("SELECT * FROM pulse_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?")
+    .bind(now, MAX_DELIVERIES_PER_TICK).all<DeliveryRow>();
+  const byId = new Map(subscriptions.map((subscription) => [subscription.id, subscription]));
+  const pending = (due.results ?? []).filter((delivery) => byId.has(delivery.subscription_id));
+  let delivered = 0;
+  for (let start = 0; start < pending.length; start += DELIVERY_CONCURRENCY) {
+    const results = await Promise.all(pending.slice(start, start + DELIVERY_CONCURRENCY).map((delivery) => deliver(db, delivery, byId.get(delivery.subscription_id)!, now)));
+    delivered += results.filter(Boolean).length;
+  }
+  await db.prepare("DELETE FROM pulse_deliveries WHERE created_at < ? AND status != 'pending'").bind(now - DELIVERY_RETENTION_MS).run();
+  if (queued || pending.length) console.log(JSON.stringify({ event: 'subscription_tick', subscriptions: subscriptions.length, queued, attempted: pending.length, delivered }));
+}
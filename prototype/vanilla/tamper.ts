@@ -0,0 +1,271 @@
+import { resolveCameraId } from './aliases';
+
+/**
+ * Camera tamper and outage detection over stored snapshots. A camera is labelled:
+ * - `placeholder` when it serves the same image as several other cameras, or a flat mid-grey frame
+ *   (the "camera unavailable" card);
+ * - `blank` when the frame is near-uniform black or white;
+ * - `frozen` when the same bytes have been served for over an hour;
+ * - `repositioned` when the latest captures agree on a view that is stable but clearly different from
+ *   the stable view before it, without the overall brightness shift that dusk or dawn would bring.
+ *
+ * The cron labels every camera each tick over `TAMPER_WINDOW_MS` and stores the labels in `camera_issues`, which
+ * `/api/health/cameras`, the client's `issues` collection and Pulse read, so no request scans snapshots for them.
+ */
+
+type TamperD1Statement = {
+  bind: (...values: unknown[]) => TamperD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type TamperD1Database = {
+  prepare: (query: string) => TamperD1Statement;
+  batch: (statements: TamperD1Statement[]) => Promise<unknown>;
+};
+
+export type TamperBindings = { HISTORY_DB?: TamperD1Database };
+
+export type CameraIssue = 'frozen' | 'blank' | 'placeholder' | 'repositioned';
+
+export type TamperRow = {
+  camera_id: string;
+  camera_label: string;
+  captured_at: number;
+  sha256: string;
+  visual_fingerprint: string | null;
+  mean_luma: number | null;
+  visual_contrast: number | null;
+};
+
+export type CameraHealthReport = {
+  cameraId: string;
+  label: string;
+  issue: CameraIssue;
+  since: number;
+  lastCapturedAt: number;
+  captures: number;
+  detail: string;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_FILTER_CAMERAS = 100;
+const FROZEN_AFTER_MS = HOUR_MS;
+/** Snapshots `classifyCameras` needs: a frozen run has to be seen starting before the hour it must last. */
+export const TAMPER_WINDOW_MS = 2 * HOUR_MS;
+// Static cameras are captured less often (see cadence.ts), so an hour may hold only a few captures.
+const FROZEN_MIN_CAPTURES = 3;
+const BLANK_MAX_CONTRAST = 4;
+const BLANK_DARK_LUMA = 12;
+const BLANK_BRIGHT_LUMA = 243;
+const PLACEHOLDER_MAX_CONTRAST = 10;
+const PLACEHOLDER_SHARED_CAMERAS = 3;
+const REPOSITION_DIFFERENCE = 0.18;
+const REPOSITION_MAX_BRIGHTNESS = 0.12;
+const STABLE_DIFFERENCE = 0.1;
+const STABLE_SHARE = 0.7;
+const MIN_VIEW_CAPTURES = 3;
+const PREVIOUS_VIEW_CAPTURES = 12;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'public, max-age=30, s-maxage=60');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function decodeFingerprint(value: string | null): number[] | null {
+  if (!value) return null;
+  try {
+    const raw = atob(value);
+    return raw.length ? Array.from(raw, (char) => char.charCodeAt(0)) : null;
+  } catch {
+    return null;
+  }
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function medianFingerprint(fingerprints: number[][]): number[] {
+  return fingerprints[0].map((_, index) => median(fingerprints.map((pixels) => pixels[index])));
+}
+
+function difference(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + Math.abs(value - b[index]), 0) / (a.length * 255);
+}
+
+/** The earliest capture of the trailing run of rows that all satisfy `test`. */
+function runStart(rows: TamperRow[], test: (row: TamperRow) => boolean): { since: number; captures: number } | null {
+  let index = rows.length;
+  while (index > 0 && test(rows[index - 1])) index -= 1;
+  return index < rows.length ? { since: rows[index].captured_at, captures: rows.length - index } : null;
+}
+
+function isBlank(row: TamperRow): boolean {
+  if (row.mean_luma == null || row.visual_contrast == null) return false;
+  return row.visual_contrast <= BLANK_MAX_CONTRAST && (row.mean_luma <= BLANK_DARK_LUMA || row.mean_luma >= BLANK_BRIGHT_LUMA);
+}
+
+function isFlatGrey(row: TamperRow): boolean {
+  if (row.mean_luma == null || row.visual_contrast == null) return false;
+  return row.visual_contrast <= PLACEHOLDER_MAX_CONTRAST && row.mean_luma > BLANK_DARK_LUMA && row.mean_luma < BLANK_BRIGHT_LUMA;
+}
+
+function repositioned(rows: TamperRow[]): { since: number; captures: number; difference: number } | null {
+  const visual = rows
+    .map((row) => ({ row, pixels: decodeFingerprint(row.visual_fingerprint) }))
+    .filter((item): item is { row: TamperRow; pixels: number[] } => Boolean(item.pixels));
+  if (visual.length < MIN_VIEW_CAPTURES * 2) return null;
+  const length = visual[visual.length - 1].pixels.length;
+  if (visual.some((item) => item.pixels.length !== length)) return null;
+
+  const current = medianFingerprint(visual.slice(-MIN_VIEW_CAPTURES).map((item) => item.pixels));
+  let start = visual.length;
+  while (start > 0 && difference(visual[start - 1].pixels, current) <= STABLE_DIFFERENCE) start -= 1;
+  if (visual.length - start < MIN_VIEW_CAPTURES || start < MIN_VIEW_CAPTURES) return null;
+
+  const before = visual.slice(Math.max(0, start - PREVIOUS_VIEW_CAPTURES), start);
+  const previous = medianFingerprint(before.map((item) => item.pixels));
+  const stable = before.filter((item) => difference(item.pixels, previous) <= STABLE_DIFFERENCE).length / before.length;
+  const jump = difference(current, previous);
+  const brightness = Math.abs(median(current) - median(previous)) / 255;
+  if (stable < STABLE_SHARE || jump < REPOSITION_DIFFERENCE || brightness > REPOSITION_MAX_BRIGHTNESS) return null;
+  return { since: visual[start].row.captured_at, captures: visual.length - start, difference: jump };
+}
+
+/**
+ * Labels each camera from its snapshots, oldest first. `sharedHashes` counts how many cameras' latest
+ * frame has each sha256; the same bytes on several cameras is the provider's placeholder card.
+ */
+export function classifyCamera(rows: TamperRow[], now: number, sharedHashes: Map<string, number>): CameraHealthReport | null {
+  const latest = rows[rows.length - 1];
+  if (!latest) return null;
+  const report = (issue: CameraIssue, run: { since: number; captures: number }, detail: string): CameraHealthReport => ({
+    cameraId: latest.camera_id,
+    label: latest.camera_label,
+    issue,
+    since: run.since,
+    lastCapturedAt: latest.captured_at,
+    captures: run.captures,
+    detail,
+  });
+
+  const shared = sharedHashes.get(latest.sha256) ?? 0;
+  if (shared >= PLACEHOLDER_SHARED_CAMERAS) {
+    const run = runStart(rows, (row) => row.sha256 === latest.sha256)!;
+    return report('placeholder', run, `Serving the same image as ${shared - 1} other cameras`);
+  }
+  if (isFlatGrey(latest)) return report('placeholder', runStart(rows, isFlatGrey)!, 'Serving a flat grey frame');
+  if (isBlank(latest)) {
+    return report('blank', runStart(rows, isBlank)!, (latest.mean_luma ?? 0) <= BLANK_DARK_LUMA ? 'Serving a black frame' : 'Serving a white frame');
+  }
+  const frozen = runStart(rows, (row) => row.sha256 === latest.sha256)!;
+  if (frozen.captures >= FROZEN_MIN_CAPTURES && now - frozen.since >= FROZEN_AFTER_MS) {
+    return report('frozen', frozen, `Same frame for ${Math.round((now - frozen.since) / 60000)} minutes`);
+  }
+  const moved = repositioned(rows);
+  if (moved) return report('repositioned', moved, `View changed by ${Math.round(moved.difference * 100)}% and has held for ${moved.captures} captures`);
+  return null;
+}
+
+/** Snapshot rows grouped per camera, oldest first. */
+export function classifyCameras(grouped: Map<string, TamperRow[]>, now: number): Map<string, CameraHealthReport> {
+  const sharedHashes = new Map<string, number>();
+  for (const rows of grouped.values()) {
+    const latest = rows[rows.length - 1];
+    if (latest) sharedHashes.set(latest.sha256, (sharedHashes.get(latest.sha256) ?? 0) + 1);
+  }
+  const reports = new Map<string, CameraHealthReport>();
+  for (const [cameraId, rows] of grouped) {
+    const report = classifyCamera(rows, now, sharedHashes);
+    if (report) reports.set(cameraId, report);
+  }
+  return reports;
+}
+
+type IssueRow = {
+  camera_id: string;
+  label: string;
+  issue: CameraIssue;
+  since: number;
+  last_captured_at: number;
+  captures: number;
+  detail: string;
+  checked_at: number;
+};
+
+/**
+ * Classifies every camera over the tamper window and replaces the stored labels with the result. Cron only:
+ * placeholder detection compares cameras with each other, so every camera's recent snapshots are read.
+ */
+export async function refreshCameraIssues(env: TamperBindings, now = Date.now()): Promise<CameraHealthReport[]> {
+  if (!env.HISTORY_DB) return [];
+  const db = env.HISTORY_DB;
+  const result = await db.prepare(`
+    SELECT COALESCE(a.camera_id, s.camera_id) AS camera_id, s.camera_label, s.captured_at, s.sha256,
+           s.visual_fingerprint, s.mean_luma, s.visual_contrast
+      FROM camera_snapshots s
+      LEFT JOIN camera_aliases a ON a.alias = s.camera_id
+     WHERE s.captured_at >= ?
+     ORDER BY 1 ASC, s.captured_at ASC
+  `).bind(now - TAMPER_WINDOW_MS).all<TamperRow>();
+  const grouped = new Map<string, TamperRow[]>();
+  for (const row of result.results ?? []) {
+    const rows = grouped.get(row.camera_id) ?? [];
+    rows.push(row);
+    grouped.set(row.camera_id, rows);
+  }
+
+  const reports = [...classifyCameras(grouped, now).values()];
+  await db.batch([
+    db.prepare('DELETE FROM camera_issues'),
+    ...reports.map((report) => db.prepare(
+      `INSERT INTO camera_issues (camera_id, label, issue, since, last_captured_at, captures, detail, checked_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).bind(report.cameraId, report.label, report.issue, report.since, report.lastCapturedAt, report.captures, report.detail, now)),
+  ]);
+  return reports;
+}
+
+/** Cameras the last cron tick labelled, which Pulse leaves out of its scene changes. */
+export async function issueCameraIds(db: { prepare: (query: string) => { all: <T>() => Promise<{ results?: T[] }> } }): Promise<Set<string>> {
+  const result = await db.prepare('SELECT camera_id FROM camera_issues').all<{ camera_id: string }>();
+  return new Set((result.results ?? []).map((row) => row.camera_id));
+}
+
+export async function handleCameraHealthRequest(request: Request, url: URL, env: TamperBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/health/cameras') return null;
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  if (!env.HISTORY_DB) return json({ error: 'Camera history is not configured' }, { status: 503 });
+  const requested = (url.searchParams.get('cameras') ?? url.searchParams.get('camera') ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  if (requested.length > MAX_FILTER_CAMERAS) return json({ error: `At most ${MAX_FILTER_CAMERAS} cameras per request` }, { status: 400 });
+  const wanted = requested.length ? new Set(await Promise.all(requested.map((id) => resolveCameraId(env, id)))) : null;
+
+  const result = await env.HISTORY_DB.prepare('SELECT * FROM camera_issues ORDER BY since ASC').all<IssueRow>();
+  const rows = result.results ?? [];
+  const reports: CameraHealthReport[] = rows
+    .filter((row) => !wanted || wanted.has(row.camera_id))
+    .map((row) => ({
+      cameraId: row.camera_id,
+      label: row.label,
+      issue: row.issue,
+      since: row.since,
+      lastCapturedAt: row.last_captured_at,
+      captures: row.captures,
+      detail: row.detail,
+    }));
+  const counts: Record<CameraIssue, number> = { frozen: 0, blank: 0, placeholder: 0, repositioned: 0 };
+  for (const report of reports) counts[report.issue] += 1;
+  return json({
+    generatedAt: Math.max(0, ...rows.map((row) => row.checked_at)) || null,
+    windowHours: TAMPER_WINDOW_MS / HOUR_MS,
+    counts,
+    cameras: reports,
+  });
+}
@@ -0,0 +1,235 @@
+import { CAMERA_ID_MATCH, resolveCameraId } from './aliases';
+import { encodeGif } from './gif';
+import { hasBindings, parseTime, safeCameraId, type HistoryBindings, type ReadyHistoryBindings } from './history';
+import { decodePng, encodePng, type RgbImage } from './png';
+import { maxRetentionMs, retentionConfig } from './retention';
+import { muxAnimatedWebp, parseWebp } from './webp';
+
+type TimelapseFormat = 'webp' | 'gif';
+type FrameRow = { frame_at: number; r2_key: string };
+
+const TIMELAPSE_PREFIX = 'timelapses/';
+const RENDER_VERSION = 1;
+const MAX_FRAMES: Record<TimelapseFormat, number> = { webp: 120, gif: 60 };
+const GIF_WIDTH = 320;
+const FETCH_CONCURRENCY = 8;
+const STAMP_SCALE = 2;
+const STAMP_MARGIN = 8;
+const CONTENT_TYPES: Record<TimelapseFormat, string> = { webp: 'image/webp', gif: 'image/gif' };
+
+// 5×7 glyphs, one 5-bit row per entry, for the characters a Seattle timestamp needs.
+const GLYPHS: Record<string, number[]> = {
+  0: [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  1: [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  2: [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  3: [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  4: [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  5: [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  6: [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  7: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  8: [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  9: [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  '-': [0, 0, 0, 0x1f, 0, 0, 0],
+  '+': [0, 0x04, 0x04, 0x1f, 0x04, 0x04, 0],
+  ':': [0, 0x0c, 0x0c, 0, 0x0c, 0x0c, 0],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+};
+
+const STAMP_FORMAT = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/Los_Angeles',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+  timeZoneName: 'short',
+});
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function stampText(capturedAt: number): string {
+  const parts = Object.fromEntries(STAMP_FORMAT.formatToParts(new Date(capturedAt)).map((part) => [part.type, part.value]));
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute} ${parts.timeZoneName}`;
+}
+
+/** Renders text to a mask with a one-glyph-gap border; 1 marks ink. */
+function stampMask(text: string): { width: number; height: number; mask: Uint8Array } {
+  const pad = 3 * STAMP_SCALE;
+  const width = pad * 2 + text.length * 6 * STAMP_SCALE - STAMP_SCALE;
+  const height = pad * 2 + 7 * STAMP_SCALE;
+  const mask = new Uint8Array(width * height);
+  [...text].forEach((char, index) => {
+    const rows = GLYPHS[char];
+    if (!rows) return;
+    rows.forEach((row, y) => {
+      for (let x = 0; x < 5; x += 1) {
+        if (!(row & (0x10 >> x))) continue;
+        for (let dy = 0; dy < STAMP_SCALE; dy += 1) {
+          for (let dx = 0; dx < STAMP_SCALE; dx += 1) {
+            mask[(pad + y * STAMP_SCALE + dy) * width + pad + (index * 6 + x) * STAMP_SCALE + dx] = 1;
+          }
+        }
+      }
+    });
+  });
+  return { width, height, mask };
+}
+
+function burnStamp(image: RgbImage, text: string): void {
+  const stamp = stampMask(text);
+  const left = STAMP_MARGIN;
+  const top = image.height - stamp.height - STAMP_MARGIN;
+  for (let y = 0; y < stamp.height; y += 1) {
+    for (let x = 0; x < stamp.width; x += 1) {
+      const px = left + x;
+      const py = top + y;
+      if (px < 0 || py < 0 || px >= image.width || py >= image.height) continue;
+      const offset = (py * image.width + px) * 3;
+      for (let c = 0; c < 3; c += 1) {
+        image.pixels[offset + c] = stamp.mask[y * stamp.width + x] ? 255 : Math.round(image.pixels[offset + c] * 0.3);
+      }
+    }
+  }
+}
+
+async function stampOverlay(text: string): Promise<Uint8Array> {
+  const stamp = stampMask(text);
+  const rgba = new Uint8Array(stamp.width * stamp.height * 4);
+  for (let i = 0; i < stamp.mask.length; i += 1) rgba.set(stamp.mask[i] ? [255, 255, 255, 255] : [2, 6, 23, 180], i * 4);
+  return encodePng(stamp.width, stamp.height, rgba);
+}
+
+async function loadFrames(env: ReadyHistoryBindings, rows: FrameRow[]): Promise<(ArrayBuffer | null)[]> {
+  const frames: (ArrayBuffer | null)[] = new Array(rows.length).fill(null);
+  for (let start = 0; start < rows.length; start += FETCH_CONCURRENCY) {
+    await Promise.all(rows.slice(start, start + FETCH_CONCURRENCY).map(async (row, offset) => {
+      const object = await env.HISTORY_BUCKET.get(row.r2_key);
+      if (object) frames[start + offset] = await new Response(object.body).arrayBuffer();
+    }));
+  }
+  return frames;
+}
+
+async function renderWebp(env: ReadyHistoryBindings, rows: FrameRow[], buffers: (ArrayBuffer | null)[], fps: number, stamp: boolean): Promise<Uint8Array | null> {
+  const frames = [];
+  for (const [index, buffer] of buffers.entries()) {
+    if (!buffer) continue;
+    let bytes = buffer;
+    if (stamp && env.IMAGES) {
+      const overlay = await stampOverlay(stampText(rows[index].frame_at));
+      const output = await env.IMAGES.input(new Response(buffer).body!)
+        .draw(env.IMAGES.input(new Response(overlay).body!), { left: STAMP_MARGIN, bottom: STAMP_MARGIN })
+        .output({ format: 'image/webp', quality: 70 });
+      bytes = await output.response().arrayBuffer();
+    }
+    const frame = parseWebp(bytes);
+    if (frame) frames.push(frame);
+  }
+  return frames.length ? muxAnimatedWebp(frames, 1000 / fps) : null;
+}
+
+async function renderGif(env: ReadyHistoryBindings, rows: FrameRow[], buffers: (ArrayBuffer | null)[], fps: number, stamp: boolean): Promise<Uint8Array | null> {
+  if (!env.IMAGES) return null;
+  const frames: RgbImage[] = [];
+  for (const [index, buffer] of buffers.entries()) {
+    if (!buffer) continue;
+    const output = await env.IMAGES.input(new Response(buffer).body!)
+      .transform({ width: GIF_WIDTH, fit: 'scale-down' })
+      .output({ format: 'image/png' });
+    const image = await decodePng(await output.response().arrayBuffer());
+    // GIF frames share one logical screen, so drop any frame whose size changed mid-range.
+    if (!image || (frames.length && (image.width !== frames[0].width || image.height !== frames[0].height))) continue;
+    if (stamp) burnStamp(image, stampText(rows[index].frame_at));
+    frames.push(image);
+  }
+  if (!frames.length) return null;
+  return encodeGif(frames[0].width, frames[0].height, frames.map((frame) => frame.pixels), 1000 / fps);
+}
+
+async function cacheKey(parts: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * `/api/history/timelapse?camera=&from=&to=&fps=&format=webp|gif&stamp=1` assembles stored frames into
+ * a looping animation. Output is cached under `timelapses/` in HISTORY_BUCKET, keyed by a hash of the
+ * frame keys and render options, so the same range is only rendered once; expire that prefix with a
+ * bucket lifecycle rule.
+ */
+export async function handleTimelapseRequest(request: Request, url: URL, env: HistoryBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/history/timelapse') return null;
+  if (request.method !== 'GET' && request.method !== 'HEAD') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+  if (!hasBindings(env)) return json({ error: 'History is not configured yet' }, { status: 503 });
+
+  const params = url.searchParams;
+  const requestedId = safeCameraId(params.get('camera'));
+  if (!requestedId) return json({ error: 'Invalid camera id' }, { status: 400 });
+  const format = params.get('format') || 'webp';
+  if (format !== 'webp' && format !== 'gif') return json({ error: 'format must be webp or gif' }, { status: 400 });
+  // Whole frames per second only, so `fps=8.0001` and `fps=8` share one cached render.
+  const fps = Math.round(Math.min(Math.max(Number(params.get('fps') || 8), 1), 30));
+  if (!Number.isFinite(fps)) return json({ error: 'fps must be a number' }, { status: 400 });
+  const stamp = ['1', 'true'].includes(params.get('stamp') ?? '');
+  const now = Date.now();
+  const toParam = parseTime(params.get('to'));
+  const fromParam = parseTime(params.get('from'));
+  if (Number.isNaN(toParam) || Number.isNaN(fromParam)) return json({ error: 'from and to must be ISO 8601 or epoch timestamps' }, { status: 400 });
+  const to = Math.min(toParam ?? now, now);
+  const from = Math.max(fromParam ?? to - Math.max(Number(params.get('hours') || 6), 0.1) * 60 * 60 * 1000, now - maxRetentionMs(retentionConfig(env)));
+  if (!(from < to)) return json({ error: 'from must be before to' }, { status: 400 });
+  if ((format === 'gif' || stamp) && !env.IMAGES) return json({ error: 'GIF and timestamp rendering need the Images binding' }, { status: 503 });
+
+  const cameraId = await resolveCameraId(env, requestedId);
+  const limit = MAX_FRAMES[format];
+  const stepMs = Math.max(Math.floor((to - from) / limit), 1);
+  const result = await env.HISTORY_DB.prepare(
+    `SELECT MIN(captured_at) AS frame_at, r2_key
+       FROM camera_snapshots
+      WHERE ${CAMERA_ID_MATCH} AND captured_at >= ? AND captured_at < ?
+      GROUP BY CAST(captured_at / ? AS INTEGER)
+      ORDER BY frame_at ASC
+      LIMIT ?`,
+  ).bind(cameraId, cameraId, from, to, stepMs, limit).all<FrameRow>();
+  // Unchanged captures share an R2 object; collapse runs of them so the animation only shows changes.
+  const rows = (result.results ?? []).filter((row, index, all) => index === 0 || all[index - 1].r2_key !== row.r2_key);
+  if (!rows.length) return json({ error: 'No frames in range' }, { status: 404 });
+
+  const key = `${TIMELAPSE_PREFIX}${await cacheKey({ v: RENDER_VERSION, format, fps, stamp, frames: rows.map((row) => [row.r2_key, stamp ? row.frame_at : 0]) })}.${format}`;
+  const headers = new Headers({
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `inline; filename="${cameraId.replace(/[^a-z0-9._-]+/gi, '_')}-timelapse.${format}"`,
+    // A range that ends in the past always resolves to the same frames.
+    'Cache-Control': to < now - 10 * 60 * 1000 ? 'public, max-age=86400' : 'public, max-age=60',
+    'X-Timelapse-Frames': String(rows.length),
+  });
+  const cached = await env.HISTORY_BUCKET.get(key);
+  if (cached) {
+    headers.set('X-Timelapse-Cache', 'hit');
+    return new Response(request.method === 'HEAD' ? null : cached.body, { headers });
+  }
+
+  const buffers = await loadFrames(env, rows);
+  const rendered = format === 'gif' ? await renderGif(env, rows, buffers, fps, stamp) : await renderWebp(env, rows, buffers, fps, stamp);
+  if (!rendered) return json({ error: 'Frames could not be rendered' }, { status: 502 });
+  await env.HISTORY_BUCKET.put(key, rendered.buffer as ArrayBuffer, {
+    httpMetadata: { contentType: CONTENT_TYPES[format], cacheControl: 'public, max-age=31536000, immutable' },
+    customMetadata: { cameraId, from: String(from), to: String(to), frames: String(rows.length) },
+  });
+  console.log(JSON.stringify({ event: 'timelapse_rendered', camera: cameraId, format, frames: rows.length, bytes: rendered.byteLength }));
+  headers.set('X-Timelapse-Cache', 'miss');
+  return new Response(request.method === 'HEAD' ? null : rendered, { headers });
+}
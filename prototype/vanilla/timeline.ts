@@ -0,0 +1,342 @@
+import { parseTime } from './history';
+import { observationId, pulseSnapshot, type Observation, type ObservationState, type PulseSnapshot } from './pulse';
+
+/**
+ * Pulse timeline. The cron materializes each camera's episode of change into `pulse_observations`, with
+ * every state change in `pulse_observation_states`, and correlated events into `pulse_events`. An episode
+ * or event closes once it has not been seen for `CLOSE_GRACE_MS`, so one noisy tick does not split it.
+ * `/api/pulse/events` lists both and `/api/pulse/events/:id` returns one timeline with its evidence frames.
+ */
+
+type TimelineD1Statement = {
+  bind: (...values: unknown[]) => TimelineD1Statement;
+  first: <T>() => Promise<T | null>;
+  all: <T>() => Promise<{ results?: T[] }>;
+  run: () => Promise<unknown>;
+};
+
+type TimelineD1Database = {
+  prepare: (query: string) => TimelineD1Statement;
+  batch: (statements: TimelineD1Statement[]) => Promise<unknown>;
+};
+
+export type TimelineBindings = { HISTORY_DB?: TimelineD1Database };
+
+type ObservationRow = {
+  id: string;
+  camera_id: string;
+  label: string;
+  corridor: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  state: string;
+  change_type: string;
+  severity: string;
+  confidence: string;
+  score: number;
+  peak_score: number;
+  opened_at: number;
+  last_seen_at: number;
+  closed_at: number | null;
+  latest: string;
+};
+
+type EventRow = {
+  id: string;
+  title: string;
+  detail: string;
+  severity: string;
+  confidence: string;
+  center_lat: number | null;
+  center_lng: number | null;
+  camera_ids: string;
+  peak_camera_count: number;
+  opened_at: number;
+  last_seen_at: number;
+  closed_at: number | null;
+};
+
+type StateRow = { observation_id: string; entered_at: number; state: string; change_type: string; severity: string; score: number };
+type FrameRow = { camera: string; frame_at: number; r2_key: string; sha256: string; is_duplicate: number };
+
+const CLOSE_GRACE_MS = 10 * 60 * 1000;
+const TIMELINE_RETENTION_MS = 365 * 24 * 60 * 60 * 1000;
+const STATEMENT_BATCH = 50;
+const MAX_LIST_LIMIT = 100;
+const FRAMES_PER_CAMERA = 24;
+const EVIDENCE_PADDING_MS = 10 * 60 * 1000;
+
+function json(data: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json; charset=utf-8');
+  headers.set('Cache-Control', 'public, max-age=20, s-maxage=45, stale-while-revalidate=90');
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+async function runBatched(db: TimelineD1Database, statements: TimelineD1Statement[]): Promise<void> {
+  for (let index = 0; index < statements.length; index += STATEMENT_BATCH) {
+    await db.batch(statements.slice(index, index + STATEMENT_BATCH));
+  }
+}
+
+function overlap(a: string[], b: Set<string>): number {
+  return a.filter((id) => b.has(id)).length;
+}
+
+/** The state of each camera's open episode as the last tick stored it, so the cron need not rank Pulse twice. */
+export async function openObservationStates(env: TimelineBindings): Promise<Map<string, ObservationState>> {
+  if (!env.HISTORY_DB) return new Map();
+  const result = await env.HISTORY_DB.prepare('SELECT camera_id, state FROM pulse_observations WHERE closed_at IS NULL').all<{ camera_id: string; state: ObservationState }>();
+  return new Map((result.results ?? []).map((row) => [row.camera_id, row.state]));
+}
+
+/**
+ * Folds the current Pulse snapshot into the persisted episodes and events and returns it with
+ * persisted ids: observations gain `id`, and a correlated event keeps the id of the open event it
+ * continues even when Pulse anchors it on a different camera.
+ */
+export async function materializePulse(env: TimelineBindings, now = Date.now()): Promise<PulseSnapshot> {
+  const snapshot = await pulseSnapshot(env, now);
+  if (!env.HISTORY_DB) return snapshot;
+  const db = env.HISTORY_DB;
+  const [openObservations, openEvents] = await Promise.all([
+    db.prepare('SELECT * FROM pulse_observations WHERE closed_at IS NULL').all<ObservationRow>(),
+    db.prepare('SELECT * FROM pulse_events WHERE closed_at IS NULL').all<EventRow>(),
+  ]);
+  const statements: TimelineD1Statement[] = [];
+  const recordState = (id: string, item: Observation) => statements.push(db.prepare(
+    'INSERT OR IGNORE INTO pulse_observation_states (observation_id, entered_at, state, change_type, severity, score) VALUES (?, ?, ?, ?, ?, ?)',
+  ).bind(id, now, item.state, item.changeType, item.severity, item.score));
+
+  const openByCamera = new Map((openObservations.results ?? []).map((row) => [row.camera_id, row]));
+  const ids = new Map<string, string>();
+  for (const item of snapshot.items) {
+    const open = openByCamera.get(item.cameraId);
+    const id = open?.id ?? observationId(item);
+    ids.set(item.cameraId, id);
+    openByCamera.delete(item.cameraId);
+    const values = [item.label, item.corridor, item.latitude, item.longitude, item.state, item.changeType, item.severity, item.confidence, item.score];
+    if (open) {
+      statements.push(db.prepare(
+        `UPDATE pulse_observations
+            SET label = ?, corridor = ?, latitude = ?, longitude = ?, state = ?, change_type = ?, severity = ?, confidence = ?, score = ?,
+                peak_score = MAX(peak_score, ?), last_seen_at = ?, latest = ?
+          WHERE id = ?`,
+      ).bind(...values, item.score, now, JSON.stringify(item), id));
+      if (open.state !== item.state || open.change_type !== item.changeType) recordState(id, item);
+    } else {
+      // An id can recur if the same first-observed capture reopens after a close; continue that record.
+      statements.push(db.prepare(
+        `INSERT INTO pulse_observations
+           (id, camera_id, label, corridor, latitude, longitude, state, change_type, severity, confidence, score, peak_score, opened_at, last_seen_at, closed_at, latest)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           state = excluded.state, change_type = excluded.change_type, severity = excluded.severity, confidence = excluded.confidence,
+           score = excluded.score, peak_score = MAX(peak_score, excluded.peak_score), last_seen_at = excluded.last_seen_at, closed_at = NULL, latest = excluded.latest`,
+      ).bind(id, item.cameraId, ...values, item.score, item.evidence.firstObservedAt || item.capturedAt, now, JSON.stringify(item)));
+      recordState(id, item);
+    }
+  }
+  for (const row of openByCamera.values()) {
+    if (row.last_seen_at >= now - CLOSE_GRACE_MS) continue;
+    statements.push(
+      db.prepare('UPDATE pulse_observations SET closed_at = last_seen_at WHERE id = ?').bind(row.id),
+      db.prepare("INSERT OR IGNORE INTO pulse_observation_states (observation_id, entered_at, state, change_type, severity, score) VALUES (?, ?, 'closed', ?, ?, ?)")
+        .bind(row.id, row.last_seen_at, row.change_type, row.severity, row.score),
+    );
+  }
+
+  const unclaimed = (openEvents.results ?? []).map((row) => ({ row, cameras: new Set(JSON.parse(row.camera_ids) as string[]) }));
+  const events = snapshot.events.map((event) => {
+    const match = unclaimed
+      .map((candidate) => ({ candidate, shared: overlap(event.cameraIds, candidate.cameras) }))
+      .filter((entry) => entry.shared > 0)
+      .sort((a, b) => b.shared - a.shared)[0]?.candidate;
+    if (match) unclaimed.splice(unclaimed.indexOf(match), 1);
+    const id = match?.row.id ?? event.id;
+    const cameraIds = [...new Set([...(match?.cameras ?? []), ...event.cameraIds])];
+    statements.push(db.prepare(
+      `INSERT INTO pulse_events (id, title, detail, severity, confidence, center_lat, center_lng, camera_ids, peak_camera_count, opened_at, last_seen_at, closed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+       ON CONFLICT(id) DO UPDATE SET
+         title = excluded.title, detail = excluded.detail, severity = excluded.severity, confidence = excluded.confidence,
+         center_lat = excluded.center_lat, center_lng = excluded.center_lng, camera_ids = excluded.camera_ids,
+         peak_camera_count = MAX(peak_camera_count, excluded.peak_camera_count), opened_at = MIN(opened_at, excluded.opened_at),
+         last_seen_at = excluded.last_seen_at, closed_at = NULL`,
+    ).bind(id, event.title, event.detail, event.severity, event.confidence, event.center?.lat ?? null, event.center?.lng ?? null, JSON.stringify(cameraIds), event.cameraCount, event.firstObservedAt, now));
+    for (const cameraId of event.cameraIds) {
+      const observation = ids.get(cameraId);
+      if (observation) {
+        statements.push(db.prepare('INSERT OR IGNORE INTO pulse_event_observations (event_id, observation_id, camera_id, joined_at) VALUES (?, ?, ?, ?)').bind(id, observation, cameraId, now));
+      }
+    }
+    return { ...event, id };
+  });
+  for (const { row } of unclaimed) {
+    if (row.last_seen_at < now - CLOSE_GRACE_MS) statements.push(db.prepare('UPDATE pulse_events SET closed_at = last_seen_at WHERE id = ?').bind(row.id));
+  }
+
+  const expired = now - TIMELINE_RETENTION_MS;
+  statements.push(
+    db.prepare('DELETE FROM pulse_observation_states WHERE observation_id IN (SELECT id FROM pulse_observations WHERE closed_at < ?)').bind(expired),
+    db.prepare('DELETE FROM pulse_event_observations WHERE event_id IN (SELECT id FROM pulse_events WHERE closed_at < ?)').bind(expired),
+    db.prepare('DELETE FROM pulse_observations WHERE closed_at < ?').bind(expired),
+    db.prepare('DELETE FROM pulse_events WHERE closed_at < ?').bind(expired),
+  );
+  await runBatched(db, statements);
+  return { items: snapshot.items.map((item) => ({ ...item, id: ids.get(item.cameraId) })), events };
+}
+
+function describeObservation(row: ObservationRow) {
+  return {
+    id: row.id,
+    type: 'observation' as const,
+    title: row.label,
+    cameraIds: [row.camera_id],
+    corridor: row.corridor,
+    state: row.closed_at ? 'closed' : row.state,
+    changeType: row.change_type,
+    severity: row.severity,
+    confidence: row.confidence,
+    peakScore: row.peak_score,
+    center: row.latitude != null && row.longitude != null ? { lat: row.latitude, lng: row.longitude } : null,
+    openedAt: row.opened_at,
+    lastSeenAt: row.last_seen_at,
+    closedAt: row.closed_at,
+    durationMs: (row.closed_at ?? row.last_seen_at) - row.opened_at,
+  };
+}
+
+function describeEvent(row: EventRow) {
+  return {
+    id: row.id,
+    type: 'event' as const,
+    title: row.title,
+    detail: row.detail,
+    cameraIds: JSON.parse(row.camera_ids) as string[],
+    state: row.closed_at ? 'closed' : 'open',
+    severity: row.severity,
+    confidence: row.confidence,
+    peakCameraCount: row.peak_camera_count,
+    center: row.center_lat != null && row.center_lng != null ? { lat: row.center_lat, lng: row.center_lng } : null,
+    openedAt: row.opened_at,
+    lastSeenAt: row.last_seen_at,
+    closedAt: row.closed_at,
+    durationMs: (row.closed_at ?? row.last_seen_at) - row.opened_at,
+  };
+}
+
+/** `/api/pulse/events?from=&to=&type=event|observation&camera=&corridor=&open=1&limit=` */
+async function listTimeline(db: TimelineD1Database, params: URLSearchParams): Promise<Response> {
+  const now = Date.now();
+  const toParam = parseTime(params.get('to'));
+  const fromParam = parseTime(params.get('from'));
+  if (Number.isNaN(toParam) || Number.isNaN(fromParam)) return json({ error: 'from and to must be ISO 8601 or epoch timestamps' }, { status: 400 });
+  const to = toParam ?? now;
+  const from = fromParam ?? to - 7 * 24 * 60 * 60 * 1000;
+  const limit = Math.min(Math.max(Math.floor(Number(params.get('limit') || 50)), 1), MAX_LIST_LIMIT);
+  const type = params.get('type');
+  if (type && type !== 'event' && type !== 'observation') return json({ error: 'type must be event or observation' }, { status: 400 });
+  const camera = params.get('camera');
+  const corridor = params.get('corridor');
+  const openOnly = ['1', 'true'].includes(params.get('open') ?? '');
+  // A record is in range if it was active at any point between from and to.
+  const active = `opened_at < ? AND COALESCE(closed_at, last_seen_at) >= ?${openOnly ? ' AND closed_at IS NULL' : ''}`;
+  const [observations, events] = await Promise.all([
+    type === 'event' ? null : db.prepare(
+      `SELECT * FROM pulse_observations WHERE ${active}${camera ? ' AND camera_id = ?' : ''}${corridor ? ' AND corridor = ? COLLATE NOCASE' : ''} ORDER BY opened_at DESC LIMIT ?`,
+    ).bind(to, from, ...(camera ? [camera] : []), ...(corridor ? [corridor] : []), limit).all<ObservationRow>(),
+    type === 'observation' || corridor ? null : db.prepare(
+      `SELECT * FROM pulse_events WHERE ${active}${camera ? ' AND EXISTS (SELECT 1 FROM json_each(camera_ids) WHERE value = ?)' : ''} ORDER BY opened_at DESC LIMIT ?`,
+    ).bind(to, from, ...(camera ? [camera] : []), limit).all<EventRow>(),
+  ]);
+  const items = [
+    ...(observations?.results ?? []).map(describeObservation),
+    ...(events?.results ?? []).map(describeEvent),
+  ].sort((a, b) => b.openedAt - a.openedAt).slice(0, limit);
+  return json({ from, to, items });
+}
+
+async function timelineDetail(db: TimelineD1Database, id: string): Promise<Response> {
+  let summary: ReturnType<typeof describeObservation> | ReturnType<typeof describeEvent>;
+  let members: ObservationRow[];
+  if (id.startsWith('observation-')) {
+    const row = await db.prepare('SELECT * FROM pulse_observations WHERE id = ?').bind(id).first<ObservationRow>();
+    if (!row) return json({ error: 'Observation not found' }, { status: 404 });
+    summary = describeObservation(row);
+    members = [row];
+  } else {
+    const row = await db.prepare('SELECT * FROM pulse_events WHERE id = ?').bind(id).first<EventRow>();
+    if (!row) return json({ error: 'Event not found' }, { status: 404 });
+    summary = describeEvent(row);
+    const result = await db.prepare(
+      'SELECT o.* FROM pulse_event_observations l JOIN pulse_observations o ON o.id = l.observation_id WHERE l.event_id = ? ORDER BY o.opened_at',
+    ).bind(id).all<ObservationRow>();
+    members = result.results ?? [];
+  }
+
+  const memberIds = JSON.stringify(members.map((member) => member.id));
+  const states = await db.prepare('SELECT * FROM pulse_observation_states WHERE observation_id IN (SELECT value FROM json_each(?)) ORDER BY entered_at, observation_id')
+    .bind(memberIds).all<StateRow>();
+  const cameraOf = new Map(members.map((member) => [member.id, member.camera_id]));
+  const timeline = [
+    { at: summary.openedAt, type: 'opened' },
+    ...(states.results ?? []).map((state) => ({
+      at: state.entered_at,
+      type: 'state',
+      observationId: state.observation_id,
+      cameraId: cameraOf.get(state.observation_id),
+      state: state.state,
+      changeType: state.change_type,
+      severity: state.severity,
+      score: state.score,
+    })),
+    ...(summary.closedAt ? [{ at: summary.closedAt, type: 'closed' }] : []),
+  ].sort((a, b) => a.at - b.at);
+
+  // Frames span from each episode's recent baseline to the end of the record, thinned to a fixed count per camera.
+  const latest = members.map((member) => JSON.parse(member.latest) as Observation);
+  const cameraIds = summary.cameraIds;
+  const from = Math.min(summary.openedAt - EVIDENCE_PADDING_MS, ...latest.map((item) => item.evidence.beforeCapturedAt ?? Infinity));
+  const to = (summary.closedAt ?? summary.lastSeenAt) + 1;
+  const step = Math.max(Math.floor((to - from) / FRAMES_PER_CAMERA), 1);
+  const cameras = JSON.stringify(cameraIds);
+  const frames = await db.prepare(
+    `SELECT COALESCE(a.camera_id, s.camera_id) AS camera, MIN(s.captured_at) AS frame_at, s.r2_key, s.sha256, s.is_duplicate
+       FROM camera_snapshots s
+       LEFT JOIN camera_aliases a ON a.alias = s.camera_id
+      WHERE s.captured_at >= ? AND s.captured_at < ?
+        AND s.camera_id IN (SELECT value FROM json_each(?) UNION ALL SELECT alias FROM camera_aliases WHERE camera_id IN (SELECT value FROM json_each(?)))
+      GROUP BY camera, CAST(s.captured_at / ? AS INTEGER)
+      ORDER BY camera, frame_at`,
+  ).bind(from, to, cameras, cameras, step).all<FrameRow>();
+
+  return json({
+    ...summary,
+    observations: members.map((member, index) => ({ ...describeObservation(member), evidence: latest[index].evidence, display: latest[index].display })),
+    timeline,
+    frames: (frames.results ?? []).map((row) => ({
+      cameraId: row.camera,
+      capturedAt: row.frame_at,
+      imageUrl: `/api/history/image?key=${encodeURIComponent(row.r2_key)}`,
+      sha256: row.sha256,
+      duplicate: Boolean(row.is_duplicate),
+    })),
+    evidenceExportUrl: `/api/evidence/export?${new URLSearchParams({ cameras: cameraIds.join(','), from: String(from), to: String(to) })}`,
+  });
+}
+
+export async function handleTimelineRequest(request: Request, url: URL, env: TimelineBindings): Promise<Response | null> {
+  if (url.pathname !== '/api/pulse/events' && !url.pathname.startsWith('/api/pulse/events/')) return null;
+  if (request.method !== 'GET') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET' } });
+  if (!env.HISTORY_DB) return json({ error: 'Pulse history is not configured' }, { status: 503 });
+  if (url.pathname === '/api/pulse/events') return listTimeline(env.HISTORY_DB, url.searchParams);
+  let id = '';
+  try {
+    id = decodeURIComponent(url.pathname.slice('/api/pulse/events/'.length));
+  } catch {
+    // Malformed escapes fall through to the 400 below.
+  }
+  if (!id || id.length > 300) return json({ error: 'Invalid id' }, { status: 400 });
+  return timelineDetail(env.HISTORY_DB, id);
+}
@@ -0,0 +1,164 @@
+/**
+ * Shared client for upstream hosts. Every request gets a timeout, idempotent requests are retried with
+ * jittered backoff, and each host has a circuit breaker: after `FAILURE_THRESHOLD` failures in a row the
+ * host is skipped for `OPEN_MS`, then a single trial request decides whether it closes again. Breakers live
+ * in isolate memory, so each isolate learns about an outage on its own.
+ *
+ * Callers that can serve old data keep a last-known-good copy in the Cache API with `rememberResponse` and
+ * read it back with `lastKnownGood`. Stale responses carry `X-Upstream-Stale` with the time the data was
+ * current, plus the standard `Warning: 110` header.
+ */
+import { timedFetch } from './metrics';
+
+export type UpstreamOptions = {
+  /** Per attempt, in milliseconds. */
+  timeoutMs?: number;
+  /** Extra attempts after the first; only GET and HEAD are retried. */
+  retries?: number;
+};
+
+type Breaker = { failures: number; openUntil: number; probing: boolean };
+type WaitUntil = { waitUntil(promise: Promise<void>): void };
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 2000;
+const FAILURE_THRESHOLD = 5;
+const OPEN_MS = 30 * 1000;
+// Statuses that say more about the host than the request; anything else counts as the host being up.
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+const FALLBACK_PREFIX = '/__last-known-good/';
+const FALLBACK_TTL_S = 24 * 60 * 60;
+// A busy route would otherwise rewrite the same cache entry on every request.
+const FALLBACK_REFRESH_MS = 5 * 60 * 1000;
+const MAX_TRACKED_FALLBACKS = 2000;
+const STORED_AT_HEADER = 'X-Upstream-Stored-At';
+
+const breakers = new Map<string, Breaker>();
+const remembered = new Map<string, number>();
+
+/** Raised without contacting the host while its circuit breaker is open. */
+export class UpstreamUnavailableError extends Error {
+  constructor(readonly host: string) {
+    super(`${host} is unavailable`);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+export function isTimeout(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+}
+
+function admit(host: string, now: number): boolean {
+  const breaker = breakers.get(host);
+  if (!breaker || breaker.failures < FAILURE_THRESHOLD) return true;
+  if (now < breaker.openUntil || breaker.probing) return false;
+  breaker.probing = true;
+  return true;
+}
+
+function settle(host: string, ok: boolean, now: number): void {
+  const breaker = breakers.get(host);
+  if (ok) {
+    if (breaker && breaker.failures >= FAILURE_THRESHOLD) console.log(JSON.stringify({ event: 'upstream_circuit_closed', host }));
+    breakers.delete(host);
+    return;
+  }
+  const next = breaker ?? { failures: 0, openUntil: 0, probing: false };
+  next.failures += 1;
+  next.probing = false;
+  if (next.failures >= FAILURE_THRESHOLD) {
+    if (next.openUntil <= now) console.error(JSON.stringify({ event: 'upstream_circuit_open', host, failures: next.failures }));
+    next.openUntil = now + OPEN_MS;
+  }
+  breakers.set(host, next);
+}
+
+function backoff(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+/**
+ * `fetch` through the host's circuit breaker. Network errors, timeouts and the statuses in
+ * `RETRYABLE_STATUS` count as failures; after the last attempt the error is thrown or the response returned.
+ */
+export async function upstreamFetch(input: string | URL, init: RequestInit = {}, options: UpstreamOptions = {}): Promise<Response> {
+  const url = new URL(input);
+  const method = (init.method ?? 'GET').toUpperCase();
+  const attempts = 1 + (method === 'GET' || method === 'HEAD' ? options.retries ?? DEFAULT_RETRIES : 0);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  for (let attempt = 0; ; attempt += 1) {
+    if (!admit(url.hostname, Date.now())) throw new UpstreamUnavailableError(url.hostname);
+    const last = attempt + 1 >= attempts;
+    try {
+      const response = await timedFetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+      const ok = !RETRYABLE_STATUS.has(response.status);
+      settle(url.hostname, ok, Date.now());
+      if (ok || last) return response;
+      await response.body?.cancel();
+    } catch (error) {
+      settle(url.hostname, false, Date.now());
+      if (last) throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, backoff(attempt)));
+  }
+}
+
+function cache(): Cache | null {
+  return typeof caches === 'undefined' ? null : caches.default;
+}
+
+function fallbackRequest(origin: string, key: string): Request {
+  return new Request(`${origin}${FALLBACK_PREFIX}${encodeURIComponent(key)}`);
+}
+
+/** A copy of `response` marked as built from data that was last current at `currentAt`. */
+export function markStale(response: Response, currentAt: number, now = Date.now()): Response {
+  const headers = new Headers(response.headers);
+  headers.delete(STORED_AT_HEADER);
+  headers.set('X-Upstream-Stale', new Date(currentAt).toISOString());
+  headers.set('Warning', '110 - "Response is Stale"');
+  headers.set('Age', String(Math.max(0, Math.floor((now - currentAt) / 1000))));
+  headers.set('Cache-Control', 'public, max-age=15');
+  return new Response(response.body, { status: response.status, headers });
+}
+
+/**
+ * Keeps a copy of a successful response as the last-known-good answer for `key`, at most once per
+ * `FALLBACK_REFRESH_MS` per isolate. The write happens after the response is sent.
+ */
+export function rememberResponse(ctx: WaitUntil, origin: string, key: string, response: Response, now = Date.now()): void {
+  const store = cache();
+  if (!store || !response.ok || now - (remembered.get(key) ?? 0) < FALLBACK_REFRESH_MS) return;
+  if (remembered.size >= MAX_TRACKED_FALLBACKS) remembered.clear();
+  remembered.set(key, now);
+  const copy = response.clone();
+  ctx.waitUntil((async () => {
+    try {
+      const headers = new Headers(copy.headers);
+      headers.set('Cache-Control', `public, max-age=${FALLBACK_TTL_S}`);
+      headers.set(STORED_AT_HEADER, String(now));
+      headers.delete('Set-Cookie');
+      await store.put(fallbackRequest(origin, key), new Response(copy.body, { status: copy.status, headers }));
+    } catch (error) {
+      remembered.delete(key);
+      console.error(JSON.stringify({ event: 'upstream_fallback_store_error', key, message: error instanceof Error ? error.message : String(error) }));
+    }
+  })());
+}
+
+/** The last response remembered for `key`, marked stale, or null when this colo has none. */
+export async function lastKnownGood(origin: string, key: string, now = Date.now()): Promise<Response | null> {
+  const store = cache();
+  if (!store) return null;
+  try {
+    const match = await store.match(fallbackRequest(origin, key));
+    if (!match) return null;
+    return markStale(match, Number(match.headers.get(STORED_AT_HEADER)) || now, now);
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'upstream_fallback_read_error', key, message: error instanceof Error ? error.message : String(error) }));
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+// Animated WebP muxing. Stored history frames are already WebP, so an animation is their image
+// chunks wrapped in ANMF frames; nothing is decoded or re-encoded.
+
+type WebpFrame = { width: number; height: number; chunks: Uint8Array; alpha: boolean };
+
+function fourcc(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function uint24(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function setUint24(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 255;
+  bytes[offset + 1] = (value >> 8) & 255;
+  bytes[offset + 2] = (value >> 16) & 255;
+}
+
+function riffChunk(type: string, body: Uint8Array): Uint8Array {
+  const padded = body.length + (body.length & 1);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i += 1) out[i] = type.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, body.length, true);
+  out.set(body, 8);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) { out.set(part, offset); offset += part.length; }
+  return out;
+}
+
+/** Extracts the ALPH/VP8/VP8L chunks and dimensions of a still WebP, or null for anything else. */
+export function parseWebp(buffer: ArrayBuffer): WebpFrame | null {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 20 || fourcc(bytes, 0) !== 'RIFF' || fourcc(bytes, 8) !== 'WEBP') return null;
+  const view = new DataView(buffer);
+  const image: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  let alpha = false;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const type = fourcc(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (body + size > bytes.length) return null;
+    if (type === 'VP8X') {
+      if (bytes[body] & 0x02) return null;
+      width = uint24(bytes, body + 4) + 1;
+      height = uint24(bytes, body + 7) + 1;
+    } else if (type === 'ALPH') {
+      alpha = true;
+      image.push(bytes.subarray(offset, body + size + (size & 1)));
+    } else if (type === 'VP8 ') {
+      if (!width) {
+        width = view.getUint16(body + 6, true) & 0x3fff;
+        height = view.getUint16(body + 8, true) & 0x3fff;
+      }
+      image.push(bytes.subarray(offset, body + size + (size & 1)));
+    } else if (type === 'VP8L') {
+      if (!width) {
+        const bits = view.getUint32(body + 1, true);
+        width = (bits & 0x3fff) + 1;
+        height = ((bits >>> 14) & 0x3fff) + 1;
+      }
+      alpha ||= Boolean((bytes[body + 4] >> 4) & 1);
+      image.push(bytes.subarray(offset, body + size + (size & 1)));
+    }
+    offset = body + size + (size & 1);
+  }
+  if (!width || !height || !image.length) return null;
+  return { width, height, chunks: concat(image), alpha };
+}
+
+/** Muxes still WebP frames into a looping animation; frames smaller than the canvas sit top-left. */
+export function muxAnimatedWebp(frames: WebpFrame[], durationMs: number): Uint8Array {
+  const width = Math.max(...frames.map((frame) => frame.width));
+  const height = Math.max(...frames.map((frame) => frame.height));
+  const header = new Uint8Array(10);
+  header[0] = 0x02 | (frames.some((frame) => frame.alpha) ? 0x10 : 0);
+  setUint24(header, 4, width - 1);
+  setUint24(header, 7, height - 1);
+  const anim = new Uint8Array(6);
+  anim.set([0, 0, 0, 255]);
+  const duration = Math.min(Math.max(Math.round(durationMs), 1), 0xffffff);
+  const parts = [riffChunk('VP8X', header), riffChunk('ANIM', anim)];
+  for (const frame of frames) {
+    const descriptor = new Uint8Array(16);
+    setUint24(descriptor, 6, frame.width - 1);
+    setUint24(descriptor, 9, frame.height - 1);
+    setUint24(descriptor, 12, duration);
+    // Frames are opaque snapshots: replace instead of alpha-blending over the previous frame.
+    descriptor[15] = 0x02;
+    parts.push(riffChunk('ANMF', concat([descriptor, frame.chunks])));
+  }
+  const body = concat(parts);
+  const out = new Uint8Array(12 + body.length);
+  out.set([0x52, 0x49, 0x46, 0x46]);
+  new DataView(out.buffer).setUint32(4, body.length + 4, true);
+  out.set([0x57, 0x45, 0x42, 0x50], 8);
+  out.set(body, 12);
+  return out;
+}
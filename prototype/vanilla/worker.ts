@@ -1,192 +1,66 @@
+import { cropParam, isLadderRequest, verifyRendition } from '../../src/lib/renditions';
+import { legacyAliases, recordAliases, type AliasBindings } from './aliases';
+import { buildBaselines, type BaselineBindings } from './baselines';
+import { catalogCameras, handleCatalogRequest, syncCatalog, type CatalogBindings } from './catalog';
+import { handleClipRequest, purgeClips, recordPulseClips, type ClipBindings } from './clips';
+import { handleEvidenceRequest, type EvidenceBindings } from './evidence';
+import { cachedSegment, coalescedPlaylist, fetchVideo, isSegment, type VideoCacheStatus } from './hls';
+import { handleHealthLedgerRequest, purgeHealth, recordProxyHealth, streamName, type HealthBindings } from './health';
+import { handleImageSetRequest, parseImageTransform, sourceTrim, withImages, type ImageBindings } from './images';
 import { captureHistory, handleHistoryRequest, purgeHistory, type HistoryBindings } from './history';
-import { handlePulseRequest, type PulseBindings } from './pulse';
+import { handleMaskRequest, type MaskBindings } from './masks';
+import { countMetric, flushMetrics, handleMetricsRequest, instrumentD1, observeMetric, type MetricsBindings } from './metrics';
+import { handlePulseRequest, type ObservationState, type PulseBindings, type PulseSnapshot } from './pulse';
+import { captureCheck, handleStatusRequest, probeUpstreams, recordTick, type CronTick, type StatusBindings } from './status';
+import { probeStreams, withStreamStatus, type StreamBindings } from './streams';
+import { handleSubscriptionRequest, notifySubscribers, type SubscriptionBindings } from './subscriptions';
+import { handleCameraHealthRequest, refreshCameraIssues, type TamperBindings } from './tamper';
+import { handleTimelapseRequest } from './timelapse';
+import { handleTimelineRequest, materializePulse, openObservationStates, type TimelineBindings } from './timeline';
+import { isTimeout, lastKnownGood, markStale, rememberResponse, upstreamFetch, UpstreamUnavailableError } from './upstream';
+import {
+  CAMERA_PROVIDERS,
+  DEFAULT_FEATURE_SERVICE,
+  DEFAULT_PROVIDER,
+  VIDEO_SERVER,
+  allowedVideoHosts,
+  getProvider,
+  isAllowedImage,
+  isAllowedVideoHost,
+  loadCameras,
+  ProviderConfigError,
+  type Camera,
+  type ProviderBindings,
+} from './providers';
 
-const DEFAULT_FEATURE_SERVICE = 'https://services.arcgis.com/ZOyb2t4B0UYuYNYH/ArcGIS/rest/services/Traffic_Cameras_CDL/FeatureServer/0';
-const SDOT_ENDPOINT = 'https://data.seattle.gov/resource/65fc-btcc.json';
-const VIDEO_SERVER = '61e0c5d388c2e.streamlock.net';
-const VIDEO_ORIGIN = `https://${VIDEO_SERVER}:443`;
-const VIDEO_FETCH_TIMEOUT_MS = 7000;
-const CAMERA_HOST = 'www.seattle.gov';
-const CAMERA_PREFIX = '/trafficcams/images/';
+const HOME_FEED_TIMEOUT_MS = 4000;
 
-const DOWNTOWN_BOUNDS = {
-  south: 47.593,
-  north: 47.6235,
-  west: -122.356,
-  east: -122.323,
-};
-
-type Camera = {
-  id: string;
-  label: string;
-  imagePath: string;
-  collections: string[];
-  stream?: string;
-  videoUrl?: string;
-  directVideoUrl?: string;
-  webUrl?: string;
-  lat?: number;
-  lng?: number;
-};
-
-type ArcFeature = {
-  geometry?: { x?: number; y?: number } | null;
-  attributes?: Record<string, unknown>;
-};
-type ArcResponse = { features?: ArcFeature[]; error?: { message?: string } };
-
-type SdotCamera = {
-  cameralabel?: string;
-  imageurl?: { url?: string };
-  video_url?: { url?: string };
-  web_url?: { url?: string };
-  location?: { latitude?: string; longitude?: string };
-  x_coord?: string;
-  y_coord?: string;
-};
+type WorkerContext = { waitUntil(promise: Promise<void>): void };
+type FetchBindings = Env & EvidenceBindings & PulseBindings & TimelineBindings & CatalogBindings & SubscriptionBindings & MaskBindings & HealthBindings & StatusBindings & MetricsBindings & StreamBindings & ClipBindings & ImageBindings & ProviderBindings;
+type ScheduledBindings = Env & HistoryBindings & CatalogBindings & AliasBindings & TimelineBindings & SubscriptionBindings & BaselineBindings & HealthBindings & StatusBindings & MetricsBindings & StreamBindings & ClipBindings & ProviderBindings & TamperBindings;
 
 function esc(value: string): string {
   return value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
 }
 
-function cameraId(raw: string): string {
-  return encodeURIComponent(raw.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || raw);
-}
-
-function safeCameraPath(rawUrl: string): string | null {
-  if (!rawUrl) return null;
-  try {
-    const url = new URL(rawUrl.replace(/^http:/, 'https:'));
-    return url.hostname === CAMERA_HOST && url.pathname.startsWith(CAMERA_PREFIX) && !url.pathname.includes('..')
-      ? url.pathname
-      : null;
-  } catch {
-    return null;
-  }
-}
-
-function isDowntownCoordinate(lat: number, lng: number): boolean {
-  return Number.isFinite(lat)
-    && Number.isFinite(lng)
-    && lat >= DOWNTOWN_BOUNDS.south
-    && lat <= DOWNTOWN_BOUNDS.north
-    && lng >= DOWNTOWN_BOUNDS.west
-    && lng <= DOWNTOWN_BOUNDS.east;
-}
-
-function classifyCamera(label: string, lat: number, lng: number): string[] {
-  const value = label
-    .toLowerCase()
-    .replace(/[–—]/g, '-')
-    .replace(/[.,/]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-  const collections: string[] = [];
-
-  const downtownStreet = /\b(?:1st|2nd|3rd|4th|5th|6th|7th|8th|9th)\s+(?:ave|avenue)\b|\b(?:pike|pine|union|university|seneca|spring|madison|marion|columbia|cherry|james|yesler)\s+(?:st|street)\b/;
-  if (value.includes('downtown') || (isDowntownCoordinate(lat, lng) && downtownStreet.test(value))) collections.push('downtown');
-
-  if (/\bbridge\b|\bfremont\b|\bballard\b|\bmontlake\b|\buniversity bridge\b|\bspokane st(?:reet)?\b|\bwest seattle bridge\b/.test(value)) collections.push('bridges');
-  if (/\b(?:i-?5|interstate\s*5)\b/.test(value)) collections.push('i5');
-  if (/\b(?:aurora(?: ave(?:nue)?)?|sr-?\s*99|state route\s*99|highway\s*99|hwy\s*99|99)\b/.test(value)) collections.push('aurora');
-
-  return collections;
-}
-
-function normalizeArcGIS(data: ArcResponse): Camera[] {
-  if (data.error?.message) throw new Error(data.error.message);
-  const cameras: Camera[] = [];
-  for (const feature of data.features ?? []) {
-    const attrs = feature.attributes ?? {};
-    const status = String(attrs.SERVSTAT ?? '').toUpperCase();
-    if (status === 'INACT' || status === 'INACTIVE') continue;
-    const imagePath = safeCameraPath(String(attrs.URL ?? ''));
-    if (!imagePath) continue;
-    const label = String(attrs.LOCATION || attrs.NAME || 'Seattle traffic camera');
-    const stream = attrs.STREAM_NAME ? String(attrs.STREAM_NAME).trim() : undefined;
-    const lat = Number(feature.geometry?.y);
-    const lng = Number(feature.geometry?.x);
-    cameras.push({
-      id: cameraId(String(attrs.NAME || imagePath)),
-      label,
-      imagePath,
-      collections: classifyCamera(label, lat, lng),
-      stream,
-      videoUrl: stream ? `/api/video?url=${encodeURIComponent(`/live/${stream}.stream/playlist.m3u8`)}` : undefined,
-      directVideoUrl: stream ? `${VIDEO_ORIGIN}/live/${encodeURIComponent(stream)}.stream/playlist.m3u8` : undefined,
-      webUrl: 'https://web.seattle.gov/Travelers/',
-      ...(Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : {}),
-    });
-  }
-  return cameras;
-}
-
-function normalizeSdot(rows: SdotCamera[]): Camera[] {
-  const cameras: Camera[] = [];
-  for (const row of rows) {
-    const imagePath = safeCameraPath(String(row.imageurl?.url ?? ''));
-    if (!imagePath) continue;
-    const label = String(row.cameralabel || imagePath);
-    const lat = Number(row.location?.latitude ?? row.y_coord);
-    const lng = Number(row.location?.longitude ?? row.x_coord);
-    const videoUrl = row.video_url?.url;
-    cameras.push({
-      id: cameraId(String(row.web_url?.url || videoUrl || row.imageurl?.url || label)),
-      label,
-      imagePath,
-      collections: classifyCamera(label, lat, lng),
-      videoUrl,
-      directVideoUrl: videoUrl,
-      webUrl: row.web_url?.url,
-      ...(Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : {}),
-    });
-  }
-  return cameras;
-}
-
-function validatedFeatureService(raw: string | null): string {
-  if (!raw) return DEFAULT_FEATURE_SERVICE;
-  const url = new URL(raw);
-  if (url.protocol !== 'https:' || !url.pathname.toLowerCase().includes('featureserver')) {
-    throw new Error('Invalid ArcGIS FeatureServer URL');
-  }
-  const host = url.hostname.toLowerCase();
-  if (!(host === 'services.arcgis.com' || host.endsWith('.arcgis.com'))) {
-    throw new Error('ArcGIS FeatureServer host is not allowed');
-  }
-  return url.toString().replace(/\/$/, '');
-}
+// Grid columns by breakpoint, matching benchmark.css.
+const CARD_SIZES = '(min-width: 1280px) 20rem, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
 
-async function getArcGISCameras(featureService = DEFAULT_FEATURE_SERVICE): Promise<Camera[]> {
-  const query = new URL(`${featureService}/query`);
-  query.searchParams.set('where', '1=1');
-  query.searchParams.set('outFields', 'NAME,LOCATION,URL,STREAM_NAME,SERVSTAT');
-  query.searchParams.set('outSR', '4326');
-  query.searchParams.set('returnGeometry', 'true');
-  query.searchParams.set('f', 'json');
-  const response = await fetch(query, {
-    cf: { cacheEverything: true, cacheTtl: 300 },
-    headers: { Accept: 'application/json' },
-  });
-  if (!response.ok) throw new Error(`ArcGIS ${response.status}`);
-  return normalizeArcGIS(await response.json() as ArcResponse);
+function imageSrc(camera: Camera): string {
+  return `/api/image?path=${encodeURIComponent(camera.imagePath)}${camera.imageHost ? `&host=${encodeURIComponent(camera.imageHost)}` : ''}`;
 }
 
-async function getSdotCameras(): Promise<Camera[]> {
-  const response = await fetch(SDOT_ENDPOINT, {
-    cf: { cacheEverything: true, cacheTtl: 300 },
-    headers: { Accept: 'application/json' },
-  });
-  if (!response.ok) throw new Error(`SDOT ${response.status}`);
-  return normalizeSdot(await response.json() as SdotCamera[]);
+/** Whether to offer Play: cameras the cron has probed need a verified-live stream, others only a URL. */
+function playable(camera: Camera): boolean {
+  return Boolean(camera.videoUrl) && (!camera.streamStatus || camera.streamStatus === 'live');
 }
 
 function card(camera: Camera, index: number): string {
-  const img = `/api/image?path=${encodeURIComponent(camera.imagePath)}`;
+  const srcset = camera.image ? ` srcset="${esc(camera.image.srcset)}" sizes="${CARD_SIZES}"` : '';
   return `<article class="camera-card" data-camera-id="${esc(camera.id)}">
     <button class="camera-open" data-camera="${esc(camera.id)}" aria-label="View ${esc(camera.label)}">
-      <div class="image-shell"><img src="${img}" alt="${esc(camera.label)}" width="480" height="270" ${index === 0 ? 'fetchpriority="high"' : 'loading="lazy"'} decoding="async"></div>
-      <div class="card-copy"><h2>${esc(camera.label)}</h2><span>${camera.videoUrl ? 'Live' : 'Snapshot'}</span></div>
+      <div class="image-shell"><img src="${esc(camera.image?.src ?? imageSrc(camera))}"${srcset} alt="${esc(camera.label)}" width="480" height="270" ${index === 0 ? 'fetchpriority="high"' : 'loading="lazy"'} decoding="async"></div>
+      <div class="card-copy"><h2>${esc(camera.label)}</h2><span>${playable(camera) ? 'Live' : 'Snapshot'}</span></div>
     </button>
   </article>`;
 }
@@ -202,7 +76,7 @@ const INITIAL_COLLECTIONS: Array<[string, string]> = [
 ];
 
 function initialCollectionCount(cameras: Camera[], id: string): number {
-  if (id === 'live') return cameras.filter((camera) => Boolean(camera.videoUrl)).length;
+  if (id === 'live') return cameras.filter(playable).length;
   if (id === 'recent' || id === 'issues') return 0;
   return cameras.filter((camera) => camera.collections.includes(id)).length;
 }
@@ -215,9 +89,23 @@ function initialCollectionButtons(cameras: Camera[]): string {
   }).join('');
 }
 
-function page(cameras: Camera[]): Response {
+const FIELD_MAP_INPUTS: Array<[string, string]> = [
+  ['labelField', 'Label'],
+  ['imageField', 'Image URL'],
+  ['nameField', 'Name / ID'],
+  ['streamField', 'Stream name'],
+  ['statusField', 'Status'],
+];
+
+function sourceButtons(active: string): string {
+  return CAMERA_PROVIDERS.map((provider) => `<button id="source-${esc(provider.id)}" class="chip${provider.id === active ? ' active' : ''}" data-source="${esc(provider.id)}">${esc(provider.label)}</button>`).join('');
+}
+
+function page(cameras: Camera[], catalogAt?: number): Response {
   const first = cameras.slice(0, 6);
   const bootstrap = JSON.stringify(cameras).replace(/</g, '\\u003c');
+  const providers = JSON.stringify(CAMERA_PROVIDERS.map(({ id, label }) => ({ id, label }))).replace(/</g, '\\u003c');
+  const videoSources = allowedVideoHosts().map((host) => `https://${host}`).join(' ');
   const html = `<!doctype html><html lang="en"><head>
     <meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1,viewport-fit=cover">
     <meta name="theme-color" content="#020617">
@@ -227,7 +115,7 @@ function page(cameras: Camera[]): Response {
     <link rel="stylesheet" href="/evidence.css">
   </head><body>
     <header class="topbar">
-      <div class="brand"><p class="eyebrow">Seattle traffic telemetry</p><h1>Seattle Traffic Watch</h1><p id="status-line" class="sub">${cameras.length} cameras · ArcGIS source</p></div>
+      <div class="brand"><p class="eyebrow">Seattle traffic telemetry</p><h1>Seattle Traffic Watch</h1><p id="status-line" class="sub">${cameras.length} cameras · ${esc(DEFAULT_PROVIDER.label)} source${catalogAt ? ` · catalog snapshot ${new Date(catalogAt).toISOString().slice(0, 16).replace('T', ' ')} UTC` : ''}</p></div>
       <div class="header-actions">
         <label class="search-wrap"><span class="sr-only">Search cameras</span><input id="search" type="search" placeholder="Search intersection, corridor, URL, or coordinate" autocomplete="off"></label>
         <div class="view-toggle" aria-label="View mode"><button id="grid-view" class="active" aria-pressed="true">Grid</button><button id="map-view" aria-pressed="false">Map</button></div>
@@ -236,10 +124,11 @@ function page(cameras: Camera[]): Response {
     </header>
     <section id="settings" class="settings" hidden>
       <div><strong>Data source</strong><p>Switch feeds or use an ArcGIS FeatureServer endpoint.</p></div>
-      <button id="source-arcgis" class="chip active">ArcGIS</button><button id="source-sdot" class="chip">SDOT Socrata</button>
+      ${sourceButtons(DEFAULT_PROVIDER.id)}
       <input id="arcgis-url" type="url" value="${esc(DEFAULT_FEATURE_SERVICE)}" aria-label="ArcGIS FeatureServer URL">
       <button id="apply-source" class="chip accent">Apply</button><button id="restore-source" class="chip">Restore default</button>
-      <p id="source-error" class="error" role="alert"></p>
+      <details id="field-map" class="field-map"><summary>ArcGIS field mapping</summary><p>Leave blank to auto-detect from the layer metadata.</p>${FIELD_MAP_INPUTS.map(([param, label]) => `<label>${esc(label)}<input data-field-param="${param}" type="text" placeholder="auto" autocomplete="off" spellcheck="false"></label>`).join('')}</details>
+      <p id="source-error" class="error" role="alert"></p><p id="source-report" class="source-report" aria-live="polite"></p>
     </section>
     <section id="pulse" class="pulse" aria-label="Seattle Pulse"><div class="pulse-loading"><div><p class="eyebrow">Seattle Pulse</p><strong>Reading the city…</strong></div><span>Ranking recent camera changes</span></div></section>
     <section class="toolbar">
@@ -250,39 +139,83 @@ function page(cameras: Camera[]): Response {
     <main id="main"><div id="grid" class="grid">${first.map(card).join('')}</div><div id="map" class="map-shell" hidden></div><div id="empty" class="empty" hidden>No cameras match the selected filters.</div><div id="sentinel" aria-hidden="true"></div></main>
     <dialog id="modal"><button id="close" class="modal-close" aria-label="Close">×</button><div id="modal-body"></div></dialog>
     <nav class="mobile-dock" aria-label="Primary navigation"><button data-mobile-view="grid" class="active">Grid</button><button data-mobile-view="map">Map</button><button id="mobile-settings">Source</button></nav>
-    <script>window.__CAMERAS__=${bootstrap};window.__DEFAULT_ARCGIS__=${JSON.stringify(DEFAULT_FEATURE_SERVICE)}</script><script type="module" src="/benchmark.js"></script>
+    <script>window.__CAMERAS__=${bootstrap};window.__DEFAULT_ARCGIS__=${JSON.stringify(DEFAULT_FEATURE_SERVICE)};window.__PROVIDERS__=${providers};window.__CATALOG_AT__=${catalogAt ?? 'null'}</script><script type="module" src="/benchmark.js"></script>
   </body></html>`;
   return new Response(html, { headers: {
     'Content-Type': 'text/html; charset=utf-8',
-    'Cache-Control': 'public, max-age=30, s-maxage=120, stale-while-revalidate=300, stale-if-error=86400',
-    'Content-Security-Policy': "default-src 'self'; img-src 'self' data: blob: https://*.basemaps.cartocdn.com; media-src 'self' blob: https://61e0c5d388c2e.streamlock.net; style-src 'self' 'unsafe-inline' https://unpkg.com; script-src 'self' 'unsafe-inline' https://cdn.jsdelivr.net https://unpkg.com; connect-src 'self' https://61e0c5d388c2e.streamlock.net https://*.basemaps.cartocdn.com https://unpkg.com https://cdn.jsdelivr.net; worker-src 'self' blob:;",
+    'Cache-Control': catalogAt ? 'public, max-age=15, s-maxage=15' : 'public, max-age=30, s-maxage=120, stale-while-revalidate=300, stale-if-error=86400',
+    'Content-Security-Policy': `default-src 'self'; img-src 'self' data: blob: https://*.basemaps.cartocdn.com; media-src 'self' blob: ${videoSources}; style-src 'self' 'unsafe-inline' https://unpkg.com; script-src 'self' 'unsafe-inline' https://cdn.jsdelivr.net https://unpkg.com; connect-src 'self' ${videoSources} https://*.basemaps.cartocdn.com https://unpkg.com https://cdn.jsdelivr.net; worker-src 'self' blob:;`,
     'Referrer-Policy': 'strict-origin-when-cross-origin',
     'X-Content-Type-Options': 'nosniff',
   } });
 }
 
-async function image(request: Request, url: URL): Promise<Response> {
+async function image(request: Request, url: URL, env: HealthBindings & ImageBindings, ctx: WorkerContext): Promise<Response> {
   if (request.method !== 'GET' && request.method !== 'HEAD') return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
-  const path = url.searchParams.get('path');
-  if (!path || !path.startsWith(CAMERA_PREFIX) || path.includes('..')) return new Response('Bad image path', { status: 400 });
-  const upstream = new URL(path, `https://${CAMERA_HOST}`);
+  const transform = parseImageTransform(url);
+  if (typeof transform === 'string') return new Response(transform, { status: 400 });
+  const { host, path, crop } = transform;
+  if (!isAllowedImage(host, path)) return new Response('Bad image path', { status: 400 });
+  if (!isLadderRequest(url.searchParams) && !(await verifyRendition(env.IMAGE_SIGNING_KEY, { host, path }, transform, url.searchParams.get('sig')))) {
+    return new Response('Invalid image signature', { status: 403, headers: { 'Cache-Control': 'no-store' } });
+  }
+  const upstream = new URL(path, `https://${host}`);
   const accept = request.headers.get('Accept') || '';
   const format = accept.includes('image/avif') ? 'avif' : accept.includes('image/webp') ? 'webp' : undefined;
-  const width = Math.min(Math.max(Number(url.searchParams.get('w') || 480), 240), 960);
-  const response = await fetch(upstream, {
-    method: request.method,
-    headers: { Accept: accept || 'image/avif,image/webp,image/*,*/*;q=0.8' },
-    cf: { image: { width, fit: 'scale-down', quality: width > 480 ? 76 : 68, ...(format ? { format } : {}) }, cacheEverything: true, cacheTtl: 60 },
-  } as RequestInit);
+  const width = transform.width * transform.dpr;
+  const fallbackKey = `image:${host}${path}?w=${width}${crop ? `&crop=${cropParam(crop)}` : ''}&format=${format ?? 'original'}`;
+  let response: Response;
+  try {
+    const trim = crop ? await sourceTrim(upstream, crop) : null;
+    if (crop && !trim) return new Response('Image size unavailable for crop', { status: 502, headers: { 'Cache-Control': 'no-store' } });
+    response = await upstreamFetch(upstream, {
+      method: request.method,
+      headers: { Accept: accept || 'image/avif,image/webp,image/*,*/*;q=0.8' },
+      cf: { image: { ...(trim ? { trim } : {}), width, fit: 'scale-down', quality: width > 480 ? 76 : 68, ...(format ? { format } : {}) }, cacheEverything: true, cacheTtl: 60 },
+    } as RequestInit, { retries: 1 });
+  } catch (error) {
+    ctx.waitUntil(recordProxyHealth(env, { kind: 'image', host, path }, false));
+    return await lastKnownGood(url.origin, fallbackKey) ?? new Response(isTimeout(error) ? 'Image upstream timed out' : 'Image upstream unavailable', {
+      status: isTimeout(error) ? 504 : error instanceof UpstreamUnavailableError ? 503 : 502,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  }
+  ctx.waitUntil(recordProxyHealth(env, { kind: 'image', host, path }, response.ok));
+  // A missing image is an answer; only a failing host falls back to the last frame this colo served.
+  if (response.status >= 500 || response.status === 429) {
+    const stale = await lastKnownGood(url.origin, fallbackKey);
+    if (stale) {
+      await response.body?.cancel();
+      return stale;
+    }
+  }
+  let body = response.body;
+  if (response.ok && request.method === 'GET' && body) {
+    const format = (response.headers.get('Content-Type') || '').replace(/^image\//, '').split(';')[0] || 'unknown';
+    let bytes = 0;
+    // Transformed images usually arrive chunked without Content-Length, so the body is counted as it streams.
+    body = body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytes += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+      flush() {
+        if (bytes > 0) observeMetric('cams_image_transform_bytes', { format }, bytes);
+      },
+    }));
+  }
   const headers = new Headers(response.headers);
   headers.set('Cache-Control', 'public, max-age=30, s-maxage=60, stale-while-revalidate=120');
   headers.set('Vary', 'Accept');
   headers.delete('Set-Cookie');
-  return new Response(response.body, { status: response.status, headers });
+  const served = new Response(body, { status: response.status, headers });
+  if (request.method === 'GET') rememberResponse(ctx, url.origin, fallbackKey, served);
+  return served;
 }
 
 function proxyVideoUrl(requestUrl: URL, upstreamUrl: URL): string {
-  return `${requestUrl.origin}/api/video?url=${encodeURIComponent(`${upstreamUrl.pathname}${upstreamUrl.search}`)}`;
+  const host = upstreamUrl.hostname === VIDEO_SERVER ? '' : `&host=${encodeURIComponent(upstreamUrl.hostname)}`;
+  return `${requestUrl.origin}/api/video?url=${encodeURIComponent(`${upstreamUrl.pathname}${upstreamUrl.search}`)}${host}`;
 }
 
 function rewritePlaylist(playlist: string, requestUrl: URL, upstreamUrl: URL): string {
@@ -291,37 +224,44 @@ function rewritePlaylist(playlist: string, requestUrl: URL, upstreamUrl: URL): s
     if (!trimmed || trimmed.startsWith('#')) return line;
     try {
       const resolved = new URL(trimmed, upstreamUrl);
-      return resolved.hostname === VIDEO_SERVER ? proxyVideoUrl(requestUrl, resolved) : line;
+      return resolved.hostname === upstreamUrl.hostname ? proxyVideoUrl(requestUrl, resolved) : line;
     } catch { return line; }
   }).join('\n');
 }
 
-async function video(request: Request, requestUrl: URL): Promise<Response> {
+async function video(request: Request, requestUrl: URL, env: HealthBindings, ctx: WorkerContext): Promise<Response> {
   if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: { 'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS', 'Access-Control-Allow-Headers': '*' } });
   if (request.method !== 'GET' && request.method !== 'HEAD') return new Response('Method not allowed', { status: 405 });
   const targetPath = requestUrl.searchParams.get('url');
+  const host = (requestUrl.searchParams.get('host') || VIDEO_SERVER).toLowerCase();
   if (!targetPath || !targetPath.startsWith('/live/') || targetPath.includes('..')) return new Response('Invalid video path', { status: 400 });
-  const upstreamUrl = new URL(`${VIDEO_ORIGIN}${targetPath}`);
+  if (!isAllowedVideoHost(host)) return new Response('Invalid video host', { status: 400 });
+  const upstreamUrl = new URL(`https://${host}${targetPath}`);
+  // Playlists are refetched every few seconds while a stream plays, so they stand in for the whole stream.
+  const stream = upstreamUrl.pathname.endsWith('.m3u8') ? streamName(upstreamUrl.pathname) : null;
+  const noteStream = (ok: boolean) => { if (stream) ctx.waitUntil(recordProxyHealth(env, { kind: 'stream', stream }, ok)); };
+  const fetchUpstream = () => fetchVideo(upstreamUrl, request.method, request.headers.get('Accept') || '*/*');
   let upstream: Response;
+  let cacheStatus: VideoCacheStatus = 'BYPASS';
   try {
-    upstream = await fetch(upstreamUrl, {
-      method: request.method,
-      headers: { Accept: request.headers.get('Accept') || '*/*' },
-      redirect: 'follow',
-      signal: AbortSignal.timeout(VIDEO_FETCH_TIMEOUT_MS),
-    });
+    if (request.method === 'GET' && upstreamUrl.pathname.endsWith('.m3u8')) ({ response: upstream, cacheStatus } = await coalescedPlaylist(upstreamUrl.href, fetchUpstream));
+    else if (request.method === 'GET' && isSegment(upstreamUrl.pathname)) ({ response: upstream, cacheStatus } = await cachedSegment(ctx, requestUrl.origin, upstreamUrl, fetchUpstream));
+    else upstream = await fetchUpstream();
   } catch (error) {
-    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    const timedOut = isTimeout(error);
+    noteStream(false);
     return new Response(timedOut ? 'Video upstream timed out' : 'Video upstream unavailable', {
-      status: timedOut ? 504 : 502,
+      status: timedOut ? 504 : error instanceof UpstreamUnavailableError ? 503 : 502,
       headers: { 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' },
     });
   }
+  noteStream(upstream.ok);
   const contentType = upstream.headers.get('Content-Type') || '';
   const isPlaylist = contentType.includes('mpegurl') || upstreamUrl.pathname.endsWith('.m3u8');
   const headers = new Headers(upstream.headers);
   headers.delete('Set-Cookie');
   headers.set('Access-Control-Allow-Origin', '*');
+  headers.set('X-Video-Cache', cacheStatus);
   if (isPlaylist && request.method !== 'HEAD') {
     const text = await upstream.text();
     headers.set('Content-Type', 'application/vnd.apple.mpegurl');
@@ -332,49 +272,191 @@ async function video(request: Request, requestUrl: URL): Promise<Response> {
   return new Response(upstream.body, { status: upstream.status, headers });
 }
 
-export default {
-  async fetch(request: Request, env: Env & HistoryBindings & PulseBindings): Promise<Response> {
-    const url = new URL(request.url);
-    const historyResponse = await handleHistoryRequest(request, url, env);
-    if (historyResponse) return historyResponse;
-    const pulseResponse = await handlePulseRequest(request, url, env);
-    if (pulseResponse) return pulseResponse;
-    if (url.pathname === '/') {
-      try { return page(await getArcGISCameras()); }
-      catch (error) {
-        console.error(JSON.stringify({ event: 'home_data_error', message: error instanceof Error ? error.message : String(error) }));
-        return new Response('Camera data temporarily unavailable', { status: 503 });
-      }
-    }
-    if (url.pathname === '/api/cameras') {
-      try {
-        const source = url.searchParams.get('source') === 'sdot' ? 'sdot' : 'arcgis';
-        const cameras = source === 'sdot' ? await getSdotCameras() : await getArcGISCameras(validatedFeatureService(url.searchParams.get('arcgis')));
-        return Response.json(cameras, { headers: { 'Cache-Control': 'public, max-age=30, s-maxage=300, stale-while-revalidate=600, stale-if-error=86400' } });
-      } catch (error) {
-        console.error(JSON.stringify({ event: 'camera_api_error', message: error instanceof Error ? error.message : String(error) }));
-        return Response.json({ error: 'Camera data unavailable' }, { status: 503 });
-      }
+/** Cameras as the page and `/api/cameras` serve them, with stream verdicts and image renditions. */
+async function presented(env: StreamBindings, cameras: Camera[]): Promise<Camera[]> {
+  return withImages(await withStreamStatus(env, cameras));
+}
+
+async function home(env: CatalogBindings & StreamBindings & ProviderBindings): Promise<Response> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const live = loadCameras(DEFAULT_PROVIDER, { params: new URLSearchParams(), env });
+    const timeout = new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error(`${DEFAULT_PROVIDER.label} feed timed out`)), HOME_FEED_TIMEOUT_MS); });
+    return page(await presented(env, (await Promise.race([live, timeout])).cameras));
+  } catch (error) {
+    console.error(JSON.stringify({ event: 'home_data_error', message: error instanceof Error ? error.message : String(error) }));
+    const snapshot = await catalogCameras(env, DEFAULT_PROVIDER.id).catch(() => null);
+    if (snapshot) return markStale(page(await presented(env, snapshot.cameras), snapshot.syncedAt), snapshot.syncedAt);
+    return new Response('Camera data temporarily unavailable', { status: 503 });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** `/api/cameras`, with the last good answer for the same query kept in the Cache API and the D1 catalog behind it. */
+async function cameraApi(url: URL, env: CatalogBindings & StreamBindings & ProviderBindings, ctx: WorkerContext): Promise<Response> {
+  const provider = getProvider(url.searchParams.get('source'));
+  if (!provider) return Response.json({ error: 'Unknown camera source' }, { status: 400 });
+  const query = new URLSearchParams([...url.searchParams].filter(([key]) => key !== 'source' && key !== '_').sort(([a], [b]) => a.localeCompare(b)));
+  const fallbackKey = `cameras:${provider.id}?${query}`;
+  try {
+    const { cameras, rejected, fieldMap, capped, upstreamTotal } = await loadCameras(provider, { params: url.searchParams, env });
+    const headers = new Headers({ 'Cache-Control': 'public, max-age=30, s-maxage=300, stale-while-revalidate=600, stale-if-error=86400' });
+    headers.set('X-Camera-Rejected', String(Object.values(rejected).reduce((sum, count) => sum + count, 0)));
+    headers.set('X-Camera-Rejections', JSON.stringify(rejected));
+    if (fieldMap) headers.set('X-Camera-Field-Map', JSON.stringify(fieldMap));
+    headers.set('X-Camera-Capped', String(Boolean(capped)));
+    if (upstreamTotal != null) headers.set('X-Camera-Upstream-Total', String(upstreamTotal));
+    const response = Response.json(await presented(env, cameras), { headers });
+    rememberResponse(ctx, url.origin, fallbackKey, response);
+    return response;
+  } catch (error) {
+    if (error instanceof ProviderConfigError) return Response.json({ error: error.message }, { status: 400 });
+    console.error(JSON.stringify({ event: 'camera_api_error', source: provider.id, message: error instanceof Error ? error.message : String(error) }));
+    const cached = await lastKnownGood(url.origin, fallbackKey);
+    if (cached) return cached;
+    // The catalog only mirrors the source's default layer and fields, so it cannot stand in for overrides.
+    const snapshot = query.toString() ? null : await catalogCameras(env, provider.id).catch(() => null);
+    if (snapshot) return markStale(Response.json(await presented(env, snapshot.cameras)), snapshot.syncedAt);
+    return Response.json({ error: 'Camera data unavailable' }, { status: 503 });
+  }
+}
+
+function proxied(route: 'image' | 'video', response: Response): Response {
+  countMetric('cams_proxy_responses', { route, status: String(response.status) });
+  return response;
+}
+
+async function route(request: Request, env: FetchBindings, ctx: WorkerContext): Promise<Response> {
+  const url = new URL(request.url);
+  const timelapseResponse = await handleTimelapseRequest(request, url, env);
+  if (timelapseResponse) return timelapseResponse;
+  const historyResponse = await handleHistoryRequest(request, url, env);
+  if (historyResponse) return historyResponse;
+  const timelineResponse = await handleTimelineRequest(request, url, env);
+  if (timelineResponse) return timelineResponse;
+  const pulseResponse = await handlePulseRequest(request, url, env);
+  if (pulseResponse) return pulseResponse;
+  const catalogResponse = await handleCatalogRequest(request, url, env);
+  if (catalogResponse) return catalogResponse;
+  const evidenceResponse = await handleEvidenceRequest(request, url, env);
+  if (evidenceResponse) return evidenceResponse;
+  const subscriptionResponse = await handleSubscriptionRequest(request, url, env);
+  if (subscriptionResponse) return subscriptionResponse;
+  const clipResponse = await handleClipRequest(request, url, env, ctx);
+  if (clipResponse) return clipResponse;
+  const maskResponse = await handleMaskRequest(request, url, env);
+  if (maskResponse) return maskResponse;
+  const cameraHealthResponse = await handleCameraHealthRequest(request, url, env);
+  if (cameraHealthResponse) return cameraHealthResponse;
+  const healthLedgerResponse = await handleHealthLedgerRequest(request, url, env);
+  if (healthLedgerResponse) return healthLedgerResponse;
+  const statusResponse = await handleStatusRequest(request, url, env);
+  if (statusResponse) return statusResponse;
+  const metricsResponse = await handleMetricsRequest(request, url, env);
+  if (metricsResponse) return metricsResponse;
+  const imageSetResponse = await handleImageSetRequest(request, url, env);
+  if (imageSetResponse) return imageSetResponse;
+  if (url.pathname === '/') return home(env);
+  if (url.pathname === '/api/cameras') return cameraApi(url, env, ctx);
+  if (url.pathname === '/api/image') return proxied('image', await image(request, url, env, ctx));
+  if (url.pathname === '/api/video') {
+    try { return proxied('video', await video(request, url, env, ctx)); }
+    catch (error) {
+      console.error(JSON.stringify({ event: 'video_proxy_error', message: error instanceof Error ? error.message : String(error) }));
+      return proxied('video', new Response('Video upstream unavailable', { status: 502 }));
     }
-    if (url.pathname === '/api/image') return image(request, url);
-    if (url.pathname === '/api/video') {
-      try { return await video(request, url); }
-      catch (error) {
-        console.error(JSON.stringify({ event: 'video_proxy_error', message: error instanceof Error ? error.message : String(error) }));
-        return new Response('Video upstream unavailable', { status: 502 });
-      }
+  }
+  return env.ASSETS.fetch(request);
+}
+
+export default {
+  async fetch(request: Request, bindings: FetchBindings, ctx: WorkerContext): Promise<Response> {
+    const env = bindings.HISTORY_DB ? { ...bindings, HISTORY_DB: instrumentD1(bindings.HISTORY_DB) } : bindings;
+    try {
+      return await route(request, env, ctx);
+    } finally {
+      ctx.waitUntil(flushMetrics(env));
     }
-    return env.ASSETS.fetch(request);
   },
-  async scheduled(controller: { scheduledTime: number }, env: Env & HistoryBindings, ctx: { waitUntil(promise: Promise<void>): void }): Promise<void> {
+  async scheduled(controller: { scheduledTime: number }, bindings: ScheduledBindings, ctx: WorkerContext): Promise<void> {
+    const env = bindings.HISTORY_DB ? { ...bindings, HISTORY_DB: instrumentD1(bindings.HISTORY_DB) } : bindings;
     ctx.waitUntil((async () => {
+      const tick: CronTick = { scheduledAt: controller.scheduledTime, cameras: null, capture: null, checks: [] };
+      let cameras: Camera[] = [];
       try {
-        const cameras = await getArcGISCameras();
-        await captureHistory(env, cameras, controller.scheduledTime);
+        const batch = await loadCameras(DEFAULT_PROVIDER, { params: new URLSearchParams(), env });
+        cameras = batch.cameras;
+        tick.cameras = cameras.length;
+        try {
+          await recordAliases(env, legacyAliases(batch.cameras), controller.scheduledTime);
+          await syncCatalog(env, DEFAULT_PROVIDER.id, batch, controller.scheduledTime);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'catalog_sync_error', message: error instanceof Error ? error.message : String(error) }));
+        }
+        const states = await openObservationStates(env).catch((error) => {
+          console.error(JSON.stringify({ event: 'history_capture_pulse_error', message: error instanceof Error ? error.message : String(error) }));
+          return new Map<string, ObservationState>();
+        });
+        tick.capture = await captureHistory(env, batch.cameras, states, controller.scheduledTime);
+        // Labelled before Pulse ranks changes, so this tick's outages are already left out of them.
+        try {
+          await refreshCameraIssues(env, controller.scheduledTime);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'camera_issues_error', message: error instanceof Error ? error.message : String(error) }));
+        }
+        let snapshot: PulseSnapshot | undefined;
+        try {
+          snapshot = await materializePulse(env, controller.scheduledTime);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'pulse_materialize_error', message: error instanceof Error ? error.message : String(error) }));
+        }
+        try {
+          await notifySubscribers(env, batch.cameras, controller.scheduledTime, snapshot);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'subscription_tick_error', message: error instanceof Error ? error.message : String(error) }));
+        }
+        try {
+          await probeStreams(env, batch.cameras, controller.scheduledTime);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'stream_probe_error', message: error instanceof Error ? error.message : String(error) }));
+        }
+        // A recording lasts as long as its clip, so it runs beside the rest of the tick instead of holding it up.
+        ctx.waitUntil((async () => {
+          try {
+            await recordPulseClips(env, batch.cameras, snapshot, controller.scheduledTime);
+          } catch (error) {
+            console.error(JSON.stringify({ event: 'stream_clip_error', message: error instanceof Error ? error.message : String(error) }));
+          }
+        })());
+        try {
+          await purgeClips(env, controller.scheduledTime);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'stream_clip_purge_error', message: error instanceof Error ? error.message : String(error) }));
+        }
         await purgeHistory(env, controller.scheduledTime);
+        try {
+          await purgeHealth(env, controller.scheduledTime);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'health_purge_error', message: error instanceof Error ? error.message : String(error) }));
+        }
+        try {
+          await buildBaselines(env, batch.cameras, controller.scheduledTime);
+        } catch (error) {
+          console.error(JSON.stringify({ event: 'baseline_build_error', message: error instanceof Error ? error.message : String(error) }));
+        }
+      } catch (error) {
+        tick.error = error instanceof Error ? error.message : String(error);
+        console.error(JSON.stringify({ event: 'history_tick_error', message: tick.error }));
+      }
+      try {
+        const images = captureCheck(tick.capture);
+        tick.checks = [...(images ? [images] : []), ...await probeUpstreams(cameras, controller.scheduledTime)];
+        await recordTick(env, tick);
       } catch (error) {
-        console.error(JSON.stringify({ event: 'history_tick_error', message: error instanceof Error ? error.message : String(error) }));
+        console.error(JSON.stringify({ event: 'status_record_error', message: error instanceof Error ? error.message : String(error) }));
       }
+      await flushMetrics(env, true);
     })());
   },
 };
\ No newline at end of file
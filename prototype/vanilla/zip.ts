@@ -0,0 +1,64 @@
+// Store-only ZIP writer. Bundled frames are already WebP, so deflating them would cost CPU for nothing.
+import { crc32 } from './png';
+
+export type ZipEntry = { name: string; data: Uint8Array; modifiedAt: number };
+
+function dosTimestamp(epochMs: number): { time: number; date: number } {
+  const date = new Date(Math.max(epochMs, Date.UTC(1980, 0, 1)));
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((date.getUTCFullYear() - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => ({ ...entry, path: encoder.encode(entry.name), crc: crc32(entry.data), stamp: dosTimestamp(entry.modifiedAt) }));
+  const localSize = files.reduce((sum, file) => sum + 30 + file.path.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.path.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    // Bit 11: names are UTF-8.
+    view.setUint16(offset + 6, 0x0800, true);
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, file.stamp.time, true);
+    view.setUint16(offset + 12, file.stamp.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.path.length, true);
+    view.setUint16(offset + 28, 0, true);
+    out.set(file.path, offset + 30);
+    out.set(file.data, offset + 30 + file.path.length);
+    offset += 30 + file.path.length + file.data.length;
+  }
+  const centralStart = offset;
+  for (const [index, file] of files.entries()) {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, file.stamp.time, true);
+    view.setUint16(offset + 14, file.stamp.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.path.length, true);
+    view.setUint32(offset + 42, offsets[index], true);
+    out.set(file.path, offset + 46);
+    offset += 46 + file.path.length;
+  }
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return out;
+}
@@ -16,9 +16,21 @@ import {
 import { CameraCard } from './components/CameraCard';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { MapView } from './components/MapView';
-import { fetchArcGISCameras, ARCGIS_FEATURE_SERVICE_URL } from './services/arcgis';
-import { fetchCameras } from './services/api';
-import { CameraHealth, CollectionId, cameraCollections, filterCameras, getCameraId } from './lib/cameras';
+import { fetchArcGISCameraReport, ARCGIS_FEATURE_SERVICE_URL, ArcGISCameraReport, ArcGISFieldMap } from './services/arcgis';
+import { fetchCameras, fetchHealthLedger, fetchStreamStatuses } from './services/api';
+import {
+  CameraHealth,
+  CollectionId,
+  cameraCollections,
+  filterCameras,
+  getCameraId,
+  getCameraIdentity,
+  getStreamName,
+  hasPlayableStream,
+  mergeLedgerHealth,
+  mergeStreamStatuses,
+} from './lib/cameras';
+import { matchesCameraId } from './lib/identity';
 import { FocusCameraModal } from './components/FocusCameraModal';
 import { TrafficCamera } from './types';
 
@@ -29,14 +41,48 @@ type CollectionMode = 'all' | 'any';
 const MOBILE_INITIAL_CAMERA_COUNT = 6;
 const DESKTOP_INITIAL_CAMERA_COUNT = 16;
 const CAMERA_PAGE_SIZE = 6;
+const STREAM_STATUS_INTERVAL_MS = 2 * 60_000;
+
+// The same roles, in the same order, as the vanilla source settings.
+const FIELD_MAP_INPUTS: Array<[keyof ArcGISFieldMap, string]> = [
+  ['label', 'Label'],
+  ['image', 'Image URL'],
+  ['name', 'Name / ID'],
+  ['stream', 'Stream name'],
+  ['status', 'Status'],
+];
 
 function getInitialCameraCount(): number {
   return window.matchMedia('(min-width: 768px)').matches ? DESKTOP_INITIAL_CAMERA_COUNT : MOBILE_INITIAL_CAMERA_COUNT;
 }
 
-function makeFetcher(source: DataSource, arcgisUrl: string) {
-  return (_key: string): Promise<TrafficCamera[]> =>
-    source === 'arcgis' ? fetchArcGISCameras(arcgisUrl) : fetchCameras();
+interface CameraFeed {
+  cameras: TrafficCamera[];
+  report?: ArcGISCameraReport;
+}
+
+function makeFetcher(source: DataSource, arcgisUrl: string, fieldOverrides: Partial<ArcGISFieldMap>) {
+  return async (_key: string): Promise<CameraFeed> => {
+    if (source !== 'arcgis') return { cameras: await fetchCameras() };
+    const report = await fetchArcGISCameraReport(arcgisUrl, fieldOverrides);
+    return { cameras: report.cameras, report };
+  };
+}
+
+function describeFieldMap(report: ArcGISCameraReport | undefined): string {
+  if (!report) return '';
+  const fields = FIELD_MAP_INPUTS.filter(([role]) => report.fieldMap[role]).map(([role]) => `${role}=${report.fieldMap[role]}`);
+  return ` Fields: ${fields.join(' · ')}.`;
+}
+
+function describeRejections(report: ArcGISCameraReport | undefined): string {
+  const entries = Object.entries(report?.rejected ?? {});
+  const total = entries.reduce((sum, [, count]) => sum + (count ?? 0), 0);
+  const capped = report?.capped
+    ? ` Result capped${report.upstreamTotal ? ` — the layer has ${report.upstreamTotal} features` : ''}.`
+    : '';
+  if (!total) return capped;
+  return `${capped} ${total} features skipped (${entries.map(([reason, count]) => `${count} ${reason.replace(/_/g, ' ')}`).join(', ')}).`;
 }
 
 function getInitialCollections(): CollectionId[] {
@@ -58,6 +104,8 @@ export default function App() {
   const [arcgisUrl, setArcgisUrl] = useState(ARCGIS_FEATURE_SERVICE_URL);
   const [pendingUrl, setPendingUrl] = useState(ARCGIS_FEATURE_SERVICE_URL);
   const [arcgisUrlError, setArcgisUrlError] = useState('');
+  const [fieldOverrides, setFieldOverrides] = useState<Partial<ArcGISFieldMap>>({});
+  const [pendingFields, setPendingFields] = useState<Partial<ArcGISFieldMap>>({});
   const [showSettings, setShowSettings] = useState(false);
   const [searchQuery, setSearchQuery] = useState(() => new URLSearchParams(window.location.search).get('q') ?? '');
   const [activeCollections, setActiveCollections] = useState<CollectionId[]>(getInitialCollections);
@@ -71,12 +119,13 @@ export default function App() {
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const deferredQuery = useDeferredValue(searchQuery);
 
-  const swrKey = `cameras-${source}-${arcgisUrl}`;
-  const { data: cameras, error, isLoading, mutate } = useSWR(
+  const swrKey = `cameras-${source}-${arcgisUrl}-${JSON.stringify(fieldOverrides)}`;
+  const { data: feed, error, isLoading, mutate } = useSWR(
     swrKey,
-    makeFetcher(source, arcgisUrl),
+    makeFetcher(source, arcgisUrl, fieldOverrides),
     { refreshInterval: 5 * 60_000, revalidateOnFocus: false },
   );
+  const cameras = feed?.cameras;
 
   const filteredCameras = useMemo(
     () => filterCameras(cameras ?? [], deferredQuery, activeCollections, healthByCamera, collectionMode),
@@ -88,6 +137,40 @@ export default function App() {
     [filteredCameras, visibleCameraCount],
   );
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchHealthLedger()
+      .then((entries) => {
+        if (!cancelled && entries.length) setHealthByCamera((current) => mergeLedgerHealth(current, entries));
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const streams = [...new Set((cameras ?? []).map(getStreamName).filter((name): name is string => Boolean(name)))];
+    if (!streams.length) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      fetchStreamStatuses(streams)
+        .then((statuses) => {
+          if (!cancelled && Object.keys(statuses).length) {
+            setHealthByCamera((current) => mergeStreamStatuses(current, cameras ?? [], statuses));
+          }
+        })
+        .catch(() => undefined);
+    };
+    refresh();
+    const timer = window.setInterval(refresh, STREAM_STATUS_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [cameras]);
+
   useEffect(() => {
     setVisibleCameraCount(getInitialCameraCount());
   }, [activeCollections, collectionMode, deferredQuery, source]);
@@ -109,7 +192,7 @@ export default function App() {
     return () => observer.disconnect();
   }, [filteredCameras.length, visibleCameraCount]);
 
-  const withVideo = cameras?.filter((c) => c.video_url?.url).length ?? 0;
+  const withVideo = cameras?.filter((c) => hasPlayableStream(c, healthByCamera[getCameraId(c)])).length ?? 0;
   const issueCount = (Object.values(healthByCamera) as CameraHealth[]).filter((health) => health.lastImageError || health.lastStreamError).length;
 
   const trackSuccessfulRefreshes = activeCollections.includes('recent') || showDiagnostics;
@@ -189,12 +272,19 @@ export default function App() {
 
     setArcgisUrlError('');
     setArcgisUrl(nextUrl);
+    const overrides: Partial<ArcGISFieldMap> = {};
+    for (const [role] of FIELD_MAP_INPUTS) {
+      const value = pendingFields[role]?.trim();
+      if (value) overrides[role] = value;
+    }
+    setFieldOverrides(overrides);
     setSource('arcgis');
     setShowSettings(false);
   }
 
   function restoreDefaultArcGISUrl() {
     setPendingUrl(ARCGIS_FEATURE_SERVICE_URL);
+    setPendingFields({});
     setArcgisUrlError('');
   }
 
@@ -212,7 +302,8 @@ export default function App() {
     if (!cameras?.length || focusedCamera || hasHydratedUrlCamera) return;
     const params = new URLSearchParams(window.location.search);
     const cameraId = params.get('camera');
-    const camera = cameras.find((item) => getCameraId(item) === cameraId);
+    // Links shared before the identity change still carry a legacy ID.
+    const camera = cameras.find((item) => matchesCameraId(getCameraIdentity(item), cameraId));
     if (camera) setFocusedCamera(camera);
     setHasHydratedUrlCamera(true);
   }, [cameras, focusedCamera, hasHydratedUrlCamera]);
@@ -410,6 +501,26 @@ export default function App() {
                     </button>
                   </div>
                 </div>
+                <details className="mt-3 rounded-2xl border border-slate-400/15 bg-slate-950/45 px-3 py-2 text-xs text-slate-300">
+                  <summary className="cursor-pointer text-slate-200">ArcGIS field mapping</summary>
+                  <p className="mt-2">Leave blank to auto-detect from the layer metadata.</p>
+                  <div className="mt-2 grid gap-2 sm:grid-cols-5">
+                    {FIELD_MAP_INPUTS.map(([role, label]) => (
+                      <label key={role} className="flex flex-col gap-1">
+                        {label}
+                        <input
+                          type="text"
+                          value={pendingFields[role] ?? ''}
+                          onChange={(e) => setPendingFields((current) => ({ ...current, [role]: e.target.value }))}
+                          placeholder={(source === 'arcgis' && feed?.report?.fieldMap[role]) || 'auto'}
+                          autoComplete="off"
+                          spellCheck={false}
+                          className="rounded-lg border border-slate-400/20 bg-slate-950/75 px-2 py-1.5 text-slate-200 placeholder:text-slate-500 focus:border-cyan-300/55 focus:outline-none focus:ring-2 focus:ring-cyan-400/25"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </details>
                 {arcgisUrlError && (
                   <p id="arcgis-url-error" className="mt-2 text-xs text-rose-200">
                     {arcgisUrlError}
@@ -417,6 +528,8 @@ export default function App() {
                 )}
                 <p id="arcgis-url-help" className="mt-2 text-xs text-slate-300">
                   Current source: {source === 'arcgis' ? 'ArcGIS FeatureServer' : 'SDOT Socrata'}. Paste a Seattle GIS FeatureServer endpoint or restore the default.
+                  {source === 'arcgis' && describeFieldMap(feed?.report)}
+                  {source === 'arcgis' && describeRejections(feed?.report)}
                 </p>
               </div>
             )}
@@ -605,6 +718,7 @@ export default function App() {
                       camera={camera}
                       searchQuery={deferredQuery}
                       priority={index === 0}
+                      streamStatus={healthByCamera[getCameraId(camera)]?.streamStatus}
                       onFocus={setFocusedCamera}
                       onHealthChange={handleHealthChange}
                     />
@@ -626,6 +740,7 @@ export default function App() {
           <FocusCameraModal
             camera={focusedCamera}
             cameras={filteredCameras.length ? filteredCameras : cameras ?? []}
+            streamStatus={healthByCamera[getCameraId(focusedCamera)]?.streamStatus}
             onClose={() => setFocusedCamera(null)}
             onSelect={setFocusedCamera}
           />
@@ -1,5 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { AlertTriangle, ExternalLink, MapPin, RefreshCw, Video as VideoIcon } from 'lucide-react';
+import { StreamStatus, hasPlayableStream } from '../lib/cameras';
+import { getSnapshotSrcSet, getSnapshotUrl } from '../lib/snapshots';
 import { cn } from '../lib/utils';
 import { TrafficCamera } from '../types';
 
@@ -8,26 +10,16 @@ interface CameraCardProps {
   searchQuery?: string;
   refreshInterval?: number;
   priority?: boolean;
+  /** From `/api/streams`; a stalled or offline stream gets no play control. */
+  streamStatus?: StreamStatus;
   onFocus?: (camera: TrafficCamera) => void;
   onHealthChange?: (camera: TrafficCamera, event: 'image-refresh' | 'image-error' | 'stream-error') => void;
 }
 
-function getSnapshotUrl(sourceUrl: string, timestamp: number): string {
-  try {
-    const parsed = new URL(sourceUrl);
-    if (parsed.hostname === 'www.seattle.gov' && parsed.pathname.startsWith('/trafficcams/images/')) {
-      const version = Math.floor(timestamp / 30_000);
-      return `/api/image?path=${encodeURIComponent(parsed.pathname)}&v=${version}`;
-    }
-  } catch {
-    // Fall through to the source URL for non-standard feeds.
-  }
-
-  const separator = sourceUrl.includes('?') ? '&' : '?';
-  return `${sourceUrl}${separator}t=${timestamp}`;
-}
+// Grid columns by breakpoint, matching the grid in App.tsx.
+const SNAPSHOT_SIZES = '(min-width: 1280px) 20rem, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
 
-export const CameraCard: React.FC<CameraCardProps> = ({ camera, searchQuery = '', refreshInterval = 30_000, priority = false, onFocus, onHealthChange }) => {
+export const CameraCard: React.FC<CameraCardProps> = ({ camera, searchQuery = '', refreshInterval = 30_000, priority = false, streamStatus, onFocus, onHealthChange }) => {
   const cardRef = useRef<HTMLElement>(null);
   const [isInView, setIsInView] = useState(false);
   const [isPageVisible, setIsPageVisible] = useState(() => document.visibilityState === 'visible');
@@ -78,7 +70,8 @@ export const CameraCard: React.FC<CameraCardProps> = ({ camera, searchQuery = ''
   }, [isInView, isVideoPlaying]);
 
   const imageUrl = getSnapshotUrl(camera.imageurl.url, timestamp);
-  const videoUrl = camera.video_url?.url;
+  const imageSrcSet = getSnapshotSrcSet(camera.imageurl.url, timestamp);
+  const videoUrl = hasPlayableStream(camera, { streamStatus }) ? camera.video_url?.url : undefined;
   const normalizedQuery = searchQuery.trim().toLowerCase();
   const labelIndex = normalizedQuery ? camera.cameralabel.toLowerCase().indexOf(normalizedQuery) : -1;
   const highlightedLabel = labelIndex >= 0 ? (
@@ -156,6 +149,8 @@ export const CameraCard: React.FC<CameraCardProps> = ({ camera, searchQuery = ''
         ) : (
           <img
             src={imageUrl}
+            srcSet={imageSrcSet}
+            sizes={imageSrcSet ? SNAPSHOT_SIZES : undefined}
             alt={camera.cameralabel}
             className={cn(
               'h-full w-full cursor-pointer object-cover transition-opacity duration-500',
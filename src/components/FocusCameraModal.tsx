@@ -1,31 +1,175 @@
 import { useEffect, useId, useRef, useState } from 'react';
-import { ChevronLeft, ChevronRight, Copy, ExternalLink, RefreshCw, Video, X } from 'lucide-react';
+import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent } from 'react';
+import { ChevronLeft, ChevronRight, Copy, ExternalLink, RefreshCw, Video, X, ZoomIn, ZoomOut } from 'lucide-react';
 import { TrafficCamera } from '../types';
-import { getCameraCoordinates, getCameraId, getNearbyCameras } from '../lib/cameras';
+import { StreamStatus, getCameraCoordinates, getCameraId, getCameraIdentity, getNearbyCameras, hasPlayableStream } from '../lib/cameras';
+import { matchesCameraId } from '../lib/identity';
+import { ImageCrop, coveringCrop } from '../lib/renditions';
+import { getSnapshotCropUrl, getSnapshotSrcSet, getSnapshotUrl, proxiedSnapshotPath } from '../lib/snapshots';
+import { DEFAULT_ZOOM, MAX_ZOOM, SnapshotZoom, formatZoom, panZoom, parseZoom, zoomAround } from '../lib/zoom';
+import { fetchCropRenditions } from '../services/api';
 
 interface FocusCameraModalProps {
   camera: TrafficCamera;
   cameras: TrafficCamera[];
+  /** The focused camera's stream status from `/api/streams`. */
+  streamStatus?: StreamStatus;
   onClose: () => void;
   onSelect: (camera: TrafficCamera) => void;
 }
 
-export function FocusCameraModal({ camera, cameras, onClose, onSelect }: FocusCameraModalProps) {
+// The snapshot column's width at each breakpoint, matching the grid below.
+const FOCUS_SIZES = '(min-width: 1024px) calc(min(64rem, 100vw) - 18rem), 100vw';
+// Sharper crops and the URL wait until a wheel, drag or pinch has settled.
+const ZOOM_SETTLE_MS = 250;
+const ZOOM_STEP = 1.5;
+
+// A shared link's zoom applies only to the camera it was shared with.
+function getInitialZoom(camera: TrafficCamera): SnapshotZoom {
+  const params = new URLSearchParams(window.location.search);
+  if (!matchesCameraId(getCameraIdentity(camera), params.get('camera'))) return DEFAULT_ZOOM;
+  return parseZoom(params.get('zoom')) ?? DEFAULT_ZOOM;
+}
+
+function replaceZoomParam(zoom: SnapshotZoom) {
+  const params = new URLSearchParams(window.location.search);
+  zoom.scale > 1 ? params.set('zoom', formatZoom(zoom)) : params.delete('zoom');
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+}
+
+export function FocusCameraModal({ camera, cameras, streamStatus, onClose, onSelect }: FocusCameraModalProps) {
   const [timestamp, setTimestamp] = useState(Date.now());
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const [zoom, setZoom] = useState(() => getInitialZoom(camera));
+  const [zoomDetail, setZoomDetail] = useState<{ src: string; crop: ImageCrop } | null>(null);
+  const [zoomCameraId, setZoomCameraId] = useState(() => getCameraId(camera));
   const dialogTitleId = useId();
   const dialogRef = useRef<HTMLDivElement>(null);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const snapshotPath = proxiedSnapshotPath(camera.imageurl.url);
   const coords = getCameraCoordinates(camera);
   const nearby = getNearbyCameras(camera, cameras);
   const currentIndex = cameras.findIndex((candidate) => getCameraId(candidate) === getCameraId(camera));
 
+  // Another camera starts at the full frame.
+  if (zoomCameraId !== getCameraId(camera)) {
+    setZoomCameraId(getCameraId(camera));
+    setZoom(DEFAULT_ZOOM);
+    setZoomDetail(null);
+  }
+
   function selectAdjacentCamera(direction: -1 | 1) {
     if (currentIndex === -1 || cameras.length === 0) return;
     const next = cameras[(currentIndex + direction + cameras.length) % cameras.length];
     if (next) onSelect(next);
   }
 
+  function getViewportPoint(clientX: number, clientY: number) {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!rect?.width || !rect.height) return { x: 0.5, y: 0.5 };
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
+  }
+
+  function onZoomPointerDown(event: ReactPointerEvent<HTMLDivElement>) {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+  }
+
+  function onZoomPointerMove(event: ReactPointerEvent<HTMLDivElement>) {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!previous || !rect?.width || !rect.height) return;
+
+    const [other] = Array.from(pointers.entries()).filter(([id]) => id !== event.pointerId).map(([, point]) => point);
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (!other) {
+      const dx = (event.clientX - previous.x) / rect.width;
+      const dy = (event.clientY - previous.y) / rect.height;
+      setZoom((current) => panZoom(current, dx, dy));
+      return;
+    }
+
+    // Pinch: scale by the change in finger distance around the point between the fingers.
+    const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+    const after = Math.hypot(event.clientX - other.x, event.clientY - other.y);
+    if (!before || !after) return;
+    const center = getViewportPoint((event.clientX + other.x) / 2, (event.clientY + other.y) / 2);
+    setZoom((current) => zoomAround(current, after / before, center.x, center.y));
+  }
+
+  function onZoomPointerEnd(event: ReactPointerEvent<HTMLDivElement>) {
+    pointersRef.current.delete(event.pointerId);
+  }
+
+  function onZoomDoubleClick(event: ReactMouseEvent<HTMLDivElement>) {
+    const point = getViewportPoint(event.clientX, event.clientY);
+    setZoom((current) => (current.scale > 1 ? DEFAULT_ZOOM : zoomAround(current, 2, point.x, point.y)));
+  }
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    // React registers wheel listeners as passive, which would leave the page scrolling while zooming.
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const point = getViewportPoint(event.clientX, event.clientY);
+      const factor = Math.exp(-event.deltaY * (event.deltaMode === 1 ? 0.05 : 0.002));
+      setZoom((current) => zoomAround(current, factor, point.x, point.y));
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => replaceZoomParam(zoom), ZOOM_SETTLE_MS);
+    return () => window.clearTimeout(timer);
+  }, [zoom]);
+
+  useEffect(() => () => replaceZoomParam(DEFAULT_ZOOM), []);
+
+  useEffect(() => {
+    setZoomDetail(null);
+  }, [snapshotPath, timestamp]);
+
+  useEffect(() => {
+    if (!snapshotPath || zoom.scale === 1) return;
+    let cancelled = false;
+
+    // Once the view settles, load the visible crop at the resolution the viewport can show.
+    const timer = window.setTimeout(() => {
+      const span = 1 / zoom.scale;
+      const crop = coveringCrop({ x: zoom.x, y: zoom.y, width: span, height: span });
+      const viewport = viewportRef.current;
+      if (!crop || !viewport) return;
+
+      const pixelWidth = viewport.clientWidth * window.devicePixelRatio * crop.width * zoom.scale;
+      // Crops are signed by the worker; where it cannot sign them, the scaled-up frame stays.
+      fetchCropRenditions(snapshotPath, crop).then((set) => {
+        const src = set && getSnapshotCropUrl(set.srcset, timestamp, pixelWidth);
+        if (!src || cancelled) return;
+        const image = new Image();
+        image.src = src;
+        return image.decode().then(() => {
+          if (!cancelled) setZoomDetail({ src, crop });
+        });
+      }).catch(() => {
+        // Keep showing the scaled-up frame when the crop fails.
+      });
+    }, ZOOM_SETTLE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [snapshotPath, timestamp, zoom]);
+
   useEffect(() => {
     const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
     closeButtonRef.current?.focus();
@@ -40,6 +184,9 @@ export function FocusCameraModal({ camera, cameras, onClose, onSelect }: FocusCa
       if (event.key === 'Escape') onClose();
       if (event.key === 'ArrowLeft') selectAdjacentCamera(-1);
       if (event.key === 'ArrowRight') selectAdjacentCamera(1);
+      if (event.key === '+' || event.key === '=') setZoom((current) => zoomAround(current, ZOOM_STEP));
+      if (event.key === '-') setZoom((current) => zoomAround(current, 1 / ZOOM_STEP));
+      if (event.key === '0') setZoom(DEFAULT_ZOOM);
       if (event.key !== 'Tab' || !dialogRef.current) return;
 
       const focusable = Array.from(
@@ -70,6 +217,7 @@ export function FocusCameraModal({ camera, cameras, onClose, onSelect }: FocusCa
   async function copyBriefingLink() {
     const url = new URL(window.location.href);
     url.searchParams.set('camera', getCameraId(camera));
+    zoom.scale > 1 ? url.searchParams.set('zoom', formatZoom(zoom)) : url.searchParams.delete('zoom');
 
     try {
       await navigator.clipboard.writeText(url.toString());
@@ -115,8 +263,56 @@ export function FocusCameraModal({ camera, cameras, onClose, onSelect }: FocusCa
         </header>
 
         <div className="grid gap-0 lg:grid-cols-[1fr_18rem]">
-          <div className="bg-slate-950">
-            <img src={`${camera.imageurl.url}?t=${timestamp}`} alt={camera.cameralabel} className="max-h-[70vh] min-h-72 w-full object-contain" />
+          <div className="relative flex min-h-72 items-center justify-center bg-slate-950">
+            <div
+              ref={viewportRef}
+              className={`relative touch-none select-none overflow-hidden ${zoom.scale > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+              onPointerDown={onZoomPointerDown}
+              onPointerMove={onZoomPointerMove}
+              onPointerUp={onZoomPointerEnd}
+              onPointerCancel={onZoomPointerEnd}
+              onDoubleClick={onZoomDoubleClick}
+            >
+              <div
+                className="relative origin-top-left"
+                style={{ transform: `scale(${zoom.scale}) translate(${-zoom.x * 100}%, ${-zoom.y * 100}%)` }}
+              >
+                <img
+                  src={getSnapshotUrl(camera.imageurl.url, timestamp, 960, 2)}
+                  srcSet={getSnapshotSrcSet(camera.imageurl.url, timestamp)}
+                  sizes={FOCUS_SIZES}
+                  alt={camera.cameralabel}
+                  draggable={false}
+                  className="block max-h-[70vh] w-auto max-w-full"
+                />
+                {zoomDetail && (
+                  <img
+                    src={zoomDetail.src}
+                    alt=""
+                    draggable={false}
+                    className="pointer-events-none absolute"
+                    style={{
+                      left: `${zoomDetail.crop.x * 100}%`,
+                      top: `${zoomDetail.crop.y * 100}%`,
+                      width: `${zoomDetail.crop.width * 100}%`,
+                      height: `${zoomDetail.crop.height * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            </div>
+            <div className="absolute bottom-3 right-3 flex items-center gap-1 rounded-xl border border-slate-300/20 bg-slate-950/75 p-1 text-xs text-slate-200 backdrop-blur">
+              <button onClick={() => setZoom((current) => zoomAround(current, 1 / ZOOM_STEP))} disabled={zoom.scale === 1} className="rounded-lg p-1.5 transition hover:text-cyan-200 disabled:opacity-40" aria-label="Zoom out">
+                <ZoomOut className="h-4 w-4" />
+              </button>
+              <span className="w-10 text-center tabular-nums" aria-live="polite">{zoom.scale.toFixed(1)}×</span>
+              <button onClick={() => setZoom((current) => zoomAround(current, ZOOM_STEP))} disabled={zoom.scale === MAX_ZOOM} className="rounded-lg p-1.5 transition hover:text-cyan-200 disabled:opacity-40" aria-label="Zoom in">
+                <ZoomIn className="h-4 w-4" />
+              </button>
+              {zoom.scale > 1 && (
+                <button onClick={() => setZoom(DEFAULT_ZOOM)} className="rounded-lg px-2 py-1.5 transition hover:text-cyan-200">Reset</button>
+              )}
+            </div>
           </div>
           <aside className="space-y-4 border-t border-slate-300/15 p-4 lg:border-l lg:border-t-0">
             <div className="rounded-2xl border border-slate-300/15 bg-slate-950/45 p-3">
@@ -134,7 +330,7 @@ export function FocusCameraModal({ camera, cameras, onClose, onSelect }: FocusCa
             </div>
 
             <div className="space-y-2">
-              {camera.video_url?.url && (
+              {camera.video_url?.url && hasPlayableStream(camera, { streamStatus }) && (
                 <a href={camera.video_url.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 rounded-xl border border-cyan-300/35 bg-cyan-500/10 px-3 py-2 text-xs text-cyan-100 transition hover:bg-cyan-500/20" aria-label={`Open live stream for ${camera.cameralabel}`}>
                   <Video className="h-4 w-4" /> Open live stream
                 </a>
@@ -3,7 +3,7 @@ import maplibregl from 'maplibre-gl';
 import { ExternalLink, LocateFixed, RefreshCw, Video as VideoIcon, X } from 'lucide-react';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { TrafficCamera } from '../types';
-import { CameraHealth, getCameraId } from '../lib/cameras';
+import { CameraHealth, getCameraId, hasPlayableStream } from '../lib/cameras';
 
 const DARK_STYLE: maplibregl.StyleSpecification = {
   version: 8,
@@ -125,7 +125,7 @@ export function MapViewImpl({ cameras, healthByCamera = {}, onFocus }: MapViewPr
 
       const el = document.createElement('button');
       const health = healthByCamera[getCameraId(camera)];
-      el.className = `camera-marker${camera.video_url?.url ? ' camera-marker--live' : ''}${health?.lastImageError ? ' camera-marker--issue' : ''}${selected && getCameraId(selected) === getCameraId(camera) ? ' camera-marker--selected' : ''}`;
+      el.className = `camera-marker${hasPlayableStream(camera, health) ? ' camera-marker--live' : ''}${health?.lastImageError ? ' camera-marker--issue' : ''}${selected && getCameraId(selected) === getCameraId(camera) ? ' camera-marker--selected' : ''}`;
       el.type = 'button';
       el.setAttribute('aria-label', `View ${camera.cameralabel}`);
       el.setAttribute('title', camera.cameralabel);
@@ -201,7 +201,7 @@ export function MapViewImpl({ cameras, healthByCamera = {}, onFocus }: MapViewPr
           </div>
 
           <footer className="flex flex-wrap items-center gap-3 border-t border-slate-300/10 px-4 py-3">
-            {selected.video_url?.url && (
+            {selected.video_url?.url && hasPlayableStream(selected, healthByCamera[getCameraId(selected)]) && (
               <a
                 href={selected.video_url.url}
                 target="_blank"
@@ -1,11 +1,23 @@
 import { TrafficCamera } from '../types';
+import { CameraIdentity, cameraIdentity } from './identity';
 
 export type CollectionId = 'live' | 'downtown' | 'bridges' | 'i5' | 'aurora' | 'recent' | 'issues';
 
+/** What the worker's `/api/streams` saw of a camera's stream: listing fresh segments, stuck, or not running. */
+export type StreamStatus = 'live' | 'stalled' | 'offline';
+
 export interface CameraHealth {
   lastImageRefresh?: number;
   lastImageError?: number;
   lastStreamError?: number;
+  streamStatus?: StreamStatus;
+}
+
+/** One camera's entry in the worker's `/api/health` ledger; only the fields the app reads. */
+export interface CameraHealthLedgerEntry {
+  cameraId: string;
+  image: { lastOkAt: number | null; lastErrorAt: number | null } | null;
+  stream: { lastOkAt: number | null; lastErrorAt: number | null } | null;
 }
 
 export interface CameraCollection {
@@ -22,9 +34,28 @@ const corridorKeywords: Record<Exclude<CollectionId, 'live' | 'recent' | 'issues
   aurora: ['aurora', 'sr 99', 'sr99', '99'],
 };
 
+export function getCameraIdentity(camera: TrafficCamera): CameraIdentity {
+  return cameraIdentity({
+    label: camera.cameralabel,
+    imageUrl: camera.imageurl?.url,
+    videoUrl: camera.video_url?.url,
+    webUrl: camera.web_url?.url,
+  });
+}
+
 export function getCameraId(camera: TrafficCamera): string {
-  const raw = camera.web_url?.url || camera.video_url?.url || camera.imageurl?.url || camera.cameralabel;
-  return encodeURIComponent(raw.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || camera.cameralabel);
+  return getCameraIdentity(camera).id;
+}
+
+/** The Wowza stream name in a camera's video URL, which is what `/api/streams` takes. */
+export function getStreamName(camera: TrafficCamera): string | null {
+  const match = /\/live\/([^/]+)\.stream\//.exec(camera.video_url?.url ?? '');
+  return match ? match[1] : null;
+}
+
+/** A camera with a video URL is playable unless the worker has seen its stream stalled or offline. */
+export function hasPlayableStream(camera: TrafficCamera, health?: CameraHealth): boolean {
+  return Boolean(camera.video_url?.url) && (!health?.streamStatus || health.streamStatus === 'live');
 }
 
 export function getCameraCoordinates(camera: TrafficCamera): { lat: number; lng: number } | null {
@@ -64,7 +95,7 @@ export const cameraCollections: CameraCollection[] = [
     id: 'live',
     label: 'Live streams',
     description: 'Cameras with a playable video stream.',
-    matches: (camera) => Boolean(camera.video_url?.url),
+    matches: (camera, health) => hasPlayableStream(camera, health),
   },
   {
     id: 'downtown',
@@ -104,6 +135,46 @@ export const cameraCollections: CameraCollection[] = [
   },
 ];
 
+/**
+ * Folds ledger entries into tab-local health, keeping whichever saw an event last. An error only counts
+ * while nothing has loaded since, as with a successful refresh in this tab.
+ */
+export function mergeLedgerHealth(
+  healthByCamera: Record<string, CameraHealth>,
+  entries: CameraHealthLedgerEntry[],
+): Record<string, CameraHealth> {
+  const next = { ...healthByCamera };
+  for (const entry of entries) {
+    const current = next[entry.cameraId] ?? {};
+    const lastImageRefresh = Math.max(current.lastImageRefresh ?? 0, entry.image?.lastOkAt ?? 0) || undefined;
+    const lastImageError = Math.max(current.lastImageError ?? 0, entry.image?.lastErrorAt ?? 0);
+    const streamError = (entry.stream?.lastErrorAt ?? 0) > (entry.stream?.lastOkAt ?? 0) ? entry.stream?.lastErrorAt ?? 0 : 0;
+    next[entry.cameraId] = {
+      ...current,
+      lastImageRefresh,
+      lastImageError: lastImageError > (lastImageRefresh ?? 0) ? lastImageError : undefined,
+      lastStreamError: Math.max(current.lastStreamError ?? 0, streamError) || undefined,
+    };
+  }
+  return next;
+}
+
+/** Sets each camera's `streamStatus` from `/api/streams`, keyed by stream name. */
+export function mergeStreamStatuses(
+  healthByCamera: Record<string, CameraHealth>,
+  cameras: TrafficCamera[],
+  statuses: Record<string, StreamStatus>,
+): Record<string, CameraHealth> {
+  const next = { ...healthByCamera };
+  for (const camera of cameras) {
+    const stream = getStreamName(camera);
+    if (!stream || !statuses[stream]) continue;
+    const cameraId = getCameraId(camera);
+    next[cameraId] = { ...next[cameraId], streamStatus: statuses[stream] };
+  }
+  return next;
+}
+
 export function filterCameras(
   cameras: TrafficCamera[],
   query: string,
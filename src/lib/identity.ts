@@ -0,0 +1,61 @@
+// Camera identity shared by the React app and the vanilla worker, so both derive the same IDs
+// for history, pulse and `?camera=` share links.
+
+export interface CameraIdentityInput {
+  /** An upstream primary key that is known to be stable (e.g. WSDOT CameraID). */
+  key?: string;
+  /** The ArcGIS NAME attribute, when the feed has one. */
+  name?: string;
+  label: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  webUrl?: string;
+}
+
+export interface CameraIdentity {
+  id: string;
+  /** IDs earlier versions of either app derived for the same camera. */
+  aliases: string[];
+}
+
+export function slugCameraId(raw: string): string {
+  return encodeURIComponent(raw.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || raw);
+}
+
+function imagePath(imageUrl: string | undefined): string {
+  if (!imageUrl) return '';
+  try {
+    return new URL(imageUrl, 'https://placeholder.invalid').pathname;
+  } catch {
+    return '';
+  }
+}
+
+// SDOT edits labels and page URLs far more often than the snapshot file name, which is also the one
+// value the Socrata and ArcGIS feeds share, so the file stem anchors the ID.
+function imageStem(imageUrl: string | undefined): string {
+  const file = imagePath(imageUrl).split('/').pop() ?? '';
+  let decoded = file;
+  try {
+    decoded = decodeURIComponent(file);
+  } catch {
+    // A stray `%` is part of the name, not an escape.
+  }
+  return decoded.replace(/\.[a-z0-9]+$/i, '');
+}
+
+export function cameraIdentity(input: CameraIdentityInput): CameraIdentity {
+  const stem = imageStem(input.imageUrl);
+  const id = input.key ? slugCameraId(input.key) : stem ? slugCameraId(stem) : slugCameraId(input.name || input.label);
+  const legacy = [
+    // React app: web_url, then video_url, then imageurl, then label.
+    slugCameraId(input.webUrl || input.videoUrl || input.imageUrl || input.label),
+    // Vanilla worker: ArcGIS NAME, then the snapshot path.
+    slugCameraId(input.name || imagePath(input.imageUrl) || input.label),
+  ];
+  return { id, aliases: [...new Set(legacy)].filter((alias) => alias !== id) };
+}
+
+export function matchesCameraId(identity: CameraIdentity, id: string | null | undefined): boolean {
+  return Boolean(id) && (identity.id === id || identity.aliases.includes(id!));
+}
@@ -0,0 +1,192 @@
+// Image renditions served by `/api/image`, shared by the React worker, the vanilla worker and the React app so
+// they agree on what the proxy transforms. Whole frames on the ladder of widths and device pixel ratios are served
+// to anyone. A crop, or a width off the ladder, is served only with a signature from `IMAGE_SIGNING_KEY`, which the
+// workers issue in `/api/image/renditions` for camera images alone; without the key they refuse such requests, so
+// the proxy cannot be used as an open image resizer.
+
+/** A rectangle of the frame as fractions between 0 and 1. */
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageRendition {
+  /** CSS pixels, one of `IMAGE_WIDTHS`. */
+  width: number;
+  dpr: number;
+  crop: ImageCrop | null;
+}
+
+export const IMAGE_WIDTHS = [240, 480, 960];
+export const IMAGE_DPRS = [1, 2];
+
+/** One [width, dpr] per output pixel width, smallest first; 240 at 2x is the same image as 480 at 1x. */
+export const IMAGE_RENDITIONS: Array<[number, number]> = [[240, 1], [480, 1], [480, 2], [960, 2]];
+
+// Crops snap to a 1% grid and zoom in at most 10x, which keeps the number of distinct renditions bounded.
+const CROP_STEP = 100;
+const MIN_CROP = 0.1;
+const SIGNATURE_BYTES = 16;
+
+function snap(value: number): number {
+  return Math.round(value * CROP_STEP) / CROP_STEP;
+}
+
+/** `x,y,width,height` snapped to the crop grid, or undefined when the value is not a usable crop. */
+export function parseCrop(value: string): ImageCrop | undefined {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return undefined;
+
+  const [x, y, width, height] = parts.map(snap);
+  if (x < 0 || y < 0 || width < MIN_CROP || height < MIN_CROP || x + width > 1 || y + height > 1) return undefined;
+  // The whole frame is not a crop.
+  if (width === 1 && height === 1) return undefined;
+  return { x, y, width, height };
+}
+
+export function cropParam(crop: ImageCrop): string {
+  return [crop.x, crop.y, crop.width, crop.height].map((value) => String(snap(value))).join(',');
+}
+
+/** `rect` widened to the crop grid, so the crop always covers it, or null when that is the whole frame. */
+export function coveringCrop(rect: ImageCrop): ImageCrop | null {
+  const floor = (value: number) => Math.max(0, Math.floor(value * CROP_STEP + 1e-9) / CROP_STEP);
+  const ceil = (value: number) => Math.min(1, Math.ceil(value * CROP_STEP - 1e-9) / CROP_STEP);
+  let x = floor(rect.x);
+  let y = floor(rect.y);
+  let right = ceil(rect.x + rect.width);
+  let bottom = ceil(rect.y + rect.height);
+  if (right - x < MIN_CROP) [x, right] = right < MIN_CROP ? [0, MIN_CROP] : [right - MIN_CROP, right];
+  if (bottom - y < MIN_CROP) [y, bottom] = bottom < MIN_CROP ? [0, MIN_CROP] : [bottom - MIN_CROP, bottom];
+  if (x === 0 && y === 0 && right === 1 && bottom === 1) return null;
+  return { x: snap(x), y: snap(y), width: snap(right - x), height: snap(bottom - y) };
+}
+
+/** The smallest ladder width that covers `value`. Only signed requests may ask for a width off the ladder. */
+export function renditionWidth(value: number): number {
+  return IMAGE_WIDTHS.find((width) => width >= value) ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+/** The smallest rendition at least `pixelWidth` device pixels wide, capped at the largest one. */
+export function renditionFor(pixelWidth: number): [number, number] {
+  return IMAGE_RENDITIONS.find(([width, dpr]) => width * dpr >= pixelWidth) ?? IMAGE_RENDITIONS[IMAGE_RENDITIONS.length - 1];
+}
+
+/** The rendition `params` ask for (`w`, `dpr`, `crop`), or an error message for one the proxy does not serve. */
+export function parseRendition(params: URLSearchParams): ImageRendition | string {
+  const requestedWidth = Number(params.get('w') || 480);
+  const dpr = Number(params.get('dpr') || 1);
+  if (!Number.isFinite(requestedWidth) || requestedWidth <= 0) return 'Unsupported image width';
+  if (!IMAGE_DPRS.includes(dpr)) return 'Unsupported image dpr';
+
+  const cropValue = params.get('crop');
+  const crop = cropValue ? parseCrop(cropValue) : null;
+  if (crop === undefined) return 'Unsupported image crop';
+  return { width: renditionWidth(requestedWidth), dpr, crop };
+}
+
+/** Whether `params` ask for a whole frame on the ladder, which the proxy serves without a signature. */
+export function isLadderRequest(params: URLSearchParams): boolean {
+  const width = params.get('w');
+  return !params.has('crop') && (width === null || IMAGE_WIDTHS.includes(Number(width)));
+}
+
+/** The camera image a rendition is cut from. */
+export interface RenditionSource {
+  host: string;
+  path: string;
+}
+
+let signingKey: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+function canonicalRendition(source: RenditionSource, rendition: ImageRendition): string {
+  return [source.host.toLowerCase(), source.path, rendition.width, rendition.dpr, rendition.crop ? cropParam(rendition.crop) : ''].join('\n');
+}
+
+function base64Url(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  if (signingKey?.secret !== secret) {
+    signingKey = { secret, key: crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']) };
+  }
+  return signingKey.key;
+}
+
+async function digest(value: string): Promise<string> {
+  return base64Url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+}
+
+export async function signRendition(secret: string, source: RenditionSource, rendition: ImageRendition): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(canonicalRendition(source, rendition)));
+  return base64Url(mac.slice(0, SIGNATURE_BYTES));
+}
+
+/** Whether `sig` was issued for this rendition. Nothing verifies without a key, so signed renditions fail closed. */
+export async function verifyRendition(secret: string | undefined, source: RenditionSource, rendition: ImageRendition, sig: string | null): Promise<boolean> {
+  if (!secret || !sig) return false;
+  // Compare digests so the comparison time does not depend on how much of the signature matched.
+  return (await digest(sig)) === (await digest(await signRendition(secret, source, rendition)));
+}
+
+/** An `/api/image` URL for `rendition`; `host` is left out where the proxy's default host applies. */
+export function renditionUrl(path: string, rendition: ImageRendition, options: { host?: string; sig?: string } = {}): string {
+  const params = new URLSearchParams({ path });
+  if (options.host) params.set('host', options.host);
+  params.set('w', String(rendition.width));
+  if (rendition.dpr !== 1) params.set('dpr', String(rendition.dpr));
+  if (rendition.crop) params.set('crop', cropParam(rendition.crop));
+  if (options.sig) params.set('sig', options.sig);
+  return `/api/image?${params}`;
+}
+
+/** `src` and a `srcset` by pixel width of every ladder rendition of `crop`, each signed, for `/api/image/renditions`. */
+export async function signedCropSet(secret: string, source: RenditionSource, crop: ImageCrop, host?: string): Promise<{ src: string; srcset: string }> {
+  const urls = await Promise.all(IMAGE_RENDITIONS.map(async ([width, dpr]) => {
+    const rendition = { width, dpr, crop };
+    return renditionUrl(source.path, rendition, { host, sig: await signRendition(secret, source, rendition) });
+  }));
+  return { src: urls[0], srcset: urls.map((url, index) => `${url} ${IMAGE_RENDITIONS[index][0] * IMAGE_RENDITIONS[index][1]}w`).join(', ') };
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/** A pixel rectangle of the source frame, as the image service's `trim` option takes it. */
+export interface ImageTrim {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Request options that ask the image service for a source's metadata instead of its pixels. */
+export const IMAGE_INFO_INIT = {
+  headers: { Accept: 'application/json' },
+  cf: { image: { format: 'json' }, cacheEverything: true, cacheTtl: 3600 },
+} as RequestInit;
+
+/** The source size from an image service `format: 'json'` response, or null when it has none. */
+export function imageSizeFromInfo(info: unknown): ImageSize | null {
+  const original = (info as { original?: Partial<ImageSize> } | null)?.original;
+  const width = Number(original?.width);
+  const height = Number(original?.height);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/** The trim that cuts `crop` out of a source frame of `size`, kept inside the frame. */
+export function cropTrim(crop: ImageCrop, size: ImageSize): ImageTrim {
+  const left = Math.round(crop.x * size.width);
+  const top = Math.round(crop.y * size.height);
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(size.width - left, Math.round(crop.width * size.width))),
+    height: Math.max(1, Math.min(size.height - top, Math.round(crop.height * size.height))),
+  };
+}
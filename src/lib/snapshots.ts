@@ -0,0 +1,52 @@
+// Snapshot URLs through the worker's image proxy (`/api/image` in worker/index.ts).
+import { IMAGE_RENDITIONS } from './renditions';
+
+export function proxiedSnapshotPath(sourceUrl: string): string | null {
+  try {
+    const parsed = new URL(sourceUrl);
+    if (parsed.hostname === 'www.seattle.gov' && parsed.pathname.startsWith('/trafficcams/images/')) {
+      return parsed.pathname;
+    }
+  } catch {
+    // Fall through to the source URL for non-standard feeds.
+  }
+  return null;
+}
+
+function snapshotVersion(timestamp: number): number {
+  return Math.floor(timestamp / 30_000);
+}
+
+export function proxiedSnapshotUrl(path: string, timestamp: number, width: number, dpr: number): string {
+  return `/api/image?path=${encodeURIComponent(path)}&w=${width}${dpr === 1 ? '' : `&dpr=${dpr}`}&v=${snapshotVersion(timestamp)}`;
+}
+
+export function getSnapshotUrl(sourceUrl: string, timestamp: number, width = 480, dpr = 1): string {
+  const path = proxiedSnapshotPath(sourceUrl);
+  if (path) return proxiedSnapshotUrl(path, timestamp, width, dpr);
+
+  const separator = sourceUrl.includes('?') ? '&' : '?';
+  return `${sourceUrl}${separator}t=${timestamp}`;
+}
+
+/** Proxy renditions by pixel width, or undefined for feeds the proxy does not resize. */
+export function getSnapshotSrcSet(sourceUrl: string, timestamp: number): string | undefined {
+  const path = proxiedSnapshotPath(sourceUrl);
+  if (!path) return undefined;
+  return IMAGE_RENDITIONS
+    .map(([width, dpr]) => `${proxiedSnapshotUrl(path, timestamp, width, dpr)} ${width * dpr}w`)
+    .join(', ');
+}
+
+/**
+ * The smallest of a crop's signed renditions (a `srcset` from `/api/image/renditions`) that is at least
+ * `pixelWidth` device pixels wide, capped at the largest, in the same refresh bucket as the frame.
+ */
+export function getSnapshotCropUrl(srcset: string, timestamp: number, pixelWidth: number): string | null {
+  const renditions = srcset.split(', ').map((entry) => {
+    const [url, size] = entry.split(' ');
+    return { url, width: parseInt(size, 10) };
+  }).filter((rendition) => rendition.url && rendition.width > 0);
+  const rendition = renditions.find((candidate) => candidate.width >= pixelWidth) ?? renditions[renditions.length - 1];
+  return rendition ? `${rendition.url}&v=${snapshotVersion(timestamp)}` : null;
+}
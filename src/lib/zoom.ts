@@ -0,0 +1,54 @@
+// Digital zoom for focus mode. A zoom is the top-left corner of the visible rectangle, as fractions of the
+// frame, plus a scale; the visible rectangle is 1/scale of the frame on each side.
+
+export interface SnapshotZoom {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const DEFAULT_ZOOM: SnapshotZoom = { x: 0, y: 0, scale: 1 };
+export const MAX_ZOOM = 8;
+
+export function clampZoom(zoom: SnapshotZoom): SnapshotZoom {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, zoom.scale));
+  if (scale === 1) return DEFAULT_ZOOM;
+  const span = 1 / scale;
+  return {
+    x: Math.min(1 - span, Math.max(0, zoom.x)),
+    y: Math.min(1 - span, Math.max(0, zoom.y)),
+    scale,
+  };
+}
+
+/** `zoom` scaled by `factor` around the point at (`px`, `py`) of the viewport, which stays in place. */
+export function zoomAround(zoom: SnapshotZoom, factor: number, px = 0.5, py = 0.5): SnapshotZoom {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, zoom.scale * factor));
+  const pointX = zoom.x + px / zoom.scale;
+  const pointY = zoom.y + py / zoom.scale;
+  return clampZoom({ x: pointX - px / scale, y: pointY - py / scale, scale });
+}
+
+/** `zoom` moved by a drag of (`dx`, `dy`), as fractions of the viewport. */
+export function panZoom(zoom: SnapshotZoom, dx: number, dy: number): SnapshotZoom {
+  return clampZoom({ x: zoom.x - dx / zoom.scale, y: zoom.y - dy / zoom.scale, scale: zoom.scale });
+}
+
+/** The `?zoom=` value: the visible rectangle as `x,y,width,height`. */
+export function formatZoom(zoom: SnapshotZoom): string {
+  const span = 1 / zoom.scale;
+  return [zoom.x, zoom.y, span, span].map((value) => Number(value.toFixed(3))).join(',');
+}
+
+/** A `?zoom=` value, or null when it is missing or does not describe a zoomed-in rectangle. */
+export function parseZoom(value: string | null): SnapshotZoom | null {
+  if (!value) return null;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+
+  const [x, y, width, height] = parts;
+  // The view keeps the frame's aspect ratio, so a rectangle of another shape keeps its larger side.
+  const span = Math.max(width, height);
+  if (!(span > 0 && span < 1)) return null;
+  return clampZoom({ x, y, scale: 1 / span });
+}
@@ -1,3 +1,5 @@
+import { CameraHealthLedgerEntry, StreamStatus } from '../lib/cameras';
+import { ImageCrop, cropParam } from '../lib/renditions';
 import { TrafficCamera } from '../types';
 
 const API_ENDPOINT = 'https://data.seattle.gov/resource/65fc-btcc.json';
@@ -9,3 +11,42 @@ export async function fetchCameras(): Promise<TrafficCamera[]> {
   }
   return response.json();
 }
+
+/** Fetch outcomes the worker has recorded for every camera; empty where the ledger is not deployed. */
+export async function fetchHealthLedger(): Promise<CameraHealthLedgerEntry[]> {
+  const response = await fetch('/api/health', { headers: { Accept: 'application/json' } });
+  if (!response.ok || !response.headers.get('Content-Type')?.includes('application/json')) return [];
+  const body = await response.json() as { cameras?: CameraHealthLedgerEntry[] };
+  return Array.isArray(body.cameras) ? body.cameras : [];
+}
+
+// `/api/streams` takes at most 50 names per request.
+const STREAM_STATUS_BATCH = 50;
+
+/** Stream status by stream name from the worker; empty where `/api/streams` is not deployed. */
+export async function fetchStreamStatuses(streams: string[]): Promise<Record<string, StreamStatus>> {
+  const batches: string[][] = [];
+  for (let index = 0; index < streams.length; index += STREAM_STATUS_BATCH) {
+    batches.push(streams.slice(index, index + STREAM_STATUS_BATCH));
+  }
+
+  const results = await Promise.all(batches.map(async (batch) => {
+    const response = await fetch(`/api/streams?streams=${batch.map(encodeURIComponent).join(',')}`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok || !response.headers.get('Content-Type')?.includes('application/json')) return {};
+    const body = await response.json() as { streams?: Record<string, StreamStatus> };
+    return body.streams ?? {};
+  }));
+  return Object.assign({}, ...results);
+}
+
+/** Signed renditions of one crop of a proxied snapshot; null where the worker does not sign crops. */
+export async function fetchCropRenditions(path: string, crop: ImageCrop): Promise<{ src: string; srcset: string } | null> {
+  const response = await fetch(`/api/image/renditions?path=${encodeURIComponent(path)}&crop=${cropParam(crop)}`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok || !response.headers.get('Content-Type')?.includes('application/json')) return null;
+  const body = await response.json() as { src?: string; srcset?: string };
+  return body.src && body.srcset ? { src: body.src, srcset: body.srcset } : null;
+}
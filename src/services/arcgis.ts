@@ -18,12 +18,114 @@ interface ArcGISFeature {
 
 interface ArcGISResponse {
   features: ArcGISFeature[];
+  exceededTransferLimit?: boolean;
   error?: {
     code: number;
     message: string;
   };
 }
 
+interface ArcGISLayerField {
+  name: string;
+  alias?: string;
+  type?: string;
+}
+
+interface ArcGISLayerResponse {
+  fields?: ArcGISLayerField[];
+  objectIdField?: string;
+  maxRecordCount?: number;
+  advancedQueryCapabilities?: { supportsPagination?: boolean };
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+/** Which attribute holds each camera property in a given FeatureServer layer. */
+export interface ArcGISFieldMap {
+  name: string;
+  label: string;
+  image: string;
+  stream?: string;
+  status?: string;
+}
+
+export type ArcGISRejectionReason = 'inactive' | 'missing_coordinates' | 'missing_image';
+
+export interface ArcGISCameraReport {
+  cameras: TrafficCamera[];
+  fieldMap: ArcGISFieldMap;
+  rejected: Partial<Record<ArcGISRejectionReason, number>>;
+  /** True when the layer held more features than we were willing to page through. */
+  capped: boolean;
+  upstreamTotal?: number;
+}
+
+const PAGE_CONCURRENCY = 4;
+const MAX_FEATURES = 10_000;
+const ID_CHUNK = 250;
+
+// The Seattle CDL schema; used as-is for the default layer and as the first guess elsewhere.
+const SEATTLE_FIELD_MAP: ArcGISFieldMap = {
+  name: 'NAME',
+  label: 'LOCATION',
+  image: 'URL',
+  stream: 'STREAM_NAME',
+  status: 'SERVSTAT',
+};
+
+const FIELD_CANDIDATES: Record<keyof ArcGISFieldMap, string[]> = {
+  name: ['NAME', 'CAMERA_NAME', 'CAMERANAME', 'CAMERA_ID', 'CAMERAID', 'CAM_ID', 'ID', 'TITLE'],
+  label: ['LOCATION', 'CAMERALABEL', 'LABEL', 'DESCRIPTION', 'DESCRIPT', 'TITLE', 'NAME'],
+  image: ['URL', 'IMAGEURL', 'IMAGE_URL', 'IMAGE', 'SNAPSHOT', 'SNAPSHOT_URL', 'CAMERA_URL', 'IMG_URL'],
+  stream: ['STREAM_NAME', 'STREAMNAME', 'STREAM', 'VIDEO_STREAM'],
+  status: ['SERVSTAT', 'STATUS', 'CAM_STATUS', 'ACTIVE'],
+};
+
+const FIELD_PATTERNS: Record<keyof ArcGISFieldMap, RegExp> = {
+  name: /name|id$/i,
+  label: /loc|desc|label|title|name/i,
+  image: /url|image|snapshot|jpe?g/i,
+  stream: /stream/i,
+  status: /stat/i,
+};
+
+/**
+ * Detect a field mapping from the layer's `?f=json` metadata.
+ * Explicit overrides win, then known camera field names, then a loose name/alias match.
+ */
+export function detectFieldMap(
+  fields: ArcGISLayerField[],
+  overrides: Partial<ArcGISFieldMap> = {},
+): ArcGISFieldMap {
+  const byName = new Map(fields.map((field) => [field.name.toUpperCase(), field.name]));
+  const strings = fields.filter((field) => !field.type || field.type === 'esriFieldTypeString');
+
+  const resolve = (role: keyof ArcGISFieldMap): string | undefined => {
+    const override = overrides[role];
+    if (override) {
+      const actual = byName.get(override.toUpperCase());
+      if (!actual) throw new Error(`ArcGIS layer has no field named ${override}`);
+      return actual;
+    }
+    const known = FIELD_CANDIDATES[role].map((name) => byName.get(name)).find(Boolean);
+    if (known) return known;
+    return strings.find((field) => FIELD_PATTERNS[role].test(field.name) || FIELD_PATTERNS[role].test(field.alias ?? ''))?.name;
+  };
+
+  const image = resolve('image');
+  if (!image) throw new Error('Could not detect an image URL field in this ArcGIS layer');
+  const label = resolve('label') ?? image;
+  return {
+    name: resolve('name') ?? label,
+    label,
+    image,
+    stream: resolve('stream'),
+    status: resolve('status'),
+  };
+}
+
 /**
  * Construct HLS video stream URL from stream name.
  * Seattle uses: https://video.seattle.gov/live/{STREAM_NAME}.stream/playlist.m3u8
@@ -47,13 +149,13 @@ function buildWebUrl(cameraName: string | null | undefined): string | undefined
   return 'https://web6.seattle.gov/travelers/';
 }
 
-function mapFeature(feature: ArcGISFeature): TrafficCamera | null {
+function mapFeature(feature: ArcGISFeature, fields: ArcGISFieldMap): TrafficCamera | ArcGISRejectionReason {
   const { attributes: attrs, geometry } = feature;
 
   // Skip inactive cameras
-  const status = String(attrs['SERVSTAT'] || '').toUpperCase();
-  if (status === 'INACT' || status === 'INACTIVE') {
-    return null;
+  const status = fields.status ? String(attrs[fields.status] ?? '').toUpperCase() : '';
+  if (status === 'INACT' || status === 'INACTIVE' || status === 'FALSE' || status === '0') {
+    return 'inactive';
   }
 
   // Get coordinates from geometry (WGS84)
@@ -61,24 +163,24 @@ function mapFeature(feature: ArcGISFeature): TrafficCamera | null {
   const lat = geometry?.y;
 
   if (typeof lng !== 'number' || typeof lat !== 'number') {
-    return null;
+    return 'missing_coordinates';
   }
 
   // Camera name/label
-  const name = String(attrs['NAME'] || '').replace('.jpg', '');
-  const location = String(attrs['LOCATION'] || '');
+  const name = String(attrs[fields.name] || '').replace('.jpg', '');
+  const location = String(attrs[fields.label] || '');
   const label = location || name || `Camera ${feature.id ?? ''}`;
 
   // Image URL - force HTTPS to avoid mixed content and CORS issues
-  let imageUrl = String(attrs['URL'] || '');
+  let imageUrl = String(attrs[fields.image] || '');
   if (!imageUrl || !imageUrl.startsWith('http')) {
-    return null;
+    return 'missing_image';
   }
   // Upgrade HTTP to HTTPS
   imageUrl = imageUrl.replace(/^http:\/\//, 'https://');
 
   // Video stream URL
-  const streamName = attrs['STREAM_NAME'];
+  const streamName = fields.stream ? attrs[fields.stream] : undefined;
   const videoUrl =
     typeof streamName === 'string'
       ? buildVideoUrl(streamName)
@@ -100,32 +202,153 @@ function mapFeature(feature: ArcGISFeature): TrafficCamera | null {
   };
 }
 
-export async function fetchArcGISCameras(
+async function fetchLayer(featureServiceUrl: string, signal: AbortSignal): Promise<ArcGISLayerResponse> {
+  const response = await fetch(`${featureServiceUrl}?f=json`, { signal });
+  if (!response.ok) {
+    throw new Error(`ArcGIS metadata error: ${response.status} ${response.statusText}`);
+  }
+  const layer: ArcGISLayerResponse = await response.json();
+  if (layer.error) {
+    throw new Error(`ArcGIS API error: ${layer.error.message}`);
+  }
+  return layer;
+}
+
+async function fetchQuery<T extends { error?: { message: string } }>(
   featureServiceUrl: string,
-): Promise<TrafficCamera[]> {
+  params: Record<string, string>,
+  signal: AbortSignal,
+): Promise<T> {
   // Query with outSR=4326 to get WGS84 (lat/lng) coordinates
-  const queryUrl = `${featureServiceUrl}/query?where=1%3D1&outFields=*&outSR=4326&f=json`;
+  const query = new URLSearchParams({ where: '1=1', outFields: '*', outSR: '4326', f: 'json', ...params });
+  const response = await fetch(`${featureServiceUrl}/query?${query}`, { signal });
+  if (!response.ok) {
+    throw new Error(
+      `ArcGIS API error: ${response.status} ${response.statusText}`,
+    );
+  }
+  const data: T = await response.json();
+  if (data.error) {
+    throw new Error(`ArcGIS API error: ${data.error.message}`);
+  }
+  return data;
+}
+
+async function mapLimit<T, R>(items: T[], limit: number, work: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let cursor = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      results[index] = await work(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+interface FeaturePages {
+  features: ArcGISFeature[];
+  capped: boolean;
+  total?: number;
+}
+
+/**
+ * Pages past the server's maxRecordCount when the first response sets `exceededTransferLimit`:
+ * result offsets ordered by object id if the layer supports them, otherwise `returnIdsOnly` plus `objectIds` chunks.
+ */
+async function fetchAllFeatures(
+  featureServiceUrl: string,
+  getLayer: () => Promise<ArcGISLayerResponse>,
+  signal: AbortSignal,
+): Promise<FeaturePages> {
+  const first = await fetchQuery<ArcGISResponse>(featureServiceUrl, {}, signal);
+  if (!first.exceededTransferLimit) return { features: first.features, capped: false };
 
+  const layer = await getLayer();
+  const pageSize = first.features.length || layer.maxRecordCount || 1000;
+  const idField = layer.objectIdField ?? layer.fields?.find((field) => field.type === 'esriFieldTypeOID')?.name;
+
+  if (layer.advancedQueryCapabilities?.supportsPagination && idField) {
+    const { count = 0 } = await fetchQuery<{ count?: number; error?: { message: string } }>(
+      featureServiceUrl,
+      { returnCountOnly: 'true' },
+      signal,
+    );
+    // Without a count there is no telling how many pages to read, so the first page is reported as incomplete.
+    if (!count) return { features: first.features, capped: true };
+    const expected = Math.min(count, MAX_FEATURES);
+    const offsets: number[] = [];
+    for (let offset = 0; offset < expected; offset += pageSize) offsets.push(offset);
+    // The unordered first page is read again so that every page, the first included, has the same order.
+    const pages = await mapLimit(offsets, PAGE_CONCURRENCY, (offset) =>
+      fetchQuery<ArcGISResponse>(featureServiceUrl, {
+        orderByFields: idField,
+        resultOffset: String(offset),
+        resultRecordCount: String(pageSize),
+      }, signal),
+    );
+    const features = pages.flatMap((page) => page.features).slice(0, MAX_FEATURES);
+    return {
+      features,
+      capped: count > MAX_FEATURES || features.length < expected,
+      total: count,
+    };
+  }
+
+  const { objectIds } = await fetchQuery<{ objectIds?: number[] | null; error?: { message: string } }>(
+    featureServiceUrl,
+    { returnIdsOnly: 'true' },
+    signal,
+  );
+  const ids = [...(objectIds ?? [])].sort((a, b) => a - b);
+  if (ids.length === 0) return { features: first.features, capped: true };
+  const limited = ids.slice(0, MAX_FEATURES);
+  const chunkSize = Math.min(pageSize, ID_CHUNK);
+  const chunks: number[][] = [];
+  for (let index = 0; index < limited.length; index += chunkSize) chunks.push(limited.slice(index, index + chunkSize));
+  const pages = await mapLimit(chunks, PAGE_CONCURRENCY, (chunk) =>
+    fetchQuery<ArcGISResponse>(featureServiceUrl, { objectIds: chunk.join(',') }, signal),
+  );
+  return {
+    features: pages.flatMap((page) => page.features),
+    capped: ids.length > MAX_FEATURES,
+    total: ids.length,
+  };
+}
+
+export async function fetchArcGISCameraReport(
+  featureServiceUrl: string,
+  overrides: Partial<ArcGISFieldMap> = {},
+): Promise<ArcGISCameraReport> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 15_000);
 
   try {
-    const response = await fetch(queryUrl, { signal: controller.signal });
-    if (!response.ok) {
-      throw new Error(
-        `ArcGIS API error: ${response.status} ${response.statusText}`,
-      );
-    }
-    const data: ArcGISResponse = await response.json();
-    
-    if (data.error) {
-      throw new Error(`ArcGIS API error: ${data.error.message}`);
+    let layer: Promise<ArcGISLayerResponse> | null = null;
+    const getLayer = () => (layer ??= fetchLayer(featureServiceUrl, controller.signal));
+    // The Seattle CDL schema is known, so only other layers or overrides need the metadata up front.
+    const fieldMap = featureServiceUrl === ARCGIS_FEATURE_SERVICE_URL && Object.keys(overrides).length === 0
+      ? SEATTLE_FIELD_MAP
+      : detectFieldMap((await getLayer()).fields ?? [], overrides);
+    const { features, capped, total } = await fetchAllFeatures(featureServiceUrl, getLayer, controller.signal);
+
+    const cameras: TrafficCamera[] = [];
+    const rejected: ArcGISCameraReport['rejected'] = {};
+    for (const feature of features) {
+      const result = mapFeature(feature, fieldMap);
+      if (typeof result === 'string') rejected[result] = (rejected[result] ?? 0) + 1;
+      else cameras.push(result);
     }
-    
-    return data.features
-      .map(mapFeature)
-      .filter((c): c is TrafficCamera => c !== null);
+    return { cameras, fieldMap, rejected, capped, upstreamTotal: total };
   } finally {
     clearTimeout(timeoutId);
   }
 }
+
+export async function fetchArcGISCameras(
+  featureServiceUrl: string,
+  overrides: Partial<ArcGISFieldMap> = {},
+): Promise<TrafficCamera[]> {
+  return (await fetchArcGISCameraReport(featureServiceUrl, overrides)).cameras;
+}
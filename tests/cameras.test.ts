@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { cameraCollections, getCameraId, getStreamName, hasPlayableStream, mergeStreamStatuses } from '../src/lib/cameras';
+import { TrafficCamera } from '../src/types';
+
+const camera: TrafficCamera = {
+  cameralabel: '4th Ave S & S Jackson St',
+  imageurl: { url: 'https://www.seattle.gov/trafficcams/images/4_Jackson_NS.jpg' },
+  video_url: { url: 'https://61e0c5d388c2e.streamlock.net/live/4_Jackson_NS.stream/playlist.m3u8' },
+  x_coord: '1271000',
+  y_coord: '219000',
+  location: { latitude: '47.5992', longitude: '-122.3290' },
+};
+
+test('stream names come from Wowza video URLs', () => {
+  assert.equal(getStreamName(camera), '4_Jackson_NS');
+  assert.equal(getStreamName({ ...camera, video_url: undefined }), null);
+  assert.equal(getStreamName({ ...camera, video_url: { url: 'https://example.com/video.mp4' } }), null);
+});
+
+test('only streams the worker has not seen stalled or offline are playable', () => {
+  assert.equal(hasPlayableStream(camera), true);
+  assert.equal(hasPlayableStream(camera, { streamStatus: 'live' }), true);
+  assert.equal(hasPlayableStream(camera, { streamStatus: 'stalled' }), false);
+  assert.equal(hasPlayableStream(camera, { streamStatus: 'offline' }), false);
+  assert.equal(hasPlayableStream({ ...camera, video_url: undefined }, { streamStatus: 'live' }), false);
+
+  const live = cameraCollections.find((collection) => collection.id === 'live')!;
+  assert.equal(live.matches(camera, { streamStatus: 'offline' }), false);
+});
+
+test('stream statuses are merged into health by camera', () => {
+  const id = getCameraId(camera);
+  const merged = mergeStreamStatuses({ [id]: { lastImageError: 1 } }, [camera], { '4_Jackson_NS': 'stalled', other: 'live' });
+  assert.deepEqual(merged, { [id]: { lastImageError: 1, streamStatus: 'stalled' } });
+});
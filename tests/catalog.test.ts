@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { diffEntry, type CatalogEntry } from '../prototype/vanilla/catalog';
+
+const entry: CatalogEntry = {
+  label: '4th Ave S & S Jackson St',
+  imageHost: 'www.seattle.gov',
+  imagePath: '/trafficcams/images/4_Jackson_NS.jpg',
+  stream: '4_Jackson_NS',
+  lat: 47.5992,
+  lng: -122.329,
+  status: 'active',
+};
+
+test('new and returning cameras', () => {
+  assert.deepEqual(diffEntry(undefined, entry), ['added']);
+  assert.deepEqual(diffEntry({ ...entry, status: 'removed' }, entry), ['restored']);
+  assert.deepEqual(diffEntry(entry, entry), []);
+});
+
+test('each field change is reported once', () => {
+  assert.deepEqual(diffEntry(entry, { ...entry, status: 'inactive' }), ['deactivated']);
+  assert.deepEqual(diffEntry({ ...entry, status: 'inactive' }, entry), ['reactivated']);
+  assert.deepEqual(diffEntry(entry, { ...entry, label: '4th Ave S & Jackson' }), ['renamed']);
+  assert.deepEqual(diffEntry(entry, { ...entry, stream: null }), ['updated']);
+  assert.deepEqual(diffEntry(entry, { ...entry, label: 'Moved', lat: entry.lat! + 0.001 }), ['renamed', 'moved']);
+});
+
+test('coordinate jitter under the move threshold is not a move', () => {
+  assert.deepEqual(diffEntry(entry, { ...entry, lat: entry.lat! + 0.0001 }), []);
+  assert.deepEqual(diffEntry(entry, { ...entry, lat: null, lng: null }), ['moved']);
+});
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { decodeCursor, encodeCursor, parseTime } from '../prototype/vanilla/history';
+
+const cursor = { from: 1_700_000_000_000, to: 1_700_003_600_000, step: 300_000, cameras: ['4_Jackson_NS'], bucket: 5_666_667, camera: '4_Jackson_NS' };
+
+test('cursors round-trip', () => {
+  assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  assert.deepEqual(decodeCursor(encodeCursor({ ...cursor, camera: null })), { ...cursor, camera: null });
+});
+
+test('forged cursors are refused like forged queries', () => {
+  for (const forged of [
+    { ...cursor, from: 0, cameras: null },
+    { ...cursor, step: 0 },
+    { ...cursor, step: 0.5 },
+    { ...cursor, from: cursor.to },
+    { ...cursor, bucket: 1.5 },
+    { ...cursor, cameras: ['../etc'] },
+  ]) {
+    assert.equal(decodeCursor(encodeCursor(forged)), null, JSON.stringify(forged));
+  }
+  assert.equal(decodeCursor('not a cursor'), null);
+});
+
+test('times are ISO 8601 or epoch seconds or milliseconds', () => {
+  assert.equal(parseTime('1700000000'), 1_700_000_000_000);
+  assert.equal(parseTime('1700000000000'), 1_700_000_000_000);
+  assert.equal(parseTime('2023-11-14T22:13:20Z'), 1_700_000_000_000);
+  assert.equal(parseTime(null), undefined);
+  assert.ok(Number.isNaN(parseTime('yesterday')));
+});
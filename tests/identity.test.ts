@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { cameraIdentity, matchesCameraId } from '../src/lib/identity';
+
+test('the snapshot file stem anchors the id', () => {
+  const identity = cameraIdentity({
+    label: '4th Ave S & S Jackson St',
+    imageUrl: 'https://www.seattle.gov/trafficcams/images/4_Jackson_NS.jpg',
+    webUrl: 'https://web.seattle.gov/Travelers/Camera.aspx?id=4',
+  });
+  assert.equal(identity.id, '4-jackson-ns');
+  assert.ok(matchesCameraId(identity, '4-jackson-ns'));
+  assert.ok(identity.aliases.some((alias) => matchesCameraId(identity, alias)));
+});
+
+test('escaped file names are decoded and malformed escapes are kept as they are', () => {
+  assert.equal(cameraIdentity({ label: 'x', imageUrl: 'https://example.com/images/Main%20St.jpg' }).id, 'main-st');
+  assert.equal(cameraIdentity({ label: 'x', imageUrl: 'https://example.com/images/Main%E0St.jpg' }).id, 'main-e0st');
+});
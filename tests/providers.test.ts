@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  CAMERA_PROVIDERS,
+  DEFAULT_PROVIDER,
+  ProviderConfigError,
+  allowedVideoHosts,
+  getProvider,
+  isAllowedImage,
+  validatedFeatureService,
+  type ProviderContext,
+} from '../prototype/vanilla/providers';
+
+const context: ProviderContext = { params: new URLSearchParams(), env: {} };
+
+test('getProvider falls back to the default and rejects unknown ids', () => {
+  assert.equal(getProvider(null), DEFAULT_PROVIDER);
+  assert.equal(getProvider('sdot')?.id, 'sdot');
+  assert.equal(getProvider('nope'), null);
+});
+
+test('provider ids are unique', () => {
+  const ids = CAMERA_PROVIDERS.map((provider) => provider.id);
+  assert.equal(new Set(ids).size, ids.length);
+});
+
+test('Socrata rows normalize into cameras and count rejections by reason', () => {
+  const batch = getProvider('sdot')!.normalize([
+    {
+      cameralabel: '4th Ave & Pike St',
+      imageurl: { url: 'http://www.seattle.gov/trafficcams/images/4_Pike_NS.jpg' },
+      video_url: { url: 'https://61e0c5d388c2e.streamlock.net/live/4_Pike_NS.stream/playlist.m3u8' },
+      location: { latitude: '47.61', longitude: '-122.336' },
+    },
+    { cameralabel: 'No image' },
+    { cameralabel: 'Elsewhere', imageurl: { url: 'https://example.com/trafficcams/images/a.jpg' } },
+    { cameralabel: 'Broken', imageurl: { url: 'not a url' } },
+  ], context);
+
+  assert.equal(batch.cameras.length, 1);
+  const [camera] = batch.cameras;
+  assert.equal(camera.label, '4th Ave & Pike St');
+  assert.equal(camera.imagePath, '/trafficcams/images/4_Pike_NS.jpg');
+  assert.equal(camera.imageHost, undefined);
+  assert.equal(camera.lat, 47.61);
+  assert.ok(camera.collections.includes('downtown'));
+  assert.deepEqual(batch.rejected, { missing_image: 1, image_host_not_allowed: 1, invalid_image_url: 1 });
+});
+
+test('WSDOT keeps inactive cameras apart and derives ids from CameraID', () => {
+  const batch = getProvider('wsdot')!.normalize([
+    { CameraID: 9, Title: 'I-5 at Mercer', ImageURL: 'https://images.wsdot.wa.gov/nw/005vc16650.jpg', IsActive: true, CameraLocation: { Latitude: 47.62, Longitude: -122.32 } },
+    { CameraID: 10, Title: 'I-90 at Rainier', ImageURL: 'https://images.wsdot.wa.gov/nw/090vc00300.jpg', IsActive: false },
+  ], context);
+
+  assert.deepEqual(batch.cameras.map((camera) => camera.label), ['I-5 at Mercer']);
+  assert.equal(batch.cameras[0].id, 'wsdot-9');
+  assert.equal(batch.cameras[0].imageHost, 'images.wsdot.wa.gov');
+  assert.ok(batch.cameras[0].collections.includes('i5'));
+  assert.deepEqual(batch.inactive?.map((camera) => camera.label), ['I-90 at Rainier']);
+  assert.deepEqual(batch.rejected, { inactive: 1 });
+});
+
+test('image and video hosts come from the registry', () => {
+  assert.ok(isAllowedImage('www.seattle.gov', '/trafficcams/images/a.jpg'));
+  assert.ok(isAllowedImage('images.wsdot.wa.gov', '/nw/a.jpg'));
+  assert.ok(!isAllowedImage('www.seattle.gov', '/trafficcams/images/../secret'));
+  assert.ok(!isAllowedImage('www.seattle.gov', '/other/a.jpg'));
+  assert.ok(!isAllowedImage('example.com', '/trafficcams/images/a.jpg'));
+  assert.deepEqual(allowedVideoHosts(), ['61e0c5d388c2e.streamlock.net']);
+});
+
+test('caller-supplied FeatureServers must be https ArcGIS Online endpoints', () => {
+  assert.equal(
+    validatedFeatureService('https://services.arcgis.com/abc/ArcGIS/rest/services/Cams/FeatureServer/0/'),
+    'https://services.arcgis.com/abc/ArcGIS/rest/services/Cams/FeatureServer/0',
+  );
+  for (const raw of ['http://services.arcgis.com/x/FeatureServer/0', 'https://example.com/x/FeatureServer/0', 'https://services.arcgis.com/x/MapServer/0', 'nope']) {
+    assert.throws(() => validatedFeatureService(raw), ProviderConfigError, raw);
+  }
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  coveringCrop,
+  cropParam,
+  cropTrim,
+  imageSizeFromInfo,
+  isLadderRequest,
+  parseCrop,
+  parseRendition,
+  renditionFor,
+  signRendition,
+  verifyRendition,
+} from '../src/lib/renditions';
+import { handleImageSetRequest, imageSet, parseImageTransform } from '../prototype/vanilla/images';
+
+test('crops snap to the 1% grid and must stay inside the frame', () => {
+  assert.deepEqual(parseCrop('0.333,0.414,0.2,0.2'), { x: 0.33, y: 0.41, width: 0.2, height: 0.2 });
+  for (const value of ['0,0,0.05,0.5', '0.6,0,0.5,0.5', '0,0,1,1', '-0.1,0,0.5,0.5', '0,0,0.5', 'a,b,c,d']) {
+    assert.equal(parseCrop(value), undefined, value);
+  }
+});
+
+test('every zoomed view has a crop on the grid that covers it', () => {
+  for (const scale of [1.1, 2, 2.7, 4, 6.3, 8]) {
+    const span = 1 / scale;
+    for (let step = 0; step <= 20; step += 1) {
+      const x = (1 - span) * (step / 20);
+      const y = (1 - span) * ((20 - step) / 20);
+      const crop = coveringCrop({ x, y, width: span, height: span });
+      assert.ok(crop, `no crop at ${scale}x`);
+      assert.ok(crop.x <= x + 1e-9 && crop.y <= y + 1e-9, `crop starts after the view at ${scale}x`);
+      assert.ok(crop.x + crop.width >= x + span - 1e-9 && crop.y + crop.height >= y + span - 1e-9, `crop ends before the view at ${scale}x`);
+      assert.deepEqual(parseCrop(cropParam(crop)), crop);
+    }
+  }
+  assert.equal(coveringCrop({ x: 0.001, y: 0, width: 0.995, height: 0.999 }), null);
+});
+
+test('crops and widths off the ladder need a signature, and nothing verifies without a key', async () => {
+  assert.equal(isLadderRequest(new URLSearchParams('w=480&dpr=2')), true);
+  assert.equal(isLadderRequest(new URLSearchParams('w=600')), false);
+  assert.equal(isLadderRequest(new URLSearchParams('crop=0.25,0.25,0.5,0.5')), false);
+
+  const source = { host: 'www.seattle.gov', path: '/trafficcams/images/a.jpg' };
+  const rendition = { width: 480, dpr: 2, crop: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } };
+  const sig = await signRendition('secret', source, rendition);
+  assert.equal(await verifyRendition('secret', source, rendition, sig), true);
+  assert.equal(await verifyRendition('secret', { ...source, host: 'WWW.SEATTLE.GOV' }, rendition, sig), true);
+  assert.equal(await verifyRendition('other', source, rendition, sig), false);
+  assert.equal(await verifyRendition('secret', source, { ...rendition, crop: { ...rendition.crop, x: 0.26 } }, sig), false);
+  assert.equal(await verifyRendition('secret', { ...source, path: '/trafficcams/images/b.jpg' }, rendition, sig), false);
+  assert.equal(await verifyRendition(undefined, source, rendition, sig), false);
+  assert.equal(await verifyRendition('secret', source, rendition, null), false);
+});
+
+test('widths snap up to the ladder and other DPRs are refused', () => {
+  assert.deepEqual(parseRendition(new URLSearchParams('w=600&dpr=2')), { width: 960, dpr: 2, crop: null });
+  assert.deepEqual(parseRendition(new URLSearchParams('w=4000')), { width: 960, dpr: 1, crop: null });
+  assert.deepEqual(parseRendition(new URLSearchParams('')), { width: 480, dpr: 1, crop: null });
+  assert.equal(typeof parseRendition(new URLSearchParams('dpr=3')), 'string');
+  assert.equal(typeof parseRendition(new URLSearchParams('w=-1')), 'string');
+  assert.equal(typeof parseRendition(new URLSearchParams('crop=0,0,0.05,0.05')), 'string');
+});
+
+test('renditionFor picks the smallest rendition that is wide enough', () => {
+  assert.deepEqual(renditionFor(100), [240, 1]);
+  assert.deepEqual(renditionFor(481), [480, 2]);
+  assert.deepEqual(renditionFor(5000), [960, 2]);
+});
+
+test('crops become pixel trims inside the source frame', () => {
+  assert.deepEqual(cropTrim({ x: 0.5, y: 0.25, width: 0.5, height: 0.5 }, { width: 1280, height: 720 }), { left: 640, top: 180, width: 640, height: 360 });
+  assert.deepEqual(cropTrim({ x: 0.75, y: 0.75, width: 0.25, height: 0.25 }, { width: 3, height: 3 }), { left: 2, top: 2, width: 1, height: 1 });
+  assert.deepEqual(imageSizeFromInfo({ original: { width: 352, height: 240 } }), { width: 352, height: 240 });
+  assert.equal(imageSizeFromInfo({ original: { width: 0, height: 240 } }), null);
+  assert.equal(imageSizeFromInfo(null), null);
+});
+
+test('the vanilla worker serves the same renditions it lists for cameras', () => {
+  const set = imageSet({ imagePath: '/trafficcams/images/a.jpg' });
+  const entries = set.srcset.split(', ').map((entry) => entry.split(' '));
+  assert.deepEqual(entries.map(([, size]) => size), ['480w', '960w', '1920w']);
+  for (const [url, size] of entries) {
+    const transform = parseImageTransform(new URL(url, 'https://cams.example'));
+    assert.ok(typeof transform !== 'string');
+    assert.equal(`${transform.width * transform.dpr}w`, size);
+  }
+  assert.equal(typeof parseImageTransform(new URL('https://cams.example/api/image?path=/a.jpg&crop=0.3,0.3,0.9,0.9')), 'string');
+});
+
+test('the vanilla worker signs crop sets only for camera images and only with a key', async () => {
+  const request = (query: string) => {
+    const url = new URL(`https://cams.example/api/image/renditions?${query}`);
+    return [new Request(url), url] as const;
+  };
+  const path = 'path=/trafficcams/images/a.jpg';
+  assert.equal((await handleImageSetRequest(...request(`${path}&crop=0.25,0.25,0.5,0.5`), {}))?.status, 503);
+  const env = { IMAGE_SIGNING_KEY: 'secret' };
+  assert.equal((await handleImageSetRequest(...request('path=/elsewhere/a.jpg&crop=0.25,0.25,0.5,0.5'), env))?.status, 400);
+  assert.equal((await handleImageSetRequest(...request(path), env))?.status, 400);
+
+  const response = await handleImageSetRequest(...request(`${path}&crop=0.25,0.25,0.5,0.5`), env);
+  const set = await response!.json() as { srcset: string };
+  for (const entry of set.srcset.split(', ')) {
+    const url = new URL(entry.split(' ')[0], 'https://cams.example');
+    const transform = parseImageTransform(url);
+    assert.ok(typeof transform !== 'string');
+    assert.equal(await verifyRendition('secret', transform, transform, url.searchParams.get('sig')), true);
+  }
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { classifyCamera, classifyCameras, TAMPER_WINDOW_MS, type TamperRow } from '../prototype/vanilla/tamper';
+
+const MINUTE = 60_000;
+const now = 1_700_000_000_000;
+
+function fingerprint(pixels: number[]): string {
+  return btoa(String.fromCharCode(...pixels));
+}
+
+function rows(count: number, everyMinutes: number, row: (index: number) => Partial<TamperRow>): TamperRow[] {
+  return Array.from({ length: count }, (_, index) => ({
+    camera_id: 'cam',
+    camera_label: 'Cam',
+    captured_at: now - (count - 1 - index) * everyMinutes * MINUTE,
+    sha256: `sha-${index}`,
+    visual_fingerprint: null,
+    mean_luma: 120,
+    visual_contrast: 40,
+    ...row(index),
+  }));
+}
+
+test('the same bytes for over an hour are frozen, and the tamper window can see it', () => {
+  const frozen = rows(8, 10, () => ({ sha256: 'same' }));
+  assert.ok(now - frozen[0].captured_at < TAMPER_WINDOW_MS);
+  assert.equal(classifyCamera(frozen, now, new Map())?.issue, 'frozen');
+  assert.equal(classifyCamera(frozen.slice(-6), now, new Map()), null);
+});
+
+test('black, white and flat grey frames are blank or placeholder', () => {
+  assert.equal(classifyCamera(rows(3, 5, () => ({ mean_luma: 4, visual_contrast: 1 })), now, new Map())?.detail, 'Serving a black frame');
+  assert.equal(classifyCamera(rows(3, 5, () => ({ mean_luma: 250, visual_contrast: 1 })), now, new Map())?.detail, 'Serving a white frame');
+  assert.equal(classifyCamera(rows(3, 5, () => ({ mean_luma: 128, visual_contrast: 6 })), now, new Map())?.issue, 'placeholder');
+});
+
+test('the same latest frame on several cameras is a placeholder', () => {
+  const grouped = new Map(['a', 'b', 'c', 'd'].map((id) => [id, rows(2, 5, () => ({ camera_id: id, sha256: 'card' }))]));
+  grouped.set('e', rows(2, 5, () => ({ camera_id: 'e' })));
+  const reports = classifyCameras(grouped, now);
+  assert.deepEqual([...reports.keys()], ['a', 'b', 'c', 'd']);
+  assert.equal(reports.get('a')?.detail, 'Serving the same image as 3 other cameras');
+});
+
+test('a stable new view is a reposition, but an even brightness shift is not', () => {
+  const before = Array.from({ length: 16 }, (_, index) => (index % 2 ? 200 : 100));
+  const after = Array.from({ length: 16 }, (_, index) => (index % 2 ? 100 : 200));
+  const moved = rows(10, 5, (index) => ({ visual_fingerprint: fingerprint(index < 6 ? before : after) }));
+  assert.equal(classifyCamera(moved, now, new Map())?.issue, 'repositioned');
+
+  const darker = before.map((value) => value - 60);
+  const dusk = rows(10, 5, (index) => ({ visual_fingerprint: fingerprint(index < 6 ? before : darker) }));
+  assert.equal(classifyCamera(dusk, now, new Map()), null);
+});
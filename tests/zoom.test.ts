@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DEFAULT_ZOOM, MAX_ZOOM, clampZoom, formatZoom, panZoom, parseZoom, zoomAround } from '../src/lib/zoom';
+
+test('zooms stay inside the frame and between 1x and the maximum', () => {
+  assert.deepEqual(clampZoom({ x: 0.9, y: -1, scale: 2 }), { x: 0.5, y: 0, scale: 2 });
+  assert.equal(clampZoom({ x: 0, y: 0, scale: 100 }).scale, MAX_ZOOM);
+  assert.equal(clampZoom({ x: 0.3, y: 0.3, scale: 0.5 }), DEFAULT_ZOOM);
+});
+
+test('zooming keeps the point under the pointer in place', () => {
+  const zoom = zoomAround(DEFAULT_ZOOM, 4, 0.25, 0.75);
+  assert.equal(zoom.scale, 4);
+  assert.ok(Math.abs(zoom.x + 0.25 / zoom.scale - 0.25) < 1e-9);
+  assert.ok(Math.abs(zoom.y + 0.75 / zoom.scale - 0.75) < 1e-9);
+  assert.deepEqual(zoomAround(zoom, 0.1), DEFAULT_ZOOM);
+});
+
+test('panning moves the view by the drag and stops at the edges', () => {
+  const zoom = { x: 0.25, y: 0.25, scale: 2 };
+  assert.deepEqual(panZoom(zoom, 0.2, -0.2), { x: 0.15, y: 0.35, scale: 2 });
+  assert.deepEqual(panZoom(zoom, -5, 5), { x: 0.5, y: 0, scale: 2 });
+});
+
+test('zoom links round-trip and reject whole or empty frames', () => {
+  const zoom = { x: 0.125, y: 0.5, scale: 4 };
+  assert.equal(formatZoom(zoom), '0.125,0.5,0.25,0.25');
+  assert.deepEqual(parseZoom(formatZoom(zoom)), zoom);
+  assert.deepEqual(parseZoom('0.1,0.1,0.2,0.5'), { x: 0.1, y: 0.1, scale: 2 });
+  for (const value of [null, '', '0,0,1,1', '0,0,0,0', '0,0,0.5', 'a,b,c,d']) {
+    assert.equal(parseZoom(value), null, String(value));
+  }
+});
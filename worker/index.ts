@@ -1,6 +1,43 @@
+import {
+  IMAGE_INFO_INIT,
+  cropTrim,
+  imageSizeFromInfo,
+  isLadderRequest,
+  parseCrop,
+  parseRendition,
+  signedCropSet,
+  verifyRendition,
+  type ImageSize,
+} from '../src/lib/renditions';
+
 const VIDEO_SERVER = '61e0c5d388c2e.streamlock.net';
 const CAMERA_IMAGE_HOST = 'www.seattle.gov';
 const CAMERA_IMAGE_PREFIX = '/trafficcams/images/';
+const SEGMENT_PATTERN = /\.(ts|aac|m4s)$/;
+const SEGMENT_TTL_S = 120;
+const PLAYLIST_WINDOW_MS = 1500;
+const MAX_TRACKED_SOURCES = 2000;
+const STREAM_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,100}$/;
+const MAX_STATUS_STREAMS = 50;
+const STREAM_PROBE_TIMEOUT_MS = 5000;
+const STREAM_STATUS_TTL_MS = 30_000;
+// A stream whose media sequence has not moved for this many target durations has stalled.
+const STALLED_TARGET_DURATIONS = 3;
+
+type WorkerContext = { waitUntil(promise: Promise<unknown>): void };
+type WorkerEnv = { IMAGE_SIGNING_KEY?: string };
+type VideoCacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+type SharedPlaylist = { status: number; headers: [string, string][]; text: string };
+type StreamStatus = 'live' | 'stalled' | 'offline';
+type StreamProbe = { status: StreamStatus; mediaSequence: number | null; advancedAt: number };
+
+// Concurrent viewers of a stream share one playlist fetch, reused for PLAYLIST_WINDOW_MS after it settles.
+const playlists = new Map<string, { pending: Promise<SharedPlaylist>; expiresAt: number }>();
+// Camera feeds keep a fixed resolution, so each isolate asks the image service for a source's size once.
+const imageSizes = new Map<string, ImageSize>();
+// The last probe per stream name. This worker has no database, so whether a stream is advancing is judged
+// against what this isolate saw before, and a stream seen once counts as live while it lists segments.
+const streamProbes = new Map<string, { probe: Promise<StreamProbe>; checkedAt: number }>();
 
 type ImageFetchInit = RequestInit & {
   cf: {
@@ -9,6 +46,7 @@ type ImageFetchInit = RequestInit & {
       fit: 'scale-down';
       quality: number;
       format?: 'avif' | 'webp';
+      trim?: { left: number; top: number; width: number; height: number };
     };
     cacheEverything: boolean;
     cacheTtl: number;
@@ -46,7 +84,31 @@ function getImageFormat(accept: string | null): 'avif' | 'webp' | undefined {
   return undefined;
 }
 
-async function handleImageRequest(request: Request, requestUrl: URL): Promise<Response> {
+async function getImageSize(upstreamUrl: URL): Promise<ImageSize | null> {
+  const key = `${upstreamUrl.hostname}${upstreamUrl.pathname}`;
+  const known = imageSizes.get(key);
+  if (known) return known;
+
+  try {
+    const response = await fetch(upstreamUrl, IMAGE_INFO_INIT);
+    if (!response.ok) return null;
+
+    const size = imageSizeFromInfo(await response.json());
+    if (!size) return null;
+
+    if (imageSizes.size >= MAX_TRACKED_SOURCES) imageSizes.clear();
+    imageSizes.set(key, size);
+    return size;
+  } catch {
+    return null;
+  }
+}
+
+function isCameraImagePath(path: string | null): path is string {
+  return Boolean(path && path.startsWith(CAMERA_IMAGE_PREFIX) && !path.includes('..'));
+}
+
+async function handleImageRequest(request: Request, requestUrl: URL, env: WorkerEnv): Promise<Response> {
   if (request.method !== 'GET' && request.method !== 'HEAD') {
     return new Response('Method not allowed', {
       status: 405,
@@ -55,7 +117,7 @@ async function handleImageRequest(request: Request, requestUrl: URL): Promise<Re
   }
 
   const path = requestUrl.searchParams.get('path');
-  if (!path || !path.startsWith(CAMERA_IMAGE_PREFIX) || path.includes('..')) {
+  if (!isCameraImagePath(path)) {
     return new Response('Invalid or missing camera image path', { status: 400 });
   }
 
@@ -64,6 +126,21 @@ async function handleImageRequest(request: Request, requestUrl: URL): Promise<Re
     return new Response('Invalid image version', { status: 400 });
   }
 
+  // Only the renditions in src/lib/renditions.ts are resized, and crops only when this worker signed them,
+  // so the proxy is not an open image resizer.
+  const rendition = parseRendition(requestUrl.searchParams);
+  if (typeof rendition === 'string') {
+    return new Response(rendition, { status: 400 });
+  }
+  const sig = requestUrl.searchParams.get('sig');
+  if (!isLadderRequest(requestUrl.searchParams) && !(await verifyRendition(env.IMAGE_SIGNING_KEY, { host: CAMERA_IMAGE_HOST, path }, rendition, sig))) {
+    return new Response('Invalid image signature', {
+      status: 403,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  }
+  const { width, dpr, crop } = rendition;
+
   const upstreamUrl = new URL(path, `https://${CAMERA_IMAGE_HOST}`);
   if (upstreamUrl.hostname !== CAMERA_IMAGE_HOST || !upstreamUrl.pathname.startsWith(CAMERA_IMAGE_PREFIX)) {
     return new Response('Invalid camera image host', { status: 400 });
@@ -73,6 +150,15 @@ async function handleImageRequest(request: Request, requestUrl: URL): Promise<Re
   // Keep the bucket on the upstream URL so Cloudflare's transformed-image cache shares the result.
   if (version) upstreamUrl.searchParams.set('v', version);
 
+  let trim: ImageFetchInit['cf']['image']['trim'];
+  if (crop) {
+    const size = await getImageSize(upstreamUrl);
+    if (!size) {
+      return new Response('Camera image size unavailable', { status: 502 });
+    }
+    trim = cropTrim(crop, size);
+  }
+
   const format = getImageFormat(request.headers.get('Accept'));
   const init: ImageFetchInit = {
     method: request.method,
@@ -83,10 +169,11 @@ async function handleImageRequest(request: Request, requestUrl: URL): Promise<Re
     redirect: 'follow',
     cf: {
       image: {
-        width: 480,
+        width: width * dpr,
         fit: 'scale-down',
-        quality: 70,
+        quality: width * dpr > 480 ? 76 : 70,
         ...(format ? { format } : {}),
+        ...(trim ? { trim } : {}),
       },
       cacheEverything: true,
       cacheTtl: 45,
@@ -115,7 +202,87 @@ async function handleImageRequest(request: Request, requestUrl: URL): Promise<Re
   }
 }
 
-async function handleVideoRequest(request: Request, requestUrl: URL): Promise<Response> {
+// Focus-mode zoom asks for the signed renditions of one crop of a camera image.
+async function handleImageRenditionsRequest(request: Request, requestUrl: URL, env: WorkerEnv): Promise<Response> {
+  if (request.method !== 'GET') {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: { Allow: 'GET' },
+    });
+  }
+
+  if (!env.IMAGE_SIGNING_KEY) {
+    return Response.json({ error: 'Image signing is not configured' }, { status: 503 });
+  }
+
+  const path = requestUrl.searchParams.get('path');
+  if (!isCameraImagePath(path)) {
+    return new Response('Invalid or missing camera image path', { status: 400 });
+  }
+
+  const crop = parseCrop(requestUrl.searchParams.get('crop') ?? '');
+  if (!crop) {
+    return new Response('Unsupported image crop', { status: 400 });
+  }
+
+  // Signatures never change for the same rendition, so the answer can be cached like a static file.
+  const set = await signedCropSet(env.IMAGE_SIGNING_KEY, { host: CAMERA_IMAGE_HOST, path }, crop);
+  return Response.json(set, { headers: { 'Cache-Control': 'public, max-age=86400' } });
+}
+
+async function fetchPlaylist(upstreamUrl: URL, fetchUpstream: () => Promise<Response>): Promise<[SharedPlaylist, VideoCacheStatus]> {
+  const now = Date.now();
+  const current = playlists.get(upstreamUrl.href);
+  if (current && now < current.expiresAt) return [await current.pending, 'HIT'];
+
+  for (const [key, entry] of playlists) {
+    if (now >= entry.expiresAt) playlists.delete(key);
+  }
+
+  const pending = fetchUpstream().then(async (response) => ({
+    status: response.status,
+    headers: [...response.headers],
+    text: await response.text(),
+  }));
+  const entry = { pending, expiresAt: Infinity };
+  playlists.set(upstreamUrl.href, entry);
+
+  try {
+    const playlist = await pending;
+    entry.expiresAt = Date.now() + PLAYLIST_WINDOW_MS;
+    return [playlist, 'MISS'];
+  } catch (error) {
+    // Failures are not shared beyond the requests already waiting, so the next viewer retries.
+    if (playlists.get(upstreamUrl.href) === entry) playlists.delete(upstreamUrl.href);
+    throw error;
+  }
+}
+
+// Segment names carry the media sequence number, so a cached segment never goes out of date.
+async function fetchSegment(
+  requestUrl: URL,
+  upstreamUrl: URL,
+  ctx: WorkerContext,
+  fetchUpstream: () => Promise<Response>,
+): Promise<[Response, VideoCacheStatus]> {
+  const cache = caches.default;
+  const key = new Request(`${requestUrl.origin}/__hls-segment${upstreamUrl.pathname}${upstreamUrl.search}`);
+  const hit = await cache.match(key);
+  if (hit) return [hit, 'HIT'];
+
+  const upstream = await fetchUpstream();
+  if (upstream.status !== 200) return [upstream, 'MISS'];
+
+  const headers = new Headers(upstream.headers);
+  headers.set('Cache-Control', `public, max-age=${SEGMENT_TTL_S}, immutable`);
+  headers.delete('Set-Cookie');
+  const [served, stored] = upstream.body ? upstream.body.tee() : [null, null];
+  ctx.waitUntil(cache.put(key, new Response(stored, { status: 200, headers })));
+
+  return [new Response(served, { status: 200, headers }), 'MISS'];
+}
+
+async function handleVideoRequest(request: Request, requestUrl: URL, ctx: WorkerContext): Promise<Response> {
   if (request.method === 'OPTIONS') {
     return new Response(null, {
       status: 204,
@@ -143,8 +310,8 @@ async function handleVideoRequest(request: Request, requestUrl: URL): Promise<Re
     return new Response('Invalid video host', { status: 400 });
   }
 
-  try {
-    const upstream = await fetch(upstreamUrl, {
+  const fetchUpstream = () =>
+    fetch(upstreamUrl, {
       method: request.method,
       headers: {
         Accept: request.headers.get('Accept') || '*/*',
@@ -153,6 +320,25 @@ async function handleVideoRequest(request: Request, requestUrl: URL): Promise<Re
       redirect: 'follow',
     });
 
+  try {
+    if (request.method === 'GET' && upstreamUrl.pathname.endsWith('.m3u8')) {
+      const [playlist, cacheStatus] = await fetchPlaylist(upstreamUrl, fetchUpstream);
+      const headers = new Headers(playlist.headers);
+      headers.set('Content-Type', 'application/vnd.apple.mpegurl');
+      headers.set('X-Video-Cache', cacheStatus);
+      headers.delete('Content-Length');
+
+      return new Response(rewritePlaylist(playlist.text, requestUrl, upstreamUrl), {
+        status: playlist.status,
+        headers,
+      });
+    }
+
+    const [upstream, cacheStatus]: [Response, VideoCacheStatus] =
+      request.method === 'GET' && SEGMENT_PATTERN.test(upstreamUrl.pathname)
+        ? await fetchSegment(requestUrl, upstreamUrl, ctx, fetchUpstream)
+        : [await fetchUpstream(), 'BYPASS'];
+
     const contentType = upstream.headers.get('Content-Type') || '';
     const isPlaylist = contentType.includes('mpegurl') || upstreamUrl.pathname.endsWith('.m3u8');
 
@@ -161,6 +347,7 @@ async function handleVideoRequest(request: Request, requestUrl: URL): Promise<Re
       const rewritten = rewritePlaylist(playlist, requestUrl, upstreamUrl);
       const headers = new Headers(upstream.headers);
       headers.set('Content-Type', 'application/vnd.apple.mpegurl');
+      headers.set('X-Video-Cache', cacheStatus);
       headers.delete('Content-Length');
 
       return new Response(rewritten, {
@@ -170,6 +357,7 @@ async function handleVideoRequest(request: Request, requestUrl: URL): Promise<Re
     }
 
     const headers = new Headers(upstream.headers);
+    headers.set('X-Video-Cache', cacheStatus);
     if (upstreamUrl.pathname.endsWith('.ts')) {
       headers.set('Content-Type', 'video/mp2t');
     }
@@ -184,16 +372,93 @@ async function handleVideoRequest(request: Request, requestUrl: URL): Promise<Re
   }
 }
 
+async function fetchStreamPlaylist(upstreamUrl: URL): Promise<string> {
+  const [playlist] = await fetchPlaylist(upstreamUrl, () =>
+    fetch(upstreamUrl, {
+      headers: { Accept: 'application/vnd.apple.mpegurl, */*' },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(STREAM_PROBE_TIMEOUT_MS),
+    }),
+  );
+  if (playlist.status !== 200) throw new Error(`HTTP ${playlist.status}`);
+  return playlist.text;
+}
+
+async function probeStream(stream: string, previous: StreamProbe | undefined): Promise<StreamProbe> {
+  const now = Date.now();
+  const offline: StreamProbe = { status: 'offline', mediaSequence: null, advancedAt: previous?.advancedAt ?? 0 };
+
+  try {
+    const master = new URL(`https://${VIDEO_SERVER}/live/${encodeURIComponent(stream)}.stream/playlist.m3u8`);
+    let text = await fetchStreamPlaylist(master);
+    // Some streams publish a media playlist directly instead of a master with variants.
+    const variant = /^#EXT-X-STREAM-INF:.*\r?\n([^#\r\n][^\r\n]*)/m.exec(text);
+    if (variant) text = await fetchStreamPlaylist(new URL(variant[1].trim(), master));
+
+    if (!/^#EXTINF:/m.test(text) || /^#EXT-X-ENDLIST/m.test(text)) return offline;
+
+    const mediaSequence = Number(/^#EXT-X-MEDIA-SEQUENCE:(\d+)/m.exec(text)?.[1] ?? 0);
+    const targetDuration = Number(/^#EXT-X-TARGETDURATION:(\d+)/m.exec(text)?.[1]) || 10;
+    const advancedAt = previous?.mediaSequence === mediaSequence ? previous.advancedAt : now;
+    const stalled = now - advancedAt > targetDuration * 1000 * STALLED_TARGET_DURATIONS;
+    return { status: stalled ? 'stalled' : 'live', mediaSequence, advancedAt };
+  } catch {
+    return offline;
+  }
+}
+
+async function getStreamStatus(stream: string): Promise<StreamStatus> {
+  const now = Date.now();
+  const current = streamProbes.get(stream);
+  if (current && now - current.checkedAt < STREAM_STATUS_TTL_MS) return (await current.probe).status;
+
+  const previous = current ? await current.probe : undefined;
+  const probe = probeStream(stream, previous);
+  streamProbes.delete(stream);
+  streamProbes.set(stream, { probe, checkedAt: now });
+  if (streamProbes.size > MAX_TRACKED_SOURCES) streamProbes.delete(streamProbes.keys().next().value!);
+  return (await probe).status;
+}
+
+// `?streams=a,b` answers with the status of each named stream, so the app only offers streams that are running.
+async function handleStreamStatusRequest(request: Request, requestUrl: URL): Promise<Response> {
+  if (request.method !== 'GET') {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: { Allow: 'GET' },
+    });
+  }
+
+  const streams = [...new Set((requestUrl.searchParams.get('streams') ?? '').split(',').map((name) => name.trim()).filter(Boolean))];
+  if (!streams.length || streams.length > MAX_STATUS_STREAMS || streams.some((name) => !STREAM_NAME_PATTERN.test(name))) {
+    return new Response(`Expected 1 to ${MAX_STATUS_STREAMS} stream names`, { status: 400 });
+  }
+
+  const statuses = await Promise.all(streams.map(async (name) => [name, await getStreamStatus(name)] as const));
+  return Response.json(
+    { streams: Object.fromEntries(statuses) },
+    { headers: { 'Cache-Control': 'public, max-age=15' } },
+  );
+}
+
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: WorkerEnv, ctx: WorkerContext): Promise<Response> {
     const requestUrl = new URL(request.url);
 
     if (requestUrl.pathname === '/api/image') {
-      return handleImageRequest(request, requestUrl);
+      return handleImageRequest(request, requestUrl, env);
+    }
+
+    if (requestUrl.pathname === '/api/image/renditions') {
+      return handleImageRenditionsRequest(request, requestUrl, env);
+    }
+
+    if (requestUrl.pathname === '/api/streams') {
+      return handleStreamStatusRequest(request, requestUrl);
     }
 
     if (requestUrl.pathname === '/api/video') {
-      return handleVideoRequest(request, requestUrl);
+      return handleVideoRequest(request, requestUrl, ctx);
     }
 
     return new Response('Not found', { status: 404 });